@@ -3,7 +3,7 @@ import { View, StyleSheet, ScrollView, RefreshControl, Dimensions, Platform, Pre
 import { Text, Button, IconButton, Portal, Modal } from 'react-native-paper';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
-import { getBankAccount, BankAccount } from '../../lib/api/bank-accounts';
+import { getBankAccount, recomputeAccountBalance, BankAccount } from '../../lib/api/bank-accounts';
 import { getTransactions, Transaction } from '../../lib/api/transactions';
 import { 
   CreditCard, 
@@ -14,6 +14,9 @@ import {
   Pencil, 
   RefreshCw, 
   Download,
+  FileUp,
+  ClipboardCheck,
+  Link2,
   IndianRupee,
   Trash2
 } from 'lucide-react-native';
@@ -47,6 +50,8 @@ export default function BankAccountDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [recomputing, setRecomputing] = useState(false);
+  const [auditMessage, setAuditMessage] = useState<string | null>(null);
 
   const fetchData = async () => {
     if (!selectedBusiness || !id) return;
@@ -84,6 +89,26 @@ export default function BankAccountDetailPage() {
     await fetchData();
   };
 
+  const handleRecompute = async () => {
+    if (!id) return;
+
+    setRecomputing(true);
+    setAuditMessage(null);
+    const response = await recomputeAccountBalance(id);
+    setRecomputing(false);
+
+    if (response.error || !response.data) {
+      setError(response.error || 'Failed to recompute account balance');
+      return;
+    }
+
+    const drift = Number(response.data.recomputed_balance) - Number(response.data.previous_balance);
+    setAuditMessage(drift === 0
+      ? 'Current balance matches the opening balance and transactions'
+      : `Current balance was off by ${formatCurrency(drift)} and has been corrected`);
+    await fetchData();
+  };
+
   const handleDelete = async () => {
     if (!id) return;
 
@@ -151,16 +176,19 @@ export default function BankAccountDetailPage() {
     );
   }
 
+  // Transfer legs are recorded as deposits and withdrawals but reported separately
+  const isTransfer = (t: Transaction) => !!t.transfer_id || t.type === 'transfer';
+
   const totalDeposits = transactions
-    .filter(t => t.type === 'deposit')
+    .filter(t => t.type === 'deposit' && !isTransfer(t))
     .reduce((sum, t) => sum + Number(t.amount), 0);
 
   const totalWithdrawals = transactions
-    .filter(t => t.type === 'withdrawal')
+    .filter(t => t.type === 'withdrawal' && !isTransfer(t))
     .reduce((sum, t) => sum + Number(t.amount), 0);
 
   const totalTransfers = transactions
-    .filter(t => t.type === 'transfer')
+    .filter(isTransfer)
     .reduce((sum, t) => sum + Number(t.amount), 0);
 
   return (
@@ -182,6 +210,14 @@ export default function BankAccountDetailPage() {
             </View>
           </View>
           <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Link2 size={20} color="#ffffff" />}
+              onPress={() => router.push(`/banking/${id}/match` as any)}
+            />
+            <IconButton
+              icon={() => <ClipboardCheck size={20} color="#ffffff" />}
+              onPress={() => router.push(`/banking/${id}/reconcile` as any)}
+            />
             <IconButton
               icon={() => <Pencil size={20} color="#ffffff" />}
               onPress={() => router.push(`/banking/${id}/edit` as any)}
@@ -278,6 +314,19 @@ export default function BankAccountDetailPage() {
               <Text style={styles.detailLabel}>Current Balance</Text>
               <Text style={styles.detailValue}>{formatCurrency(Number(account.current_balance))}</Text>
             </View>
+            {auditMessage && (
+              <Text style={styles.auditText}>{auditMessage}</Text>
+            )}
+            <Button
+              mode="outlined"
+              onPress={handleRecompute}
+              loading={recomputing}
+              disabled={recomputing}
+              textColor="#4f46e5"
+              style={styles.recomputeButton}
+            >
+              Recompute from Opening Balance
+            </Button>
           </View>
         </View>
 
@@ -292,6 +341,10 @@ export default function BankAccountDetailPage() {
                   onPress={() => {}}
                 />
               )}
+              <IconButton
+                icon={() => <FileUp size={20} color="#4f46e5" />}
+                onPress={() => router.push(`/banking/${id}/import` as any)}
+              />
               <Button
                 mode="contained"
                 onPress={() => router.push(`/banking/${id}/transactions/new` as any)}
@@ -325,7 +378,7 @@ export default function BankAccountDetailPage() {
                   >
                     <View style={[styles.tableCellContainer, { flex: 1.2 }]}>
                       <View style={styles.transactionIcon}>
-                        {getTransactionIcon(transaction.type)}
+                        {getTransactionIcon(transaction.transfer_id ? 'transfer' : transaction.type)}
                       </View>
                       <Text style={styles.tableCellText} numberOfLines={1}>
                         {transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)}
@@ -521,6 +574,14 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     fontWeight: '500',
   },
+  auditText: {
+    fontSize: 13,
+    color: '#4338ca',
+  },
+  recomputeButton: {
+    borderColor: '#4f46e5',
+    alignSelf: 'flex-start',
+  },
   tableContainer: {
     gap: 8,
   },
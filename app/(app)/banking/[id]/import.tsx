@@ -0,0 +1,555 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform, Pressable } from 'react-native';
+import { Text, Button, Menu, Checkbox } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { getBankAccount, BankAccount } from '../../../lib/api/bank-accounts';
+import { getTransactions, importTransactions, Transaction } from '../../../lib/api/transactions';
+import {
+  StatementLine,
+  CsvColumnMapping,
+  ParsedCsv,
+  STATEMENT_DATE_FORMATS,
+  detectStatementFormat,
+  parseCsv,
+  parseOfx,
+  guessCsvMapping,
+  mapCsvRows,
+  findDuplicateLines,
+} from '../../../lib/statements';
+import { ArrowLeft, FileUp, ChevronDown, CircleAlert as AlertCircle } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+
+type Step = 'pick' | 'map' | 'preview';
+
+type MappedColumn = Exclude<keyof CsvColumnMapping, 'dateFormat'>;
+
+const MAPPED_COLUMNS: { key: MappedColumn; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'amount', label: 'Amount (signed)' },
+  { key: 'debit', label: 'Withdrawal / Debit' },
+  { key: 'credit', label: 'Deposit / Credit' },
+];
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+export default function ImportStatementPage() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [account, setAccount] = useState<BankAccount | null>(null);
+  const [existing, setExisting] = useState<Transaction[]>([]);
+  const [step, setStep] = useState<Step>('pick');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [openMenu, setOpenMenu] = useState<MappedColumn | 'dateFormat' | null>(null);
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [duplicates, setDuplicates] = useState<Set<number>>(new Set());
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadAccount();
+    }
+  }, [selectedBusiness, id]);
+
+  const loadAccount = async () => {
+    if (!selectedBusiness || !id) return;
+
+    const [accountResponse, transactionsResponse] = await Promise.all([
+      getBankAccount(id, selectedBusiness.id),
+      getTransactions(id, selectedBusiness.id)
+    ]);
+
+    if (accountResponse.error || transactionsResponse.error) {
+      setError(accountResponse.error || transactionsResponse.error);
+      return;
+    }
+
+    setAccount(accountResponse.data);
+    setExisting(transactionsResponse.data || []);
+  };
+
+  const showPreview = (parsed: StatementLine[]) => {
+    if (parsed.length === 0) {
+      setError('No transactions could be read from this statement');
+      return;
+    }
+
+    // Likely duplicates start unticked so a re-imported statement adds nothing by default
+    const found = findDuplicateLines(parsed, existing);
+    setLines(parsed);
+    setDuplicates(found);
+    setSelected(new Set(parsed.map((_, index) => index).filter(index => !found.has(index))));
+    setError(null);
+    setStep('preview');
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) return;
+
+      const file = result.assets[0];
+      const response = await fetch(file.uri);
+      const text = await response.text();
+      setFileName(file.name);
+
+      if (detectStatementFormat(file.name, text) === 'ofx') {
+        showPreview(parseOfx(text));
+        return;
+      }
+
+      const parsed = parseCsv(text);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('The file has no rows to import');
+        return;
+      }
+
+      setCsv(parsed);
+      setMapping(guessCsvMapping(parsed.headers));
+      setError(null);
+      setStep('map');
+    } catch (err: any) {
+      console.error('Error reading statement:', err);
+      setError('Failed to read the statement file');
+    }
+  };
+
+  const handleApplyMapping = () => {
+    if (!csv || !mapping) return;
+
+    if (mapping.date === null) {
+      setError('Choose the column that holds the transaction date');
+      return;
+    }
+    if (mapping.amount === null && mapping.debit === null && mapping.credit === null) {
+      setError('Choose an amount column, or the debit and credit columns');
+      return;
+    }
+
+    showPreview(mapCsvRows(csv.rows, mapping));
+  };
+
+  const toggleLine = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!selectedBusiness || !id) return;
+
+    setImporting(true);
+    const response = await importTransactions(
+      selectedBusiness.id,
+      id,
+      lines.filter((_, index) => selected.has(index))
+    );
+    setImporting(false);
+
+    if (response.error) {
+      setError(response.error);
+      return;
+    }
+
+    // Imported lines go straight to matching against recorded payments, receipts and bills
+    router.replace(`/banking/${id}/match` as any);
+  };
+
+  const renderColumnMenu = (column: MappedColumn, label: string) => {
+    if (!csv || !mapping) return null;
+
+    const current = mapping[column];
+
+    return (
+      <View key={column} style={styles.mappingRow}>
+        <Text style={styles.mappingLabel}>{label}</Text>
+        <Menu
+          visible={openMenu === column}
+          onDismiss={() => setOpenMenu(null)}
+          anchor={
+            <Button
+              mode="outlined"
+              onPress={() => setOpenMenu(column)}
+              style={styles.mappingButton}
+              contentStyle={styles.mappingButtonContent}
+            >
+              {current === null ? 'Not used' : csv.headers[current] || `Column ${current + 1}`}
+              <ChevronDown size={16} color="#64748b" />
+            </Button>
+          }
+        >
+          <Menu.Item
+            title="Not used"
+            onPress={() => {
+              setMapping({ ...mapping, [column]: null });
+              setOpenMenu(null);
+            }}
+          />
+          {csv.headers.map((header, index) => (
+            <Menu.Item
+              key={index}
+              title={header || `Column ${index + 1}`}
+              onPress={() => {
+                setMapping({ ...mapping, [column]: index });
+                setOpenMenu(null);
+              }}
+            />
+          ))}
+        </Menu>
+      </View>
+    );
+  };
+
+  const selectedLines = lines.filter((_, index) => selected.has(index));
+  const netAmount = selectedLines.reduce((sum, line) => sum + line.amount, 0);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Import Statement</Text>
+            <Text style={styles.headerSubtitle}>
+              {account ? account.name : 'CSV, OFX or QFX file'}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content}>
+        {error && (
+          <View style={styles.errorContainer}>
+            <AlertCircle size={20} color="#ef4444" />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Statement File</Text>
+          <Text style={styles.sectionDescription}>
+            {fileName || 'Download a statement from your bank as CSV, OFX or QFX and choose it here'}
+          </Text>
+          <Button
+            mode="contained"
+            icon={() => <FileUp size={20} color="#ffffff" />}
+            onPress={handlePickFile}
+            style={styles.primaryButton}
+          >
+            {fileName ? 'Choose Another File' : 'Choose File'}
+          </Button>
+        </View>
+
+        {step === 'map' && csv && mapping && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Map Columns</Text>
+            <Text style={styles.sectionDescription}>
+              Use a signed amount column, or separate withdrawal and deposit columns
+            </Text>
+
+            {MAPPED_COLUMNS.map(({ key, label }) => renderColumnMenu(key, label))}
+
+            <View style={styles.mappingRow}>
+              <Text style={styles.mappingLabel}>Date Format</Text>
+              <Menu
+                visible={openMenu === 'dateFormat'}
+                onDismiss={() => setOpenMenu(null)}
+                anchor={
+                  <Button
+                    mode="outlined"
+                    onPress={() => setOpenMenu('dateFormat')}
+                    style={styles.mappingButton}
+                    contentStyle={styles.mappingButtonContent}
+                  >
+                    {mapping.dateFormat}
+                    <ChevronDown size={16} color="#64748b" />
+                  </Button>
+                }
+              >
+                {STATEMENT_DATE_FORMATS.map(dateFormat => (
+                  <Menu.Item
+                    key={dateFormat}
+                    title={dateFormat}
+                    onPress={() => {
+                      setMapping({ ...mapping, dateFormat });
+                      setOpenMenu(null);
+                    }}
+                  />
+                ))}
+              </Menu>
+            </View>
+
+            {csv.rows[0] && (
+              <Text style={styles.sampleText} numberOfLines={2}>
+                First row: {csv.rows[0].join(' | ')}
+              </Text>
+            )}
+
+            <Button
+              mode="contained"
+              onPress={handleApplyMapping}
+              style={styles.primaryButton}
+            >
+              Preview Rows
+            </Button>
+          </View>
+        )}
+
+        {step === 'preview' && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              <Text style={styles.sectionMeta}>
+                {selected.size} of {lines.length} selected
+              </Text>
+            </View>
+            {duplicates.size > 0 && (
+              <Text style={styles.sectionDescription}>
+                {duplicates.size} row{duplicates.size === 1 ? '' : 's'} already recorded on this account and left unselected
+              </Text>
+            )}
+
+            {lines.map((line, index) => (
+              <Animated.View
+                key={index}
+                entering={FadeInUp.duration(300).delay(Math.min(index, 10) * 50)}
+              >
+                <Pressable style={styles.lineRow} onPress={() => toggleLine(index)}>
+                  <Checkbox.Android
+                    status={selected.has(index) ? 'checked' : 'unchecked'}
+                    onPress={() => toggleLine(index)}
+                    color="#4f46e5"
+                  />
+                  <View style={styles.lineDetails}>
+                    <Text style={styles.lineDescription} numberOfLines={1}>
+                      {line.description || 'No description'}
+                    </Text>
+                    <Text style={styles.lineDate}>
+                      {format(new Date(line.date), 'MMM dd, yyyy')}
+                      {duplicates.has(index) ? '  •  Possible duplicate' : ''}
+                    </Text>
+                  </View>
+                  <Text style={[
+                    styles.lineAmount,
+                    line.amount > 0 ? styles.amountPositive : styles.amountNegative
+                  ]}>
+                    {formatCurrency(line.amount)}
+                  </Text>
+                </Pressable>
+              </Animated.View>
+            ))}
+
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Net change to balance</Text>
+              <Text style={[styles.summaryValue, netAmount < 0 ? styles.amountNegative : styles.amountPositive]}>
+                {formatCurrency(netAmount)}
+              </Text>
+            </View>
+
+            <Button
+              mode="contained"
+              onPress={handleImport}
+              loading={importing}
+              disabled={importing || selected.size === 0}
+              style={styles.primaryButton}
+            >
+              {`Import ${selected.size} Transaction${selected.size === 1 ? '' : 's'}`}
+            </Button>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#4f46e5',
+    marginTop: 8,
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    color: '#1e293b',
+    flex: 1,
+  },
+  mappingButton: {
+    minWidth: 160,
+  },
+  mappingButtonContent: {
+    flexDirection: 'row-reverse',
+    justifyContent: 'space-between',
+  },
+  sampleText: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginVertical: 8,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 8,
+  },
+  lineDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  lineDescription: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  lineDate: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  amountPositive: {
+    color: '#059669',
+  },
+  amountNegative: {
+    color: '#dc2626',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+    gap: 8,
+  },
+  errorText: {
+    flex: 1,
+    color: '#ef4444',
+  },
+});
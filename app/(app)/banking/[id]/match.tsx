@@ -0,0 +1,500 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform } from 'react-native';
+import { Text, Button, IconButton, TextInput, Portal, Modal } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { Transaction } from '../../../lib/api/transactions';
+import { getUnreconciledTransactions } from '../../../lib/api/reconciliations';
+import {
+  MatchRuleListItem,
+  getMatchCandidates,
+  getMatchRules,
+  getRejectedMatches,
+  acceptMatch,
+  rejectMatch,
+  deleteMatchRule,
+} from '../../../lib/api/matching';
+import { MatchCandidate, MatchSuggestion, isUsableRulePattern, rejectionKey, suggestMatches, suggestRulePattern } from '../../../lib/matching';
+import { ArrowLeft, CircleAlert as AlertCircle, Check, X, Trash2 } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+
+const DOCUMENT_LABELS: Record<MatchCandidate['type'], string> = {
+  payment: 'Payment',
+  receipt: 'Receipt',
+  bill: 'Bill',
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+type PendingAccept = {
+  transaction: Transaction;
+  suggestion: MatchSuggestion;
+  rulePattern: string;
+};
+
+export default function MatchTransactionsPage() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+  const [rules, setRules] = useState<MatchRuleListItem[]>([]);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAccept | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [transactionsResponse, candidatesResponse, rulesResponse, rejectedResponse] = await Promise.all([
+        getUnreconciledTransactions(id, selectedBusiness.id),
+        getMatchCandidates(selectedBusiness.id, id),
+        getMatchRules(selectedBusiness.id),
+        getRejectedMatches(selectedBusiness.id)
+      ]);
+
+      if (transactionsResponse.error) throw new Error(transactionsResponse.error);
+      if (candidatesResponse.error) throw new Error(candidatesResponse.error);
+      if (rulesResponse.error) throw new Error(rulesResponse.error);
+      if (rejectedResponse.error) throw new Error(rejectedResponse.error);
+
+      // Only statement lines that are not yet tied to a document or a transfer need matching
+      setTransactions((transactionsResponse.data || []).filter(t => !t.reference_id && !t.transfer_id));
+      setCandidates(candidatesResponse.data || []);
+      setRules(rulesResponse.data || []);
+      setRejected(rejectedResponse.data || new Set());
+    } catch (err: any) {
+      console.error('Error loading matches:', err);
+      setError(err.message || 'Failed to load matches');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      fetchData();
+    }
+  }, [selectedBusiness, id]);
+
+  const suggestionsFor = (transaction: Transaction) =>
+    suggestMatches(transaction, candidates, rules, rejected);
+
+  const handleReject = async (transaction: Transaction, candidate: MatchCandidate) => {
+    if (!selectedBusiness) return;
+
+    const response = await rejectMatch(selectedBusiness.id, transaction.id, candidate.type, candidate.id);
+    if (response.error) {
+      setError(response.error);
+      return;
+    }
+
+    const next = new Set(rejected);
+    next.add(rejectionKey(transaction.id, candidate.type, candidate.id));
+    setRejected(next);
+  };
+
+  const handleConfirmAccept = async () => {
+    if (!pending || !selectedBusiness) return;
+
+    setSaving(true);
+    try {
+      const { transaction, suggestion, rulePattern } = pending;
+      const response = await acceptMatch(transaction.id, suggestion.candidate.type, suggestion.candidate.id, {
+        rulePattern: rulePattern.trim() || undefined
+      });
+
+      if (response.error) {
+        setError(response.error);
+        return;
+      }
+
+      setPending(null);
+      await fetchData();
+    } catch (err: any) {
+      console.error('Error accepting match:', err);
+      setError(err.message || 'Failed to accept match');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    const response = await deleteMatchRule(ruleId);
+    if (response.error) {
+      setError(response.error);
+      return;
+    }
+    setRules(prev => prev.filter(rule => rule.id !== ruleId));
+  };
+
+  const withSuggestions = transactions
+    .map(transaction => ({ transaction, suggestions: suggestionsFor(transaction) }))
+    .filter(entry => entry.suggestions.length > 0);
+
+  // A pattern with no letters or numbers would match every description
+  const rulePatternInvalid = !!pending?.rulePattern.trim() && !isUsableRulePattern(pending.rulePattern);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Match Transactions</Text>
+            <Text style={styles.headerSubtitle}>
+              {isLoading
+                ? 'Looking for matches...'
+                : `${withSuggestions.length} of ${transactions.length} unmatched have suggestions`}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content}>
+        {error && (
+          <View style={styles.errorContainer}>
+            <AlertCircle size={20} color="#ef4444" />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {!isLoading && withSuggestions.length === 0 && (
+          <View style={styles.section}>
+            <Text style={styles.emptyText}>
+              No suggestions right now. Record the payment, receipt or bill first, then come back to match it.
+            </Text>
+          </View>
+        )}
+
+        {withSuggestions.map(({ transaction, suggestions }, index) => (
+          <Animated.View
+            key={transaction.id}
+            entering={FadeInUp.duration(300).delay(Math.min(index, 10) * 50)}
+            style={styles.section}
+          >
+            <View style={styles.transactionHeader}>
+              <View style={styles.lineDetails}>
+                <Text style={styles.lineDescription} numberOfLines={2}>
+                  {transaction.description || 'No description'}
+                </Text>
+                <Text style={styles.lineDate}>
+                  {format(new Date(transaction.date), 'MMM dd, yyyy')}
+                </Text>
+              </View>
+              <Text style={[
+                styles.lineAmount,
+                transaction.type === 'deposit' ? styles.amountPositive : styles.amountNegative
+              ]}>
+                {transaction.type === 'deposit' ? '' : '-'}
+                {formatCurrency(Number(transaction.amount))}
+              </Text>
+            </View>
+
+            {suggestions.map(suggestion => (
+              <View key={`${suggestion.candidate.type}:${suggestion.candidate.id}`} style={styles.suggestionRow}>
+                <View style={styles.lineDetails}>
+                  <Text style={styles.suggestionTitle}>
+                    {DOCUMENT_LABELS[suggestion.candidate.type]} {suggestion.candidate.number}
+                    {suggestion.candidate.partyName ? ` · ${suggestion.candidate.partyName}` : ''}
+                  </Text>
+                  <Text style={styles.lineDate}>
+                    {format(new Date(suggestion.candidate.date), 'MMM dd, yyyy')}
+                    {' · '}
+                    {suggestion.candidate.type === 'bill' ? 'Due ' : ''}
+                    {formatCurrency(suggestion.candidate.amount)}
+                  </Text>
+                  <Text style={styles.reasonText}>{suggestion.reasons.join(' · ')}</Text>
+                </View>
+                <IconButton
+                  icon={() => <X size={18} color="#ef4444" />}
+                  onPress={() => handleReject(transaction, suggestion.candidate)}
+                />
+                <IconButton
+                  icon={() => <Check size={18} color="#059669" />}
+                  onPress={() => setPending({
+                    transaction,
+                    suggestion,
+                    rulePattern: suggestion.candidate.partyId
+                      ? suggestRulePattern(transaction.description, suggestion.candidate.partyName)
+                      : ''
+                  })}
+                />
+              </View>
+            ))}
+          </Animated.View>
+        ))}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Learned Rules</Text>
+          {rules.length === 0 ? (
+            <Text style={styles.emptyText}>Rules are learned as you accept matches</Text>
+          ) : (
+            rules.map(rule => (
+              <View key={rule.id} style={styles.ruleRow}>
+                <View style={styles.lineDetails}>
+                  <Text style={styles.lineDescription}>
+                    Contains “{rule.pattern}” → {rule.creditors?.name || rule.customers?.name || 'Unknown'}
+                  </Text>
+                  <Text style={styles.lineDate}>
+                    Confirmed {rule.hits} time{rule.hits === 1 ? '' : 's'}
+                  </Text>
+                </View>
+                <IconButton
+                  icon={() => <Trash2 size={18} color="#64748b" />}
+                  onPress={() => handleDeleteRule(rule.id)}
+                />
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={!!pending}
+          onDismiss={() => setPending(null)}
+          contentContainerStyle={styles.modal}
+        >
+          {pending && (
+            <>
+              <Text style={styles.modalTitle}>Accept Match</Text>
+              <Text style={styles.modalDescription}>
+                {pending.suggestion.candidate.type === 'bill'
+                  ? `A payment will be recorded against bill ${pending.suggestion.candidate.number} using this bank transaction.`
+                  : `This bank transaction becomes the bank entry for ${DOCUMENT_LABELS[pending.suggestion.candidate.type].toLowerCase()} ${pending.suggestion.candidate.number}.`}
+              </Text>
+              {pending.suggestion.candidate.partyId && (
+                <>
+                  <TextInput
+                    mode="outlined"
+                    label="Remember: description contains"
+                    value={pending.rulePattern}
+                    onChangeText={(text) => setPending({ ...pending, rulePattern: text })}
+                    error={rulePatternInvalid}
+                    style={styles.input}
+                  />
+                  <Text style={styles.helperText}>
+                    {rulePatternInvalid
+                      ? 'Include at least one letter or number, or clear it to skip.'
+                      : `Future transactions containing this text are matched to ${pending.suggestion.candidate.partyName}. Clear it to skip.`}
+                  </Text>
+                </>
+              )}
+              <View style={styles.modalActions}>
+                <Button
+                  mode="outlined"
+                  onPress={() => setPending(null)}
+                  style={styles.modalButton}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={handleConfirmAccept}
+                  loading={saving}
+                  disabled={saving || rulePatternInvalid}
+                  style={[styles.modalButton, styles.modalButtonConfirm]}
+                >
+                  Accept
+                </Button>
+              </View>
+            </>
+          )}
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  transactionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 8,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f8fafc',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  lineDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  lineDescription: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  lineDate: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  suggestionTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4338ca',
+  },
+  reasonText: {
+    fontSize: 11,
+    color: '#94a3b8',
+  },
+  amountPositive: {
+    color: '#059669',
+  },
+  amountNegative: {
+    color: '#dc2626',
+  },
+  input: {
+    marginBottom: 4,
+    backgroundColor: '#ffffff',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 16,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+    gap: 8,
+  },
+  errorText: {
+    flex: 1,
+    color: '#ef4444',
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    margin: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  modalButton: {
+    minWidth: 100,
+  },
+  modalButtonConfirm: {
+    backgroundColor: '#4f46e5',
+  },
+});
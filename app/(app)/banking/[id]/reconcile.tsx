@@ -0,0 +1,588 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform, Pressable } from 'react-native';
+import { Text, Button, TextInput, Checkbox, Portal, Modal } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { getBankAccount, BankAccount } from '../../../lib/api/bank-accounts';
+import { Transaction } from '../../../lib/api/transactions';
+import {
+  Reconciliation,
+  getReconciliations,
+  getUnreconciledTransactions,
+  completeReconciliation,
+  undoReconciliation,
+} from '../../../lib/api/reconciliations';
+import { ArrowLeft, CircleAlert as AlertCircle, Lock, IndianRupee, Calendar } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+// Compare money in paise so floating point sums do not leave a stray difference
+function toPaise(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export default function ReconcileAccountPage() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [account, setAccount] = useState<BankAccount | null>(null);
+  const [history, setHistory] = useState<Reconciliation[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [closingBalance, setClosingBalance] = useState('');
+  const [cleared, setCleared] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [undoTarget, setUndoTarget] = useState<Reconciliation | null>(null);
+
+  const fetchData = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [accountResponse, historyResponse, transactionsResponse] = await Promise.all([
+        getBankAccount(id, selectedBusiness.id),
+        getReconciliations(id, selectedBusiness.id),
+        getUnreconciledTransactions(id, selectedBusiness.id)
+      ]);
+
+      if (accountResponse.error) throw new Error(accountResponse.error);
+      if (historyResponse.error) throw new Error(historyResponse.error);
+      if (transactionsResponse.error) throw new Error(transactionsResponse.error);
+
+      setAccount(accountResponse.data);
+      setHistory(historyResponse.data || []);
+      setTransactions(transactionsResponse.data || []);
+      setCleared(new Set());
+    } catch (err: any) {
+      console.error('Error loading reconciliation:', err);
+      setError(err.message || 'Failed to load reconciliation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      fetchData();
+    }
+  }, [selectedBusiness, id]);
+
+  const lastReconciliation = history[0] || null;
+  const openingBalance = lastReconciliation
+    ? Number(lastReconciliation.closing_balance)
+    : Number(account?.opening_balance || 0);
+
+  // Only transactions up to the statement date can appear on the statement
+  const candidates = transactions.filter(t => t.date <= statementDate);
+
+  const clearedTransactions = candidates.filter(t => cleared.has(t.id));
+  const clearedDeposits = clearedTransactions
+    .filter(t => t.type === 'deposit')
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const clearedWithdrawals = clearedTransactions
+    .filter(t => t.type !== 'deposit')
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  const clearedBalance = openingBalance + clearedDeposits - clearedWithdrawals;
+  const statementBalance = parseFloat(closingBalance);
+  const difference = isNaN(statementBalance)
+    ? null
+    : (toPaise(statementBalance) - toPaise(clearedBalance)) / 100;
+
+  const dateIsValid = /^\d{4}-\d{2}-\d{2}$/.test(statementDate)
+    && (!lastReconciliation || statementDate > lastReconciliation.statement_date);
+
+  const toggleTransaction = (transactionId: string) => {
+    setCleared(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const handleComplete = async () => {
+    if (!id || difference !== 0 || !dateIsValid) return;
+
+    setSaving(true);
+    const response = await completeReconciliation(
+      id,
+      statementDate,
+      statementBalance,
+      clearedTransactions.map(t => t.id)
+    );
+    setSaving(false);
+
+    if (response.error) {
+      setError(response.error);
+      return;
+    }
+
+    setClosingBalance('');
+    await fetchData();
+  };
+
+  const handleUndo = async () => {
+    if (!undoTarget) return;
+
+    const response = await undoReconciliation(undoTarget.id);
+    setUndoTarget(null);
+
+    if (response.error) {
+      setError(response.error);
+      return;
+    }
+
+    await fetchData();
+  };
+
+  if (isLoading && !account) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Reconcile</Text>
+            <Text style={styles.headerSubtitle}>
+              {account ? account.name : 'Bank account'}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <Text style={styles.statLabel}>Cleared Balance</Text>
+            <Text style={styles.statValue}>{formatCurrency(clearedBalance)}</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statLabel}>Difference</Text>
+            <Text style={[styles.statValue, difference !== null && difference !== 0 && styles.statValueAlert]}>
+              {difference === null ? '—' : formatCurrency(difference)}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content}>
+        {error && (
+          <View style={styles.errorContainer}>
+            <AlertCircle size={20} color="#ef4444" />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Statement</Text>
+          <TextInput
+            mode="outlined"
+            label="Statement Closing Date"
+            value={statementDate}
+            onChangeText={setStatementDate}
+            error={!dateIsValid}
+            left={<TextInput.Icon icon={() => <Calendar size={20} color="#64748b" />} />}
+            style={styles.input}
+          />
+          {lastReconciliation && (
+            <Text style={styles.helperText}>
+              Reconciled through {format(new Date(lastReconciliation.statement_date), 'MMM dd, yyyy')}; the next statement must close after that
+            </Text>
+          )}
+          <TextInput
+            mode="outlined"
+            label="Statement Closing Balance"
+            value={closingBalance}
+            onChangeText={setClosingBalance}
+            keyboardType="numeric"
+            left={<TextInput.Icon icon={() => <IndianRupee size={20} color="#64748b" />} />}
+            style={styles.input}
+          />
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Opening balance</Text>
+            <Text style={styles.summaryValue}>{formatCurrency(openingBalance)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Cleared deposits</Text>
+            <Text style={[styles.summaryValue, styles.amountPositive]}>{formatCurrency(clearedDeposits)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Cleared withdrawals</Text>
+            <Text style={[styles.summaryValue, styles.amountNegative]}>{formatCurrency(clearedWithdrawals)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Transactions to Clear</Text>
+            <Text style={styles.sectionMeta}>
+              {clearedTransactions.length} of {candidates.length} ticked
+            </Text>
+          </View>
+
+          {candidates.length === 0 ? (
+            <Text style={styles.emptyText}>No unreconciled transactions up to this date</Text>
+          ) : (
+            candidates.map(transaction => (
+              <Pressable
+                key={transaction.id}
+                style={styles.lineRow}
+                onPress={() => toggleTransaction(transaction.id)}
+              >
+                <Checkbox.Android
+                  status={cleared.has(transaction.id) ? 'checked' : 'unchecked'}
+                  onPress={() => toggleTransaction(transaction.id)}
+                  color="#4f46e5"
+                />
+                <View style={styles.lineDetails}>
+                  <Text style={styles.lineDescription} numberOfLines={1}>
+                    {transaction.description || transaction.transaction_number || 'Transaction'}
+                  </Text>
+                  <Text style={styles.lineDate}>
+                    {format(new Date(transaction.date), 'MMM dd, yyyy')}
+                  </Text>
+                </View>
+                <Text style={[
+                  styles.lineAmount,
+                  transaction.type === 'deposit' ? styles.amountPositive : styles.amountNegative
+                ]}>
+                  {transaction.type === 'deposit' ? '' : '-'}
+                  {formatCurrency(Number(transaction.amount))}
+                </Text>
+              </Pressable>
+            ))
+          )}
+
+          <Button
+            mode="contained"
+            icon={() => <Lock size={18} color="#ffffff" />}
+            onPress={handleComplete}
+            loading={saving}
+            disabled={saving || difference !== 0 || !dateIsValid}
+            style={styles.primaryButton}
+          >
+            Finish Reconciliation
+          </Button>
+          <Text style={styles.helperText}>
+            Finishing locks every transaction on or before the statement date
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          {history.length === 0 ? (
+            <Text style={styles.emptyText}>This account has not been reconciled yet</Text>
+          ) : (
+            history.map((reconciliation, index) => (
+              <View key={reconciliation.id} style={styles.historyRow}>
+                <View style={styles.lineDetails}>
+                  <Text style={styles.lineDescription}>
+                    {format(new Date(reconciliation.statement_date), 'MMM dd, yyyy')}
+                  </Text>
+                  <Text style={styles.lineDate}>
+                    {formatCurrency(Number(reconciliation.opening_balance))} → {formatCurrency(Number(reconciliation.closing_balance))}
+                    {'  •  '}
+                    {reconciliation.cleared_count} cleared
+                  </Text>
+                </View>
+                {index === 0 && (
+                  <Button
+                    mode="text"
+                    textColor="#ef4444"
+                    onPress={() => setUndoTarget(reconciliation)}
+                  >
+                    Undo
+                  </Button>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={!!undoTarget}
+          onDismiss={() => setUndoTarget(null)}
+          contentContainerStyle={styles.modal}
+        >
+          <Text style={styles.modalTitle}>Undo Reconciliation</Text>
+          <Text style={styles.modalDescription}>
+            The transactions cleared on this statement will be unlocked and marked unreconciled again.
+          </Text>
+          <View style={styles.modalActions}>
+            <Button
+              mode="outlined"
+              onPress={() => setUndoTarget(null)}
+              style={styles.modalButton}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleUndo}
+              style={[styles.modalButton, styles.modalButtonDelete]}
+            >
+              Undo
+            </Button>
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statValueAlert: {
+    color: '#fecaca',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 8,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  lineDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  lineDescription: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  lineDate: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  amountPositive: {
+    color: '#059669',
+  },
+  amountNegative: {
+    color: '#dc2626',
+  },
+  primaryButton: {
+    backgroundColor: '#4f46e5',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 16,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+    gap: 8,
+  },
+  errorText: {
+    flex: 1,
+    color: '#ef4444',
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    margin: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 20,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  modalButton: {
+    minWidth: 100,
+  },
+  modalButtonDelete: {
+    backgroundColor: '#ef4444',
+  },
+});
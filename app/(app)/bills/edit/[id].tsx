@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BillForm } from '../../../components/bills/BillForm';
+import { fetchBill, BillWithLineItems } from '../../../lib/api/bills';
+
+export default function EditBillScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [bill, setBill] = useState<BillWithLineItems | null>(null);
+  const [fetchLoading, setFetchLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadBill();
+    }
+  }, [selectedBusiness, id]);
+
+  const loadBill = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      const data = await fetchBill(id, selectedBusiness.id);
+      setBill(data);
+    } catch (err) {
+      console.error('Error fetching bill:', err);
+      setError('Failed to load bill');
+    } finally {
+      setFetchLoading(false);
+    }
+  };
+
+  if (fetchLoading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading bill details...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Edit Bill</Text>
+            <Text style={styles.headerSubtitle}>
+              Update bill information
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      {bill ? (
+        <BillForm bill={bill} />
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>{error || 'Bill not found'}</Text>
+          <Button mode="contained" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,531 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable, Platform, TextInput } from 'react-native';
+import { Text, Button, SegmentedButtons, IconButton, Portal, Modal } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { FileText, Building2, IndianRupee, Clock, CircleAlert as AlertCircle, Search, Filter, Plus, ChevronRight } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { fetchBills, isBillOverdue, getBillBalance, BillListItem } from '../../lib/api/bills';
+import { BillStatusBadge } from '../../components/bills/BillStatusBadge';
+
+const AnimatedView = Animated.createAnimatedComponent(View);
+
+type StatusFilter = 'all' | 'PENDING' | 'PARTIAL' | 'OVERDUE' | 'PAID';
+
+export default function BillsScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [bills, setBills] = useState<BillListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showFilter, setShowFilter] = useState(false);
+
+  const loadBills = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const data = await fetchBills(selectedBusiness.id);
+      setBills(data);
+    } catch (err: any) {
+      console.error('Error fetching bills:', err);
+      setError('Failed to load bills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadBills();
+    }
+  }, [selectedBusiness]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadBills();
+    setRefreshing(false);
+  };
+
+  const filteredBills = bills.filter(bill => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      bill.bill_number.toLowerCase().includes(query) ||
+      (bill.creditors?.name || '').toLowerCase().includes(query);
+
+    if (!matchesSearch) return false;
+
+    switch (statusFilter) {
+      case 'OVERDUE':
+        return isBillOverdue(bill);
+      case 'PENDING':
+      case 'PARTIAL':
+        return bill.status === statusFilter && !isBillOverdue(bill);
+      case 'PAID':
+        return bill.status === 'PAID';
+      default:
+        return true;
+    }
+  });
+
+  const totalBilled = filteredBills.reduce((sum, bill) => sum + Number(bill.total_amount), 0);
+  const totalUnpaid = filteredBills
+    .filter(bill => bill.status !== 'PAID')
+    .reduce((sum, bill) => sum + getBillBalance(bill), 0);
+  const overdueCount = filteredBills.filter(isBillOverdue).length;
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view bills
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <FileText size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Bills</Text>
+              <Text style={styles.headerSubtitle}>Track what you owe suppliers</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Search size={20} color="#ffffff" />}
+              onPress={() => setShowSearch(true)}
+            />
+            <IconButton
+              icon={() => <Filter size={20} color="#ffffff" />}
+              onPress={() => setShowFilter(true)}
+            />
+            <IconButton
+              icon={() => <Plus size={20} color="#ffffff" />}
+              onPress={() => router.push('/bills/new')}
+            />
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <IndianRupee size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Billed</Text>
+              <Text style={styles.statValue}>₹{totalBilled.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Clock size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Unpaid</Text>
+              <Text style={styles.statValue}>₹{totalUnpaid.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <AlertCircle size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Overdue</Text>
+              <Text style={styles.statValue}>{overdueCount}</Text>
+            </View>
+          </View>
+        </View>
+
+        {showSearch && (
+          <View style={styles.searchContainer}>
+            <Search size={20} color="#94a3b8" strokeWidth={2.5} />
+            <TextInput
+              placeholder="Search bills..."
+              placeholderTextColor="#94a3b8"
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoFocus
+            />
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadBills}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.emptyState}>
+            <Text>Loading bills...</Text>
+          </View>
+        ) : filteredBills.length === 0 ? (
+          <View style={styles.emptyState}>
+            <FileText size={48} color="#64748B" strokeWidth={2.5} />
+            <Text style={styles.emptyTitle}>No Bills Found</Text>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery || statusFilter !== 'all' ? 'Try adjusting your search or filter' : 'Record your first supplier bill'}
+            </Text>
+            {!searchQuery && statusFilter === 'all' && (
+              <Button
+                mode="contained"
+                onPress={() => router.push('/bills/new')}
+                style={styles.emptyButton}
+              >
+                New Bill
+              </Button>
+            )}
+          </View>
+        ) : (
+          <View style={styles.tableContainer}>
+            <View style={styles.tableHeader}>
+              <View style={[styles.tableCell, { flex: 1 }]}>
+                <Text style={styles.tableHeaderText}>Bill</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 1.4 }]}>
+                <Text style={styles.tableHeaderText}>Creditor</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.9 }]}>
+                <Text style={styles.tableHeaderText}>Total</Text>
+              </View>
+            </View>
+            {filteredBills.map((bill, index) => (
+              <AnimatedView
+                key={bill.id}
+                entering={FadeInUp.duration(300).delay(index * 100)}
+                style={styles.billCard}
+              >
+                <Pressable
+                  onPress={() => router.push(`/bills/${bill.id}`)}
+                  style={({ pressed }) => [
+                    styles.billContent,
+                    pressed && styles.billPressed
+                  ]}
+                >
+                  <View style={[styles.tableCellStack, { flex: 1 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {bill.bill_number}
+                    </Text>
+                    <Text style={styles.tableCellSubtext}>
+                      {format(new Date(bill.issue_date), 'MMM dd, yyyy')}
+                    </Text>
+                  </View>
+                  <View style={[styles.tableCellStack, { flex: 1.4 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {bill.creditors?.name || 'Unknown Creditor'}
+                    </Text>
+                    <BillStatusBadge bill={bill} />
+                  </View>
+                  <View style={[styles.tableCell, { flex: 0.9 }]}>
+                    <Text style={styles.tableCellAmount}>
+                      ₹{Number(bill.total_amount).toLocaleString()}
+                    </Text>
+                  </View>
+                  <ChevronRight size={16} color="#64748b" style={styles.chevron} />
+                </Pressable>
+              </AnimatedView>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showFilter}
+          onDismiss={() => setShowFilter(false)}
+          style={styles.modal}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Filter by Status</Text>
+            <SegmentedButtons
+              value={statusFilter}
+              onValueChange={(value) => setStatusFilter(value as StatusFilter)}
+              buttons={[
+                { value: 'all', label: 'All' },
+                { value: 'PENDING', label: 'Pending' },
+                { value: 'PARTIAL', label: 'Partial' },
+                { value: 'OVERDUE', label: 'Overdue' },
+                { value: 'PAID', label: 'Paid' },
+              ]}
+              style={styles.statusFilter}
+            />
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#4f46e5',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#4f46e5',
+  },
+  tableContainer: {
+    gap: 8,
+    paddingBottom: 120,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  billCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  billContent: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  billPressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableCell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tableCellStack: {
+    gap: 4,
+  },
+  tableHeaderText: {
+    color: '#64748b',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  tableCellText: {
+    color: '#1e293b',
+    fontSize: 14,
+  },
+  tableCellSubtext: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  tableCellAmount: {
+    color: '#4f46e5',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  modal: {
+    margin: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  statusFilter: {
+    backgroundColor: '#ffffff',
+  },
+});
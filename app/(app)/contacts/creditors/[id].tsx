@@ -4,10 +4,13 @@ import { Text, Button, IconButton, Portal, Modal } from 'react-native-paper';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { supabase } from '@/lib/supabase';
-import { Users, Trash2, IndianRupee, AlertCircle } from 'lucide-react-native';
+import { Users, Trash2, IndianRupee, AlertCircle, ScrollText } from 'lucide-react-native';
 import { format } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { FadeInUp } from 'react-native-reanimated';
+import { BillStatus } from '../../../lib/api/bills';
+import { CreditorBalance, deleteCreditor, fetchCreditorBalance } from '../../../lib/api/payments';
+import { BillStatusBadge } from '../../../components/bills/BillStatusBadge';
 
 const AnimatedView = Animated.createAnimatedComponent(View);
 
@@ -36,17 +39,26 @@ interface Purchase {
   purchase_number: string;
   purchase_date: string;
   item_name: string;
-  quantity: number;
-  unit_price: number;
   total_price: number;
 }
 
+interface Bill {
+  id: string;
+  bill_number: string;
+  issue_date: string;
+  due_date: string;
+  total_amount: number;
+  status: BillStatus;
+}
+
 export default function CreditorDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const { selectedBusiness } = useBusiness();
   const [creditor, setCreditor] = useState<Creditor | null>(null);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [balance, setBalance] = useState<CreditorBalance | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -103,6 +115,19 @@ export default function CreditorDetailScreen() {
       if (purchaseError) throw purchaseError;
       setPurchases(purchaseData || []);
 
+      // Fetch related bills
+      const { data: billData, error: billError } = await supabase
+        .from('bills')
+        .select('id, bill_number, issue_date, due_date, total_amount, status')
+        .eq('creditor_id', id)
+        .eq('business_id', selectedBusiness.id)
+        .order('issue_date', { ascending: false });
+
+      if (billError) throw billError;
+      setBills(billData || []);
+
+      setBalance(await fetchCreditorBalance(id));
+
     } catch (err: any) {
       console.error('Error fetching creditor data:', err);
       setError('Failed to load creditor information');
@@ -112,15 +137,10 @@ export default function CreditorDetailScreen() {
   };
 
   const handleDelete = async () => {
-    if (!id) return;
+    if (!id || !selectedBusiness) return;
 
     try {
-      const { error } = await supabase
-        .from('creditors')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await deleteCreditor(id, selectedBusiness.id);
       router.back();
     } catch (err: any) {
       console.error('Error deleting creditor:', err);
@@ -155,9 +175,13 @@ export default function CreditorDetailScreen() {
     );
   }
 
-  const totalPurchases = purchases.reduce((sum, p) => sum + p.total_price, 0);
-  const totalPayments = payments.reduce((sum, p) => sum + p.amount, 0);
-  const outstanding = totalPurchases - totalPayments;
+  // The ledger view covers bills and the opening balance as well as purchases
+  const totalPurchases = balance
+    ? Number(balance.total_purchases) + Number(balance.total_bills)
+    : purchases.reduce((sum, p) => sum + p.total_price, 0);
+  const totalPayments = balance ? Number(balance.total_payments) : payments.reduce((sum, p) => sum + p.amount, 0);
+  const outstanding = balance ? Number(balance.outstanding_amount) : Number(creditor.outstanding_amount);
+  const openingBalance = balance ? Number(balance.opening_balance) : 0;
 
   return (
     <View style={styles.container}>
@@ -178,6 +202,10 @@ export default function CreditorDetailScreen() {
             </View>
           </View>
           <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <ScrollText size={20} color="#ffffff" />}
+              onPress={() => router.push(`/contacts/creditors/statement/${id}`)}
+            />
             <IconButton
               icon={() => <Trash2 size={20} color="#ffffff" />}
               onPress={() => setShowDeleteModal(true)}
@@ -199,7 +227,7 @@ export default function CreditorDetailScreen() {
           <Text style={styles.sectionTitle}>Financial Summary</Text>
           <View style={styles.statsContainer}>
             <View style={styles.statItem}>
-              <Text style={styles.statLabel}>Total Purchases</Text>
+              <Text style={styles.statLabel}>Purchases & Bills</Text>
               <Text style={styles.statValue}>
                 ₹{totalPurchases.toLocaleString()}
               </Text>
@@ -211,12 +239,17 @@ export default function CreditorDetailScreen() {
               </Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statLabel}>Outstanding</Text>
-              <Text style={[styles.statValue, styles.statValueWarning]}>
-                ₹{outstanding.toLocaleString()}
+              <Text style={styles.statLabel}>{outstanding < 0 ? 'Advance Paid' : 'Outstanding'}</Text>
+              <Text style={[styles.statValue, outstanding < 0 ? styles.statValueSuccess : styles.statValueWarning]}>
+                ₹{Math.abs(outstanding).toLocaleString()}
               </Text>
             </View>
           </View>
+          {openingBalance !== 0 && (
+            <Text style={styles.summaryNote}>
+              Includes an opening balance of ₹{openingBalance.toLocaleString()}
+            </Text>
+          )}
         </View>
 
         {/* Recent Payments */}
@@ -225,7 +258,7 @@ export default function CreditorDetailScreen() {
             <Text style={styles.sectionTitle}>Recent Payments</Text>
             <Button
               mode="contained"
-              onPress={() => router.push('/payments/new')}
+              onPress={() => router.push(`/payments/new?creditorId=${id}`)}
               style={styles.sectionButton}
             >
               New Payment
@@ -268,13 +301,62 @@ export default function CreditorDetailScreen() {
           )}
         </View>
 
+        {/* Recent Bills */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent Bills</Text>
+            <Button
+              mode="contained"
+              onPress={() => router.push(`/bills/new?creditorId=${id}`)}
+              style={styles.sectionButton}
+            >
+              New Bill
+            </Button>
+          </View>
+          {bills.length === 0 ? (
+            <Text style={styles.emptyText}>No bills found</Text>
+          ) : (
+            <View style={styles.tableContainer}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderCell, { flex: 1.2 }]}>Bill #</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 1 }]}>Due</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 1 }]}>Status</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 0.8 }]}>Total</Text>
+              </View>
+              {bills.slice(0, 5).map((bill) => (
+                <Pressable
+                  key={bill.id}
+                  onPress={() => router.push(`/bills/${bill.id}`)}
+                  style={({ pressed }) => [
+                    styles.tableRow,
+                    pressed && styles.tableRowPressed
+                  ]}
+                >
+                  <Text style={[styles.tableCell, { flex: 1.2 }]} numberOfLines={1}>
+                    {bill.bill_number}
+                  </Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]}>
+                    {format(new Date(bill.due_date), 'MMM dd, yyyy')}
+                  </Text>
+                  <View style={{ flex: 1 }}>
+                    <BillStatusBadge bill={bill} />
+                  </View>
+                  <Text style={[styles.tableCell, styles.tableCellAmount, { flex: 0.8 }]}>
+                    ₹{Number(bill.total_amount).toLocaleString()}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </View>
+
         {/* Recent Purchases */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Recent Purchases</Text>
             <Button
               mode="contained"
-              onPress={() => router.push('/purchases/new')}
+              onPress={() => router.push(`/purchases/new?creditorId=${id}`)}
               style={styles.sectionButton}
             >
               New Purchase
@@ -287,7 +369,7 @@ export default function CreditorDetailScreen() {
               <View style={styles.tableHeader}>
                 <Text style={[styles.tableHeaderCell, { flex: 1.2 }]}>Item</Text>
                 <Text style={[styles.tableHeaderCell, { flex: 0.8 }]}>Date</Text>
-                <Text style={[styles.tableHeaderCell, { flex: 0.6 }]}>Qty</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 0.6 }]}>No.</Text>
                 <Text style={[styles.tableHeaderCell, { flex: 0.8 }]}>Total</Text>
               </View>
               {purchases.slice(0, 5).map((purchase) => (
@@ -305,8 +387,8 @@ export default function CreditorDetailScreen() {
                   <Text style={[styles.tableCell, { flex: 0.8 }]}>
                     {format(new Date(purchase.purchase_date), 'MMM dd, yyyy')}
                   </Text>
-                  <Text style={[styles.tableCell, { flex: 0.6 }]}>
-                    {purchase.quantity}
+                  <Text style={[styles.tableCell, { flex: 0.6 }]} numberOfLines={1}>
+                    {purchase.purchase_number}
                   </Text>
                   <Text style={[styles.tableCell, styles.tableCellAmount, { flex: 0.8 }]}>
                     ₹{purchase.total_price.toLocaleString()}
@@ -484,6 +566,11 @@ const styles = StyleSheet.create({
   statValueWarning: {
     color: '#d97706',
   },
+  summaryNote: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
   tableContainer: {
     gap: 8,
   },
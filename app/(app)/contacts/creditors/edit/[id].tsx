@@ -4,21 +4,26 @@ import { Text, Button, IconButton } from 'react-native-paper';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { supabase } from '@/lib/supabase';
-import { Users, AtSign, Phone, MapPin, IndianRupee, ArrowLeft } from 'lucide-react-native';
+import { Users, AtSign, Phone, MapPin, Hash, IndianRupee, ArrowLeft } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { StatePicker } from '../../../../components/gst/StatePicker';
+import { isValidGstin, getStateFromGstin } from '../../../../lib/gst';
 
 interface FormData {
   name: string;
   email: string;
   phone: string;
   address: string;
-  outstandingAmount: string;
+  gstin: string;
+  stateCode: string;
+  openingBalance: string;
 }
 
 interface FormErrors {
   name?: string;
   email?: string;
-  outstandingAmount?: string;
+  gstin?: string;
+  openingBalance?: string;
   submit?: string;
 }
 
@@ -28,7 +33,9 @@ interface Creditor {
   email: string | null;
   phone: string | null;
   address: string | null;
-  outstanding_amount: number;
+  gstin: string | null;
+  state_code: string | null;
+  opening_balance: number;
 }
 
 export default function EditCreditorScreen() {
@@ -39,7 +46,9 @@ export default function EditCreditorScreen() {
     email: '',
     phone: '',
     address: '',
-    outstandingAmount: '0.00',
+    gstin: '',
+    stateCode: '',
+    openingBalance: '0.00',
   });
   const [errors, setErrors] = useState<FormErrors>({});
   const [loading, setLoading] = useState(false);
@@ -72,7 +81,9 @@ export default function EditCreditorScreen() {
           email: data.email || '',
           phone: data.phone || '',
           address: data.address || '',
-          outstandingAmount: data.outstanding_amount?.toString() || '0.00',
+          gstin: data.gstin || '',
+          stateCode: data.state_code || '',
+          openingBalance: data.opening_balance?.toString() || '0.00',
         });
       } else {
         router.back();
@@ -97,6 +108,15 @@ export default function EditCreditorScreen() {
     }
   };
 
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    const stateCode = getStateFromGstin(gstin);
+    setFormData(prev => ({ ...prev, gstin, stateCode: stateCode || prev.stateCode }));
+    if (errors.gstin) {
+      setErrors(prev => ({ ...prev, gstin: undefined }));
+    }
+  };
+
   const validateForm = () => {
     const newErrors: FormErrors = {};
 
@@ -108,10 +128,14 @@ export default function EditCreditorScreen() {
       newErrors.email = 'Email address is invalid';
     }
 
-    if (formData.outstandingAmount) {
-      const amount = parseFloat(formData.outstandingAmount);
+    if (formData.gstin.trim() && !isValidGstin(formData.gstin.trim())) {
+      newErrors.gstin = 'GSTIN is invalid';
+    }
+
+    if (formData.openingBalance) {
+      const amount = parseFloat(formData.openingBalance);
       if (isNaN(amount) || amount < 0) {
-        newErrors.outstandingAmount = 'Outstanding amount must be a valid positive number';
+        newErrors.openingBalance = 'Opening balance must be a valid positive number';
       }
     }
 
@@ -132,7 +156,9 @@ export default function EditCreditorScreen() {
           email: formData.email || null,
           phone: formData.phone || null,
           address: formData.address || null,
-          outstanding_amount: parseFloat(formData.outstandingAmount) || 0
+          gstin: formData.gstin.trim() || null,
+          state_code: formData.stateCode || null,
+          opening_balance: parseFloat(formData.openingBalance) || 0
         })
         .eq('id', id)
         .eq('business_id', selectedBusiness.id);
@@ -280,26 +306,61 @@ export default function EditCreditorScreen() {
             </View>
           </View>
 
-          {/* Outstanding Amount Field */}
+          {/* GSTIN Field */}
           <View style={styles.field}>
-            <Text style={styles.label}>Outstanding Amount</Text>
+            <Text style={styles.label}>GSTIN</Text>
+            <View style={styles.inputContainer}>
+              <Hash size={20} color="#94a3b8" style={styles.inputIcon} />
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.inputWithIcon,
+                  errors.gstin && styles.inputError
+                ]}
+                value={formData.gstin}
+                onChangeText={handleGstinChange}
+                placeholder="27ABCDE1234F1Z5"
+                placeholderTextColor="#94a3b8"
+                autoCapitalize="characters"
+                maxLength={15}
+              />
+            </View>
+            {errors.gstin && (
+              <Text style={styles.errorText}>{errors.gstin}</Text>
+            )}
+          </View>
+
+          {/* State Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>State</Text>
+            <StatePicker
+              value={formData.stateCode || null}
+              onChange={(stateCode) => handleChange('stateCode', stateCode || '')}
+              style={styles.statePicker}
+            />
+            <Text style={styles.hintText}>Used as the place of supply on this creditor's documents</Text>
+          </View>
+
+          {/* Opening Balance Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Opening Balance</Text>
             <View style={styles.inputContainer}>
               <IndianRupee size={20} color="#94a3b8" style={styles.inputIcon} />
               <TextInput
                 style={[
                   styles.input,
                   styles.inputWithIcon,
-                  errors.outstandingAmount && styles.inputError
+                  errors.openingBalance && styles.inputError
                 ]}
-                value={formData.outstandingAmount}
-                onChangeText={(value) => handleChange('outstandingAmount', value)}
+                value={formData.openingBalance}
+                onChangeText={(value) => handleChange('openingBalance', value)}
                 placeholder="0.00"
                 placeholderTextColor="#94a3b8"
                 keyboardType="decimal-pad"
               />
             </View>
-            {errors.outstandingAmount && (
-              <Text style={styles.errorText}>{errors.outstandingAmount}</Text>
+            {errors.openingBalance && (
+              <Text style={styles.errorText}>{errors.openingBalance}</Text>
             )}
           </View>
 
@@ -411,6 +472,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#ef4444',
   },
+  statePicker: {
+    backgroundColor: '#ffffff',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
   submitError: {
     fontSize: 14,
     color: '#ef4444',
@@ -4,10 +4,11 @@ import { Text, Button, FAB, SegmentedButtons, IconButton, Portal, Modal } from '
 import { router } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { supabase } from '@/lib/supabase';
-import { Users, Building2, Calendar, User, IndianRupee, TrendingUp, Wallet, Search, Filter, Plus, ChevronRight } from 'lucide-react-native';
+import { Users, Building2, Calendar, User, IndianRupee, TrendingUp, Wallet, Search, Filter, Plus, ChevronRight, RefreshCw, CalendarClock } from 'lucide-react-native';
 import { format } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { FadeInUp } from 'react-native-reanimated';
+import { recalculateCreditorBalances } from '../../../lib/api/payments';
 
 const AnimatedView = Animated.createAnimatedComponent(View);
 
@@ -32,6 +33,9 @@ export default function CreditorsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
+  const [showRecalculateModal, setShowRecalculateModal] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
 
   const fetchCreditors = async () => {
     if (!selectedBusiness) return;
@@ -60,6 +64,26 @@ export default function CreditorsScreen() {
     }
   }, [selectedBusiness]);
 
+  const handleRecalculate = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setRecalculating(true);
+      setError(null);
+      const corrected = await recalculateCreditorBalances(selectedBusiness.id);
+      setNotice(corrected === 0
+        ? 'All balances were already up to date'
+        : `Corrected ${corrected} ${corrected === 1 ? 'balance' : 'balances'}`);
+      await fetchCreditors();
+    } catch (err: any) {
+      console.error('Error recalculating balances:', err);
+      setError('Failed to recalculate balances');
+    } finally {
+      setRecalculating(false);
+      setShowRecalculateModal(false);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await fetchCreditors();
@@ -119,6 +143,14 @@ export default function CreditorsScreen() {
               icon={() => <Search size={20} color="#ffffff" />}
               onPress={() => setShowSearch(true)}
             />
+            <IconButton
+              icon={() => <CalendarClock size={20} color="#ffffff" />}
+              onPress={() => router.push('/reports/payables-ageing')}
+            />
+            <IconButton
+              icon={() => <RefreshCw size={20} color="#ffffff" />}
+              onPress={() => setShowRecalculateModal(true)}
+            />
             <IconButton
               icon={() => <Plus size={20} color="#ffffff" />}
               onPress={() => router.push('/contacts/creditors/new')}
@@ -195,6 +227,12 @@ export default function CreditorsScreen() {
           </View>
         )}
 
+        {notice && (
+          <View style={styles.noticeContainer}>
+            <Text style={styles.noticeText}>{notice}</Text>
+          </View>
+        )}
+
         {filteredCreditors.length === 0 ? (
           <View style={styles.emptyState}>
             <Users size={48} color="#64748B" strokeWidth={2.5} />
@@ -260,6 +298,37 @@ export default function CreditorsScreen() {
           </View>
         )}
       </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showRecalculateModal}
+          onDismiss={() => setShowRecalculateModal(false)}
+          contentContainerStyle={styles.modal}
+        >
+          <Text style={styles.modalTitle}>Recalculate Balances</Text>
+          <Text style={styles.modalDescription}>
+            Outstanding balances will be rebuilt from each creditor's opening balance, purchases, bills and payments.
+          </Text>
+          <View style={styles.modalActions}>
+            <Button
+              mode="outlined"
+              onPress={() => setShowRecalculateModal(false)}
+              style={styles.modalButton}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleRecalculate}
+              loading={recalculating}
+              disabled={recalculating}
+              style={[styles.modalButton, styles.modalButtonPrimary]}
+            >
+              Recalculate
+            </Button>
+          </View>
+        </Modal>
+      </Portal>
     </View>
   );
 }
@@ -461,4 +530,44 @@ const styles = StyleSheet.create({
   chevron: {
     marginLeft: 8,
   },
+  noticeContainer: {
+    backgroundColor: '#eef2ff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  noticeText: {
+    color: '#4338ca',
+    fontSize: 14,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    margin: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 20,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  modalButton: {
+    minWidth: 100,
+  },
+  modalButtonPrimary: {
+    backgroundColor: '#4f46e5',
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,647 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform, Pressable } from 'react-native';
+import { Text, Button, IconButton, Chip, TextInput, HelperText } from 'react-native-paper';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Building2, ScrollText, Download, FileDown } from 'lucide-react-native';
+import { format, parseISO, isValid, startOfQuarter, endOfQuarter, subQuarters, subYears } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchPayablesDocuments, PayablesDocuments } from '../../../../lib/api/payables';
+import {
+  buildCreditorStatement,
+  toCreditorStatementCsv,
+  toCreditorStatementDocument,
+  StatementEntry,
+} from '../../../../lib/payables';
+import { getFinancialYearRange, formatRange, DateRange } from '../../../../lib/profit-loss';
+import { renderReportHtml, getReportFileName } from '../../../../lib/documents';
+import { shareTextFile, sharePdf } from '../../../../lib/export';
+
+type PresetKey = 'thisQuarter' | 'lastQuarter' | 'thisYear' | 'lastYear';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function getPresetRange(preset: PresetKey, today: Date): DateRange {
+  switch (preset) {
+    case 'thisQuarter':
+      return { start: toDateString(startOfQuarter(today)), end: toDateString(endOfQuarter(today)) };
+    case 'lastQuarter': {
+      const lastQuarter = subQuarters(today, 1);
+      return { start: toDateString(startOfQuarter(lastQuarter)), end: toDateString(endOfQuarter(lastQuarter)) };
+    }
+    case 'thisYear':
+      return getFinancialYearRange(today);
+    case 'lastYear':
+      return getFinancialYearRange(subYears(today, 1));
+  }
+}
+
+const presets: { key: PresetKey; label: string }[] = [
+  { key: 'thisQuarter', label: 'This Quarter' },
+  { key: 'lastQuarter', label: 'Last Quarter' },
+  { key: 'thisYear', label: 'This FY' },
+  { key: 'lastYear', label: 'Last FY' },
+];
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export default function CreditorStatementScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { selectedBusiness } = useBusiness();
+  // Balances are agreed with suppliers once a quarter has closed
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('lastQuarter', new Date()));
+  const [preset, setPreset] = useState<PresetKey | null>('lastQuarter');
+  const [customStart, setCustomStart] = useState(range.start);
+  const [customEnd, setCustomEnd] = useState(range.end);
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<PayablesDocuments | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadDocuments = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      setError(null);
+      // Everything before the range is needed for the opening balance
+      const data = await fetchPayablesDocuments(selectedBusiness.id, id);
+      setDocuments(data);
+    } catch (err: any) {
+      console.error('Error fetching creditor statement:', err);
+      setError('Failed to load statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      setLoading(true);
+      loadDocuments();
+    }
+  }, [selectedBusiness, id]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDocuments();
+    setRefreshing(false);
+  };
+
+  const selectPreset = (key: PresetKey) => {
+    const next = getPresetRange(key, new Date());
+    setPreset(key);
+    setRange(next);
+    setCustomStart(next.start);
+    setCustomEnd(next.end);
+    setRangeError(null);
+  };
+
+  const applyCustomRange = () => {
+    if (!isDate(customStart) || !isDate(customEnd)) {
+      setRangeError('Enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (customStart > customEnd) {
+      setRangeError('The start date must be before the end date');
+      return;
+    }
+    setRangeError(null);
+    setPreset(null);
+    setRange({ start: customStart, end: customEnd });
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view creditor statements
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const creditor = documents?.creditors[0] ?? null;
+
+  if (!loading && documents && !creditor) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Creditor not found</Text>
+          <Button
+            mode="contained"
+            onPress={() => router.back()}
+            style={styles.emptyButton}
+          >
+            Back to Creditors
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const statement = documents && creditor ? buildCreditorStatement(documents, creditor, range) : null;
+
+  const exportCsv = async () => {
+    if (!statement) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toCreditorStatementDocument(statement);
+      await shareTextFile(getReportFileName(document, 'csv'), toCreditorStatementCsv(statement), 'text/csv');
+    } catch (err: any) {
+      console.error('Error exporting creditor statement:', err);
+      setError(err.message || 'Failed to export statement');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!statement) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toCreditorStatementDocument(statement);
+      await sharePdf(getReportFileName(document), renderReportHtml(selectedBusiness, document));
+    } catch (err: any) {
+      console.error('Error exporting creditor statement PDF:', err);
+      setError(err.message || 'Failed to create statement PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openEntry = (entry: StatementEntry) => {
+    if (entry.kind === 'PURCHASE') {
+      router.push(`/purchases/${entry.id}`);
+    } else if (entry.kind === 'BILL') {
+      router.push(`/bills/${entry.id}`);
+    } else {
+      router.push(`/payments/${entry.id}`);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Statement</Text>
+              <Text style={styles.headerSubtitle} numberOfLines={1}>
+                {creditor ? `${creditor.name} · ` : ''}{formatRange(range)}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.titleIcon}>
+            <ScrollText size={24} color="#ffffff" strokeWidth={2.5} />
+          </View>
+        </View>
+
+        {statement && (
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Opening</Text>
+              <Text style={styles.statValue}>{formatAmount(statement.openingBalance)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Paid</Text>
+              <Text style={styles.statValue}>{formatAmount(statement.totalPaid)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Closing</Text>
+              <Text style={styles.statValue}>{formatAmount(statement.closingBalance)}</Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        <View style={styles.presets}>
+          {presets.map(({ key, label }) => {
+            const selected = preset === key;
+            return (
+              <Chip
+                key={key}
+                compact
+                selected={selected}
+                showSelectedCheck={false}
+                onPress={() => selectPreset(key)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+              >
+                {label}
+              </Chip>
+            );
+          })}
+        </View>
+
+        <View style={styles.rangeRow}>
+          <TextInput
+            mode="outlined"
+            label="From"
+            value={customStart}
+            onChangeText={setCustomStart}
+            placeholder="YYYY-MM-DD"
+            dense
+            style={styles.rangeInput}
+          />
+          <TextInput
+            mode="outlined"
+            label="To"
+            value={customEnd}
+            onChangeText={setCustomEnd}
+            placeholder="YYYY-MM-DD"
+            dense
+            style={styles.rangeInput}
+          />
+          <Button mode="outlined" onPress={applyCustomRange} textColor="#4f46e5">
+            Apply
+          </Button>
+        </View>
+        {rangeError && (
+          <HelperText type="error">{rangeError}</HelperText>
+        )}
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadDocuments}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading || !statement ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : (
+          <View style={styles.reportContainer}>
+            <View style={styles.card}>
+              <View style={[styles.tableRow, styles.tableHeaderRow]}>
+                <Text style={[styles.headerCell, styles.labelHeaderCell]}>Particulars</Text>
+                <Text style={styles.headerCell}>Billed</Text>
+                <Text style={styles.headerCell}>Paid</Text>
+                <Text style={styles.headerCell}>Balance</Text>
+              </View>
+
+              <View style={[styles.tableRow, styles.balanceRow]}>
+                <View style={styles.labelCell}>
+                  <Text style={styles.balanceLabel}>Opening Balance</Text>
+                  <Text style={styles.entryMeta}>{format(parseISO(range.start), 'dd MMM yyyy')}</Text>
+                </View>
+                <Text style={styles.cell}>{''}</Text>
+                <Text style={styles.cell}>{''}</Text>
+                <Text style={[styles.cell, styles.strongCell]}>{formatAmount(statement.openingBalance)}</Text>
+              </View>
+
+              {statement.entries.length === 0 ? (
+                <Text style={styles.emptyText}>Nothing was recorded in this period</Text>
+              ) : (
+                statement.entries.map(entry => (
+                  <Pressable
+                    key={`${entry.kind}-${entry.id}`}
+                    onPress={() => openEntry(entry)}
+                    style={({ pressed }) => [styles.tableRow, pressed && styles.tableRowPressed]}
+                  >
+                    <View style={styles.labelCell}>
+                      <Text style={styles.entryTitle} numberOfLines={1}>{entry.number}</Text>
+                      <Text style={styles.entryMeta} numberOfLines={1}>
+                        {format(parseISO(entry.date), 'dd MMM yyyy')} · {entry.description}
+                      </Text>
+                    </View>
+                    <Text style={styles.cell}>{entry.billed ? formatAmount(entry.billed) : ''}</Text>
+                    <Text style={[styles.cell, styles.paidCell]}>{entry.paid ? formatAmount(entry.paid) : ''}</Text>
+                    <Text style={styles.cell}>{formatAmount(entry.balance)}</Text>
+                  </Pressable>
+                ))
+              )}
+
+              <View style={[styles.tableRow, styles.balanceRow]}>
+                <View style={styles.labelCell}>
+                  <Text style={styles.balanceLabel}>Closing Balance</Text>
+                  <Text style={styles.entryMeta}>{format(parseISO(range.end), 'dd MMM yyyy')}</Text>
+                </View>
+                <Text style={[styles.cell, styles.strongCell]}>{formatAmount(statement.totalBilled)}</Text>
+                <Text style={[styles.cell, styles.strongCell, styles.paidCell]}>{formatAmount(statement.totalPaid)}</Text>
+                <Text style={[styles.cell, styles.strongCell]}>{formatAmount(statement.closingBalance)}</Text>
+              </View>
+            </View>
+
+            <Text style={styles.noteText}>
+              {statement.closingBalance < 0
+                ? 'A negative balance is an advance paid to the creditor.'
+                : 'The balance is what is owed to the creditor.'}
+            </Text>
+
+            <View style={styles.exportRow}>
+              <Button
+                mode="outlined"
+                icon={() => <Download size={18} color="#4f46e5" />}
+                onPress={exportCsv}
+                disabled={exporting}
+                textColor="#4f46e5"
+                style={styles.exportButton}
+              >
+                CSV
+              </Button>
+              <Button
+                mode="contained"
+                icon={() => <FileDown size={18} color="#ffffff" />}
+                onPress={exportPdf}
+                loading={exporting}
+                disabled={exporting}
+                style={[styles.exportButton, styles.exportPdfButton]}
+              >
+                PDF
+              </Button>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  backButton: {
+    margin: 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipSelected: {
+    backgroundColor: '#4f46e5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  rangeInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  reportContainer: {
+    gap: 12,
+    paddingBottom: 120,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 4,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableRowPressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableHeaderRow: {
+    backgroundColor: '#f8fafc',
+  },
+  balanceRow: {
+    backgroundColor: '#eef2ff',
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+    textAlign: 'right',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  strongCell: {
+    fontWeight: '600',
+  },
+  paidCell: {
+    color: '#059669',
+  },
+  labelHeaderCell: {
+    flex: 1.6,
+    textAlign: 'left',
+  },
+  labelCell: {
+    flex: 1.6,
+    gap: 2,
+  },
+  balanceLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#3730a3',
+  },
+  entryTitle: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  entryMeta: {
+    fontSize: 11,
+    color: '#64748b',
+  },
+  noteText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  exportButton: {
+    flex: 1,
+  },
+  exportPdfButton: {
+    backgroundColor: '#4f46e5',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#4f46e5',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#4f46e5',
+  },
+});
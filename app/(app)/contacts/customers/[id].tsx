@@ -0,0 +1,550 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform, Pressable } from 'react-native';
+import { Text, Button, IconButton, Portal, Modal } from 'react-native-paper';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { supabase } from '@/lib/supabase';
+import { Users, Trash2, Pencil, AlertCircle } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { InvoiceStatus } from '../../../lib/api/invoices';
+import { InvoiceStatusBadge } from '../../../components/invoices/InvoiceStatusBadge';
+
+interface Customer {
+  id: string;
+  name: string;
+  receivable_amount: number;
+  created_at: string;
+}
+
+interface Invoice {
+  id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date: string;
+  total_amount: number;
+  status: InvoiceStatus;
+}
+
+interface Receipt {
+  id: string;
+  receipt_number: string;
+  receipt_date: string;
+  amount: number;
+  payment_method: string;
+}
+
+export default function CustomerDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { selectedBusiness } = useBusiness();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      fetchCustomerData();
+    }
+  }, [selectedBusiness, id]);
+
+  const fetchCustomerData = async () => {
+    if (!selectedBusiness || !id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Fetch customer details
+      const { data: customerData, error: customerError } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', id)
+        .eq('business_id', selectedBusiness.id)
+        .single();
+
+      if (customerError) throw customerError;
+      setCustomer(customerData);
+
+      // Fetch related invoices
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('id, invoice_number, invoice_date, due_date, total_amount, status')
+        .eq('customer_id', id)
+        .eq('business_id', selectedBusiness.id)
+        .order('invoice_date', { ascending: false });
+
+      if (invoiceError) throw invoiceError;
+      setInvoices(invoiceData || []);
+
+      // Fetch related receipts
+      const { data: receiptData, error: receiptError } = await supabase
+        .from('receipts')
+        .select('id, receipt_number, receipt_date, amount, payment_method')
+        .eq('customer_id', id)
+        .eq('business_id', selectedBusiness.id)
+        .order('receipt_date', { ascending: false });
+
+      if (receiptError) throw receiptError;
+      setReceipts(receiptData || []);
+
+    } catch (err: any) {
+      console.error('Error fetching customer data:', err);
+      setError('Failed to load customer information');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+
+    try {
+      const { error } = await supabase
+        .from('customers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      router.back();
+    } catch (err: any) {
+      console.error('Error deleting customer:', err);
+      setError('Failed to delete customer');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Customer not found</Text>
+          <Button 
+            mode="contained"
+            onPress={() => router.back()}
+            style={styles.emptyButton}
+          >
+            Back to Customers
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const billableInvoices = invoices.filter(i => i.status !== 'DRAFT' && i.status !== 'CANCELLED');
+  const totalInvoiced = billableInvoices.reduce((sum, i) => sum + Number(i.total_amount), 0);
+  const openInvoices = billableInvoices.filter(i => i.status !== 'PAID').length;
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <Users size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>{customer.name}</Text>
+              <Text style={styles.headerSubtitle}>Customer Details</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Pencil size={20} color="#ffffff" />}
+              onPress={() => router.push(`/contacts/customers/edit/${id}`)}
+            />
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteModal(true)}
+            />
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content}>
+        {error && (
+          <View style={styles.errorContainer}>
+            <AlertCircle size={20} color="#ef4444" />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {/* Financial Summary */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Financial Summary</Text>
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Total Invoiced</Text>
+              <Text style={styles.statValue}>
+                ₹{totalInvoiced.toLocaleString()}
+              </Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Open Invoices</Text>
+              <Text style={[styles.statValue, styles.statValueSuccess]}>
+                {openInvoices}
+              </Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Receivable</Text>
+              <Text style={[styles.statValue, styles.statValueWarning]}>
+                ₹{Number(customer.receivable_amount).toLocaleString()}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Recent Invoices */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent Invoices</Text>
+            <Button
+              mode="contained"
+              onPress={() => router.push(`/invoices/new?customerId=${id}`)}
+              style={styles.sectionButton}
+            >
+              New Invoice
+            </Button>
+          </View>
+          {invoices.length === 0 ? (
+            <Text style={styles.emptyText}>No invoices found</Text>
+          ) : (
+            <View style={styles.tableContainer}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderCell, { flex: 1.2 }]}>Invoice #</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 1 }]}>Date</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 1 }]}>Status</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 0.8 }]}>Total</Text>
+              </View>
+              {invoices.slice(0, 5).map((invoice) => (
+                <Pressable
+                  key={invoice.id}
+                  onPress={() => router.push(`/invoices/${invoice.id}`)}
+                  style={({ pressed }) => [
+                    styles.tableRow,
+                    pressed && styles.tableRowPressed
+                  ]}
+                >
+                  <Text style={[styles.tableCell, { flex: 1.2 }]} numberOfLines={1}>
+                    {invoice.invoice_number}
+                  </Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]}>
+                    {format(new Date(invoice.invoice_date), 'MMM dd, yyyy')}
+                  </Text>
+                  <View style={{ flex: 1 }}>
+                    <InvoiceStatusBadge invoice={invoice} />
+                  </View>
+                  <Text style={[styles.tableCell, styles.tableCellAmount, { flex: 0.8 }]}>
+                    ₹{Number(invoice.total_amount).toLocaleString()}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Recent Receipts */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent Receipts</Text>
+            <Button
+              mode="contained"
+              onPress={() => router.push(`/receipts/new?customerId=${id}`)}
+              style={styles.sectionButton}
+            >
+              Record Receipt
+            </Button>
+          </View>
+          {receipts.length === 0 ? (
+            <Text style={styles.emptyText}>No receipts found</Text>
+          ) : (
+            <View style={styles.tableContainer}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderCell, { flex: 1.2 }]}>Receipt #</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 1 }]}>Date</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 1 }]}>Method</Text>
+                <Text style={[styles.tableHeaderCell, { flex: 0.8 }]}>Amount</Text>
+              </View>
+              {receipts.slice(0, 5).map((receipt) => (
+                <Pressable
+                  key={receipt.id}
+                  onPress={() => router.push(`/receipts/${receipt.id}`)}
+                  style={({ pressed }) => [
+                    styles.tableRow,
+                    pressed && styles.tableRowPressed
+                  ]}
+                >
+                  <Text style={[styles.tableCell, { flex: 1.2 }]} numberOfLines={1}>
+                    {receipt.receipt_number}
+                  </Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]}>
+                    {format(new Date(receipt.receipt_date), 'MMM dd, yyyy')}
+                  </Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]} numberOfLines={1}>
+                    {receipt.payment_method}
+                  </Text>
+                  <Text style={[styles.tableCell, styles.tableCellAmount, { flex: 0.8 }]}>
+                    ₹{Number(receipt.amount).toLocaleString()}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showDeleteModal}
+          onDismiss={() => setShowDeleteModal(false)}
+          contentContainerStyle={styles.modal}
+        >
+          <Text style={styles.modalTitle}>Delete Customer</Text>
+          <Text style={styles.modalDescription}>
+            Are you sure you want to delete {customer.name}? This action cannot be undone.
+          </Text>
+          <View style={styles.modalActions}>
+            <Button
+              mode="outlined"
+              onPress={() => setShowDeleteModal(false)}
+              style={styles.modalButton}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleDelete}
+              style={[styles.modalButton, styles.modalButtonDelete]}
+            >
+              Delete
+            </Button>
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#d1fae5',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  emptyButton: {
+    backgroundColor: '#059669',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+    gap: 8,
+  },
+  errorText: {
+    flex: 1,
+    color: '#ef4444',
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  sectionButton: {
+    backgroundColor: '#059669',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  statItem: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  statValueSuccess: {
+    color: '#059669',
+  },
+  statValueWarning: {
+    color: '#d97706',
+  },
+  tableContainer: {
+    gap: 8,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  tableHeaderCell: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  tableRowPressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableCell: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  tableCellAmount: {
+    fontWeight: '600',
+    color: '#059669',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 16,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    margin: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 20,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  modalButton: {
+    minWidth: 100,
+  },
+  modalButtonDelete: {
+    backgroundColor: '#ef4444',
+  },
+}); 
\ No newline at end of file
@@ -0,0 +1,569 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform, Pressable, TextInput } from 'react-native';
+import { Text, Button, IconButton, Portal, Modal } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { supabase } from '@/lib/supabase';
+import { Users, Building2, IndianRupee, TrendingUp, Search, Plus, ChevronRight, RefreshCw } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { recalculateCustomerBalances } from '../../../lib/api/customers';
+
+const AnimatedView = Animated.createAnimatedComponent(View);
+
+interface Customer {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  receivable_amount: number;
+  created_at: string;
+}
+
+export default function CustomersScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showRecalculateModal, setShowRecalculateModal] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchCustomers = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('business_id', selectedBusiness.id)
+        .order('name');
+
+      if (fetchError) throw fetchError;
+      setCustomers(data || []);
+    } catch (err: any) {
+      console.error('Error fetching customers:', err);
+      setError('Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      fetchCustomers();
+    }
+  }, [selectedBusiness]);
+
+  const handleRecalculate = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setRecalculating(true);
+      setError(null);
+      const corrected = await recalculateCustomerBalances(selectedBusiness.id);
+      setNotice(corrected === 0
+        ? 'All balances were already up to date'
+        : `Corrected ${corrected} ${corrected === 1 ? 'balance' : 'balances'}`);
+      await fetchCustomers();
+    } catch (err: any) {
+      console.error('Error recalculating balances:', err);
+      setError('Failed to recalculate balances');
+    } finally {
+      setRecalculating(false);
+      setShowRecalculateModal(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchCustomers();
+    setRefreshing(false);
+  };
+
+  const filteredCustomers = customers.filter(customer => 
+    customer.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (customer.email?.toLowerCase().includes(searchQuery.toLowerCase()) || false) ||
+    (customer.phone?.toLowerCase().includes(searchQuery.toLowerCase()) || false)
+  );
+
+  const totalReceivable = filteredCustomers.reduce((sum, customer) => sum + customer.receivable_amount, 0);
+  const averageReceivable = filteredCustomers.length > 0 ? totalReceivable / filteredCustomers.length : 0;
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view customers
+          </Text>
+          <Button 
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <Users size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Customers</Text>
+              <Text style={styles.headerSubtitle}>Manage people who owe you money</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Search size={20} color="#ffffff" />}
+              onPress={() => setShowSearch(true)}
+            />
+            <IconButton
+              icon={() => <RefreshCw size={20} color="#ffffff" />}
+              onPress={() => setShowRecalculateModal(true)}
+            />
+            <IconButton
+              icon={() => <Plus size={20} color="#ffffff" />}
+              onPress={() => router.push('/contacts/customers/new')}
+            />
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <IndianRupee size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Total Receivable</Text>
+              <Text style={styles.statValue}>₹{totalReceivable.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <TrendingUp size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Average</Text>
+              <Text style={styles.statValue}>₹{averageReceivable.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Users size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Total Customers</Text>
+              <Text style={styles.statValue}>{filteredCustomers.length}</Text>
+            </View>
+          </View>
+        </View>
+
+        {showSearch && (
+          <View style={styles.searchContainer}>
+            <Search size={20} color="#94a3b8" strokeWidth={2.5} />
+            <TextInput
+              placeholder="Search customers..."
+              placeholderTextColor="#94a3b8"
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoFocus
+            />
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#059669"
+            colors={['#059669']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={fetchCustomers}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {notice && (
+          <View style={styles.noticeContainer}>
+            <Text style={styles.noticeText}>{notice}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.emptyState}>
+            <Text>Loading customers...</Text>
+          </View>
+        ) : filteredCustomers.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Users size={48} color="#64748B" strokeWidth={2.5} />
+            <Text style={styles.emptyTitle}>No Customers Found</Text>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery ? 'Try adjusting your search' : 'Start adding your customers'}
+            </Text>
+            {!searchQuery && (
+              <Button 
+                mode="contained"
+                onPress={() => router.push('/contacts/customers/new')}
+                style={styles.emptyButton}
+              >
+                Add Customer
+              </Button>
+            )}
+          </View>
+        ) : (
+          <View style={styles.tableContainer}>
+            <View style={styles.tableHeader}>
+              <View style={[styles.tableCell, { flex: 1.5 }]}>
+                <Text style={styles.tableHeaderText}>Name</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 1 }]}>
+                <Text style={styles.tableHeaderText}>Contact</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.8 }]}>
+                <Text style={styles.tableHeaderText}>Receivable</Text>
+              </View>
+            </View>
+            {filteredCustomers.map((customer, index) => (
+              <AnimatedView
+                key={customer.id}
+                entering={FadeInUp.duration(300).delay(index * 100)}
+                style={styles.customerCard}
+              >
+                <Pressable 
+                  onPress={() => router.push(`/contacts/customers/${customer.id}`)}
+                  style={({ pressed }) => [
+                    styles.customerContent,
+                    pressed && styles.customerPressed
+                  ]}
+                >
+                  <View style={[styles.tableCell, { flex: 1.5 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {customer.name}
+                    </Text>
+                  </View>
+                  <View style={[styles.tableCell, { flex: 1 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {customer.email || customer.phone || 'No contact'}
+                    </Text>
+                  </View>
+                  <View style={[styles.tableCell, { flex: 0.8 }]}>
+                    <Text style={styles.tableCellAmount}>
+                      ₹{customer.receivable_amount.toLocaleString()}
+                    </Text>
+                  </View>
+                  <ChevronRight size={16} color="#64748b" style={styles.chevron} />
+                </Pressable>
+              </AnimatedView>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showRecalculateModal}
+          onDismiss={() => setShowRecalculateModal(false)}
+          contentContainerStyle={styles.modal}
+        >
+          <Text style={styles.modalTitle}>Recalculate Balances</Text>
+          <Text style={styles.modalDescription}>
+            Receivable balances will be rebuilt from each customer's opening balance, invoices and receipts.
+          </Text>
+          <View style={styles.modalActions}>
+            <Button
+              mode="outlined"
+              onPress={() => setShowRecalculateModal(false)}
+              style={styles.modalButton}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleRecalculate}
+              loading={recalculating}
+              disabled={recalculating}
+              style={[styles.modalButton, styles.modalButtonPrimary]}
+            >
+              Recalculate
+            </Button>
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#d1fae5',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#d1fae5',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#059669',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#059669',
+  },
+  tableContainer: {
+    gap: 8,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  customerCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  customerContent: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  customerPressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableCell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tableHeaderText: {
+    color: '#64748b',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  tableCellText: {
+    color: '#1e293b',
+    fontSize: 14,
+  },
+  tableCellAmount: {
+    color: '#059669',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  noticeContainer: {
+    backgroundColor: '#ecfdf5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  noticeText: {
+    color: '#047857',
+    fontSize: 14,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    margin: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 20,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  modalButton: {
+    minWidth: 100,
+  },
+  modalButtonPrimary: {
+    backgroundColor: '#059669',
+  },
+}); 
\ No newline at end of file
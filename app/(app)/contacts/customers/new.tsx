@@ -0,0 +1,452 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Platform, TextInput } from 'react-native';
+import { Text, Button, IconButton } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { supabase } from '@/lib/supabase';
+import { AtSign, Phone, MapPin, Hash, IndianRupee, ArrowLeft } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StatePicker } from '../../../components/gst/StatePicker';
+import { isValidGstin, getStateFromGstin } from '../../../lib/gst';
+
+interface FormData {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  gstin: string;
+  stateCode: string;
+  openingBalance: string;
+}
+
+interface FormErrors {
+  name?: string;
+  email?: string;
+  gstin?: string;
+  openingBalance?: string;
+  submit?: string;
+}
+
+export default function NewCustomerScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [formData, setFormData] = useState<FormData>({
+    name: '',
+    email: '',
+    phone: '',
+    address: '',
+    gstin: '',
+    stateCode: '',
+    openingBalance: '0.00',
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (field: keyof FormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    // Clear error when field is edited
+    if (errors[field as keyof FormErrors]) {
+      setErrors(prev => ({ ...prev, [field as keyof FormErrors]: undefined }));
+    }
+  };
+
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    const stateCode = getStateFromGstin(gstin);
+    setFormData(prev => ({ ...prev, gstin, stateCode: stateCode || prev.stateCode }));
+    if (errors.gstin) {
+      setErrors(prev => ({ ...prev, gstin: undefined }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (formData.email && !/\S+@\S+\.\S+/.test(formData.email)) {
+      newErrors.email = 'Email address is invalid';
+    }
+
+    if (formData.gstin.trim() && !isValidGstin(formData.gstin.trim())) {
+      newErrors.gstin = 'GSTIN is invalid';
+    }
+
+    if (formData.openingBalance) {
+      const amount = parseFloat(formData.openingBalance);
+      if (isNaN(amount) || amount < 0) {
+        newErrors.openingBalance = 'Opening balance must be a valid positive number';
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('customers')
+        .insert({
+          business_id: selectedBusiness.id,
+          name: formData.name,
+          email: formData.email || null,
+          phone: formData.phone || null,
+          address: formData.address || null,
+          gstin: formData.gstin.trim() || null,
+          state_code: formData.stateCode || null,
+          opening_balance: parseFloat(formData.openingBalance) || 0
+        });
+
+      if (error) throw error;
+      router.back();
+    } catch (err: any) {
+      console.error('Error creating customer:', err);
+      setErrors(prev => ({
+        ...prev,
+        submit: 'Failed to create customer. Please try again.'
+      }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to add a customer
+          </Text>
+          <Button 
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Add New Customer</Text>
+              <Text style={styles.headerSubtitle}>Enter customer details</Text>
+            </View>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.form}>
+          {/* Name Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Name *</Text>
+            <TextInput
+              style={[
+                styles.input,
+                errors.name && styles.inputError
+              ]}
+              value={formData.name}
+              onChangeText={(value) => handleChange('name', value)}
+              placeholder="Individual or Company Name"
+              placeholderTextColor="#94a3b8"
+            />
+            {errors.name && (
+              <Text style={styles.errorText}>{errors.name}</Text>
+            )}
+          </View>
+
+          {/* Email Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Email</Text>
+            <View style={styles.inputContainer}>
+              <AtSign size={20} color="#94a3b8" style={styles.inputIcon} />
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.inputWithIcon,
+                  errors.email && styles.inputError
+                ]}
+                value={formData.email}
+                onChangeText={(value) => handleChange('email', value)}
+                placeholder="contact@example.com"
+                placeholderTextColor="#94a3b8"
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+            </View>
+            {errors.email && (
+              <Text style={styles.errorText}>{errors.email}</Text>
+            )}
+          </View>
+
+          {/* Phone Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Phone</Text>
+            <View style={styles.inputContainer}>
+              <Phone size={20} color="#94a3b8" style={styles.inputIcon} />
+              <TextInput
+                style={[styles.input, styles.inputWithIcon]}
+                value={formData.phone}
+                onChangeText={(value) => handleChange('phone', value)}
+                placeholder="+91 1234567890"
+                placeholderTextColor="#94a3b8"
+                keyboardType="phone-pad"
+              />
+            </View>
+          </View>
+
+          {/* Address Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Address</Text>
+            <View style={styles.inputContainer}>
+              <MapPin size={20} color="#94a3b8" style={styles.inputIcon} />
+              <TextInput
+                style={[styles.input, styles.inputWithIcon]}
+                value={formData.address}
+                onChangeText={(value) => handleChange('address', value)}
+                placeholder="123 Main St, City, State, PIN"
+                placeholderTextColor="#94a3b8"
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+          </View>
+
+          {/* GSTIN Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>GSTIN</Text>
+            <View style={styles.inputContainer}>
+              <Hash size={20} color="#94a3b8" style={styles.inputIcon} />
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.inputWithIcon,
+                  errors.gstin && styles.inputError
+                ]}
+                value={formData.gstin}
+                onChangeText={handleGstinChange}
+                placeholder="27ABCDE1234F1Z5"
+                placeholderTextColor="#94a3b8"
+                autoCapitalize="characters"
+                maxLength={15}
+              />
+            </View>
+            {errors.gstin && (
+              <Text style={styles.errorText}>{errors.gstin}</Text>
+            )}
+          </View>
+
+          {/* State Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>State</Text>
+            <StatePicker
+              value={formData.stateCode || null}
+              onChange={(stateCode) => handleChange('stateCode', stateCode || '')}
+              style={styles.statePicker}
+            />
+            <Text style={styles.hintText}>Used as the place of supply on this customer's documents</Text>
+          </View>
+
+          {/* Opening Balance Field */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Opening Balance</Text>
+            <View style={styles.inputContainer}>
+              <IndianRupee size={20} color="#94a3b8" style={styles.inputIcon} />
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.inputWithIcon,
+                  errors.openingBalance && styles.inputError
+                ]}
+                value={formData.openingBalance}
+                onChangeText={(value) => handleChange('openingBalance', value)}
+                placeholder="0.00"
+                placeholderTextColor="#94a3b8"
+                keyboardType="decimal-pad"
+              />
+            </View>
+            {errors.openingBalance && (
+              <Text style={styles.errorText}>{errors.openingBalance}</Text>
+            )}
+          </View>
+
+          {errors.submit && (
+            <Text style={styles.submitError}>{errors.submit}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={styles.cancelButton}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={loading}
+              style={styles.submitButton}
+            >
+              Create Customer
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    margin: 0,
+    marginRight: 8,
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#d1fae5',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  form: {
+    gap: 16,
+  },
+  field: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  inputIcon: {
+    marginRight: 8,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  inputWithIcon: {
+    height: 44,
+    paddingLeft: 0,
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+  },
+  statePicker: {
+    backgroundColor: '#ffffff',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  submitError: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  cancelButton: {
+    minWidth: 100,
+  },
+  submitButton: {
+    minWidth: 140,
+    backgroundColor: '#059669',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  emptyButton: {
+    backgroundColor: '#059669',
+  },
+}); 
\ No newline at end of file
@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { format } from 'date-fns';
+import { Calendar, Wallet, Trash2, CircleAlert as AlertCircle, Pencil, IndianRupee, ArrowLeft } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { LinearGradient } from 'expo-linear-gradient';
+import { deleteExpense, fetchExpense, ExpenseWithDetails } from '../../lib/api/expenses';
+import { RecordAttachments } from '../../components/attachments/RecordAttachments';
+
+export default function ExpenseDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [expense, setExpense] = useState<ExpenseWithDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  const loadExpense = async () => {
+    if (!selectedBusiness || !id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await fetchExpense(id, selectedBusiness.id);
+      setExpense(data);
+    } catch (err: any) {
+      console.error('Error fetching expense:', err);
+      setError('Failed to load expense details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadExpense();
+    }
+  }, [selectedBusiness, id]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadExpense();
+    setRefreshing(false);
+  };
+
+  const handleDelete = async () => {
+    if (!expense) return;
+
+    try {
+      // Removes the linked withdrawal and the receipt photos
+      await deleteExpense(expense.id);
+      setShowDeleteDialog(false);
+      router.replace('/expenses');
+    } catch (err: any) {
+      console.error('Error deleting expense:', err);
+      setShowDeleteDialog(false);
+      setError('Failed to delete expense');
+    }
+  };
+
+  if (loading && !expense) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading expense details...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!expense) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyContainer}>
+          <AlertCircle size={48} color="#ef4444" />
+          <Text style={styles.emptyText}>{error || 'Expense not found'}</Text>
+          <Button mode="contained" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#ea580c', '#c2410c']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Expense Details</Text>
+            <Text style={styles.headerSubtitle}>
+              {expense.expense_categories?.name || 'Uncategorised'}
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Pencil size={20} color="#ffffff" />}
+              onPress={() => router.push(`/expenses/edit/${expense.id}`)}
+              iconColor="#ffffff"
+            />
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteDialog(true)}
+              iconColor="#ffffff"
+            />
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Wallet size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Expense Number</Text>
+              <Text style={styles.statValue}>{expense.expense_number}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <IndianRupee size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Amount</Text>
+              <Text style={styles.statValue}>₹{Number(expense.amount).toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Calendar size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Expense Date</Text>
+              <Text style={styles.statValue}>
+                {format(new Date(expense.expense_date), 'MMM dd, yyyy')}
+              </Text>
+            </View>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Paid From</Text>
+            <Text style={styles.sectionValue}>
+              {expense.bank_accounts
+                ? `${expense.bank_accounts.name} (${expense.bank_accounts.account_type})`
+                : 'Unknown account'}
+            </Text>
+          </View>
+        </Animated.View>
+
+        {expense.payee && (
+          <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Paid To</Text>
+              <Text style={styles.sectionValue}>{expense.payee}</Text>
+            </View>
+          </Animated.View>
+        )}
+
+        {expense.reference && (
+          <Animated.View entering={FadeInDown.duration(300).delay(300)}>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Reference</Text>
+              <Text style={styles.sectionValue}>{expense.reference}</Text>
+            </View>
+          </Animated.View>
+        )}
+
+        {expense.notes && (
+          <Animated.View entering={FadeInDown.duration(300).delay(400)}>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Notes</Text>
+              <Text style={styles.sectionValue}>{expense.notes}</Text>
+            </View>
+          </Animated.View>
+        )}
+
+        {selectedBusiness && (
+          <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+            <RecordAttachments
+              businessId={selectedBusiness.id}
+              recordType="EXPENSE"
+              recordId={expense.id}
+              title="Receipts"
+              color="#ea580c"
+              style={styles.section}
+            />
+          </Animated.View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
+          <Dialog.Title>Delete Expense</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              The withdrawal will be removed, the account balance restored and the receipt photos deleted. This action cannot be undone.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDeleteDialog(false)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ffedd5',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#ffedd5',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    margin: 16,
+    padding: 16,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  sectionValue: {
+    fontSize: 16,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+});
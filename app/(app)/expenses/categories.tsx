@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform } from 'react-native';
+import { Text, Button, IconButton, TextInput, HelperText, Portal, Dialog } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Pencil, Trash2, Plus } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import {
+  ExpenseCategory,
+  createExpenseCategory,
+  deleteExpenseCategory,
+  fetchExpenseCategories,
+  renameExpenseCategory,
+} from '../../lib/api/expenses';
+
+// Postgres reports a duplicate name as a unique violation and a category
+// still used by expenses as a foreign key violation
+const describeError = (err: any, fallback: string) => {
+  if (err?.code === '23505') return 'A category with this name already exists';
+  if (err?.code === '23503') return 'This category is used by expenses and cannot be deleted';
+  return fallback;
+};
+
+export default function ExpenseCategoriesScreen() {
+  const { selectedBusiness } = useBusiness();
+
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [editing, setEditing] = useState<ExpenseCategory | null>(null);
+  const [editName, setEditName] = useState('');
+  const [deleting, setDeleting] = useState<ExpenseCategory | null>(null);
+
+  const loadCategories = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      setCategories(await fetchExpenseCategories(selectedBusiness.id));
+    } catch (err) {
+      console.error('Error fetching expense categories:', err);
+      setError('Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadCategories();
+    }
+  }, [selectedBusiness]);
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!selectedBusiness || !name) return;
+
+    setAdding(true);
+    try {
+      setError(null);
+      await createExpenseCategory(selectedBusiness.id, name);
+      setNewName('');
+      await loadCategories();
+    } catch (err) {
+      console.error('Error creating expense category:', err);
+      setError(describeError(err, 'Failed to add category'));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRename = async () => {
+    const name = editName.trim();
+    if (!editing || !name) return;
+
+    try {
+      setError(null);
+      await renameExpenseCategory(editing.id, name);
+      setEditing(null);
+      await loadCategories();
+    } catch (err) {
+      console.error('Error renaming expense category:', err);
+      setEditing(null);
+      setError(describeError(err, 'Failed to rename category'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setError(null);
+      await deleteExpenseCategory(deleting.id);
+      setDeleting(null);
+      await loadCategories();
+    } catch (err) {
+      console.error('Error deleting expense category:', err);
+      setDeleting(null);
+      setError(describeError(err, 'Failed to delete category'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#ea580c', '#c2410c']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Expense Categories</Text>
+            <Text style={styles.headerSubtitle}>
+              How running costs are grouped in reports
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.addRow}>
+          <TextInput
+            mode="outlined"
+            label="New Category"
+            value={newName}
+            onChangeText={setNewName}
+            onSubmitEditing={handleAdd}
+            style={styles.addInput}
+          />
+          <Button
+            mode="contained"
+            onPress={handleAdd}
+            loading={adding}
+            disabled={adding || !newName.trim()}
+            buttonColor="#ea580c"
+            icon={() => <Plus size={18} color="#ffffff" />}
+          >
+            Add
+          </Button>
+        </View>
+
+        {error && (
+          <HelperText type="error" style={styles.errorText}>{error}</HelperText>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text>Loading categories...</Text>
+          </View>
+        ) : (
+          <View style={styles.list}>
+            {categories.map((category, index) => (
+              <Animated.View
+                key={category.id}
+                entering={FadeInUp.duration(300).delay(index * 50)}
+                style={styles.categoryRow}
+              >
+                <Text style={styles.categoryName}>{category.name}</Text>
+                <IconButton
+                  icon={() => <Pencil size={18} color="#64748b" />}
+                  onPress={() => {
+                    setEditing(category);
+                    setEditName(category.name);
+                  }}
+                />
+                <IconButton
+                  icon={() => <Trash2 size={18} color="#ef4444" />}
+                  onPress={() => setDeleting(category)}
+                />
+              </Animated.View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={!!editing} onDismiss={() => setEditing(null)}>
+          <Dialog.Title>Rename Category</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              mode="outlined"
+              label="Name"
+              value={editName}
+              onChangeText={setEditName}
+              autoFocus
+            />
+            <Text style={styles.dialogHint}>
+              Expenses already filed under this category move with it
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setEditing(null)}>Cancel</Button>
+            <Button onPress={handleRename} disabled={!editName.trim()}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!deleting} onDismiss={() => setDeleting(null)}>
+          <Dialog.Title>Delete Category</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Delete "{deleting?.name}"? Categories with expenses filed under them cannot be deleted.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeleting(null)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ffedd5',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  addInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  errorText: {
+    marginTop: 4,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  list: {
+    marginTop: 16,
+    gap: 8,
+    paddingBottom: 120,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+    paddingLeft: 16,
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1e293b',
+  },
+  dialogHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+});
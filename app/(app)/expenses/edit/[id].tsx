@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Trash2 } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ExpenseForm } from '../../../components/expenses/ExpenseForm';
+import { fetchExpense, deleteExpense, ExpenseWithDetails } from '../../../lib/api/expenses';
+
+export default function EditExpenseScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [expense, setExpense] = useState<ExpenseWithDetails | null>(null);
+  const [fetchLoading, setFetchLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadExpense();
+    }
+  }, [selectedBusiness, id]);
+
+  const loadExpense = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      const data = await fetchExpense(id, selectedBusiness.id);
+      setExpense(data);
+    } catch (err) {
+      console.error('Error fetching expense:', err);
+      setError('Failed to load expense');
+    } finally {
+      setFetchLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+
+    try {
+      // The withdrawal goes with the expense and the account balance is restored
+      await deleteExpense(id);
+      setShowDeleteDialog(false);
+      router.replace('/expenses');
+    } catch (err) {
+      console.error('Error deleting expense:', err);
+      setShowDeleteDialog(false);
+      setError('Failed to delete expense');
+    }
+  };
+
+  if (fetchLoading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading expense details...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#ea580c', '#c2410c']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Edit Expense</Text>
+            <Text style={styles.headerSubtitle}>
+              {expense
+                ? `${expense.expense_number} · ${expense.expense_categories?.name ?? 'Uncategorised'}`
+                : 'Update expense information'}
+            </Text>
+          </View>
+          {expense && (
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteDialog(true)}
+            />
+          )}
+        </View>
+      </LinearGradient>
+
+      {expense ? (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {error && (
+            <Text style={[styles.errorText, styles.inlineError]}>{error}</Text>
+          )}
+          <ExpenseForm expense={expense} />
+        </ScrollView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>{error || 'Expense not found'}</Text>
+          <Button mode="contained" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      )}
+
+      <Portal>
+        <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
+          <Dialog.Title>Delete Expense</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              The withdrawal will be removed, the account balance restored and the receipt photos deleted.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDeleteDialog(false)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ffedd5',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  inlineError: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,531 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable, Platform, TextInput } from 'react-native';
+import { Text, Button, SegmentedButtons, IconButton, Portal, Modal } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { Wallet, Building2, IndianRupee, Calendar, Hash, Search, Filter, Plus, ChevronRight, Tags } from 'lucide-react-native';
+import { format, startOfMonth, startOfYear } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { fetchExpenses, ExpenseWithDetails } from '../../lib/api/expenses';
+
+const AnimatedView = Animated.createAnimatedComponent(View);
+
+type PeriodFilter = 'all' | 'month' | 'year';
+
+export default function ExpensesScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [expenses, setExpenses] = useState<ExpenseWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [periodFilter, setPeriodFilter] = useState<PeriodFilter>('all');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showFilter, setShowFilter] = useState(false);
+
+  const loadExpenses = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const data = await fetchExpenses(selectedBusiness.id);
+      setExpenses(data);
+    } catch (err: any) {
+      console.error('Error fetching expenses:', err);
+      setError('Failed to load expenses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadExpenses();
+    }
+  }, [selectedBusiness]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadExpenses();
+    setRefreshing(false);
+  };
+
+  const periodStart = periodFilter === 'month'
+    ? format(startOfMonth(new Date()), 'yyyy-MM-dd')
+    : periodFilter === 'year'
+      ? format(startOfYear(new Date()), 'yyyy-MM-dd')
+      : null;
+
+  const filteredExpenses = expenses.filter(expense => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      expense.expense_number.toLowerCase().includes(query) ||
+      (expense.expense_categories?.name || '').toLowerCase().includes(query) ||
+      (expense.payee || '').toLowerCase().includes(query) ||
+      (expense.reference || '').toLowerCase().includes(query);
+
+    if (!matchesSearch) return false;
+    return !periodStart || expense.expense_date >= periodStart;
+  });
+
+  const totalSpent = filteredExpenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+  const monthStart = format(startOfMonth(new Date()), 'yyyy-MM-dd');
+  const spentThisMonth = expenses
+    .filter(expense => expense.expense_date >= monthStart)
+    .reduce((sum, expense) => sum + Number(expense.amount), 0);
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view expenses
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#ea580c', '#c2410c']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <Wallet size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Expenses</Text>
+              <Text style={styles.headerSubtitle}>Running costs of the business</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Search size={20} color="#ffffff" />}
+              onPress={() => setShowSearch(true)}
+            />
+            <IconButton
+              icon={() => <Filter size={20} color="#ffffff" />}
+              onPress={() => setShowFilter(true)}
+            />
+            <IconButton
+              icon={() => <Tags size={20} color="#ffffff" />}
+              onPress={() => router.push('/expenses/categories')}
+            />
+            <IconButton
+              icon={() => <Plus size={20} color="#ffffff" />}
+              onPress={() => router.push('/expenses/new')}
+            />
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <IndianRupee size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Spent</Text>
+              <Text style={styles.statValue}>₹{totalSpent.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Calendar size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>This Month</Text>
+              <Text style={styles.statValue}>₹{spentThisMonth.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Hash size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Count</Text>
+              <Text style={styles.statValue}>{filteredExpenses.length}</Text>
+            </View>
+          </View>
+        </View>
+
+        {showSearch && (
+          <View style={styles.searchContainer}>
+            <Search size={20} color="#94a3b8" strokeWidth={2.5} />
+            <TextInput
+              placeholder="Search expenses..."
+              placeholderTextColor="#94a3b8"
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoFocus
+            />
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#ea580c"
+            colors={['#ea580c']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadExpenses}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.emptyState}>
+            <Text>Loading expenses...</Text>
+          </View>
+        ) : filteredExpenses.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Wallet size={48} color="#64748B" strokeWidth={2.5} />
+            <Text style={styles.emptyTitle}>No Expenses Found</Text>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery || periodFilter !== 'all' ? 'Try adjusting your search or filter' : 'Record rent, utilities, fuel and other running costs'}
+            </Text>
+            {!searchQuery && periodFilter === 'all' && (
+              <Button
+                mode="contained"
+                onPress={() => router.push('/expenses/new')}
+                style={styles.emptyButton}
+              >
+                Record Expense
+              </Button>
+            )}
+          </View>
+        ) : (
+          <View style={styles.tableContainer}>
+            <View style={styles.tableHeader}>
+              <View style={[styles.tableCell, { flex: 1 }]}>
+                <Text style={styles.tableHeaderText}>Expense</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 1.4 }]}>
+                <Text style={styles.tableHeaderText}>Category</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.9 }]}>
+                <Text style={styles.tableHeaderText}>Amount</Text>
+              </View>
+            </View>
+            {filteredExpenses.map((expense, index) => (
+              <AnimatedView
+                key={expense.id}
+                entering={FadeInUp.duration(300).delay(index * 100)}
+                style={styles.expenseCard}
+              >
+                <Pressable
+                  onPress={() => router.push(`/expenses/${expense.id}`)}
+                  style={({ pressed }) => [
+                    styles.expenseContent,
+                    pressed && styles.expensePressed
+                  ]}
+                >
+                  <View style={[styles.tableCellStack, { flex: 1 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {expense.expense_number}
+                    </Text>
+                    <Text style={styles.tableCellSubtext}>
+                      {format(new Date(expense.expense_date), 'MMM dd, yyyy')}
+                    </Text>
+                  </View>
+                  <View style={[styles.tableCellStack, { flex: 1.4 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {expense.expense_categories?.name || 'Uncategorised'}
+                    </Text>
+                    <Text style={styles.tableCellSubtext} numberOfLines={1}>
+                      {expense.payee || expense.bank_accounts?.name || ''}
+                    </Text>
+                  </View>
+                  <View style={[styles.tableCell, { flex: 0.9 }]}>
+                    <Text style={styles.tableCellAmount}>
+                      ₹{Number(expense.amount).toLocaleString()}
+                    </Text>
+                  </View>
+                  <ChevronRight size={16} color="#64748b" style={styles.chevron} />
+                </Pressable>
+              </AnimatedView>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showFilter}
+          onDismiss={() => setShowFilter(false)}
+          style={styles.modal}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Filter by Period</Text>
+            <SegmentedButtons
+              value={periodFilter}
+              onValueChange={(value) => setPeriodFilter(value as PeriodFilter)}
+              buttons={[
+                { value: 'all', label: 'All Time' },
+                { value: 'month', label: 'This Month' },
+                { value: 'year', label: 'This Year' },
+              ]}
+              style={styles.periodFilter}
+            />
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#ffedd5',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#ffedd5',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#ea580c',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#ea580c',
+  },
+  tableContainer: {
+    gap: 8,
+    paddingBottom: 120,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  expenseCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  expenseContent: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  expensePressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableCell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tableCellStack: {
+    gap: 4,
+  },
+  tableHeaderText: {
+    color: '#64748b',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  tableCellText: {
+    color: '#1e293b',
+    fontSize: 14,
+  },
+  tableCellSubtext: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  tableCellAmount: {
+    color: '#ea580c',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  modal: {
+    margin: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  periodFilter: {
+    backgroundColor: '#ffffff',
+  },
+});
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl, Platform, Image } from 'react-native';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform, Image, Pressable } from 'react-native';
 import { Text, Card, Button, Portal, Dialog } from 'react-native-paper';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { supabase } from '@/lib/supabase';
+import { deleteBankAccount } from '../../../lib/api/bank-accounts';
 import { format } from 'date-fns';
 import { ArrowDownRight, ArrowUpRight, RefreshCw, CircleAlert as AlertCircle, Calendar, Pencil, CreditCard, Download, Trash2 } from 'lucide-react-native';
 import Animated, { FadeIn } from 'react-native-reanimated';
@@ -17,6 +18,7 @@ type Transaction = {
   category: string | null;
   reconciled: boolean;
   notes: string | null;
+  transfer_id: string | null;
 };
 
 type BankAccount = {
@@ -30,7 +32,7 @@ type BankAccount = {
 };
 
 export default function AccountDetailScreen() {
-  const { id } = useLocalSearchParams();
+  const { id } = useLocalSearchParams<{ id: string }>();
   const { selectedBusiness } = useBusiness();
   
   const [account, setAccount] = useState<BankAccount | null>(null);
@@ -93,13 +95,9 @@ export default function AccountDetailScreen() {
     if (!selectedBusiness || !id) return;
     
     try {
-      const { error } = await supabase
-        .from('bank_accounts')
-        .delete()
-        .eq('id', id)
-        .eq('business_id', selectedBusiness.id);
+      const { error } = await deleteBankAccount(id, selectedBusiness.id);
         
-      if (error) throw error;
+      if (error) throw new Error(error);
       router.back();
     } catch (err: any) {
       console.error('Error deleting account:', err);
@@ -269,7 +267,7 @@ export default function AccountDetailScreen() {
                 <Button
                   mode="contained"
                   icon={() => <RefreshCw size={20} color="#ffffff" />}
-                  onPress={() => router.push('/finances/transactions/new', { accountId: id, type: 'transfer' })}
+                  onPress={() => router.push(`/finances/transfers/new?accountId=${id}`)}
                   style={[styles.actionButton, { backgroundColor: '#3b82f6' }]}
                 >
                   Transfer
@@ -308,17 +306,20 @@ export default function AccountDetailScreen() {
               ) : (
                 <View style={styles.transactionList}>
                   {transactions.map((transaction) => (
-                    <View key={transaction.id} style={styles.transactionItem}>
+                    <Pressable
+                      key={transaction.id}
+                      style={styles.transactionItem}
+                      disabled={!transaction.transfer_id}
+                      onPress={() => router.push(`/finances/transfers/edit/${transaction.transfer_id}`)}
+                    >
                       <View style={styles.transactionIcon}>
-                        {transaction.type === 'deposit' && (
+                        {transaction.transfer_id || transaction.type === 'transfer' ? (
+                          <RefreshCw size={20} color="#2563eb" />
+                        ) : transaction.type === 'deposit' ? (
                           <ArrowDownRight size={20} color="#16a34a" />
-                        )}
-                        {transaction.type === 'withdrawal' && (
+                        ) : (
                           <ArrowUpRight size={20} color="#dc2626" />
                         )}
-                        {transaction.type === 'transfer' && (
-                          <RefreshCw size={20} color="#2563eb" />
-                        )}
                       </View>
 
                       <View style={styles.transactionDetails}>
@@ -335,7 +336,9 @@ export default function AccountDetailScreen() {
                         style={[
                           styles.transactionAmount,
                           { 
-                            color: transaction.type === 'deposit' 
+                            color: transaction.transfer_id
+                              ? '#2563eb'
+                              : transaction.type === 'deposit' 
                               ? '#16a34a' 
                               : transaction.type === 'withdrawal'
                               ? '#dc2626'
@@ -346,7 +349,7 @@ export default function AccountDetailScreen() {
                         {transaction.type === 'withdrawal' ? '-' : ''}
                         {formatCurrency(transaction.amount)}
                       </Text>
-                    </View>
+                    </Pressable>
                   ))}
                 </View>
               )}
@@ -8,19 +8,10 @@ import { Wallet, Building2, Calendar, TrendingUp, DollarSign, ArrowUpRight, Arro
 import { format } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { FadeInUp } from 'react-native-reanimated';
+import { Transaction } from '../../lib/api/transactions';
 
 const AnimatedView = Animated.createAnimatedComponent(View);
 
-interface Transaction {
-  id: string;
-  date: string;
-  type: 'income' | 'expense';
-  amount: number;
-  description: string;
-  category: string;
-  reference: string;
-}
-
 type TimeFilter = 'all' | 'week' | 'month' | 'year';
 
 const { width } = Dimensions.get('window');
@@ -72,9 +63,9 @@ export default function FinancesScreen() {
 
   const filteredTransactions = transactions.filter(transaction => {
     const matchesSearch = 
-      transaction.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      transaction.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      transaction.reference.toLowerCase().includes(searchQuery.toLowerCase());
+      (transaction.description || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (transaction.category || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (transaction.transaction_number || '').toLowerCase().includes(searchQuery.toLowerCase());
 
     if (!matchesSearch) return false;
 
@@ -93,13 +84,14 @@ export default function FinancesScreen() {
     }
   });
 
+  // Money moved between the business's own accounts is neither income nor expense
   const totalIncome = filteredTransactions
-    .filter(t => t.type === 'income')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .filter(t => t.type === 'deposit' && !t.transfer_id)
+    .reduce((sum, t) => sum + Number(t.amount), 0);
 
   const totalExpenses = filteredTransactions
-    .filter(t => t.type === 'expense')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .filter(t => t.type === 'withdrawal' && !t.transfer_id)
+    .reduce((sum, t) => sum + Number(t.amount), 0);
 
   const netAmount = totalIncome - totalExpenses;
 
@@ -147,6 +139,10 @@ export default function FinancesScreen() {
             </View>
           </View>
           <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <TrendingUp size={20} color="#ffffff" />}
+              onPress={() => router.push('/reports/profit-loss')}
+            />
             <IconButton
               icon={() => <Search size={20} color="#ffffff" />}
               onPress={() => setShowSearch(true)}
@@ -300,9 +296,9 @@ export default function FinancesScreen() {
                   <View style={[styles.tableCell, { flex: 0.8 }]}>
                     <Text style={[
                       styles.tableCellAmount,
-                      { color: transaction.type === 'income' ? '#059669' : '#dc2626' }
+                      { color: transaction.type === 'deposit' ? '#059669' : '#dc2626' }
                     ]}>
-                      {transaction.type === 'income' ? '+' : '-'}₹{transaction.amount.toLocaleString()}
+                      {transaction.type === 'deposit' ? '+' : '-'}₹{transaction.amount.toLocaleString()}
                     </Text>
                   </View>
                   <ChevronRight size={16} color="#64748b" style={styles.chevron} />
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Trash2 } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { TransferForm } from '../../../../components/transfers/TransferForm';
+import { fetchTransfer, deleteTransfer, TransferWithAccounts } from '../../../../lib/api/transfers';
+
+export default function EditTransferScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [transfer, setTransfer] = useState<TransferWithAccounts | null>(null);
+  const [fetchLoading, setFetchLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadTransfer();
+    }
+  }, [selectedBusiness, id]);
+
+  const loadTransfer = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      const data = await fetchTransfer(id, selectedBusiness.id);
+      setTransfer(data);
+    } catch (err) {
+      console.error('Error fetching transfer:', err);
+      setError('Failed to load transfer');
+    } finally {
+      setFetchLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+
+    try {
+      // Both legs go with the transfer and each account balance is reversed
+      await deleteTransfer(id);
+      setShowDeleteDialog(false);
+      router.back();
+    } catch (err) {
+      console.error('Error deleting transfer:', err);
+      setShowDeleteDialog(false);
+      setError('Failed to delete transfer');
+    }
+  };
+
+  if (fetchLoading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading transfer details...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#2563eb', '#1d4ed8']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Edit Transfer</Text>
+            <Text style={styles.headerSubtitle}>
+              {transfer
+                ? `${transfer.from_account?.name ?? 'Unknown'} → ${transfer.to_account?.name ?? 'Unknown'}`
+                : 'Update transfer information'}
+            </Text>
+          </View>
+          {transfer && (
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteDialog(true)}
+            />
+          )}
+        </View>
+      </LinearGradient>
+
+      {transfer ? (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {error && (
+            <Text style={[styles.errorText, styles.inlineError]}>{error}</Text>
+          )}
+          <TransferForm transfer={transfer} />
+        </ScrollView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>{error || 'Transfer not found'}</Text>
+          <Button mode="contained" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      )}
+
+      <Portal>
+        <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
+          <Dialog.Title>Delete Transfer</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Both the withdrawal and the deposit will be removed and the account balances restored.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDeleteDialog(false)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#dbeafe',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  inlineError: {
+    marginTop: 16,
+  },
+});
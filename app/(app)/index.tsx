@@ -3,11 +3,14 @@ import { View, StyleSheet, ScrollView, Platform, Dimensions, Pressable, Image }
 import { Text } from 'react-native-paper';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBusiness } from '@/contexts/BusinessContext';
-import { CreditCard, Receipt, ChevronRight } from 'lucide-react-native';
+import { CreditCard, Receipt, FileText, FileClock, UserRound, HandCoins, Landmark, Package, Wallet, TrendingUp, Scale, TriangleAlert as AlertTriangle, ChevronRight } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { supabase } from '@/lib/supabase';
 import { format } from 'date-fns';
 import Animated, { FadeInUp, FadeInDown } from 'react-native-reanimated';
+import { fetchItems, Item } from '../lib/api/items';
+import { fetchStockMovements } from '../lib/api/inventory';
+import { buildStockLevels, getLowStockItems, StockLevel } from '../lib/inventory';
 
 const AnimatedView = Animated.createAnimatedComponent(View);
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
@@ -21,7 +24,6 @@ type Purchase = {
   purchase_number: string;
   purchase_date: string;
   item_name: string;
-  quantity: number;
   total_price: number;
   creditors: {
     name: string;
@@ -32,11 +34,13 @@ export default function HomeScreen() {
   const { session } = useAuth();
   const { selectedBusiness } = useBusiness();
   const [recentPurchases, setRecentPurchases] = useState<Purchase[]>([]);
+  const [lowStock, setLowStock] = useState<{ item: Item; level: StockLevel }[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (selectedBusiness) {
       fetchRecentPurchases();
+      fetchLowStock();
     }
   }, [selectedBusiness]);
 
@@ -60,6 +64,20 @@ export default function HomeScreen() {
     }
   };
 
+  const fetchLowStock = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const [items, movements] = await Promise.all([
+        fetchItems(selectedBusiness.id, { activeOnly: true }),
+        fetchStockMovements(selectedBusiness.id)
+      ]);
+      setLowStock(getLowStockItems(items, buildStockLevels(items, movements)));
+    } catch (err) {
+      console.error('Error fetching low stock items:', err);
+    }
+  };
+
   const quickActions = [
     {
       title: 'New Payment',
@@ -77,6 +95,71 @@ export default function HomeScreen() {
       color: '#fb923c',
       gradient: ['#fb923c', '#f97316'],
     },
+    {
+      title: 'New Invoice',
+      description: 'Bill a customer',
+      icon: FileText,
+      route: '/invoices/new' as const,
+      color: '#10b981',
+      gradient: ['#10b981', '#059669'],
+    },
+  ];
+
+  const shortcuts = [
+    {
+      title: 'Invoices',
+      icon: FileText,
+      route: '/invoices' as const,
+      color: '#059669',
+    },
+    {
+      title: 'Receipts',
+      icon: HandCoins,
+      route: '/receipts' as const,
+      color: '#10b981',
+    },
+    {
+      title: 'Bills',
+      icon: FileClock,
+      route: '/bills' as const,
+      color: '#4f46e5',
+    },
+    {
+      title: 'Expenses',
+      icon: Wallet,
+      route: '/expenses' as const,
+      color: '#ea580c',
+    },
+    {
+      title: 'Customers',
+      icon: UserRound,
+      route: '/contacts/customers' as const,
+      color: '#0891b2',
+    },
+    {
+      title: 'GST Returns',
+      icon: Landmark,
+      route: '/reports/gst' as const,
+      color: '#0f766e',
+    },
+    {
+      title: 'Profit & Loss',
+      icon: TrendingUp,
+      route: '/reports/profit-loss' as const,
+      color: '#059669',
+    },
+    {
+      title: 'Balance Sheet',
+      icon: Scale,
+      route: '/reports/balance-sheet' as const,
+      color: '#0369a1',
+    },
+    {
+      title: 'Items',
+      icon: Package,
+      route: '/items' as const,
+      color: '#7c3aed',
+    },
   ];
 
   return (
@@ -120,6 +203,64 @@ export default function HomeScreen() {
             </View>
           </View>
 
+          <View style={styles.shortcuts}>
+            <Text style={styles.sectionTitle}>Manage</Text>
+            <View style={styles.shortcutsGrid}>
+              {shortcuts.map((shortcut, index) => (
+                <AnimatedPressable
+                  key={shortcut.title}
+                  entering={FadeInUp.duration(400).delay(300 + index * 50)}
+                  style={styles.shortcutCard}
+                  onPress={() => router.push(shortcut.route)}
+                >
+                  <View style={[styles.shortcutIcon, { backgroundColor: `${shortcut.color}15` }]}>
+                    <shortcut.icon size={20} color={shortcut.color} strokeWidth={2} />
+                  </View>
+                  <Text style={styles.shortcutTitle}>{shortcut.title}</Text>
+                </AnimatedPressable>
+              ))}
+            </View>
+          </View>
+
+          {lowStock.length > 0 && (
+            <View style={styles.lowStock}>
+              <Text style={styles.sectionTitle}>Low Stock</Text>
+              <View style={styles.purchasesList}>
+                {lowStock.slice(0, 5).map(({ item, level }, index) => (
+                  <AnimatedPressable
+                    key={item.id}
+                    entering={FadeInUp.duration(400).delay(400 + index * 100)}
+                    style={[styles.purchaseCard, styles.lowStockCard]}
+                    onPress={() => router.push(`/items/${item.id}`)}
+                  >
+                    <View style={styles.purchaseContent}>
+                      <View style={[styles.lowStockIcon, level.onHand <= 0 && styles.outOfStockIcon]}>
+                        <AlertTriangle size={18} color={level.onHand <= 0 ? '#dc2626' : '#d97706'} />
+                      </View>
+                      <View style={styles.purchaseInfo}>
+                        <Text style={styles.purchaseItem}>{item.name}</Text>
+                        <Text style={styles.purchaseDate}>
+                          Reorder at {Number(item.reorder_level).toLocaleString()}{item.unit ? ` ${item.unit}` : ''}
+                        </Text>
+                      </View>
+                      <View style={styles.purchaseAmount}>
+                        <Text style={[styles.stockText, level.onHand <= 0 && styles.outOfStockText]}>
+                          {level.onHand <= 0 ? 'Out of stock' : `${level.onHand.toLocaleString()} left`}
+                        </Text>
+                        <ChevronRight size={16} color="#64748b" />
+                      </View>
+                    </View>
+                  </AnimatedPressable>
+                ))}
+                {lowStock.length > 5 && (
+                  <Text style={styles.moreText} onPress={() => router.push('/items')}>
+                    {lowStock.length - 5} more items are running low
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+
           <View style={styles.recentPurchases}>
             <Text style={styles.sectionTitle}>Recent Purchases</Text>
             <View style={styles.purchasesList}>
@@ -249,6 +390,68 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     letterSpacing: 0.3,
   },
+  shortcuts: {
+    marginBottom: 16,
+  },
+  shortcutsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  shortcutCard: {
+    width: isTablet ? '23%' : '30%',
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  shortcutIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  shortcutTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  lowStock: {
+    marginBottom: 16,
+  },
+  lowStockCard: {
+    borderColor: '#fde68a',
+  },
+  lowStockIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: '#fffbeb',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  outOfStockIcon: {
+    backgroundColor: '#fef2f2',
+  },
+  stockText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#d97706',
+  },
+  outOfStockText: {
+    color: '#dc2626',
+  },
+  moreText: {
+    fontSize: 13,
+    color: '#7c3aed',
+    textAlign: 'center',
+    paddingVertical: 4,
+  },
   recentPurchases: {
     marginBottom: 16,
   },
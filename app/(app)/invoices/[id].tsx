@@ -0,0 +1,566 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { format } from 'date-fns';
+import { Calendar, User, Trash2, CircleAlert as AlertCircle, Pencil, IndianRupee, ArrowLeft, Send, CircleCheck as CheckCircle, Receipt as ReceiptIcon, FileDown } from 'lucide-react-native';
+import Animated, { FadeIn } from 'react-native-reanimated';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchInvoice, deleteInvoice, updateInvoiceStatus, getInvoiceBalance, InvoiceWithLineItems, InvoiceStatus } from '../../lib/api/invoices';
+import { fetchReceiptsForInvoice } from '../../lib/api/receipts';
+import { InvoiceStatusBadge } from '../../components/invoices/InvoiceStatusBadge';
+import { GstBreakup } from '../../components/gst/GstBreakup';
+import { summarizeStoredGst } from '../../lib/gst';
+import { buildInvoiceDocument, renderDocumentHtml, getDocumentFileName } from '../../lib/documents';
+import { sharePdf } from '../../lib/export';
+import { fetchDocumentTemplate } from '../../lib/api/document-settings';
+
+export default function InvoiceDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [invoice, setInvoice] = useState<InvoiceWithLineItems | null>(null);
+  const [receipts, setReceipts] = useState<Awaited<ReturnType<typeof fetchReceiptsForInvoice>>>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  const loadInvoice = async () => {
+    if (!selectedBusiness || !id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [data, receiptsData] = await Promise.all([
+        fetchInvoice(id, selectedBusiness.id),
+        fetchReceiptsForInvoice(id)
+      ]);
+      setInvoice(data);
+      setReceipts(receiptsData);
+    } catch (err: any) {
+      console.error('Error fetching invoice:', err);
+      setError('Failed to load invoice details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadInvoice();
+    }
+  }, [selectedBusiness, id]);
+
+  const handleSharePdf = async () => {
+    if (!selectedBusiness || !invoice) return;
+
+    setSharing(true);
+
+    try {
+      const printable = buildInvoiceDocument(invoice);
+      const template = await fetchDocumentTemplate(selectedBusiness.id, 'INVOICE');
+      await sharePdf(getDocumentFileName(printable), renderDocumentHtml(selectedBusiness, printable, template));
+    } catch (err: any) {
+      console.error('Error sharing invoice PDF:', err);
+      setError('Failed to create invoice PDF');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadInvoice();
+    setRefreshing(false);
+  };
+
+  const handleStatusChange = async (status: InvoiceStatus) => {
+    if (!invoice) return;
+
+    setUpdatingStatus(true);
+    try {
+      await updateInvoiceStatus(invoice.id, status);
+      setInvoice(prev => prev ? { ...prev, status } : prev);
+    } catch (err: any) {
+      console.error('Error updating invoice status:', err);
+      setError('Failed to update invoice status');
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      await deleteInvoice(id, selectedBusiness.id);
+      router.replace('/invoices');
+    } catch (err: any) {
+      console.error('Error deleting invoice:', err);
+      setError('Failed to delete invoice');
+    } finally {
+      setShowDeleteDialog(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text variant="titleLarge" style={styles.invoiceNumber}>
+              Invoice #{invoice?.invoice_number}
+            </Text>
+            <Text variant="titleMedium" style={styles.totalAmount}>
+              ₹{invoice?.total_amount.toLocaleString()}
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <FileDown size={20} color="#ffffff" />}
+              onPress={handleSharePdf}
+              disabled={!invoice || sharing}
+            />
+            <IconButton
+              icon={() => <Pencil size={20} color="#ffffff" />}
+              onPress={() => router.push(`/invoices/edit/${id}`)}
+            />
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteDialog(true)}
+            />
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text>Loading invoice details...</Text>
+          </View>
+        ) : !invoice ? (
+          <View style={styles.emptyContainer}>
+            <AlertCircle size={48} color="#ef4444" />
+            <Text style={styles.emptyText}>Invoice not found</Text>
+            <Button mode="contained" onPress={() => router.back()}>
+              Go Back
+            </Button>
+          </View>
+        ) : (
+          <Animated.View
+            entering={FadeIn.duration(300)}
+            style={styles.detailsContainer}
+          >
+            <View style={styles.detailsCard}>
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabel}>
+                  <Text style={styles.labelText}>Status</Text>
+                </View>
+                <InvoiceStatusBadge invoice={invoice} />
+              </View>
+
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabel}>
+                  <User size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Customer</Text>
+                </View>
+                <Text style={styles.detailValue}>{invoice.customer_name}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabel}>
+                  <Calendar size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Invoice Date</Text>
+                </View>
+                <Text style={styles.detailValue}>
+                  {format(new Date(invoice.invoice_date), 'MMM dd, yyyy')}
+                </Text>
+              </View>
+
+              <View style={[styles.detailRow, styles.lastRow]}>
+                <View style={styles.detailLabel}>
+                  <Calendar size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Due Date</Text>
+                </View>
+                <Text style={styles.detailValue}>
+                  {format(new Date(invoice.due_date), 'MMM dd, yyyy')}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.detailsCard}>
+              <Text style={styles.cardTitle}>Line Items</Text>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderCell, { flex: 2 }]}>Description</Text>
+                <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 0.6 }]}>Qty</Text>
+                <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 1 }]}>Rate</Text>
+                <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 0.6 }]}>GST</Text>
+                <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 1 }]}>Amount</Text>
+              </View>
+              {invoice.invoice_line_items.map((item) => (
+                <View key={item.id} style={styles.tableRow}>
+                  <View style={{ flex: 2 }}>
+                    <Text style={styles.tableCell}>{item.description}</Text>
+                    {item.hsn_code && (
+                      <Text style={styles.hsnText}>HSN/SAC {item.hsn_code}</Text>
+                    )}
+                  </View>
+                  <Text style={[styles.tableCell, styles.numericCell, { flex: 0.6 }]}>{item.quantity}</Text>
+                  <Text style={[styles.tableCell, styles.numericCell, { flex: 1 }]}>
+                    ₹{item.unit_price.toLocaleString()}
+                  </Text>
+                  <Text style={[styles.tableCell, styles.numericCell, { flex: 0.6 }]}>{item.tax_percent}%</Text>
+                  <Text style={[styles.tableCell, styles.numericCell, { flex: 1 }]}>
+                    ₹{item.amount.toLocaleString()}
+                  </Text>
+                </View>
+              ))}
+
+              <View style={[styles.detailRow, styles.totalRow]}>
+                <View style={styles.detailLabel}>
+                  <IndianRupee size={16} color="#059669" />
+                  <Text style={[styles.labelText, styles.totalLabel]}>Total</Text>
+                </View>
+                <Text style={styles.totalValue}>
+                  ₹{invoice.total_amount.toLocaleString()}
+                </Text>
+              </View>
+
+              {Number(invoice.amount_paid) > 0 && (
+                <React.Fragment>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.labelText}>Received</Text>
+                    <Text style={styles.detailValue}>
+                      ₹{Number(invoice.amount_paid).toLocaleString()}
+                    </Text>
+                  </View>
+                  <View style={[styles.detailRow, styles.lastRow]}>
+                    <Text style={[styles.labelText, styles.totalLabel]}>Balance Due</Text>
+                    <Text style={styles.totalValue}>
+                      ₹{getInvoiceBalance(invoice).toLocaleString()}
+                    </Text>
+                  </View>
+                </React.Fragment>
+              )}
+
+              {invoice.notes && (
+                <View style={styles.descriptionContainer}>
+                  <Text style={styles.descriptionLabel}>Notes</Text>
+                  <Text style={styles.descriptionText}>{invoice.notes}</Text>
+                </View>
+              )}
+            </View>
+
+            {Number(invoice.tax_amount) > 0 && (
+              <View style={styles.detailsCard}>
+                <Text style={styles.cardTitle}>Tax Breakup</Text>
+                <GstBreakup
+                  summary={summarizeStoredGst(invoice.invoice_line_items, invoice.reverse_charge)}
+                  placeOfSupply={invoice.place_of_supply}
+                  totalLabel="Total"
+                  color="#059669"
+                />
+              </View>
+            )}
+
+            {receipts.length > 0 && (
+              <View style={styles.detailsCard}>
+                <Text style={styles.cardTitle}>Receipts</Text>
+                {receipts.map((allocation, index) => (
+                  <View
+                    key={allocation.id}
+                    style={[styles.detailRow, index === receipts.length - 1 && styles.lastRow]}
+                  >
+                    <View style={styles.detailLabel}>
+                      <ReceiptIcon size={16} color="#059669" />
+                      <Text
+                        style={[styles.labelText, styles.linkText]}
+                        onPress={() => router.push(`/receipts/${allocation.receipt_id}`)}
+                      >
+                        {allocation.receipts?.receipt_number}
+                      </Text>
+                      {allocation.receipts && (
+                        <Text style={styles.labelText}>
+                          {format(new Date(allocation.receipts.receipt_date), 'MMM dd, yyyy')}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={styles.detailValue}>
+                      ₹{Number(allocation.amount).toLocaleString()}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.statusActions}>
+              {invoice.status === 'DRAFT' && (
+                <Button
+                  mode="contained"
+                  onPress={() => handleStatusChange('SENT')}
+                  loading={updatingStatus}
+                  disabled={updatingStatus}
+                  icon={() => <Send size={18} color="#ffffff" />}
+                  style={styles.statusButton}
+                >
+                  Mark as Sent
+                </Button>
+              )}
+              {(invoice.status === 'SENT' || invoice.status === 'PARTIAL') && invoice.customer_id && (
+                <Button
+                  mode="contained"
+                  onPress={() => router.push(`/receipts/new?customerId=${invoice.customer_id}&invoiceId=${invoice.id}`)}
+                  icon={() => <ReceiptIcon size={18} color="#ffffff" />}
+                  style={styles.statusButton}
+                >
+                  Record Receipt
+                </Button>
+              )}
+              {/* Invoices without a linked customer can't take receipts, so they're settled by hand */}
+              {invoice.status === 'SENT' && !invoice.customer_id && (
+                <Button
+                  mode="contained"
+                  onPress={() => handleStatusChange('PAID')}
+                  loading={updatingStatus}
+                  disabled={updatingStatus}
+                  icon={() => <CheckCircle size={18} color="#ffffff" />}
+                  style={styles.statusButton}
+                >
+                  Mark as Paid
+                </Button>
+              )}
+            </View>
+          </Animated.View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
+          <Dialog.Title>Delete Invoice</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Are you sure you want to delete this invoice? This action cannot be undone.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDeleteDialog(false)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  invoiceNumber: {
+    color: '#ffffff',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  totalAmount: {
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    margin: 16,
+    padding: 16,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  detailsContainer: {
+    padding: 16,
+    paddingBottom: 120,
+    gap: 16,
+  },
+  detailsCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  detailLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  labelText: {
+    color: '#64748b',
+    fontSize: 14,
+  },
+  detailValue: {
+    color: '#1e293b',
+    fontSize: 16,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+  },
+  tableHeaderCell: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableCell: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  hsnText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  numericCell: {
+    textAlign: 'right',
+  },
+  totalRow: {
+    borderBottomWidth: 0,
+    marginTop: 8,
+    paddingTop: 8,
+  },
+  totalLabel: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  totalValue: {
+    color: '#059669',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  descriptionContainer: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  descriptionLabel: {
+    color: '#64748b',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  descriptionText: {
+    color: '#1e293b',
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  linkText: {
+    color: '#059669',
+    textDecorationLine: 'underline',
+  },
+  statusActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  statusButton: {
+    backgroundColor: '#059669',
+  },
+});
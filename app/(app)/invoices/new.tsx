@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { InvoiceForm } from '../../components/invoices/InvoiceForm';
+
+export default function NewInvoiceScreen() {
+  const { customerId } = useLocalSearchParams<{ customerId?: string }>();
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>New Invoice</Text>
+            <Text style={styles.headerSubtitle}>
+              Bill a customer for goods or services
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <InvoiceForm
+        defaultCustomerId={customerId}
+        onSuccess={(invoiceId) => router.replace(`/invoices/${invoiceId}`)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#d1fae5',
+    letterSpacing: 0.3,
+  },
+});
@@ -0,0 +1,672 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog, TextInput, SegmentedButtons, HelperText } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { format } from 'date-fns';
+import { ArrowLeft, Pencil, Trash2, CircleAlert as AlertCircle, SlidersHorizontal, IndianRupee } from 'lucide-react-native';
+import Animated, { FadeIn } from 'react-native-reanimated';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchItem, Item } from '../../lib/api/items';
+import {
+  fetchStockMovements,
+  createStockAdjustment,
+  deleteStockAdjustment,
+  StockMovement,
+  StockMovementType
+} from '../../lib/api/inventory';
+import { buildStockLedger, getStockStatus } from '../../lib/inventory';
+
+type AdjustmentDirection = 'add' | 'remove';
+
+interface AdjustmentFormData {
+  direction: AdjustmentDirection;
+  quantity: string;
+  unitCost: string;
+  date: string;
+  reason: string;
+}
+
+interface AdjustmentErrors {
+  quantity?: string;
+  unitCost?: string;
+  date?: string;
+  reason?: string;
+  submit?: string;
+}
+
+const movementLabels: Record<StockMovementType, string> = {
+  PURCHASE: 'Purchase',
+  SALE: 'Sale',
+  ADJUSTMENT: 'Adjustment',
+};
+
+const emptyAdjustment = (): AdjustmentFormData => ({
+  direction: 'add',
+  quantity: '',
+  unitCost: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  reason: '',
+});
+
+export default function ItemStockScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [item, setItem] = useState<Item | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showAdjustDialog, setShowAdjustDialog] = useState(false);
+  const [adjustment, setAdjustment] = useState<AdjustmentFormData>(emptyAdjustment());
+  const [adjustmentErrors, setAdjustmentErrors] = useState<AdjustmentErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [deletingAdjustmentId, setDeletingAdjustmentId] = useState<string | null>(null);
+
+  const loadItem = async () => {
+    if (!selectedBusiness || !id) return;
+
+    setError(null);
+
+    try {
+      const [itemData, movementData] = await Promise.all([
+        fetchItem(id, selectedBusiness.id),
+        fetchStockMovements(selectedBusiness.id, id)
+      ]);
+      setItem(itemData);
+      setMovements(movementData);
+    } catch (err: any) {
+      console.error('Error fetching item stock:', err);
+      setError('Failed to load item stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadItem();
+    }
+  }, [selectedBusiness, id]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadItem();
+    setRefreshing(false);
+  };
+
+  const ledger = buildStockLedger(movements);
+  const current = ledger[ledger.length - 1];
+  const onHand = current?.balance ?? 0;
+  const averageCost = current?.averageCost ?? 0;
+  const status = item ? getStockStatus(item, { onHand }) : 'ok';
+  const unit = item?.unit ? ` ${item.unit}` : '';
+
+  const openAdjustDialog = () => {
+    setAdjustment(emptyAdjustment());
+    setAdjustmentErrors({});
+    setShowAdjustDialog(true);
+  };
+
+  const handleAdjustmentChange = <K extends keyof AdjustmentFormData>(field: K, value: AdjustmentFormData[K]) => {
+    setAdjustment(prev => ({ ...prev, [field]: value }));
+    if (adjustmentErrors[field as keyof AdjustmentErrors]) {
+      setAdjustmentErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateAdjustment = () => {
+    const newErrors: AdjustmentErrors = {};
+
+    const quantity = parseFloat(adjustment.quantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      newErrors.quantity = 'Quantity must be greater than zero';
+    }
+
+    if (adjustment.direction === 'add' && adjustment.unitCost.trim()) {
+      const unitCost = parseFloat(adjustment.unitCost);
+      if (isNaN(unitCost) || unitCost < 0) {
+        newErrors.unitCost = 'Unit cost must be a valid positive number';
+      }
+    }
+
+    if (!adjustment.date.trim()) {
+      newErrors.date = 'Date is required';
+    }
+
+    if (!adjustment.reason.trim()) {
+      newErrors.reason = 'Reason is required';
+    }
+
+    setAdjustmentErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSaveAdjustment = async () => {
+    if (!validateAdjustment() || !selectedBusiness || !item) return;
+
+    setSaving(true);
+
+    try {
+      const quantity = parseFloat(adjustment.quantity);
+      await createStockAdjustment({
+        business_id: selectedBusiness.id,
+        item_id: item.id,
+        adjustment_date: adjustment.date,
+        quantity: adjustment.direction === 'add' ? quantity : -quantity,
+        unit_cost: adjustment.direction === 'add' && adjustment.unitCost.trim() ? parseFloat(adjustment.unitCost) : null,
+        reason: adjustment.reason.trim(),
+      });
+      setShowAdjustDialog(false);
+      await loadItem();
+    } catch (err) {
+      console.error('Error saving stock adjustment:', err);
+      setAdjustmentErrors(prev => ({ ...prev, submit: 'Failed to save adjustment' }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteAdjustment = async () => {
+    if (!selectedBusiness || !deletingAdjustmentId) return;
+
+    try {
+      await deleteStockAdjustment(deletingAdjustmentId, selectedBusiness.id);
+      await loadItem();
+    } catch (err) {
+      console.error('Error deleting stock adjustment:', err);
+      setError('Failed to delete adjustment');
+    } finally {
+      setDeletingAdjustmentId(null);
+    }
+  };
+
+  const openSource = (movement: StockMovement) => {
+    if (movement.movement_type === 'PURCHASE') {
+      router.push(`/purchases/${movement.source_id}`);
+    } else if (movement.movement_type === 'SALE') {
+      router.push(`/invoices/${movement.source_id}`);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#7c3aed', '#6d28d9']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text variant="titleLarge" style={styles.itemName} numberOfLines={1}>
+              {item?.name}
+            </Text>
+            <Text variant="titleMedium" style={styles.onHand}>
+              {onHand.toLocaleString()}{unit} on hand
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Pencil size={20} color="#ffffff" />}
+              onPress={() => router.push(`/items/edit/${id}`)}
+            />
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text>Loading item stock...</Text>
+          </View>
+        ) : !item ? (
+          <View style={styles.emptyContainer}>
+            <AlertCircle size={48} color="#ef4444" />
+            <Text style={styles.emptyText}>Item not found</Text>
+            <Button mode="contained" onPress={() => router.back()}>
+              Go Back
+            </Button>
+          </View>
+        ) : (
+          <Animated.View
+            entering={FadeIn.duration(300)}
+            style={styles.detailsContainer}
+          >
+            {status !== 'ok' && (
+              <View style={[styles.alertCard, status === 'out' && styles.alertCardOut]}>
+                <AlertCircle size={18} color={status === 'out' ? '#dc2626' : '#d97706'} />
+                <Text style={[styles.alertText, status === 'out' && styles.alertTextOut]}>
+                  {status === 'out'
+                    ? 'Out of stock'
+                    : `Stock is at or below the reorder level of ${Number(item.reorder_level).toLocaleString()}${unit}`}
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.detailsCard}>
+              <View style={styles.detailRow}>
+                <Text style={styles.labelText}>On Hand</Text>
+                <Text style={[styles.detailValue, onHand < 0 && styles.negativeValue]}>
+                  {onHand.toLocaleString()}{unit}
+                </Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.labelText}>Average Cost</Text>
+                <Text style={styles.detailValue}>₹{averageCost.toLocaleString()}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.labelText}>Reorder Level</Text>
+                <Text style={styles.detailValue}>
+                  {item.reorder_level !== null ? `${Number(item.reorder_level).toLocaleString()}${unit}` : 'Not set'}
+                </Text>
+              </View>
+              <View style={[styles.detailRow, styles.totalRow]}>
+                <View style={styles.detailLabel}>
+                  <IndianRupee size={16} color="#7c3aed" />
+                  <Text style={[styles.labelText, styles.totalLabel]}>Stock Value</Text>
+                </View>
+                <Text style={styles.totalValue}>
+                  ₹{(Math.round(Math.max(onHand, 0) * averageCost * 100) / 100).toLocaleString()}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.detailsCard}>
+              <Text style={styles.cardTitle}>Stock Ledger</Text>
+              {ledger.length === 0 ? (
+                <Text style={styles.ledgerEmpty}>
+                  Stock moves when this item is picked on a purchase or an issued invoice, or adjusted here
+                </Text>
+              ) : (
+                <React.Fragment>
+                  <View style={styles.tableHeader}>
+                    <Text style={[styles.tableHeaderCell, { flex: 2 }]}>Movement</Text>
+                    <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 0.9 }]}>Qty</Text>
+                    <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 0.9 }]}>Balance</Text>
+                  </View>
+                  {[...ledger].reverse().map(({ movement, balance }) => (
+                    <View key={`${movement.movement_type}-${movement.id}`} style={styles.tableRow}>
+                      <View style={{ flex: 2 }}>
+                        <Text
+                          style={[styles.tableCell, movement.movement_type !== 'ADJUSTMENT' && styles.linkText]}
+                          onPress={() => openSource(movement)}
+                          numberOfLines={1}
+                        >
+                          {movementLabels[movement.movement_type]}
+                          {movement.movement_type !== 'ADJUSTMENT' ? ` ${movement.reference}` : ''}
+                        </Text>
+                        <Text style={styles.subText} numberOfLines={1}>
+                          {format(new Date(movement.movement_date), 'MMM dd, yyyy')}
+                          {movement.movement_type === 'ADJUSTMENT' ? ` · ${movement.reference}` : ''}
+                          {movement.unit_cost !== null ? ` · ₹${movement.unit_cost.toLocaleString()} each` : ''}
+                        </Text>
+                      </View>
+                      <Text
+                        style={[
+                          styles.tableCell,
+                          styles.numericCell,
+                          { flex: 0.9 },
+                          movement.quantity > 0 ? styles.inQuantity : styles.outQuantity
+                        ]}
+                      >
+                        {movement.quantity > 0 ? '+' : ''}{movement.quantity.toLocaleString()}
+                      </Text>
+                      <Text style={[styles.tableCell, styles.numericCell, { flex: 0.9 }]}>
+                        {balance.toLocaleString()}
+                      </Text>
+                      {movement.movement_type === 'ADJUSTMENT' ? (
+                        <IconButton
+                          icon={() => <Trash2 size={16} color="#ef4444" />}
+                          onPress={() => setDeletingAdjustmentId(movement.id)}
+                          size={16}
+                          style={styles.rowAction}
+                        />
+                      ) : (
+                        <View style={styles.rowActionSpacer} />
+                      )}
+                    </View>
+                  ))}
+                </React.Fragment>
+              )}
+            </View>
+
+            <View style={styles.statusActions}>
+              <Button
+                mode="contained"
+                onPress={openAdjustDialog}
+                icon={() => <SlidersHorizontal size={18} color="#ffffff" />}
+                style={styles.statusButton}
+              >
+                Adjust Stock
+              </Button>
+            </View>
+          </Animated.View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={showAdjustDialog} onDismiss={() => setShowAdjustDialog(false)}>
+          <Dialog.Title>Adjust Stock</Dialog.Title>
+          <Dialog.Content>
+            <SegmentedButtons
+              value={adjustment.direction}
+              onValueChange={(value) => handleAdjustmentChange('direction', value as AdjustmentDirection)}
+              buttons={[
+                { value: 'add', label: 'Add Stock' },
+                { value: 'remove', label: 'Remove Stock' },
+              ]}
+              style={styles.dialogInput}
+            />
+            <TextInput
+              mode="outlined"
+              label={`Quantity${unit ? ` (${unit.trim()})` : ''}`}
+              value={adjustment.quantity}
+              onChangeText={(text) => handleAdjustmentChange('quantity', text)}
+              keyboardType="decimal-pad"
+              error={!!adjustmentErrors.quantity}
+              style={styles.dialogInput}
+            />
+            {adjustmentErrors.quantity && (
+              <HelperText type="error">{adjustmentErrors.quantity}</HelperText>
+            )}
+            {adjustment.direction === 'add' && (
+              <React.Fragment>
+                <TextInput
+                  mode="outlined"
+                  label="Unit Cost (Optional)"
+                  value={adjustment.unitCost}
+                  onChangeText={(text) => handleAdjustmentChange('unitCost', text)}
+                  keyboardType="decimal-pad"
+                  left={<TextInput.Icon icon={() => <IndianRupee size={18} color="#64748b" />} />}
+                  error={!!adjustmentErrors.unitCost}
+                  style={styles.dialogInput}
+                />
+                {adjustmentErrors.unitCost ? (
+                  <HelperText type="error">{adjustmentErrors.unitCost}</HelperText>
+                ) : (
+                  <HelperText type="info">Left blank, the stock is valued at the current average cost</HelperText>
+                )}
+              </React.Fragment>
+            )}
+            <TextInput
+              mode="outlined"
+              label="Date"
+              value={adjustment.date}
+              onChangeText={(text) => handleAdjustmentChange('date', text)}
+              error={!!adjustmentErrors.date}
+              style={styles.dialogInput}
+            />
+            {adjustmentErrors.date && (
+              <HelperText type="error">{adjustmentErrors.date}</HelperText>
+            )}
+            <TextInput
+              mode="outlined"
+              label="Reason"
+              value={adjustment.reason}
+              onChangeText={(text) => handleAdjustmentChange('reason', text)}
+              placeholder="Opening stock, damaged, stock count..."
+              error={!!adjustmentErrors.reason}
+              style={styles.dialogInput}
+            />
+            {adjustmentErrors.reason && (
+              <HelperText type="error">{adjustmentErrors.reason}</HelperText>
+            )}
+            {adjustmentErrors.submit && (
+              <Text style={styles.errorText}>{adjustmentErrors.submit}</Text>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowAdjustDialog(false)}>Cancel</Button>
+            <Button onPress={handleSaveAdjustment} loading={saving} disabled={saving} textColor="#7c3aed">
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!deletingAdjustmentId} onDismiss={() => setDeletingAdjustmentId(null)}>
+          <Dialog.Title>Delete Adjustment</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Are you sure you want to delete this stock adjustment? Stock on hand and the average cost will be recalculated.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeletingAdjustmentId(null)}>Cancel</Button>
+            <Button onPress={handleDeleteAdjustment} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  itemName: {
+    color: '#ffffff',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  onHand: {
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    margin: 16,
+    padding: 16,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  detailsContainer: {
+    padding: 16,
+    paddingBottom: 120,
+    gap: 16,
+  },
+  alertCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  alertCardOut: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  alertText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#b45309',
+  },
+  alertTextOut: {
+    color: '#dc2626',
+  },
+  detailsCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  detailLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  labelText: {
+    color: '#64748b',
+    fontSize: 14,
+  },
+  detailValue: {
+    color: '#1e293b',
+    fontSize: 16,
+  },
+  negativeValue: {
+    color: '#ef4444',
+  },
+  totalRow: {
+    borderBottomWidth: 0,
+  },
+  totalLabel: {
+    color: '#7c3aed',
+    fontWeight: '600',
+  },
+  totalValue: {
+    color: '#7c3aed',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  ledgerEmpty: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    paddingLeft: 8,
+    paddingRight: 40,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+  },
+  tableHeaderCell: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingLeft: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableCell: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  subText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  numericCell: {
+    textAlign: 'right',
+  },
+  inQuantity: {
+    color: '#059669',
+  },
+  outQuantity: {
+    color: '#ef4444',
+  },
+  rowAction: {
+    margin: 0,
+    width: 32,
+  },
+  rowActionSpacer: {
+    width: 32,
+  },
+  linkText: {
+    color: '#7c3aed',
+    textDecorationLine: 'underline',
+  },
+  statusActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  statusButton: {
+    backgroundColor: '#7c3aed',
+  },
+  dialogInput: {
+    marginBottom: 8,
+  },
+});
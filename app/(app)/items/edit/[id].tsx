@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Trash2 } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ItemForm } from '../../../components/items/ItemForm';
+import { fetchItem, deleteItem, Item } from '../../../lib/api/items';
+
+export default function EditItemScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [item, setItem] = useState<Item | null>(null);
+  const [fetchLoading, setFetchLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadItem();
+    }
+  }, [selectedBusiness, id]);
+
+  const loadItem = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      const data = await fetchItem(id, selectedBusiness.id);
+      setItem(data);
+    } catch (err) {
+      console.error('Error fetching item:', err);
+      setError('Failed to load item');
+    } finally {
+      setFetchLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      await deleteItem(id, selectedBusiness.id);
+      router.replace('/items');
+    } catch (err) {
+      console.error('Error deleting item:', err);
+      setError('Failed to delete item');
+    } finally {
+      setShowDeleteDialog(false);
+    }
+  };
+
+  if (fetchLoading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading item details...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#7c3aed', '#6d28d9']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Edit Item</Text>
+            <Text style={styles.headerSubtitle}>
+              Update catalogue details
+            </Text>
+          </View>
+          {item && (
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteDialog(true)}
+            />
+          )}
+        </View>
+      </LinearGradient>
+
+      {item ? (
+        <ItemForm item={item} />
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>{error || 'Item not found'}</Text>
+          <Button mode="contained" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      )}
+
+      <Portal>
+        <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
+          <Dialog.Title>Delete Item</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Are you sure you want to delete this item? Documents that used it keep their lines.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDeleteDialog(false)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ede9fe',
+    letterSpacing: 0.3,
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+});
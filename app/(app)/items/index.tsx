@@ -0,0 +1,557 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable, Platform, TextInput } from 'react-native';
+import { Text, Button, SegmentedButtons, IconButton, Portal, Modal } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { Package, Building2, IndianRupee, TriangleAlert as AlertTriangle, Search, Filter, Plus, ChevronRight } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { fetchItems, matchesItemSearch, Item } from '../../lib/api/items';
+import { fetchStockMovements } from '../../lib/api/inventory';
+import { buildStockLevels, getStockStatus, StockLevel } from '../../lib/inventory';
+
+const AnimatedView = Animated.createAnimatedComponent(View);
+
+type ActiveFilter = 'all' | 'active' | 'inactive' | 'low';
+
+export default function ItemsScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [items, setItems] = useState<Item[]>([]);
+  const [stockLevels, setStockLevels] = useState<Map<string, StockLevel>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeFilter, setActiveFilter] = useState<ActiveFilter>('all');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showFilter, setShowFilter] = useState(false);
+
+  const loadItems = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const [data, movements] = await Promise.all([
+        fetchItems(selectedBusiness.id),
+        fetchStockMovements(selectedBusiness.id)
+      ]);
+      setItems(data);
+      setStockLevels(buildStockLevels(data, movements));
+    } catch (err: any) {
+      console.error('Error fetching items:', err);
+      setError('Failed to load items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadItems();
+    }
+  }, [selectedBusiness]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadItems();
+    setRefreshing(false);
+  };
+
+  const filteredItems = items.filter(item => {
+    if (!matchesItemSearch(item, searchQuery)) return false;
+
+    switch (activeFilter) {
+      case 'active':
+        return item.is_active;
+      case 'inactive':
+        return !item.is_active;
+      case 'low':
+        return item.is_active && getStockStatus(item, stockLevels.get(item.id)) !== 'ok';
+      default:
+        return true;
+    }
+  });
+
+  const stockValue = Array.from(stockLevels.values()).reduce((sum, level) => sum + level.value, 0);
+  const lowStockCount = items.filter(item => item.is_active && getStockStatus(item, stockLevels.get(item.id)) !== 'ok').length;
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view items
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#7c3aed', '#6d28d9']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <Package size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Items</Text>
+              <Text style={styles.headerSubtitle}>Products and services you trade</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Search size={20} color="#ffffff" />}
+              onPress={() => setShowSearch(true)}
+            />
+            <IconButton
+              icon={() => <Filter size={20} color="#ffffff" />}
+              onPress={() => setShowFilter(true)}
+            />
+            <IconButton
+              icon={() => <Plus size={20} color="#ffffff" />}
+              onPress={() => router.push('/items/new')}
+            />
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Package size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Items</Text>
+              <Text style={styles.statValue}>{items.length}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <IndianRupee size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Stock Value</Text>
+              <Text style={styles.statValue}>₹{Math.round(stockValue).toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <AlertTriangle size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Low Stock</Text>
+              <Text style={styles.statValue}>{lowStockCount}</Text>
+            </View>
+          </View>
+        </View>
+
+        {showSearch && (
+          <View style={styles.searchContainer}>
+            <Search size={20} color="#94a3b8" strokeWidth={2.5} />
+            <TextInput
+              placeholder="Search by name, SKU or HSN..."
+              placeholderTextColor="#94a3b8"
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoFocus
+            />
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#7c3aed"
+            colors={['#7c3aed']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadItems}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.emptyState}>
+            <Text>Loading items...</Text>
+          </View>
+        ) : filteredItems.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Package size={48} color="#64748B" strokeWidth={2.5} />
+            <Text style={styles.emptyTitle}>No Items Found</Text>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery || activeFilter !== 'all' ? 'Try adjusting your search or filter' : 'Add the products and services you buy and sell'}
+            </Text>
+            {!searchQuery && activeFilter === 'all' && (
+              <Button
+                mode="contained"
+                onPress={() => router.push('/items/new')}
+                style={styles.emptyButton}
+              >
+                New Item
+              </Button>
+            )}
+          </View>
+        ) : (
+          <View style={styles.tableContainer}>
+            <View style={styles.tableHeader}>
+              <View style={[styles.tableCell, { flex: 1.6 }]}>
+                <Text style={styles.tableHeaderText}>Item</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.9 }]}>
+                <Text style={styles.tableHeaderText}>Stock</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.9 }]}>
+                <Text style={styles.tableHeaderText}>Buy</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.9 }]}>
+                <Text style={styles.tableHeaderText}>Sell</Text>
+              </View>
+            </View>
+            {filteredItems.map((item, index) => {
+              const level = stockLevels.get(item.id);
+              const stockStatus = getStockStatus(item, level);
+              return (
+                <AnimatedView
+                  key={item.id}
+                  entering={FadeInUp.duration(300).delay(index * 100)}
+                  style={[styles.itemCard, !item.is_active && styles.itemInactive]}
+                >
+                  <Pressable
+                    onPress={() => router.push(`/items/${item.id}`)}
+                    style={({ pressed }) => [
+                      styles.itemContent,
+                      pressed && styles.itemPressed
+                    ]}
+                  >
+                    <View style={[styles.tableCellStack, { flex: 1.6 }]}>
+                      <Text style={styles.tableCellText} numberOfLines={1}>
+                        {item.name}
+                      </Text>
+                      <Text style={styles.tableCellSubtext} numberOfLines={1}>
+                        {[item.sku, item.hsn_code && `HSN ${item.hsn_code}`, `${Number(item.tax_percent)}% GST`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                        {!item.is_active ? ' · Inactive' : ''}
+                      </Text>
+                    </View>
+                    <View style={[styles.tableCell, { flex: 0.9 }]}>
+                      <Text
+                        style={[
+                          styles.tableCellText,
+                          stockStatus === 'low' && styles.stockLow,
+                          stockStatus === 'out' && styles.stockOut
+                        ]}
+                      >
+                        {(level?.onHand ?? 0).toLocaleString()}
+                      </Text>
+                    </View>
+                    <View style={[styles.tableCell, { flex: 0.9 }]}>
+                      <Text style={styles.tableCellText}>
+                        ₹{Number(item.purchase_price).toLocaleString()}
+                      </Text>
+                    </View>
+                    <View style={[styles.tableCell, { flex: 0.9 }]}>
+                      <Text style={styles.tableCellAmount}>
+                        ₹{Number(item.sale_price).toLocaleString()}
+                      </Text>
+                    </View>
+                    <ChevronRight size={16} color="#64748b" style={styles.chevron} />
+                  </Pressable>
+                </AnimatedView>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showFilter}
+          onDismiss={() => setShowFilter(false)}
+          style={styles.modal}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Filter Items</Text>
+            <SegmentedButtons
+              value={activeFilter}
+              onValueChange={(value) => setActiveFilter(value as ActiveFilter)}
+              buttons={[
+                { value: 'all', label: 'All' },
+                { value: 'active', label: 'Active' },
+                { value: 'inactive', label: 'Inactive' },
+                { value: 'low', label: 'Low Stock' },
+              ]}
+              style={styles.activeFilter}
+            />
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#ede9fe',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#ede9fe',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#7c3aed',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#7c3aed',
+  },
+  tableContainer: {
+    gap: 8,
+    paddingBottom: 120,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  itemCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  itemInactive: {
+    opacity: 0.6,
+  },
+  itemContent: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  itemPressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableCell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tableCellStack: {
+    gap: 4,
+  },
+  tableHeaderText: {
+    color: '#64748b',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  tableCellText: {
+    color: '#1e293b',
+    fontSize: 14,
+  },
+  tableCellSubtext: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  stockLow: {
+    color: '#d97706',
+    fontWeight: '600',
+  },
+  stockOut: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  tableCellAmount: {
+    color: '#7c3aed',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  modal: {
+    margin: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  activeFilter: {
+    backgroundColor: '#ffffff',
+  },
+});
@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { router } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ItemForm } from '../../components/items/ItemForm';
+
+export default function NewItemScreen() {
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#7c3aed', '#6d28d9']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>New Item</Text>
+            <Text style={styles.headerSubtitle}>
+              Add a product or service to the catalogue
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ItemForm onSuccess={() => router.back()} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ede9fe',
+    letterSpacing: 0.3,
+  },
+});
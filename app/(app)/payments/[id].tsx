@@ -5,9 +5,14 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { supabase } from '@/lib/supabase';
 import { format } from 'date-fns';
-import { Calendar, CreditCard, User, Trash2, CircleAlert as AlertCircle, Pencil, IndianRupee, Wallet, FileText, ArrowLeft } from 'lucide-react-native';
+import { Calendar, CreditCard, User, Trash2, CircleAlert as AlertCircle, Pencil, IndianRupee, Wallet, FileText, ArrowLeft, FileDown } from 'lucide-react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
+import { deletePayment, fetchPaymentAllocations } from '../../lib/api/payments';
+import { buildPaymentVoucherDocument, renderDocumentHtml, getDocumentFileName } from '../../lib/documents';
+import { sharePdf } from '../../lib/export';
+import { fetchDocumentTemplate } from '../../lib/api/document-settings';
+import { RecordAttachments } from '../../components/attachments/RecordAttachments';
 
 type Payment = {
   id: string;
@@ -20,6 +25,8 @@ type Payment = {
   creditors: {
     id: string;
     name: string;
+    address: string | null;
+    gstin: string | null;
   } | null;
   bank_accounts: {
     id: string;
@@ -34,10 +41,12 @@ export default function PaymentDetailScreen() {
   const { selectedBusiness } = useBusiness();
   
   const [payment, setPayment] = useState<Payment | null>(null);
+  const [allocations, setAllocations] = useState<Awaited<ReturnType<typeof fetchPaymentAllocations>>>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [sharing, setSharing] = useState(false);
 
   const fetchPayment = async () => {
     if (!selectedBusiness || !id) return;
@@ -48,13 +57,14 @@ export default function PaymentDetailScreen() {
     try {
       const { data, error } = await supabase
         .from('payments')
-        .select('*, creditors(id, name), bank_accounts(id, name, account_type)')
+        .select('*, creditors(id, name, address, gstin), bank_accounts(id, name, account_type)')
         .eq('id', id)
         .eq('business_id', selectedBusiness.id)
         .single();
         
       if (error) throw error;
       setPayment(data);
+      setAllocations(await fetchPaymentAllocations(data.id));
     } catch (err: any) {
       console.error('Error fetching payment:', err);
       setError('Failed to load payment details');
@@ -69,6 +79,28 @@ export default function PaymentDetailScreen() {
     }
   }, [selectedBusiness, id]);
 
+  const handleSharePdf = async () => {
+    if (!selectedBusiness || !payment) return;
+
+    setSharing(true);
+
+    try {
+      const printable = buildPaymentVoucherDocument(
+        payment,
+        payment.creditors,
+        payment.bank_accounts?.name || null,
+        allocations.map(allocation => ({ bill_number: allocation.bills?.bill_number || '', amount: allocation.amount }))
+      );
+      const template = await fetchDocumentTemplate(selectedBusiness.id, 'PAYMENT');
+      await sharePdf(getDocumentFileName(printable), renderDocumentHtml(selectedBusiness, printable, template));
+    } catch (err: any) {
+      console.error('Error sharing payment voucher PDF:', err);
+      setError('Failed to create payment voucher PDF');
+    } finally {
+      setSharing(false);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await fetchPayment();
@@ -76,28 +108,11 @@ export default function PaymentDetailScreen() {
   };
 
   const handleDelete = async () => {
-    try {
-      // First delete related transaction if exists
-      const { data: transactions } = await supabase
-        .from('transactions')
-        .select('id')
-        .eq('reference_id', id)
-        .eq('type', 'withdrawal');
-      
-      if (transactions && transactions.length > 0) {
-        await supabase
-          .from('transactions')
-          .delete()
-          .eq('reference_id', id);
-      }
+    if (!selectedBusiness || !payment) return;
 
-      // Then delete the payment
-      const { error } = await supabase
-        .from('payments')
-        .delete()
-        .eq('id', id);
-        
-      if (error) throw error;
+    try {
+      // Reopens the bills it settled and removes the linked withdrawal
+      await deletePayment(payment.id);
       router.replace('/payments');
     } catch (err: any) {
       console.error('Error deleting payment:', err);
@@ -154,6 +169,12 @@ export default function PaymentDetailScreen() {
             </Text>
           </View>
           <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <FileDown size={20} color="#ffffff" />}
+              onPress={handleSharePdf}
+              disabled={sharing}
+              iconColor="#ffffff"
+            />
             <IconButton
               icon={() => <Pencil size={20} color="#ffffff" />}
               onPress={() => router.push(`/payments/edit/${id}`)}
@@ -250,6 +271,27 @@ export default function PaymentDetailScreen() {
           </Animated.View>
         )}
 
+        {allocations.length > 0 && (
+          <Animated.View entering={FadeInDown.duration(300).delay(250)}>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Applied to Bills</Text>
+              {allocations.map((allocation) => (
+                <View key={allocation.id} style={styles.allocationRow}>
+                  <Text
+                    style={[styles.sectionValue, styles.linkText]}
+                    onPress={() => router.push(`/bills/${allocation.bill_id}`)}
+                  >
+                    {allocation.bills?.bill_number}
+                  </Text>
+                  <Text style={styles.sectionValue}>
+                    ₹{Number(allocation.amount).toLocaleString()}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </Animated.View>
+        )}
+
         {payment.reference && (
           <Animated.View entering={FadeInDown.duration(300).delay(300)}>
             <View style={styles.section}>
@@ -267,6 +309,19 @@ export default function PaymentDetailScreen() {
             </View>
           </Animated.View>
         )}
+
+        {selectedBusiness && (
+          <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+            <RecordAttachments
+              businessId={selectedBusiness.id}
+              recordType="PAYMENT"
+              recordId={payment.id}
+              title="Payment Advice & Attachments"
+              color="#4f46e5"
+              style={styles.section}
+            />
+          </Animated.View>
+        )}
       </ScrollView>
 
       <Portal>
@@ -274,7 +329,7 @@ export default function PaymentDetailScreen() {
           <Dialog.Title>Delete Payment</Dialog.Title>
           <Dialog.Content>
             <Text variant="bodyMedium">
-              Are you sure you want to delete this payment? This action cannot be undone.
+              Are you sure you want to delete this payment? Any bills it paid will be reopened. This action cannot be undone.
             </Text>
           </Dialog.Content>
           <Dialog.Actions>
@@ -414,4 +469,14 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     fontWeight: '500',
   },
+  allocationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  linkText: {
+    color: '#4f46e5',
+    textDecorationLine: 'underline',
+  },
 });
\ No newline at end of file
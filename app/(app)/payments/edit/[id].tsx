@@ -1,13 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, Platform, Dimensions } from 'react-native';
-import { Text, TextInput, Button, HelperText, Checkbox, Portal, Modal, List, Menu } from 'react-native-paper';
+import { Text, TextInput, Button, HelperText, Checkbox, Menu } from 'react-native-paper';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { IndianRupee, CreditCard, User, FileText, Calendar, ChevronDown, ChevronUp, ArrowLeft, Save } from 'lucide-react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
 import { format } from 'date-fns';
-import { Payment, Creditor, BankAccount, Bill, fetchCreditors, fetchBankAccounts, fetchBillsForCreditor } from '../../lib/api/payments';
+import { Payment, Creditor, BankAccount, fetchCreditors, fetchBankAccounts, fetchPaymentAllocations, updatePayment } from '../../../lib/api/payments';
 import { supabase } from '@/lib/supabase';
 
 const { width } = Dimensions.get('window');
@@ -19,7 +19,6 @@ interface FormData {
   amount: string;
   creditorId: string;
   bankAccountId: string;
-  billId: string;
   reference: string;
   notes: string;
   createBankTransaction: boolean;
@@ -30,6 +29,7 @@ interface FormErrors {
   paymentDate?: string;
   amount?: string;
   bankAccountId?: string;
+  creditorId?: string;
   submit?: string;
 }
 
@@ -44,7 +44,6 @@ export default function EditPaymentScreen() {
     amount: '',
     creditorId: '',
     bankAccountId: '',
-    billId: '',
     reference: '',
     notes: '',
     createBankTransaction: false
@@ -56,14 +55,12 @@ export default function EditPaymentScreen() {
   const [fetchLoading, setFetchLoading] = useState(true);
   const [creditors, setCreditors] = useState<Creditor[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
-  const [bills, setBills] = useState<Bill[]>([]);
+  const [allocations, setAllocations] = useState<Awaited<ReturnType<typeof fetchPaymentAllocations>>>([]);
   const [fetchingCreditors, setFetchingCreditors] = useState(true);
   const [fetchingAccounts, setFetchingAccounts] = useState(true);
-  const [fetchingBills, setFetchingBills] = useState(true);
   const [showAdditionalFields, setShowAdditionalFields] = useState(false);
   const [showBankAccountModal, setShowBankAccountModal] = useState(false);
   const [showCreditorModal, setShowCreditorModal] = useState(false);
-  const [showBillModal, setShowBillModal] = useState(false);
 
   useEffect(() => {
     if (selectedBusiness && id) {
@@ -73,14 +70,6 @@ export default function EditPaymentScreen() {
     }
   }, [selectedBusiness, id]);
 
-  useEffect(() => {
-    if (selectedBusiness && formData.creditorId) {
-      loadBillsForCreditor();
-    } else {
-      setBills([]);
-    }
-  }, [selectedBusiness, formData.creditorId]);
-
   const fetchPayment = async () => {
     if (!selectedBusiness || !id) return;
     
@@ -102,11 +91,11 @@ export default function EditPaymentScreen() {
           paymentDate: new Date(data.payment_date).toISOString().split('T')[0],
           creditorId: data.creditor_id || '',
           bankAccountId: data.bank_account_id || '',
-          billId: '',
           reference: data.reference || '',
           notes: data.notes || '',
           createBankTransaction: data.payment_method === 'Bank Transfer'
         });
+        setAllocations(await fetchPaymentAllocations(data.id));
       } else {
         router.back();
       }
@@ -159,27 +148,7 @@ export default function EditPaymentScreen() {
     }
   };
 
-  const loadBillsForCreditor = async () => {
-    if (!selectedBusiness || !formData.creditorId) return;
-    
-    setFetchingBills(true);
-    try {
-      const { data, error } = await supabase
-        .from('bills')
-        .select('*')
-        .eq('business_id', selectedBusiness.id)
-        .eq('creditor_id', formData.creditorId)
-        .eq('status', 'PENDING')
-        .order('issue_date', { ascending: false });
-        
-      if (error) throw error;
-      setBills(data || []);
-    } catch (err) {
-      console.error('Error loading bills:', err);
-    } finally {
-      setFetchingBills(false);
-    }
-  };
+  const allocatedTotal = allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0);
 
   const validateForm = () => {
     const newErrors: FormErrors = {};
@@ -204,6 +173,16 @@ export default function EditPaymentScreen() {
     if (formData.createBankTransaction && !formData.bankAccountId) {
       newErrors.bankAccountId = 'Please select a bank account or uncheck "Create bank transaction"';
     }
+
+    // Allocations are fixed on edit, so the payment must still cover them and stay with the same creditor
+    if (allocations.length > 0) {
+      if (parseFloat(formData.amount) < allocatedTotal) {
+        newErrors.amount = `Amount cannot be less than the ₹${allocatedTotal.toLocaleString()} applied to bills`;
+      }
+      if (originalData && formData.creditorId !== originalData.creditor_id) {
+        newErrors.creditorId = 'This payment is applied to bills and cannot be moved to another creditor';
+      }
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -215,134 +194,25 @@ export default function EditPaymentScreen() {
     setLoading(true);
     
     try {
-      const amount = parseFloat(formData.amount);
-      const oldAmount = Number(originalData.amount);
-      const amountDifference = amount - oldAmount;
-      
-      const { error } = await supabase
-        .from('payments')
-        .update({
-          payment_number: formData.paymentNumber,
-          amount: amount,
-          payment_date: formData.paymentDate,
-          creditor_id: formData.creditorId || null,
-          bank_account_id: formData.createBankTransaction ? formData.bankAccountId : null,
-          payment_method: formData.createBankTransaction ? 'Bank Transfer' : 'Other',
-          reference: formData.reference || null,
-          notes: formData.notes || null
-        })
-        .eq('id', id)
-        .eq('business_id', selectedBusiness.id);
-        
-      if (error) throw error;
-      
-      const oldCreditorId = originalData.creditor_id;
-      const newCreditorId = formData.creditorId;
-      
-      if (oldCreditorId !== newCreditorId) {
-        if (oldCreditorId) {
-          const { data: oldCreditor } = await supabase
-            .from('creditors')
-            .select('outstanding_amount')
-            .eq('id', oldCreditorId)
-            .single();
-            
-          if (oldCreditor) {
-            const newOutstandingAmount = Number(oldCreditor.outstanding_amount) + oldAmount;
-            
-            await supabase
-              .from('creditors')
-              .update({ outstanding_amount: newOutstandingAmount })
-              .eq('id', oldCreditorId);
-          }
-        }
-        
-        if (newCreditorId) {
-          const { data: newCreditor } = await supabase
-            .from('creditors')
-            .select('outstanding_amount')
-            .eq('id', newCreditorId)
-            .single();
-            
-          if (newCreditor) {
-            const newOutstandingAmount = Math.max(0, Number(newCreditor.outstanding_amount) - amount);
-            
-            await supabase
-              .from('creditors')
-              .update({ outstanding_amount: newOutstandingAmount })
-              .eq('id', newCreditorId);
-          }
-        }
-      } else if (oldCreditorId && amountDifference !== 0) {
-        const { data: creditor } = await supabase
-          .from('creditors')
-          .select('outstanding_amount')
-          .eq('id', oldCreditorId)
-          .single();
-          
+      let description = `Payment made`;
+      if (formData.creditorId) {
+        const creditor = creditors.find(c => c.id === formData.creditorId);
         if (creditor) {
-          const newOutstandingAmount = Math.max(0, Number(creditor.outstanding_amount) - amountDifference);
-          
-          await supabase
-            .from('creditors')
-            .update({ outstanding_amount: newOutstandingAmount })
-            .eq('id', oldCreditorId);
+          description = `Payment to ${creditor.name}`;
         }
       }
-      
-      if (formData.createBankTransaction) {
-        const { data: transaction } = await supabase
-          .from('transactions')
-          .select('id')
-          .eq('reference_id', id)
-          .eq('type', 'withdrawal')
-          .single();
-          
-        let description = `Payment made`;
-        if (formData.creditorId) {
-          const creditor = creditors.find(c => c.id === formData.creditorId);
-          if (creditor) {
-            description = `Payment to ${creditor.name}`;
-          }
-        }
-        
-        if (transaction) {
-          await supabase
-            .from('transactions')
-            .update({
-              account_id: formData.bankAccountId,
-              amount: amount,
-              date: formData.paymentDate,
-              description: description,
-              notes: formData.notes || null
-            })
-            .eq('id', transaction.id);
-        } else {
-          const transactionNumber = `WIT-${formData.paymentNumber.replace('PAY-', '')}`;
-          
-          await supabase
-            .from('transactions')
-            .insert({
-              business_id: selectedBusiness.id,
-              account_id: formData.bankAccountId,
-              transaction_number: transactionNumber,
-              type: 'withdrawal',
-              amount: amount,
-              date: formData.paymentDate,
-              description: description,
-              category: 'Payment',
-              reference_id: id,
-              reconciled: false,
-              notes: formData.notes || null
-            });
-        }
-      } else {
-        await supabase
-          .from('transactions')
-          .delete()
-          .eq('reference_id', id)
-          .eq('type', 'withdrawal');
-      }
+
+      // Creditor outstanding and the linked withdrawal are re-posted server side
+      await updatePayment(id as string, {
+        payment_number: formData.paymentNumber,
+        amount: parseFloat(formData.amount),
+        payment_date: formData.paymentDate,
+        creditor_id: formData.creditorId || null,
+        bank_account_id: formData.createBankTransaction ? formData.bankAccountId : null,
+        payment_method: formData.createBankTransaction ? 'Bank Transfer' : 'Other',
+        reference: formData.reference || null,
+        notes: formData.notes || null
+      }, description);
       
       router.back();
     } catch (err) {
@@ -510,17 +380,19 @@ export default function EditPaymentScreen() {
                 </Menu>
               </Animated.View>
 
-              {formData.creditorId && bills.length > 0 && (
-                <Animated.View entering={FadeInDown.duration(300).delay(450)}>
-                  <TextInput
-                    mode="outlined"
-                    label="For Bill"
-                    value={bills.find(b => b.id === formData.billId)?.bill_number || ''}
-                    onPressIn={() => setShowBillModal(true)}
-                    right={<TextInput.Icon icon={() => <ChevronDown size={20} color="#64748b" />} />}
-                    style={styles.input}
-                    disabled={fetchingBills}
-                  />
+              {errors.creditorId && (
+                <HelperText type="error">{errors.creditorId}</HelperText>
+              )}
+
+              {allocations.length > 0 && (
+                <Animated.View entering={FadeInDown.duration(300).delay(450)} style={styles.allocationCard}>
+                  <Text style={styles.allocationTitle}>Applied to Bills</Text>
+                  {allocations.map((allocation) => (
+                    <View key={allocation.id} style={styles.allocationRow}>
+                      <Text style={styles.allocationNumber}>{allocation.bills?.bill_number}</Text>
+                      <Text style={styles.allocationNumber}>₹{Number(allocation.amount).toLocaleString()}</Text>
+                    </View>
+                  ))}
                 </Animated.View>
               )}
             </View>
@@ -644,28 +516,6 @@ export default function EditPaymentScreen() {
         </View>
       </ScrollView>
 
-      <Portal>
-        <Modal
-          visible={showBillModal}
-          onDismiss={() => setShowBillModal(false)}
-          contentContainerStyle={styles.modal}
-        >
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Select Bill</Text>
-            {bills.map(bill => (
-              <List.Item
-                key={bill.id}
-                title={bill.bill_number}
-                description={`Amount: ₹${bill.total_amount.toLocaleString()}`}
-                onPress={() => {
-                  setFormData(prev => ({ ...prev, billId: bill.id }));
-                  setShowBillModal(false);
-                }}
-              />
-            ))}
-          </View>
-        </Modal>
-      </Portal>
     </View>
   );
 }
@@ -796,20 +646,27 @@ const styles = StyleSheet.create({
   button: {
     minWidth: 120,
   },
-  modal: {
+  allocationCard: {
     backgroundColor: '#ffffff',
-    margin: 20,
     borderRadius: 12,
-    padding: 16,
-  },
-  modalContent: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
     gap: 8,
   },
-  modalTitle: {
-    fontSize: 18,
+  allocationTitle: {
+    fontSize: 15,
     fontWeight: '600',
     color: '#1e293b',
-    marginBottom: 16,
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  allocationNumber: {
+    fontSize: 14,
+    color: '#1e293b',
   },
   creditorButton: {
     justifyContent: 'space-between',
@@ -1,12 +1,14 @@
 import React from 'react';
 import { View, StyleSheet, Platform } from 'react-native';
 import { Text, Button } from 'react-native-paper';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { ArrowLeft } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { PaymentForm } from '../../components/payments/PaymentForm';
 
 export default function NewPaymentScreen() {
+  const { creditorId, billId } = useLocalSearchParams<{ creditorId?: string; billId?: string }>();
+
   return (
     <View style={styles.container}>
       <LinearGradient
@@ -34,7 +36,7 @@ export default function NewPaymentScreen() {
         </View>
       </LinearGradient>
 
-      <PaymentForm />
+      <PaymentForm defaultCreditorId={creditorId} defaultBillId={billId} />
     </View>
   );
 }
@@ -0,0 +1,563 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Platform, Pressable } from 'react-native';
+import { Text, Button, TextInput, HelperText, Switch, Chip, SegmentedButtons } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Check } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { LinearGradient } from 'expo-linear-gradient';
+import {
+  fetchDocumentSettings,
+  updateDocumentSettings,
+  DocumentSettings,
+  DocumentType,
+  NumberSeparator
+} from '../../lib/api/document-settings';
+import { financialYearLabel, formatDocumentNumber } from '../../lib/numbering';
+
+interface SettingsFormData {
+  prefix: string;
+  separator: NumberSeparator;
+  padding: string;
+  financialYearReset: boolean;
+  nextNumber: string;
+  title: string;
+  accentColor: string;
+  showLogo: boolean;
+  showSignatures: boolean;
+  footer: string;
+}
+
+interface SettingsErrors {
+  prefix?: string;
+  padding?: string;
+  nextNumber?: string;
+  submit?: string;
+}
+
+const documentTypes: { value: DocumentType; label: string }[] = [
+  { value: 'INVOICE', label: 'Invoices' },
+  { value: 'PURCHASE', label: 'Purchases' },
+  { value: 'PAYMENT', label: 'Payments' },
+  { value: 'RECEIPT', label: 'Receipts' },
+  { value: 'BILL', label: 'Bills' },
+  { value: 'TRANSFER', label: 'Transfers' },
+  { value: 'EXPENSE', label: 'Expenses' },
+];
+
+// Only these documents are printed as PDFs
+const templateTypes: DocumentType[] = ['INVOICE', 'PURCHASE', 'PAYMENT'];
+
+const accentColors = ['#4f46e5', '#1e40af', '#059669', '#7c3aed', '#dc2626', '#d97706', '#0f172a'];
+
+const toFormData = (settings: DocumentSettings): SettingsFormData => ({
+  prefix: settings.prefix,
+  separator: settings.separator,
+  padding: settings.padding.toString(),
+  financialYearReset: settings.financial_year_reset,
+  nextNumber: settings.next_number.toString(),
+  title: settings.title || '',
+  accentColor: settings.accent_color,
+  showLogo: settings.show_logo,
+  showSignatures: settings.show_signatures,
+  footer: settings.footer || '',
+});
+
+export default function DocumentSettingsScreen() {
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [settings, setSettings] = useState<DocumentSettings[]>([]);
+  const [documentType, setDocumentType] = useState<DocumentType>('INVOICE');
+  const [formData, setFormData] = useState<SettingsFormData | null>(null);
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const loadSettings = async () => {
+    if (!selectedBusiness) return;
+
+    setError(null);
+
+    try {
+      const data = await fetchDocumentSettings(selectedBusiness.id);
+      setSettings(data);
+    } catch (err: any) {
+      console.error('Error fetching document settings:', err);
+      setError('Failed to load document settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadSettings();
+    }
+  }, [selectedBusiness]);
+
+  const current = settings.find(s => s.document_type === documentType);
+
+  useEffect(() => {
+    setFormData(current ? toFormData(current) : null);
+    setErrors({});
+    setSaved(false);
+  }, [current]);
+
+  const handleChange = <K extends keyof SettingsFormData>(field: K, value: SettingsFormData[K]) => {
+    setFormData(prev => prev ? { ...prev, [field]: value } : prev);
+    setSaved(false);
+    if (errors[field as keyof SettingsErrors]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateForm = (data: SettingsFormData) => {
+    const newErrors: SettingsErrors = {};
+
+    if (!data.prefix.trim()) {
+      newErrors.prefix = 'Prefix is required';
+    }
+
+    const padding = parseInt(data.padding, 10);
+    if (isNaN(padding) || padding < 1 || padding > 10) {
+      newErrors.padding = 'Digits must be between 1 and 10';
+    }
+
+    const nextNumber = parseInt(data.nextNumber, 10);
+    if (isNaN(nextNumber) || nextNumber < 1) {
+      newErrors.nextNumber = 'Next number must be at least 1';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!selectedBusiness || !formData || !validateForm(formData)) return;
+
+    setSaving(true);
+
+    try {
+      const updated = await updateDocumentSettings(selectedBusiness.id, documentType, {
+        prefix: formData.prefix.trim(),
+        separator: formData.separator,
+        padding: parseInt(formData.padding, 10),
+        financial_year_reset: formData.financialYearReset,
+        next_number: parseInt(formData.nextNumber, 10),
+        title: formData.title.trim() || null,
+        accent_color: formData.accentColor,
+        show_logo: formData.showLogo,
+        show_signatures: formData.showSignatures,
+        footer: formData.footer.trim() || null,
+      });
+      setSettings(prev => prev.map(s => s.document_type === documentType ? updated : s));
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving document settings:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to save document settings' }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const preview = formData
+    ? formatDocumentNumber(
+        {
+          prefix: formData.prefix || '?',
+          separator: formData.separator,
+          padding: Math.min(Math.max(parseInt(formData.padding, 10) || 1, 1), 10),
+          financial_year_reset: formData.financialYearReset,
+        },
+        financialYearLabel(new Date()),
+        Math.max(parseInt(formData.nextNumber, 10) || 1, 1)
+      )
+    : '';
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text variant="titleLarge" style={styles.title}>Document Settings</Text>
+            <Text variant="titleMedium" style={styles.subtitle}>{selectedBusiness?.name}</Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        <View style={styles.typeChips}>
+          {documentTypes.map(({ value, label }) => {
+            const selected = value === documentType;
+            return (
+              <Chip
+                key={value}
+                compact
+                selected={selected}
+                showSelectedCheck={false}
+                onPress={() => setDocumentType(value)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+              >
+                {label}
+              </Chip>
+            );
+          })}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text>Loading document settings...</Text>
+          </View>
+        ) : formData && (
+          <React.Fragment>
+            <Animated.View entering={FadeInDown.duration(300)} style={styles.card}>
+              <Text style={styles.cardTitle}>Numbering</Text>
+
+              <View style={styles.previewBox}>
+                <Text style={styles.previewLabel}>Next number</Text>
+                <Text style={styles.previewValue}>{preview}</Text>
+              </View>
+
+              <View style={styles.row}>
+                <View style={styles.rowField}>
+                  <TextInput
+                    mode="outlined"
+                    label="Prefix"
+                    value={formData.prefix}
+                    onChangeText={(text) => handleChange('prefix', text.toUpperCase())}
+                    autoCapitalize="characters"
+                    error={!!errors.prefix}
+                    style={styles.input}
+                  />
+                  {errors.prefix && (
+                    <HelperText type="error">{errors.prefix}</HelperText>
+                  )}
+                </View>
+                <View style={styles.rowField}>
+                  <TextInput
+                    mode="outlined"
+                    label="Digits"
+                    value={formData.padding}
+                    onChangeText={(text) => handleChange('padding', text)}
+                    keyboardType="number-pad"
+                    error={!!errors.padding}
+                    style={styles.input}
+                  />
+                  {errors.padding && (
+                    <HelperText type="error">{errors.padding}</HelperText>
+                  )}
+                </View>
+              </View>
+
+              <Text style={styles.fieldLabel}>Separator</Text>
+              <SegmentedButtons
+                value={formData.separator}
+                onValueChange={(value) => handleChange('separator', value as NumberSeparator)}
+                buttons={[
+                  { value: '-', label: 'Dash  -' },
+                  { value: '/', label: 'Slash  /' },
+                ]}
+                style={styles.input}
+              />
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text style={styles.switchLabel}>Financial Year</Text>
+                  <Text style={styles.hint}>Adds the year to the number and starts again at 1 every April</Text>
+                </View>
+                <Switch
+                  value={formData.financialYearReset}
+                  onValueChange={(value) => handleChange('financialYearReset', value)}
+                  color="#4f46e5"
+                />
+              </View>
+
+              <TextInput
+                mode="outlined"
+                label="Next Number"
+                value={formData.nextNumber}
+                onChangeText={(text) => handleChange('nextNumber', text)}
+                keyboardType="number-pad"
+                error={!!errors.nextNumber}
+                style={styles.input}
+              />
+              {errors.nextNumber ? (
+                <HelperText type="error">{errors.nextNumber}</HelperText>
+              ) : (
+                <HelperText type="info">Numbers already in use are skipped</HelperText>
+              )}
+            </Animated.View>
+
+            {templateTypes.includes(documentType) && (
+              <Animated.View entering={FadeInDown.duration(300).delay(100)} style={styles.card}>
+                <Text style={styles.cardTitle}>PDF Template</Text>
+
+                <TextInput
+                  mode="outlined"
+                  label="Heading (Optional)"
+                  value={formData.title}
+                  onChangeText={(text) => handleChange('title', text)}
+                  placeholder="Tax Invoice, Purchase Order..."
+                  style={styles.input}
+                />
+
+                <Text style={styles.fieldLabel}>Accent Colour</Text>
+                <View style={styles.swatches}>
+                  {accentColors.map((color) => (
+                    <Pressable
+                      key={color}
+                      onPress={() => handleChange('accentColor', color)}
+                      style={[styles.swatch, { backgroundColor: color }]}
+                    >
+                      {formData.accentColor.toLowerCase() === color && (
+                        <Check size={18} color="#ffffff" strokeWidth={3} />
+                      )}
+                    </Pressable>
+                  ))}
+                </View>
+
+                <View style={styles.switchRow}>
+                  <View style={styles.switchText}>
+                    <Text style={styles.switchLabel}>Show Logo</Text>
+                    <Text style={styles.hint}>Prints the business logo, if one is set</Text>
+                  </View>
+                  <Switch
+                    value={formData.showLogo}
+                    onValueChange={(value) => handleChange('showLogo', value)}
+                    color="#4f46e5"
+                  />
+                </View>
+
+                <View style={styles.switchRow}>
+                  <View style={styles.switchText}>
+                    <Text style={styles.switchLabel}>Show Signatures</Text>
+                    <Text style={styles.hint}>Prints the signature lines at the end</Text>
+                  </View>
+                  <Switch
+                    value={formData.showSignatures}
+                    onValueChange={(value) => handleChange('showSignatures', value)}
+                    color="#4f46e5"
+                  />
+                </View>
+
+                <TextInput
+                  mode="outlined"
+                  label="Footer (Optional)"
+                  value={formData.footer}
+                  onChangeText={(text) => handleChange('footer', text)}
+                  placeholder="Terms, bank details or a thank-you note"
+                  multiline
+                  numberOfLines={3}
+                  style={styles.input}
+                />
+              </Animated.View>
+            )}
+
+            {errors.submit && (
+              <Text style={styles.errorText}>{errors.submit}</Text>
+            )}
+
+            <View style={styles.actions}>
+              {saved && <Text style={styles.savedText}>Saved</Text>}
+              <Button
+                mode="contained"
+                onPress={handleSave}
+                loading={saving}
+                disabled={saving}
+                style={styles.saveButton}
+              >
+                Save
+              </Button>
+            </View>
+          </React.Fragment>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    color: '#ffffff',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 120,
+    gap: 16,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorContainer: {
+    padding: 16,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  typeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipSelected: {
+    backgroundColor: '#4f46e5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  previewBox: {
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+  },
+  previewLabel: {
+    fontSize: 12,
+    color: '#6366f1',
+  },
+  previewValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#4338ca',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowField: {
+    flex: 1,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 6,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginBottom: 12,
+  },
+  swatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,
+  },
+  savedText: {
+    color: '#059669',
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: '#4f46e5',
+  },
+});
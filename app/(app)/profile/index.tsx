@@ -4,7 +4,8 @@ import { Text, Button, TextInput, HelperText, Portal, Modal } from 'react-native
 import { useAuth } from '@/contexts/AuthContext';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { supabase } from '@/lib/supabase';
-import { User, Mail, Phone, Calendar, LogOut, Settings, Shield, Bell, Building2, MapPin, Check, Plus } from 'lucide-react-native';
+import { User, Mail, Phone, Calendar, LogOut, Settings, Shield, Bell, Building2, MapPin, Check, Plus, FileText } from 'lucide-react-native';
+import { router } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { FadeInUp, FadeInDown } from 'react-native-reanimated';
 
@@ -296,6 +297,18 @@ export default function ProfileScreen() {
             </View>
 
             <View style={styles.card}>
+              <Pressable style={styles.menuItem} onPress={() => router.push('/profile/documents')}>
+                <View style={styles.menuItemContent}>
+                  <View style={[styles.menuIcon, { backgroundColor: '#eff6ff' }]}>
+                    <FileText size={20} color="#6366f1" strokeWidth={2.5} />
+                  </View>
+                  <View style={styles.menuText}>
+                    <Text style={styles.menuTitle}>Document Settings</Text>
+                    <Text style={styles.menuSubtitle}>Numbering and PDF templates</Text>
+                  </View>
+                </View>
+              </Pressable>
+
               <Pressable style={styles.menuItem}>
                 <View style={styles.menuItemContent}>
                   <View style={[styles.menuIcon, { backgroundColor: '#eff6ff' }]}>
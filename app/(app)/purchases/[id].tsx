@@ -3,37 +3,29 @@ import { View, StyleSheet, ScrollView, RefreshControl, Pressable } from 'react-n
 import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
-import { supabase } from '@/lib/supabase';
 import { format } from 'date-fns';
-import { Calendar, ShoppingBag, User, Trash2, CircleAlert as AlertCircle, Pencil, IndianRupee, ArrowLeft } from 'lucide-react-native';
+import { Calendar, ShoppingBag, User, Trash2, CircleAlert as AlertCircle, Pencil, IndianRupee, ArrowLeft, FileDown } from 'lucide-react-native';
 import Animated, { FadeIn } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
-
-type Purchase = {
-  id: string;
-  purchase_number: string;
-  purchase_date: string;
-  item_name: string;
-  quantity: number;
-  unit_price: number;
-  total_price: number;
-  description: string | null;
-  creditors: {
-    id: string;
-    name: string;
-  } | null;
-};
+import { fetchPurchase as fetchPurchaseWithLines, deletePurchase, PurchaseWithLineItems } from '../../lib/api/purchases';
+import { GstBreakup } from '../../components/gst/GstBreakup';
+import { summarizeStoredGst } from '../../lib/gst';
+import { buildPurchaseDocument, renderDocumentHtml, getDocumentFileName } from '../../lib/documents';
+import { sharePdf } from '../../lib/export';
+import { fetchDocumentTemplate } from '../../lib/api/document-settings';
+import { RecordAttachments } from '../../components/attachments/RecordAttachments';
 
 export default function PurchaseDetailScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
   const { selectedBusiness } = useBusiness();
   
-  const [purchase, setPurchase] = useState<Purchase | null>(null);
+  const [purchase, setPurchase] = useState<PurchaseWithLineItems | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [sharing, setSharing] = useState(false);
 
   const fetchPurchase = async () => {
     if (!selectedBusiness || !id) return;
@@ -42,14 +34,7 @@ export default function PurchaseDetailScreen() {
     setError(null);
     
     try {
-      const { data, error } = await supabase
-        .from('purchases')
-        .select('*, creditors(id, name)')
-        .eq('id', id)
-        .eq('business_id', selectedBusiness.id)
-        .single();
-        
-      if (error) throw error;
+      const data = await fetchPurchaseWithLines(id as string, selectedBusiness.id);
       setPurchase(data);
     } catch (err: any) {
       console.error('Error fetching purchase:', err);
@@ -65,6 +50,23 @@ export default function PurchaseDetailScreen() {
     }
   }, [selectedBusiness, id]);
 
+  const handleSharePdf = async () => {
+    if (!selectedBusiness || !purchase) return;
+
+    setSharing(true);
+
+    try {
+      const printable = buildPurchaseDocument(purchase);
+      const template = await fetchDocumentTemplate(selectedBusiness.id, 'PURCHASE');
+      await sharePdf(getDocumentFileName(printable), renderDocumentHtml(selectedBusiness, printable, template));
+    } catch (err: any) {
+      console.error('Error sharing purchase PDF:', err);
+      setError('Failed to create purchase PDF');
+    } finally {
+      setSharing(false);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await fetchPurchase();
@@ -72,13 +74,10 @@ export default function PurchaseDetailScreen() {
   };
 
   const handleDelete = async () => {
+    if (!selectedBusiness) return;
+
     try {
-      const { error } = await supabase
-        .from('purchases')
-        .delete()
-        .eq('id', id);
-        
-      if (error) throw error;
+      await deletePurchase(id as string, selectedBusiness.id);
       router.replace('/purchases');
     } catch (err: any) {
       console.error('Error deleting purchase:', err);
@@ -113,6 +112,11 @@ export default function PurchaseDetailScreen() {
             </Text>
           </View>
           <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <FileDown size={20} color="#ffffff" />}
+              onPress={handleSharePdf}
+              disabled={!purchase || sharing}
+            />
             <IconButton
               icon={() => <Pencil size={20} color="#ffffff" />}
               onPress={() => router.push(`/purchases/edit/${id}`)}
@@ -177,39 +181,32 @@ export default function PurchaseDetailScreen() {
                 </View>
               )}
 
-              <View style={styles.detailRow}>
-                <View style={styles.detailLabel}>
-                  <ShoppingBag size={16} color="#64748b" />
-                  <Text style={styles.labelText}>Item</Text>
-                </View>
-                <Text style={styles.detailValue}>
-                  {purchase.item_name}
-                </Text>
-              </View>
-
-              <View style={styles.detailRow}>
-                <View style={styles.detailLabel}>
-                  <Text style={styles.labelText}>Quantity</Text>
-                </View>
-                <Text style={styles.detailValue}>
-                  {purchase.quantity} units
-                </Text>
+              <View style={styles.itemsHeader}>
+                <ShoppingBag size={16} color="#64748b" />
+                <Text style={styles.labelText}>Items</Text>
               </View>
 
-              <View style={styles.detailRow}>
-                <View style={styles.detailLabel}>
-                  <IndianRupee size={16} color="#64748b" />
-                  <Text style={styles.labelText}>Unit Price</Text>
+              {purchase.purchase_line_items.map((item) => (
+                <View key={item.id} style={styles.lineItem}>
+                  <View style={styles.lineItemInfo}>
+                    <Text style={styles.lineItemName}>{item.item_name}</Text>
+                    {item.hsn_code && (
+                      <Text style={styles.lineItemMeta}>HSN/SAC {item.hsn_code}</Text>
+                    )}
+                    <Text style={styles.lineItemMeta}>
+                      {item.quantity} {item.unit || 'units'} × ₹{item.rate.toLocaleString()}
+                      {item.discount_percent > 0 ? ` · ${item.discount_percent}% off` : ''}
+                      {item.tax_percent > 0 ? ` · ${item.tax_percent}% GST` : ''}
+                    </Text>
+                  </View>
+                  <Text style={styles.lineItemAmount}>₹{item.amount.toLocaleString()}</Text>
                 </View>
-                <Text style={styles.detailValue}>
-                  ₹{purchase.unit_price.toLocaleString()}
-                </Text>
-              </View>
+              ))}
 
               <View style={[styles.detailRow, styles.totalRow]}>
                 <View style={styles.detailLabel}>
                   <IndianRupee size={16} color="#2563eb" />
-                  <Text style={[styles.labelText, styles.totalLabel]}>Total Price</Text>
+                  <Text style={[styles.labelText, styles.totalLabel]}>Grand Total</Text>
                 </View>
                 <Text style={styles.totalValue}>
                   ₹{purchase.total_price.toLocaleString()}
@@ -225,6 +222,28 @@ export default function PurchaseDetailScreen() {
                 </View>
               )}
             </View>
+
+            {Number(purchase.tax_amount) > 0 && (
+              <View style={[styles.detailsCard, styles.breakupCard]}>
+                <Text style={styles.breakupTitle}>Tax Breakup</Text>
+                <GstBreakup
+                  summary={summarizeStoredGst(purchase.purchase_line_items, purchase.reverse_charge)}
+                  placeOfSupply={purchase.place_of_supply}
+                  color="#2563eb"
+                />
+              </View>
+            )}
+
+            {selectedBusiness && (
+              <RecordAttachments
+                businessId={selectedBusiness.id}
+                recordType="PURCHASE"
+                recordId={purchase.id}
+                title="Supplier Invoice & Attachments"
+                color="#2563eb"
+                style={[styles.detailsCard, styles.breakupCard]}
+              />
+            )}
           </Animated.View>
         )}
       </ScrollView>
@@ -323,6 +342,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e2e8f0',
   },
+  breakupCard: {
+    marginTop: 16,
+  },
+  breakupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
   detailRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -344,6 +372,40 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     fontSize: 16,
   },
+  itemsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  lineItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 12,
+  },
+  lineItemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  lineItemName: {
+    color: '#1e293b',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  lineItemMeta: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  lineItemAmount: {
+    color: '#1e293b',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   totalRow: {
     borderBottomWidth: 0,
     marginTop: 8,
@@ -16,7 +16,6 @@ type Purchase = {
   purchase_number: string;
   purchase_date: string;
   item_name: string;
-  quantity: number;
   total_price: number;
   creditors: {
     name: string;
@@ -0,0 +1,437 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Portal, Dialog } from 'react-native-paper';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { format } from 'date-fns';
+import { Calendar, User, Trash2, CircleAlert as AlertCircle, IndianRupee, ArrowLeft, Building2, Hash, FileText } from 'lucide-react-native';
+import Animated, { FadeIn } from 'react-native-reanimated';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchReceipt, deleteReceipt, ReceiptWithAllocations } from '../../lib/api/receipts';
+
+export default function ReceiptDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [receipt, setReceipt] = useState<ReceiptWithAllocations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  const loadReceipt = async () => {
+    if (!selectedBusiness || !id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await fetchReceipt(id, selectedBusiness.id);
+      setReceipt(data);
+    } catch (err: any) {
+      console.error('Error fetching receipt:', err);
+      setError('Failed to load receipt details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness && id) {
+      loadReceipt();
+    }
+  }, [selectedBusiness, id]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadReceipt();
+    setRefreshing(false);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedBusiness || !id) return;
+
+    try {
+      await deleteReceipt(id);
+      router.replace('/receipts');
+    } catch (err: any) {
+      console.error('Error deleting receipt:', err);
+      setError('Failed to delete receipt');
+    } finally {
+      setShowDeleteDialog(false);
+    }
+  };
+
+  const unappliedAmount = receipt
+    ? Number(receipt.amount) - receipt.receipt_allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0)
+    : 0;
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <Button
+            mode="text"
+            onPress={() => router.back()}
+            icon={() => <ArrowLeft size={20} color="#ffffff" />}
+            textColor="#ffffff"
+            style={styles.backButton}
+          >
+            Back
+          </Button>
+          <View style={styles.headerText}>
+            <Text variant="titleLarge" style={styles.receiptNumber}>
+              Receipt #{receipt?.receipt_number}
+            </Text>
+            <Text variant="titleMedium" style={styles.totalAmount}>
+              ₹{receipt ? Number(receipt.amount).toLocaleString() : ''}
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Trash2 size={20} color="#ffffff" />}
+              onPress={() => setShowDeleteDialog(true)}
+            />
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text>Loading receipt details...</Text>
+          </View>
+        ) : !receipt ? (
+          <View style={styles.emptyContainer}>
+            <AlertCircle size={48} color="#ef4444" />
+            <Text style={styles.emptyText}>Receipt not found</Text>
+            <Button mode="contained" onPress={() => router.back()}>
+              Go Back
+            </Button>
+          </View>
+        ) : (
+          <Animated.View
+            entering={FadeIn.duration(300)}
+            style={styles.detailsContainer}
+          >
+            <View style={styles.detailsCard}>
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabel}>
+                  <User size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Customer</Text>
+                </View>
+                {receipt.customer_id ? (
+                  <Text
+                    style={[styles.detailValue, styles.linkText]}
+                    onPress={() => router.push(`/contacts/customers/${receipt.customer_id}`)}
+                  >
+                    {receipt.customers?.name}
+                  </Text>
+                ) : (
+                  <Text style={styles.detailValue}>No Customer</Text>
+                )}
+              </View>
+
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabel}>
+                  <Calendar size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Receipt Date</Text>
+                </View>
+                <Text style={styles.detailValue}>
+                  {format(new Date(receipt.receipt_date), 'MMM dd, yyyy')}
+                </Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <View style={styles.detailLabel}>
+                  <Building2 size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Deposited To</Text>
+                </View>
+                <Text style={styles.detailValue}>
+                  {receipt.bank_accounts?.name || receipt.payment_method}
+                </Text>
+              </View>
+
+              <View style={[styles.detailRow, !receipt.reference && styles.lastRow]}>
+                <View style={styles.detailLabel}>
+                  <IndianRupee size={16} color="#64748b" />
+                  <Text style={styles.labelText}>Amount</Text>
+                </View>
+                <Text style={styles.detailValue}>
+                  ₹{Number(receipt.amount).toLocaleString()}
+                </Text>
+              </View>
+
+              {receipt.reference && (
+                <View style={[styles.detailRow, styles.lastRow]}>
+                  <View style={styles.detailLabel}>
+                    <Hash size={16} color="#64748b" />
+                    <Text style={styles.labelText}>Reference</Text>
+                  </View>
+                  <Text style={styles.detailValue}>{receipt.reference}</Text>
+                </View>
+              )}
+            </View>
+
+            <View style={styles.detailsCard}>
+              <Text style={styles.cardTitle}>Applied to Invoices</Text>
+              {receipt.receipt_allocations.length === 0 ? (
+                <Text style={styles.descriptionText}>
+                  This receipt has not been applied to any invoice.
+                </Text>
+              ) : (
+                <React.Fragment>
+                  <View style={styles.tableHeader}>
+                    <Text style={[styles.tableHeaderCell, { flex: 1.5 }]}>Invoice</Text>
+                    <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 1 }]}>Invoice Total</Text>
+                    <Text style={[styles.tableHeaderCell, styles.numericCell, { flex: 1 }]}>Applied</Text>
+                  </View>
+                  {receipt.receipt_allocations.map((allocation) => (
+                    <View key={allocation.id} style={styles.tableRow}>
+                      <View style={[styles.detailLabel, { flex: 1.5 }]}>
+                        <FileText size={14} color="#059669" />
+                        <Text
+                          style={[styles.tableCell, styles.linkText]}
+                          onPress={() => router.push(`/invoices/${allocation.invoice_id}`)}
+                        >
+                          {allocation.invoices?.invoice_number}
+                        </Text>
+                      </View>
+                      <Text style={[styles.tableCell, styles.numericCell, { flex: 1 }]}>
+                        ₹{Number(allocation.invoices?.total_amount || 0).toLocaleString()}
+                      </Text>
+                      <Text style={[styles.tableCell, styles.numericCell, { flex: 1 }]}>
+                        ₹{Number(allocation.amount).toLocaleString()}
+                      </Text>
+                    </View>
+                  ))}
+                </React.Fragment>
+              )}
+
+              {unappliedAmount > 0 && (
+                <View style={[styles.detailRow, styles.totalRow]}>
+                  <View style={styles.detailLabel}>
+                    <IndianRupee size={16} color="#059669" />
+                    <Text style={[styles.labelText, styles.totalLabel]}>Customer Credit</Text>
+                  </View>
+                  <Text style={styles.totalValue}>
+                    ₹{unappliedAmount.toLocaleString()}
+                  </Text>
+                </View>
+              )}
+
+              {receipt.notes && (
+                <View style={styles.descriptionContainer}>
+                  <Text style={styles.descriptionLabel}>Notes</Text>
+                  <Text style={styles.descriptionText}>{receipt.notes}</Text>
+                </View>
+              )}
+            </View>
+          </Animated.View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
+          <Dialog.Title>Delete Receipt</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Deleting this receipt reopens the invoices it paid and removes its deposit transaction. This action cannot be undone.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDeleteDialog(false)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  receiptNumber: {
+    color: '#ffffff',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  totalAmount: {
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    margin: 16,
+    padding: 16,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  detailsContainer: {
+    padding: 16,
+    paddingBottom: 120,
+    gap: 16,
+  },
+  detailsCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  detailLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  labelText: {
+    color: '#64748b',
+    fontSize: 14,
+  },
+  detailValue: {
+    color: '#1e293b',
+    fontSize: 16,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+  },
+  tableHeaderCell: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableCell: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  numericCell: {
+    textAlign: 'right',
+  },
+  totalRow: {
+    borderBottomWidth: 0,
+    marginTop: 8,
+    paddingTop: 8,
+  },
+  totalLabel: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  totalValue: {
+    color: '#059669',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  descriptionContainer: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  descriptionLabel: {
+    color: '#64748b',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  descriptionText: {
+    color: '#1e293b',
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  linkText: {
+    color: '#059669',
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,524 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable, Platform, TextInput } from 'react-native';
+import { Text, Button, SegmentedButtons, IconButton, Portal, Modal } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { Receipt as ReceiptIcon, Building2, IndianRupee, Calendar, Hash, Search, Filter, Plus, ChevronRight } from 'lucide-react-native';
+import { format, startOfMonth, startOfYear } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { fetchReceipts, ReceiptListItem } from '../../lib/api/receipts';
+
+const AnimatedView = Animated.createAnimatedComponent(View);
+
+type PeriodFilter = 'all' | 'month' | 'year';
+
+export default function ReceiptsScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [receipts, setReceipts] = useState<ReceiptListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [periodFilter, setPeriodFilter] = useState<PeriodFilter>('all');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showFilter, setShowFilter] = useState(false);
+
+  const loadReceipts = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const data = await fetchReceipts(selectedBusiness.id);
+      setReceipts(data);
+    } catch (err: any) {
+      console.error('Error fetching receipts:', err);
+      setError('Failed to load receipts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadReceipts();
+    }
+  }, [selectedBusiness]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadReceipts();
+    setRefreshing(false);
+  };
+
+  const periodStart = periodFilter === 'month'
+    ? format(startOfMonth(new Date()), 'yyyy-MM-dd')
+    : periodFilter === 'year'
+      ? format(startOfYear(new Date()), 'yyyy-MM-dd')
+      : null;
+
+  const filteredReceipts = receipts.filter(receipt => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      receipt.receipt_number.toLowerCase().includes(query) ||
+      (receipt.customers?.name || '').toLowerCase().includes(query) ||
+      (receipt.reference || '').toLowerCase().includes(query);
+
+    if (!matchesSearch) return false;
+    return !periodStart || receipt.receipt_date >= periodStart;
+  });
+
+  const totalReceived = filteredReceipts.reduce((sum, receipt) => sum + Number(receipt.amount), 0);
+  const monthStart = format(startOfMonth(new Date()), 'yyyy-MM-dd');
+  const receivedThisMonth = receipts
+    .filter(receipt => receipt.receipt_date >= monthStart)
+    .reduce((sum, receipt) => sum + Number(receipt.amount), 0);
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view receipts
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <ReceiptIcon size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Receipts</Text>
+              <Text style={styles.headerSubtitle}>Money received from customers</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <Search size={20} color="#ffffff" />}
+              onPress={() => setShowSearch(true)}
+            />
+            <IconButton
+              icon={() => <Filter size={20} color="#ffffff" />}
+              onPress={() => setShowFilter(true)}
+            />
+            <IconButton
+              icon={() => <Plus size={20} color="#ffffff" />}
+              onPress={() => router.push('/receipts/new')}
+            />
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <IndianRupee size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Received</Text>
+              <Text style={styles.statValue}>₹{totalReceived.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Calendar size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>This Month</Text>
+              <Text style={styles.statValue}>₹{receivedThisMonth.toLocaleString()}</Text>
+            </View>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <View style={[styles.statIcon, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}>
+              <Hash size={16} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.statInfo}>
+              <Text style={styles.statLabel}>Count</Text>
+              <Text style={styles.statValue}>{filteredReceipts.length}</Text>
+            </View>
+          </View>
+        </View>
+
+        {showSearch && (
+          <View style={styles.searchContainer}>
+            <Search size={20} color="#94a3b8" strokeWidth={2.5} />
+            <TextInput
+              placeholder="Search receipts..."
+              placeholderTextColor="#94a3b8"
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoFocus
+            />
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#059669"
+            colors={['#059669']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadReceipts}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading ? (
+          <View style={styles.emptyState}>
+            <Text>Loading receipts...</Text>
+          </View>
+        ) : filteredReceipts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ReceiptIcon size={48} color="#64748B" strokeWidth={2.5} />
+            <Text style={styles.emptyTitle}>No Receipts Found</Text>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery || periodFilter !== 'all' ? 'Try adjusting your search or filter' : 'Record your first customer payment'}
+            </Text>
+            {!searchQuery && periodFilter === 'all' && (
+              <Button
+                mode="contained"
+                onPress={() => router.push('/receipts/new')}
+                style={styles.emptyButton}
+              >
+                Record Receipt
+              </Button>
+            )}
+          </View>
+        ) : (
+          <View style={styles.tableContainer}>
+            <View style={styles.tableHeader}>
+              <View style={[styles.tableCell, { flex: 1 }]}>
+                <Text style={styles.tableHeaderText}>Receipt</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 1.4 }]}>
+                <Text style={styles.tableHeaderText}>Customer</Text>
+              </View>
+              <View style={[styles.tableCell, { flex: 0.9 }]}>
+                <Text style={styles.tableHeaderText}>Amount</Text>
+              </View>
+            </View>
+            {filteredReceipts.map((receipt, index) => (
+              <AnimatedView
+                key={receipt.id}
+                entering={FadeInUp.duration(300).delay(index * 100)}
+                style={styles.receiptCard}
+              >
+                <Pressable
+                  onPress={() => router.push(`/receipts/${receipt.id}`)}
+                  style={({ pressed }) => [
+                    styles.receiptContent,
+                    pressed && styles.receiptPressed
+                  ]}
+                >
+                  <View style={[styles.tableCellStack, { flex: 1 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {receipt.receipt_number}
+                    </Text>
+                    <Text style={styles.tableCellSubtext}>
+                      {format(new Date(receipt.receipt_date), 'MMM dd, yyyy')}
+                    </Text>
+                  </View>
+                  <View style={[styles.tableCellStack, { flex: 1.4 }]}>
+                    <Text style={styles.tableCellText} numberOfLines={1}>
+                      {receipt.customers?.name || 'No Customer'}
+                    </Text>
+                    <Text style={styles.tableCellSubtext}>{receipt.payment_method}</Text>
+                  </View>
+                  <View style={[styles.tableCell, { flex: 0.9 }]}>
+                    <Text style={styles.tableCellAmount}>
+                      ₹{Number(receipt.amount).toLocaleString()}
+                    </Text>
+                  </View>
+                  <ChevronRight size={16} color="#64748b" style={styles.chevron} />
+                </Pressable>
+              </AnimatedView>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={showFilter}
+          onDismiss={() => setShowFilter(false)}
+          style={styles.modal}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Filter by Period</Text>
+            <SegmentedButtons
+              value={periodFilter}
+              onValueChange={(value) => setPeriodFilter(value as PeriodFilter)}
+              buttons={[
+                { value: 'all', label: 'All Time' },
+                { value: 'month', label: 'This Month' },
+                { value: 'year', label: 'This Year' },
+              ]}
+              style={styles.periodFilter}
+            />
+          </View>
+        </Modal>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#d1fae5',
+    letterSpacing: 0.3,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#d1fae5',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#059669',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#059669',
+  },
+  tableContainer: {
+    gap: 8,
+    paddingBottom: 120,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  receiptCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  receiptContent: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  receiptPressed: {
+    backgroundColor: '#f8fafc',
+  },
+  tableCell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tableCellStack: {
+    gap: 4,
+  },
+  tableHeaderText: {
+    color: '#64748b',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  tableCellText: {
+    color: '#1e293b',
+    fontSize: 14,
+  },
+  tableCellSubtext: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  tableCellAmount: {
+    color: '#059669',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  modal: {
+    margin: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  periodFilter: {
+    backgroundColor: '#ffffff',
+  },
+});
@@ -0,0 +1,599 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Chip, TextInput, HelperText } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Building2, Scale, BookOpen, Download, FileDown, CircleAlert } from 'lucide-react-native';
+import { format, parseISO, isValid, endOfMonth, subMonths, subYears } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchLedgerAccounts, fetchLedgerBalances, LedgerAccount, LedgerAccountBalance } from '../../lib/api/ledger';
+import {
+  buildTrialBalance,
+  buildBalanceSheet,
+  getBalanceSheetRows,
+  toBalanceSheetCsv,
+  toBalanceSheetDocument,
+  formatAsOf,
+  BalanceSheetRowKind,
+} from '../../lib/ledger';
+import { getFinancialYearRange } from '../../lib/profit-loss';
+import { renderReportHtml, getReportFileName } from '../../lib/documents';
+import { shareTextFile, sharePdf } from '../../lib/export';
+
+type PresetKey = 'today' | 'lastMonth' | 'lastYear';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function getPresetDate(preset: PresetKey, today: Date): string {
+  switch (preset) {
+    case 'today':
+      return toDateString(today);
+    case 'lastMonth':
+      return toDateString(endOfMonth(subMonths(today, 1)));
+    case 'lastYear':
+      return getFinancialYearRange(subYears(today, 1)).end;
+  }
+}
+
+const presets: { key: PresetKey; label: string }[] = [
+  { key: 'today', label: 'Today' },
+  { key: 'lastMonth', label: 'Last Month End' },
+  { key: 'lastYear', label: 'Last FY End' },
+];
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export default function BalanceSheetScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [asOf, setAsOf] = useState(() => getPresetDate('today', new Date()));
+  const [preset, setPreset] = useState<PresetKey | null>('today');
+  const [customDate, setCustomDate] = useState(asOf);
+  const [dateError, setDateError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [balances, setBalances] = useState<LedgerAccountBalance[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadBalances = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const [accountData, balanceData] = await Promise.all([
+        fetchLedgerAccounts(selectedBusiness.id),
+        fetchLedgerBalances(selectedBusiness.id, asOf),
+      ]);
+      setAccounts(accountData);
+      setBalances(balanceData);
+    } catch (err: any) {
+      console.error('Error fetching balance sheet:', err);
+      setError('Failed to load balance sheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      setLoading(true);
+      loadBalances();
+    }
+  }, [selectedBusiness, asOf]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadBalances();
+    setRefreshing(false);
+  };
+
+  const selectPreset = (key: PresetKey) => {
+    const next = getPresetDate(key, new Date());
+    setPreset(key);
+    setAsOf(next);
+    setCustomDate(next);
+    setDateError(null);
+  };
+
+  const applyCustomDate = () => {
+    if (!isDate(customDate)) {
+      setDateError('Enter the date as YYYY-MM-DD');
+      return;
+    }
+    setDateError(null);
+    setPreset(null);
+    setAsOf(customDate);
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view the balance sheet
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const sheet = balances ? buildBalanceSheet(buildTrialBalance(accounts, balances, asOf)) : null;
+  const rows = sheet ? getBalanceSheetRows(sheet) : [];
+
+  const exportCsv = async () => {
+    if (!sheet) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toBalanceSheetDocument(sheet);
+      await shareTextFile(getReportFileName(document, 'csv'), toBalanceSheetCsv(sheet), 'text/csv');
+    } catch (err: any) {
+      console.error('Error exporting balance sheet:', err);
+      setError(err.message || 'Failed to export balance sheet');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!sheet) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toBalanceSheetDocument(sheet);
+      await sharePdf(getReportFileName(document), renderReportHtml(selectedBusiness, document));
+    } catch (err: any) {
+      console.error('Error exporting balance sheet PDF:', err);
+      setError(err.message || 'Failed to create balance sheet PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const labelStyles: Record<BalanceSheetRowKind, object> = {
+    heading: styles.headingLabel,
+    line: styles.lineLabel,
+    total: styles.totalLabel,
+    grandTotal: styles.grandTotalLabel,
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#0369a1', '#075985']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Balance Sheet</Text>
+              <Text style={styles.headerSubtitle}>As of {formatAsOf(asOf)}</Text>
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <IconButton
+              icon={() => <BookOpen size={20} color="#ffffff" />}
+              onPress={() => router.push('/reports/trial-balance')}
+              style={styles.headerButton}
+            />
+            <View style={styles.titleIcon}>
+              <Scale size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+          </View>
+        </View>
+
+        {sheet && (
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Assets</Text>
+              <Text style={styles.statValue}>{formatAmount(sheet.assets.total)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Liabilities</Text>
+              <Text style={styles.statValue}>{formatAmount(sheet.liabilities.total)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Equity</Text>
+              <Text style={[styles.statValue, sheet.equity.total < 0 && styles.statLoss]}>
+                {formatAmount(sheet.equity.total)}
+              </Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#0369a1"
+            colors={['#0369a1']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        <View style={styles.presets}>
+          {presets.map(({ key, label }) => {
+            const selected = preset === key;
+            return (
+              <Chip
+                key={key}
+                compact
+                selected={selected}
+                showSelectedCheck={false}
+                onPress={() => selectPreset(key)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+              >
+                {label}
+              </Chip>
+            );
+          })}
+        </View>
+
+        <View style={styles.dateRow}>
+          <TextInput
+            mode="outlined"
+            label="As of"
+            value={customDate}
+            onChangeText={setCustomDate}
+            placeholder="YYYY-MM-DD"
+            dense
+            style={styles.dateInput}
+          />
+          <Button mode="outlined" onPress={applyCustomDate} textColor="#0369a1">
+            Apply
+          </Button>
+        </View>
+        {dateError && (
+          <HelperText type="error">{dateError}</HelperText>
+        )}
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadBalances}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading || !sheet ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : (
+          <View style={styles.reportContainer}>
+            {!sheet.balanced && (
+              <View style={styles.warningBanner}>
+                <CircleAlert size={18} color="#dc2626" />
+                <Text style={styles.warningText}>
+                  Out of balance by {formatAmount(Math.abs(sheet.assets.total - sheet.totalLiabilitiesAndEquity))}
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.card}>
+              {rows.map((row, index) => (
+                <View
+                  key={`${row.label}-${index}`}
+                  style={[styles.tableRow, row.kind === 'grandTotal' && styles.grandTotalRow]}
+                >
+                  <Text style={[styles.cell, styles.labelCell, labelStyles[row.kind]]}>{row.label}</Text>
+                  {row.amount !== undefined && (
+                    <Text style={[styles.cell, row.kind !== 'line' && styles.strongCell, row.amount < 0 && styles.negative]}>
+                      {formatAmount(row.amount)}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            <Text style={styles.noteText}>
+              Retained earnings are income less expenses from the journal up to this date. Purchases, bills,
+              invoices, payments, receipts, bank transactions and opening balances are all posted there.
+            </Text>
+
+            <View style={styles.exportRow}>
+              <Button
+                mode="outlined"
+                icon={() => <Download size={18} color="#0369a1" />}
+                onPress={exportCsv}
+                disabled={exporting}
+                textColor="#0369a1"
+                style={styles.exportButton}
+              >
+                CSV
+              </Button>
+              <Button
+                mode="contained"
+                icon={() => <FileDown size={18} color="#ffffff" />}
+                onPress={exportPdf}
+                loading={exporting}
+                disabled={exporting}
+                style={[styles.exportButton, styles.exportPdfButton]}
+              >
+                PDF
+              </Button>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  backButton: {
+    margin: 0,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  headerButton: {
+    margin: 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0f2fe',
+    letterSpacing: 0.3,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#e0f2fe',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statLoss: {
+    color: '#fecaca',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipSelected: {
+    backgroundColor: '#0369a1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dateInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  reportContainer: {
+    gap: 12,
+    paddingBottom: 120,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  warningText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#b91c1c',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 4,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  grandTotalRow: {
+    backgroundColor: '#f0f9ff',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  strongCell: {
+    fontWeight: '600',
+  },
+  labelCell: {
+    flex: 2,
+    textAlign: 'left',
+  },
+  headingLabel: {
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  lineLabel: {
+    paddingLeft: 12,
+    color: '#475569',
+  },
+  totalLabel: {
+    fontWeight: '600',
+  },
+  grandTotalLabel: {
+    fontWeight: '700',
+    color: '#075985',
+  },
+  negative: {
+    color: '#dc2626',
+  },
+  noteText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  exportButton: {
+    flex: 1,
+  },
+  exportPdfButton: {
+    backgroundColor: '#0369a1',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#0369a1',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#0369a1',
+  },
+});
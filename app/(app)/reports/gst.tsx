@@ -0,0 +1,753 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, SegmentedButtons } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, ChevronLeft, ChevronRight, Building2, Landmark, Download, CircleAlert as AlertCircle } from 'lucide-react-native';
+import { format, addMonths, subMonths } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchGstReturnDocuments, GstReturnDocuments } from '../../lib/api/gst-returns';
+import {
+  getReturnPeriod,
+  buildGstr1,
+  buildGstr3b,
+  toGstr1Json,
+  toGstr3bJson,
+  toGstr1Csv,
+  toGstr3bCsv,
+  getTotalTax,
+  Gstr1Section,
+  RateTotals,
+  TaxHeads,
+} from '../../lib/gst-returns';
+import { getStateName } from '../../lib/gst';
+import { shareTextFile } from '../../lib/export';
+
+type ReturnType = 'gstr1' | 'gstr3b';
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+const formatPlace = (code: string | null) => (code ? `${getStateName(code) || code} (${code})` : 'Not specified');
+
+interface AmountRow {
+  label: string;
+  amounts: TaxHeads & { taxableValue?: number };
+}
+
+function AmountsTable({ rows, showTaxable = true }: { rows: AmountRow[]; showTaxable?: boolean }) {
+  return (
+    <View style={styles.table}>
+      <View style={[styles.tableRow, styles.tableHeaderRow]}>
+        <Text style={[styles.headerCell, styles.labelCell]}>Particulars</Text>
+        {showTaxable && <Text style={styles.headerCell}>Taxable</Text>}
+        <Text style={styles.headerCell}>IGST</Text>
+        <Text style={styles.headerCell}>CGST</Text>
+        <Text style={styles.headerCell}>SGST</Text>
+      </View>
+      {rows.map((row) => (
+        <View key={row.label} style={styles.tableRow}>
+          <Text style={[styles.cell, styles.labelCell]}>{row.label}</Text>
+          {showTaxable && <Text style={styles.cell}>{formatAmount(row.amounts.taxableValue || 0)}</Text>}
+          <Text style={styles.cell}>{formatAmount(row.amounts.igst)}</Text>
+          <Text style={styles.cell}>{formatAmount(row.amounts.cgst)}</Text>
+          <Text style={styles.cell}>{formatAmount(row.amounts.sgst)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const toRateRows = (entries: RateTotals[]): AmountRow[] =>
+  entries.map(entry => ({ label: `${entry.rate}%`, amounts: entry }));
+
+export default function GstReturnsScreen() {
+  const { selectedBusiness } = useBusiness();
+  // Returns are filed for the month just gone
+  const [month, setMonth] = useState(() => subMonths(new Date(), 1));
+  const [returnType, setReturnType] = useState<ReturnType>('gstr1');
+  const [documents, setDocuments] = useState<GstReturnDocuments | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const period = getReturnPeriod(month);
+
+  const loadDocuments = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const data = await fetchGstReturnDocuments(selectedBusiness.id, period.start, period.end);
+      setDocuments(data);
+    } catch (err: any) {
+      console.error('Error fetching GST return documents:', err);
+      setError('Failed to load GST returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      setLoading(true);
+      loadDocuments();
+    }
+  }, [selectedBusiness, period.code]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDocuments();
+    setRefreshing(false);
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view GST returns
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const gstr1 = documents ? buildGstr1(documents, selectedBusiness, period) : null;
+  const gstr3b = documents ? buildGstr3b(documents, selectedBusiness, period) : null;
+  const fileSuffix = `${gstr1?.gstin || 'UNREGISTERED'}_${period.code}`;
+
+  const exportFile = async (fileName: string, contents: string, mimeType: string) => {
+    try {
+      setExporting(true);
+      setError(null);
+      await shareTextFile(fileName, contents, mimeType);
+    } catch (err: any) {
+      console.error('Error exporting GST return:', err);
+      setError(err.message || 'Failed to export GST return');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportJson = () => {
+    if (returnType === 'gstr1' && gstr1) {
+      exportFile(`GSTR1_${fileSuffix}.json`, JSON.stringify(toGstr1Json(gstr1), null, 2), 'application/json');
+    } else if (returnType === 'gstr3b' && gstr3b) {
+      exportFile(`GSTR3B_${fileSuffix}.json`, JSON.stringify(toGstr3bJson(gstr3b), null, 2), 'application/json');
+    }
+  };
+
+  const exportGstr1Csv = (section: Gstr1Section) => {
+    if (!gstr1) return;
+    exportFile(`GSTR1_${section}_${fileSuffix}.csv`, toGstr1Csv(gstr1, section), 'text/csv');
+  };
+
+  const exportGstr3bCsv = () => {
+    if (!gstr3b) return;
+    exportFile(`GSTR3B_${fileSuffix}.csv`, toGstr3bCsv(gstr3b), 'text/csv');
+  };
+
+  const renderSectionHeader = (title: string, section: Gstr1Section, count: number) => (
+    <View style={styles.cardHeader}>
+      <Text style={styles.cardTitle}>{title} ({count})</Text>
+      <Button
+        compact
+        mode="text"
+        icon={() => <Download size={16} color="#0f766e" />}
+        textColor="#0f766e"
+        disabled={exporting || count === 0}
+        onPress={() => exportGstr1Csv(section)}
+      >
+        CSV
+      </Button>
+    </View>
+  );
+
+  const renderGstr1 = () => {
+    if (!gstr1) return null;
+
+    return (
+      <>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Outward Supplies by Rate</Text>
+          <Text style={styles.subheading}>B2B (registered buyers)</Text>
+          {gstr1.b2bByRate.length > 0
+            ? <AmountsTable rows={toRateRows(gstr1.b2bByRate)} />
+            : <Text style={styles.emptyText}>No B2B supplies</Text>}
+          <Text style={styles.subheading}>B2C (unregistered buyers)</Text>
+          {gstr1.b2cByRate.length > 0
+            ? <AmountsTable rows={toRateRows(gstr1.b2cByRate)} />
+            : <Text style={styles.emptyText}>No B2C supplies</Text>}
+          <AmountsTable rows={[{ label: 'Total', amounts: gstr1.totals }]} />
+        </View>
+
+        <View style={styles.card}>
+          {renderSectionHeader('B2B Invoices', 'b2b', gstr1.b2b.length)}
+          {gstr1.b2b.map((invoice) => (
+            <View key={invoice.id} style={styles.documentRow}>
+              <View style={styles.documentInfo}>
+                <Text style={styles.documentNumber}>{invoice.number}</Text>
+                <Text style={styles.documentMeta}>
+                  {invoice.partyName} · {invoice.partyGstin}
+                </Text>
+                <Text style={styles.documentMeta}>
+                  {format(new Date(invoice.date), 'MMM dd, yyyy')} · {formatPlace(invoice.placeOfSupply)}
+                  {invoice.reverseCharge ? ' · Reverse charge' : ''}
+                </Text>
+              </View>
+              <View style={styles.documentAmounts}>
+                <Text style={styles.documentValue}>{formatAmount(invoice.value)}</Text>
+                <Text style={styles.documentMeta}>Tax {formatAmount(invoice.taxAmount)}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          {renderSectionHeader('B2C Large Invoices', 'b2cl', gstr1.b2cl.length)}
+          {gstr1.b2cl.map((invoice) => (
+            <View key={invoice.id} style={styles.documentRow}>
+              <View style={styles.documentInfo}>
+                <Text style={styles.documentNumber}>{invoice.number}</Text>
+                <Text style={styles.documentMeta}>
+                  {format(new Date(invoice.date), 'MMM dd, yyyy')} · {formatPlace(invoice.placeOfSupply)}
+                </Text>
+              </View>
+              <Text style={styles.documentValue}>{formatAmount(invoice.value)}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          {renderSectionHeader('B2C Small Supplies', 'b2cs', gstr1.b2cs.length)}
+          {gstr1.b2cs.length > 0 && (
+            <AmountsTable
+              rows={gstr1.b2cs.map(row => ({
+                label: `${formatPlace(row.placeOfSupply)} · ${row.rate}%`,
+                amounts: row,
+              }))}
+            />
+          )}
+        </View>
+
+        <View style={styles.card}>
+          {renderSectionHeader('HSN Summary', 'hsn', gstr1.hsn.length)}
+          {gstr1.hsn.length > 0 && (
+            <AmountsTable
+              rows={gstr1.hsn.map(row => ({
+                label: `${row.hsnCode || 'No HSN'} · ${row.rate}%`,
+                amounts: row,
+              }))}
+            />
+          )}
+          {gstr1.hsn.some(row => !row.hsnCode) && (
+            <Text style={styles.warningText}>Some invoice lines have no HSN/SAC code; add one before filing</Text>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  const renderGstr3b = () => {
+    if (!gstr3b) return null;
+
+    const cashRows: AmountRow[] = [
+      { label: 'Tax liability', amounts: gstr3b.liability },
+      { label: 'Paid through ITC', amounts: gstr3b.creditUsed },
+      { label: 'Reverse charge', amounts: gstr3b.inwardReverseCharge },
+      { label: 'Payable in cash', amounts: gstr3b.cashPayable },
+    ];
+
+    return (
+      <>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>3.1 Outward and Reverse Charge Supplies</Text>
+          <AmountsTable
+            rows={[
+              { label: '(a) Taxable', amounts: gstr3b.outwardTaxable },
+              { label: '(c) Nil rated', amounts: gstr3b.outwardNilRated },
+              { label: '(d) Reverse charge', amounts: gstr3b.inwardReverseCharge },
+            ]}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>3.2 Inter-state Supplies to Unregistered Persons</Text>
+          {gstr3b.unregisteredInterState.length > 0 ? (
+            gstr3b.unregisteredInterState.map((supply) => (
+              <View key={supply.placeOfSupply} style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{formatPlace(supply.placeOfSupply)}</Text>
+                <Text style={styles.summaryValue}>
+                  {formatAmount(supply.taxableValue)} · IGST {formatAmount(supply.igst)}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>No inter-state supplies to unregistered persons</Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>4 Eligible ITC</Text>
+          <AmountsTable
+            showTaxable={false}
+            rows={[
+              { label: '(A)(3) Reverse charge', amounts: gstr3b.itcReverseCharge },
+              { label: '(A)(5) All other ITC', amounts: gstr3b.itcOther },
+              { label: '(C) Net ITC', amounts: gstr3b.itcNet },
+              { label: '(D) Ineligible', amounts: gstr3b.itcIneligible },
+            ]}
+          />
+          {getTotalTax(gstr3b.itcIneligible) > 0 && (
+            <Text style={styles.warningText}>
+              Tax charged by suppliers without a valid GSTIN cannot be claimed as input tax credit
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>6.1 Payment of Tax</Text>
+            <Button
+              compact
+              mode="text"
+              icon={() => <Download size={16} color="#0f766e" />}
+              textColor="#0f766e"
+              disabled={exporting}
+              onPress={exportGstr3bCsv}
+            >
+              CSV
+            </Button>
+          </View>
+          <AmountsTable showTaxable={false} rows={cashRows} />
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>ITC carried forward</Text>
+            <Text style={styles.summaryValue}>{formatAmount(getTotalTax(gstr3b.creditCarriedForward))}</Text>
+          </View>
+          <View style={[styles.summaryRow, styles.totalRow]}>
+            <Text style={styles.totalLabel}>Net Tax Payable</Text>
+            <Text style={styles.totalValue}>{formatAmount(gstr3b.netPayable)}</Text>
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#0f766e', '#115e59']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>GST Returns</Text>
+              <Text style={styles.headerSubtitle}>GSTR-1 and GSTR-3B summaries</Text>
+            </View>
+          </View>
+          <View style={styles.titleIcon}>
+            <Landmark size={24} color="#ffffff" strokeWidth={2.5} />
+          </View>
+        </View>
+
+        <View style={styles.periodSelector}>
+          <IconButton
+            icon={() => <ChevronLeft size={20} color="#ffffff" />}
+            onPress={() => setMonth(current => subMonths(current, 1))}
+          />
+          <Text style={styles.periodLabel}>{period.label}</Text>
+          <IconButton
+            icon={() => <ChevronRight size={20} color="#ffffff" />}
+            onPress={() => setMonth(current => addMonths(current, 1))}
+          />
+        </View>
+
+        {gstr1 && gstr3b && (
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Output Tax</Text>
+              <Text style={styles.statValue}>{formatAmount(getTotalTax(gstr1.totals))}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>ITC</Text>
+              <Text style={styles.statValue}>{formatAmount(getTotalTax(gstr3b.itcNet))}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Payable</Text>
+              <Text style={styles.statValue}>{formatAmount(gstr3b.netPayable)}</Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#0f766e"
+            colors={['#0f766e']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        <SegmentedButtons
+          value={returnType}
+          onValueChange={(value) => setReturnType(value as ReturnType)}
+          buttons={[
+            { value: 'gstr1', label: 'GSTR-1' },
+            { value: 'gstr3b', label: 'GSTR-3B' },
+          ]}
+          style={styles.segmented}
+        />
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadDocuments}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {gstr1 && !gstr1.gstin && (
+          <View style={styles.noticeContainer}>
+            <AlertCircle size={16} color="#b45309" />
+            <Text style={styles.noticeText}>
+              Add the business GSTIN as its tax ID to fill the GSTIN in exported returns
+            </Text>
+          </View>
+        )}
+
+        {loading ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : (
+          <View style={styles.reportContainer}>
+            {returnType === 'gstr1' ? renderGstr1() : renderGstr3b()}
+
+            <Button
+              mode="contained"
+              icon={() => <Download size={18} color="#ffffff" />}
+              onPress={exportJson}
+              loading={exporting}
+              disabled={exporting || !documents}
+              style={styles.exportButton}
+            >
+              Export {returnType === 'gstr1' ? 'GSTR-1' : 'GSTR-3B'} JSON
+            </Button>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  backButton: {
+    margin: 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#ccfbf1',
+    letterSpacing: 0.3,
+  },
+  periodSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  periodLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    minWidth: 140,
+    textAlign: 'center',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#ccfbf1',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  segmented: {
+    marginBottom: 16,
+  },
+  reportContainer: {
+    gap: 12,
+    paddingBottom: 120,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  subheading: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 4,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableHeaderRow: {
+    backgroundColor: '#f8fafc',
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+    textAlign: 'right',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 11,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  labelCell: {
+    flex: 1.4,
+    textAlign: 'left',
+  },
+  documentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  documentInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  documentNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  documentMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  documentAmounts: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  documentValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f766e',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  totalRow: {
+    paddingTop: 12,
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#0f766e',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#b45309',
+  },
+  noticeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fffbeb',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#b45309',
+  },
+  exportButton: {
+    marginTop: 4,
+    backgroundColor: '#0f766e',
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#0f766e',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#0f766e',
+  },
+});
@@ -0,0 +1,623 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform, Pressable } from 'react-native';
+import { Text, Button, IconButton, SegmentedButtons } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Building2, CalendarClock, ChevronDown, ChevronRight, Download, FileDown } from 'lucide-react-native';
+import { format, parseISO } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchPayablesDocuments, PayablesDocuments } from '../../lib/api/payables';
+import {
+  buildAgeingReport,
+  toAgeingCsv,
+  toAgeingDocument,
+  AGEING_BUCKETS,
+  OPEN_ITEM_LABELS,
+  AgeingBasis,
+  AgeingBucket,
+  AgeingFigures,
+  CreditorAgeing,
+  OpenItem,
+} from '../../lib/payables';
+import { renderReportHtml, getReportFileName } from '../../lib/documents';
+import { shareTextFile, sharePdf } from '../../lib/export';
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+// Older buckets get warmer colours
+const bucketColors: Record<AgeingBucket, string> = {
+  notDue: '#64748b',
+  days0to30: '#0891b2',
+  days31to60: '#d97706',
+  days61to90: '#ea580c',
+  over90: '#dc2626',
+};
+
+export default function PayablesAgeingScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [asOf] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [basis, setBasis] = useState<AgeingBasis>('dueDate');
+  const [documents, setDocuments] = useState<PayablesDocuments | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadDocuments = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const data = await fetchPayablesDocuments(selectedBusiness.id);
+      setDocuments(data);
+    } catch (err: any) {
+      console.error('Error fetching payables:', err);
+      setError('Failed to load payables ageing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      setLoading(true);
+      loadDocuments();
+    }
+  }, [selectedBusiness]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDocuments();
+    setRefreshing(false);
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view payables ageing
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const report = documents ? buildAgeingReport(documents, asOf, basis) : null;
+
+  const exportCsv = async () => {
+    if (!report) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toAgeingDocument(report);
+      await shareTextFile(getReportFileName(document, 'csv'), toAgeingCsv(report), 'text/csv');
+    } catch (err: any) {
+      console.error('Error exporting payables ageing:', err);
+      setError(err.message || 'Failed to export payables ageing');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!report) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toAgeingDocument(report);
+      await sharePdf(getReportFileName(document), renderReportHtml(selectedBusiness, document));
+    } catch (err: any) {
+      console.error('Error exporting payables ageing PDF:', err);
+      setError(err.message || 'Failed to create payables ageing PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openItem = (creditorId: string, item: OpenItem) => {
+    if (item.kind === 'BILL') {
+      router.push(`/bills/${item.id}`);
+    } else if (item.kind === 'PURCHASE') {
+      router.push(`/purchases/${item.id}`);
+    } else {
+      router.push(`/contacts/creditors/${creditorId}`);
+    }
+  };
+
+  const renderBuckets = (figures: AgeingFigures) => (
+    <View style={styles.bucketRow}>
+      {AGEING_BUCKETS.map(({ key, label }) => (
+        <View key={key} style={styles.bucket}>
+          <Text style={styles.bucketLabel}>{label}</Text>
+          <Text style={[styles.bucketValue, figures[key] > 0 && { color: bucketColors[key] }]}>
+            {formatAmount(figures[key])}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderCreditor = (ageing: CreditorAgeing, dueBy: string) => {
+    const { creditor, items, figures, unappliedCredit, balance, dueSoon } = ageing;
+    const isExpanded = expanded === creditor.id;
+
+    return (
+      <View key={creditor.id} style={styles.card}>
+        <Pressable
+          onPress={() => setExpanded(isExpanded ? null : creditor.id)}
+          style={styles.creditorHeader}
+        >
+          <View style={styles.creditorInfo}>
+            <Text style={styles.creditorName}>{creditor.name}</Text>
+            <Text style={styles.creditorMeta}>
+              {items.length} open {items.length === 1 ? 'item' : 'items'}
+              {dueSoon > 0 ? ` · ${formatAmount(dueSoon)} due by ${formatDate(dueBy)}` : ''}
+            </Text>
+          </View>
+          <Text style={[styles.creditorBalance, balance < 0 && styles.creditBalance]}>
+            {formatAmount(balance)}
+          </Text>
+          {isExpanded ? (
+            <ChevronDown size={20} color="#94a3b8" />
+          ) : (
+            <ChevronRight size={20} color="#94a3b8" />
+          )}
+        </Pressable>
+
+        {renderBuckets(figures)}
+
+        {isExpanded && (
+          <View style={styles.itemList}>
+            {items.map(item => (
+              <Pressable
+                key={`${item.kind}-${item.id}`}
+                onPress={() => openItem(creditor.id, item)}
+                style={styles.itemRow}
+              >
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemTitle}>
+                    {item.kind === 'OPENING' ? OPEN_ITEM_LABELS.OPENING : `${OPEN_ITEM_LABELS[item.kind]} ${item.number}`}
+                  </Text>
+                  <Text style={styles.itemMeta}>
+                    {formatDate(item.date)}
+                    {item.kind === 'BILL' ? ` · due ${formatDate(item.dueDate)}` : ''}
+                    {' · '}
+                    {item.days < 0 ? `due in ${-item.days} days` : `${item.days} days`}
+                  </Text>
+                </View>
+                <View style={styles.itemAmounts}>
+                  <Text style={[styles.itemBalance, { color: bucketColors[item.bucket] }]}>
+                    {formatAmount(item.balance)}
+                  </Text>
+                  {item.balance !== item.amount && (
+                    <Text style={styles.itemMeta}>of {formatAmount(item.amount)}</Text>
+                  )}
+                </View>
+              </Pressable>
+            ))}
+            {unappliedCredit > 0 && (
+              <View style={styles.itemRow}>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemTitle}>Unapplied Credit</Text>
+                  <Text style={styles.itemMeta}>Paid but not matched to anything open</Text>
+                </View>
+                <Text style={[styles.itemBalance, styles.creditBalance]}>
+                  {formatAmount(-unappliedCredit)}
+                </Text>
+              </View>
+            )}
+            {balance > 0 && (
+              <Button
+                mode="outlined"
+                onPress={() => router.push(`/payments/new?creditorId=${creditor.id}`)}
+                textColor="#4f46e5"
+                style={styles.payButton}
+              >
+                Record Payment
+              </Button>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#4f46e5', '#4338ca']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Payables Ageing</Text>
+              <Text style={styles.headerSubtitle}>As of {formatDate(asOf)}</Text>
+            </View>
+          </View>
+          <View style={styles.titleIcon}>
+            <CalendarClock size={24} color="#ffffff" strokeWidth={2.5} />
+          </View>
+        </View>
+
+        {report && (
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Outstanding</Text>
+              <Text style={styles.statValue}>{formatAmount(report.balance)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Due This Week</Text>
+              <Text style={styles.statValue}>{formatAmount(report.dueSoon)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Over 90 Days</Text>
+              <Text style={[styles.statValue, report.totals.over90 > 0 && styles.statAlert]}>
+                {formatAmount(report.totals.over90)}
+              </Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        <SegmentedButtons
+          value={basis}
+          onValueChange={value => setBasis(value as AgeingBasis)}
+          buttons={[
+            { value: 'dueDate', label: 'By Due Date' },
+            { value: 'documentDate', label: 'By Document Date' },
+          ]}
+          style={styles.basisButtons}
+        />
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadDocuments}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading || !report ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : (
+          <View style={styles.reportContainer}>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>All Creditors</Text>
+              <Text style={styles.cardSubtitle}>
+                {basis === 'dueDate' ? 'Days past the due date' : 'Days since the document date'}
+              </Text>
+              {renderBuckets(report.totals)}
+            </View>
+
+            {report.creditors.length === 0 ? (
+              <Text style={styles.emptyText}>Nothing is owed to any creditor</Text>
+            ) : (
+              report.creditors.map(ageing => renderCreditor(ageing, report.dueBy))
+            )}
+
+            <Text style={styles.noteText}>
+              Purchases and opening balances fall due when they are recorded. Payments that were not
+              allocated to a bill are applied to the oldest open items first.
+            </Text>
+
+            <View style={styles.exportRow}>
+              <Button
+                mode="outlined"
+                icon={() => <Download size={18} color="#4f46e5" />}
+                onPress={exportCsv}
+                disabled={exporting}
+                textColor="#4f46e5"
+                style={styles.exportButton}
+              >
+                CSV
+              </Button>
+              <Button
+                mode="contained"
+                icon={() => <FileDown size={18} color="#ffffff" />}
+                onPress={exportPdf}
+                loading={exporting}
+                disabled={exporting}
+                style={[styles.exportButton, styles.exportPdfButton]}
+              >
+                PDF
+              </Button>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  backButton: {
+    margin: 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statAlert: {
+    color: '#fecaca',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  basisButtons: {
+    marginBottom: 12,
+  },
+  reportContainer: {
+    gap: 12,
+    paddingBottom: 120,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  bucket: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    paddingVertical: 6,
+    gap: 2,
+  },
+  bucketLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  bucketValue: {
+    fontSize: 11,
+    color: '#94a3b8',
+  },
+  creditorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  creditorInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  creditorName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  creditorMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  creditorBalance: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  creditBalance: {
+    color: '#059669',
+  },
+  itemList: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    paddingTop: 4,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 8,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  itemMeta: {
+    fontSize: 11,
+    color: '#64748b',
+  },
+  itemAmounts: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  itemBalance: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  payButton: {
+    marginTop: 8,
+    borderColor: '#4f46e5',
+  },
+  noteText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  exportButton: {
+    flex: 1,
+  },
+  exportPdfButton: {
+    backgroundColor: '#4f46e5',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#4f46e5',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#4f46e5',
+  },
+});
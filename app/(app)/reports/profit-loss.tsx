@@ -0,0 +1,679 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Chip, TextInput, HelperText } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Building2, TrendingUp, Download, FileDown } from 'lucide-react-native';
+import { format, parseISO, isValid, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, subMonths, subYears } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchProfitLossDocuments, ProfitLossDocuments } from '../../lib/api/profit-loss';
+import {
+  buildProfitLoss,
+  toProfitLossEntries,
+  getPreviousRange,
+  getProfitLossRows,
+  getFinancialYearRange,
+  getChange,
+  formatRange,
+  toProfitLossCsv,
+  toProfitLossDocument,
+  DateRange,
+  ProfitLossFigures,
+  ProfitLossRow,
+  ProfitLossRowKind,
+} from '../../lib/profit-loss';
+import { renderReportHtml, getReportFileName } from '../../lib/documents';
+import { shareTextFile, sharePdf } from '../../lib/export';
+
+type PresetKey = 'thisMonth' | 'lastMonth' | 'thisQuarter' | 'thisYear' | 'lastYear';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function getPresetRange(preset: PresetKey, today: Date): DateRange {
+  switch (preset) {
+    case 'thisMonth':
+      return { start: toDateString(startOfMonth(today)), end: toDateString(endOfMonth(today)) };
+    case 'lastMonth': {
+      const lastMonth = subMonths(today, 1);
+      return { start: toDateString(startOfMonth(lastMonth)), end: toDateString(endOfMonth(lastMonth)) };
+    }
+    case 'thisQuarter':
+      // Calendar quarters line up with the April to March financial year
+      return { start: toDateString(startOfQuarter(today)), end: toDateString(endOfQuarter(today)) };
+    case 'thisYear':
+      return getFinancialYearRange(today);
+    case 'lastYear':
+      return getFinancialYearRange(subYears(today, 1));
+  }
+}
+
+const presets: { key: PresetKey; label: string }[] = [
+  { key: 'thisMonth', label: 'This Month' },
+  { key: 'lastMonth', label: 'Last Month' },
+  { key: 'thisQuarter', label: 'This Quarter' },
+  { key: 'thisYear', label: 'This FY' },
+  { key: 'lastYear', label: 'Last FY' },
+];
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export default function ProfitLossScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('thisYear', new Date()));
+  const [preset, setPreset] = useState<PresetKey | null>('thisYear');
+  const [customStart, setCustomStart] = useState(range.start);
+  const [customEnd, setCustomEnd] = useState(range.end);
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<ProfitLossDocuments | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadDocuments = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      // One fetch covers the range and the period it is compared with
+      const previousRange = getPreviousRange(range);
+      const data = await fetchProfitLossDocuments(selectedBusiness.id, previousRange.start, range.end);
+      setDocuments(data);
+    } catch (err: any) {
+      console.error('Error fetching profit and loss:', err);
+      setError('Failed to load profit and loss');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      setLoading(true);
+      loadDocuments();
+    }
+  }, [selectedBusiness, range.start, range.end]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDocuments();
+    setRefreshing(false);
+  };
+
+  const selectPreset = (key: PresetKey) => {
+    const next = getPresetRange(key, new Date());
+    setPreset(key);
+    setRange(next);
+    setCustomStart(next.start);
+    setCustomEnd(next.end);
+    setRangeError(null);
+  };
+
+  const applyCustomRange = () => {
+    if (!isDate(customStart) || !isDate(customEnd)) {
+      setRangeError('Enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (customStart > customEnd) {
+      setRangeError('The start date must be before the end date');
+      return;
+    }
+    setRangeError(null);
+    setPreset(null);
+    setRange({ start: customStart, end: customEnd });
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view profit and loss
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const report = documents ? buildProfitLoss(toProfitLossEntries(documents), range) : null;
+  const rows = report ? getProfitLossRows(report) : [];
+
+  const exportCsv = async () => {
+    if (!report) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toProfitLossDocument(report);
+      await shareTextFile(getReportFileName(document, 'csv'), toProfitLossCsv(report), 'text/csv');
+    } catch (err: any) {
+      console.error('Error exporting profit and loss:', err);
+      setError(err.message || 'Failed to export profit and loss');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!report) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toProfitLossDocument(report);
+      await sharePdf(getReportFileName(document), renderReportHtml(selectedBusiness, document));
+    } catch (err: any) {
+      console.error('Error exporting profit and loss PDF:', err);
+      setError(err.message || 'Failed to create profit and loss PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const labelStyles: Record<ProfitLossRowKind, object> = {
+    heading: styles.headingLabel,
+    line: styles.lineLabel,
+    total: styles.totalLabel,
+    profit: styles.profitLabel,
+  };
+
+  const renderChange = (row: ProfitLossRow, figures: ProfitLossFigures) => {
+    const change = getChange(figures);
+    if (change === null) return <Text style={styles.cell}>—</Text>;
+    // A rise in costs is bad news, a rise in anything else is good news
+    const costRow = row.section === 'costOfSales' || row.section === 'expenses';
+    const good = costRow ? change <= 0 : change >= 0;
+    return (
+      <Text style={[styles.cell, good ? styles.positive : styles.negative]}>
+        {change > 0 ? '+' : ''}{change}%
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#059669', '#047857']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Profit & Loss</Text>
+              <Text style={styles.headerSubtitle}>{formatRange(range)}</Text>
+            </View>
+          </View>
+          <View style={styles.titleIcon}>
+            <TrendingUp size={24} color="#ffffff" strokeWidth={2.5} />
+          </View>
+        </View>
+
+        {report && (
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Revenue</Text>
+              <Text style={styles.statValue}>{formatAmount(report.sections.revenue.total)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Gross Profit</Text>
+              <Text style={styles.statValue}>{formatAmount(report.grossProfit.total)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Net Profit</Text>
+              <Text style={[styles.statValue, report.netProfit.total < 0 && styles.statLoss]}>
+                {formatAmount(report.netProfit.total)}
+              </Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#059669"
+            colors={['#059669']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        <View style={styles.presets}>
+          {presets.map(({ key, label }) => {
+            const selected = preset === key;
+            return (
+              <Chip
+                key={key}
+                compact
+                selected={selected}
+                showSelectedCheck={false}
+                onPress={() => selectPreset(key)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+              >
+                {label}
+              </Chip>
+            );
+          })}
+        </View>
+
+        <View style={styles.rangeRow}>
+          <TextInput
+            mode="outlined"
+            label="From"
+            value={customStart}
+            onChangeText={setCustomStart}
+            placeholder="YYYY-MM-DD"
+            dense
+            style={styles.rangeInput}
+          />
+          <TextInput
+            mode="outlined"
+            label="To"
+            value={customEnd}
+            onChangeText={setCustomEnd}
+            placeholder="YYYY-MM-DD"
+            dense
+            style={styles.rangeInput}
+          />
+          <Button mode="outlined" onPress={applyCustomRange} textColor="#059669">
+            Apply
+          </Button>
+        </View>
+        {rangeError && (
+          <HelperText type="error">{rangeError}</HelperText>
+        )}
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadDocuments}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading || !report ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : (
+          <View style={styles.reportContainer}>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Statement</Text>
+              <Text style={styles.cardSubtitle}>
+                Compared with {formatRange(report.previousRange)}
+              </Text>
+              <View style={[styles.tableRow, styles.tableHeaderRow]}>
+                <Text style={[styles.headerCell, styles.labelCell]}>Particulars</Text>
+                <Text style={styles.headerCell}>Total</Text>
+                <Text style={styles.headerCell}>Previous</Text>
+                <Text style={styles.headerCell}>Change</Text>
+              </View>
+              {rows.map((row, index) => (
+                <View
+                  key={`${row.label}-${index}`}
+                  style={[styles.tableRow, row.kind === 'profit' && styles.profitRow]}
+                >
+                  <Text style={[styles.cell, styles.labelCell, labelStyles[row.kind]]}>{row.label}</Text>
+                  {row.figures && (
+                    <>
+                      <Text style={[styles.cell, row.kind !== 'line' && styles.strongCell]}>
+                        {formatAmount(row.figures.total)}
+                      </Text>
+                      <Text style={styles.cell}>{formatAmount(row.figures.previous)}</Text>
+                      {renderChange(row, row.figures)}
+                    </>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            {report.months.length > 1 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Month by Month</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View>
+                    <View style={[styles.tableRow, styles.tableHeaderRow]}>
+                      <Text style={[styles.headerCell, styles.monthLabelCell]}>Particulars</Text>
+                      {report.months.map(month => (
+                        <Text key={month.key} style={[styles.headerCell, styles.monthCell]}>{month.label}</Text>
+                      ))}
+                    </View>
+                    {rows.filter(row => row.figures).map((row, index) => (
+                      <View
+                        key={`${row.label}-${index}`}
+                        style={[styles.tableRow, row.kind === 'profit' && styles.profitRow]}
+                      >
+                        <Text style={[styles.cell, styles.monthLabelCell, labelStyles[row.kind]]} numberOfLines={1}>
+                          {row.label}
+                        </Text>
+                        {row.figures?.months.map((amount, monthIndex) => (
+                          <Text
+                            key={report.months[monthIndex].key}
+                            style={[styles.cell, styles.monthCell, row.kind !== 'line' && styles.strongCell]}
+                          >
+                            {formatAmount(amount)}
+                          </Text>
+                        ))}
+                      </View>
+                    ))}
+                  </View>
+                </ScrollView>
+              </View>
+            )}
+
+            <Text style={styles.noteText}>
+              Sales and costs are counted when invoiced, bought or billed, before GST. Other income and
+              expenses come from categorised bank transactions that are not linked to a document.
+            </Text>
+
+            <View style={styles.exportRow}>
+              <Button
+                mode="outlined"
+                icon={() => <Download size={18} color="#059669" />}
+                onPress={exportCsv}
+                disabled={exporting}
+                textColor="#059669"
+                style={styles.exportButton}
+              >
+                CSV
+              </Button>
+              <Button
+                mode="contained"
+                icon={() => <FileDown size={18} color="#ffffff" />}
+                onPress={exportPdf}
+                loading={exporting}
+                disabled={exporting}
+                style={[styles.exportButton, styles.exportPdfButton]}
+              >
+                PDF
+              </Button>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  backButton: {
+    margin: 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#d1fae5',
+    letterSpacing: 0.3,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#d1fae5',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statLoss: {
+    color: '#fecaca',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipSelected: {
+    backgroundColor: '#059669',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  rangeInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  reportContainer: {
+    gap: 12,
+    paddingBottom: 120,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableHeaderRow: {
+    backgroundColor: '#f8fafc',
+  },
+  profitRow: {
+    backgroundColor: '#ecfdf5',
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+    textAlign: 'right',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  strongCell: {
+    fontWeight: '600',
+  },
+  labelCell: {
+    flex: 1.6,
+    textAlign: 'left',
+  },
+  monthLabelCell: {
+    width: 140,
+    flex: 0,
+    textAlign: 'left',
+  },
+  monthCell: {
+    width: 100,
+    flex: 0,
+  },
+  headingLabel: {
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  lineLabel: {
+    paddingLeft: 12,
+    color: '#475569',
+  },
+  totalLabel: {
+    fontWeight: '600',
+  },
+  profitLabel: {
+    fontWeight: '700',
+    color: '#047857',
+  },
+  positive: {
+    color: '#059669',
+  },
+  negative: {
+    color: '#dc2626',
+  },
+  noteText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  exportButton: {
+    flex: 1,
+  },
+  exportPdfButton: {
+    backgroundColor: '#059669',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#059669',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#059669',
+  },
+});
@@ -0,0 +1,600 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform } from 'react-native';
+import { Text, Button, IconButton, Chip, TextInput, HelperText } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { ArrowLeft, Building2, BookOpen, Download, FileDown, CircleCheck, CircleAlert } from 'lucide-react-native';
+import { format, parseISO, isValid, endOfMonth, subMonths, subYears } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import { fetchLedgerAccounts, fetchLedgerBalances, LedgerAccount, LedgerAccountBalance } from '../../lib/api/ledger';
+import {
+  buildTrialBalance,
+  toTrialBalanceCsv,
+  toTrialBalanceDocument,
+  formatAsOf,
+  ACCOUNT_TYPE_TITLES,
+} from '../../lib/ledger';
+import { getFinancialYearRange } from '../../lib/profit-loss';
+import { renderReportHtml, getReportFileName } from '../../lib/documents';
+import { shareTextFile, sharePdf } from '../../lib/export';
+
+type PresetKey = 'today' | 'lastMonth' | 'lastYear';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function getPresetDate(preset: PresetKey, today: Date): string {
+  switch (preset) {
+    case 'today':
+      return toDateString(today);
+    case 'lastMonth':
+      return toDateString(endOfMonth(subMonths(today, 1)));
+    case 'lastYear':
+      return getFinancialYearRange(subYears(today, 1)).end;
+  }
+}
+
+const presets: { key: PresetKey; label: string }[] = [
+  { key: 'today', label: 'Today' },
+  { key: 'lastMonth', label: 'Last Month End' },
+  { key: 'lastYear', label: 'Last FY End' },
+];
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export default function TrialBalanceScreen() {
+  const { selectedBusiness } = useBusiness();
+  const [asOf, setAsOf] = useState(() => getPresetDate('today', new Date()));
+  const [preset, setPreset] = useState<PresetKey | null>('today');
+  const [customDate, setCustomDate] = useState(asOf);
+  const [dateError, setDateError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [balances, setBalances] = useState<LedgerAccountBalance[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadBalances = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setError(null);
+      const [accountData, balanceData] = await Promise.all([
+        fetchLedgerAccounts(selectedBusiness.id),
+        fetchLedgerBalances(selectedBusiness.id, asOf),
+      ]);
+      setAccounts(accountData);
+      setBalances(balanceData);
+    } catch (err: any) {
+      console.error('Error fetching trial balance:', err);
+      setError('Failed to load trial balance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      setLoading(true);
+      loadBalances();
+    }
+  }, [selectedBusiness, asOf]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadBalances();
+    setRefreshing(false);
+  };
+
+  const selectPreset = (key: PresetKey) => {
+    const next = getPresetDate(key, new Date());
+    setPreset(key);
+    setAsOf(next);
+    setCustomDate(next);
+    setDateError(null);
+  };
+
+  const applyCustomDate = () => {
+    if (!isDate(customDate)) {
+      setDateError('Enter the date as YYYY-MM-DD');
+      return;
+    }
+    setDateError(null);
+    setPreset(null);
+    setAsOf(customDate);
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Building2 size={48} color="#64748B" strokeWidth={2.5} />
+          <Text style={styles.emptyTitle}>No Business Selected</Text>
+          <Text style={styles.emptySubtitle}>
+            Please select a business to view the trial balance
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => router.push('/businesses')}
+            style={styles.emptyButton}
+          >
+            Select Business
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  const trialBalance = balances ? buildTrialBalance(accounts, balances, asOf) : null;
+
+  const exportCsv = async () => {
+    if (!trialBalance) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toTrialBalanceDocument(trialBalance);
+      await shareTextFile(getReportFileName(document, 'csv'), toTrialBalanceCsv(trialBalance), 'text/csv');
+    } catch (err: any) {
+      console.error('Error exporting trial balance:', err);
+      setError(err.message || 'Failed to export trial balance');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!trialBalance) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      const document = toTrialBalanceDocument(trialBalance);
+      await sharePdf(getReportFileName(document), renderReportHtml(selectedBusiness, document));
+    } catch (err: any) {
+      console.error('Error exporting trial balance PDF:', err);
+      setError(err.message || 'Failed to create trial balance PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#2563eb', '#1d4ed8']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <IconButton
+              icon={() => <ArrowLeft size={24} color="#ffffff" />}
+              onPress={() => router.back()}
+              style={styles.backButton}
+            />
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Trial Balance</Text>
+              <Text style={styles.headerSubtitle}>As of {formatAsOf(asOf)}</Text>
+            </View>
+          </View>
+          <View style={styles.titleIcon}>
+            <BookOpen size={24} color="#ffffff" strokeWidth={2.5} />
+          </View>
+        </View>
+
+        {trialBalance && (
+          <View style={styles.statsContainer}>
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Debits</Text>
+              <Text style={styles.statValue}>{formatAmount(trialBalance.totalDebit)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Credits</Text>
+              <Text style={styles.statValue}>{formatAmount(trialBalance.totalCredit)}</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statLabel}>Accounts</Text>
+              <Text style={styles.statValue}>{trialBalance.lines.length}</Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#2563eb"
+            colors={['#2563eb']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        <View style={styles.presets}>
+          {presets.map(({ key, label }) => {
+            const selected = preset === key;
+            return (
+              <Chip
+                key={key}
+                compact
+                selected={selected}
+                showSelectedCheck={false}
+                onPress={() => selectPreset(key)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+              >
+                {label}
+              </Chip>
+            );
+          })}
+        </View>
+
+        <View style={styles.dateRow}>
+          <TextInput
+            mode="outlined"
+            label="As of"
+            value={customDate}
+            onChangeText={setCustomDate}
+            placeholder="YYYY-MM-DD"
+            dense
+            style={styles.dateInput}
+          />
+          <Button mode="outlined" onPress={applyCustomDate} textColor="#2563eb">
+            Apply
+          </Button>
+        </View>
+        {dateError && (
+          <HelperText type="error">{dateError}</HelperText>
+        )}
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.retryText} onPress={loadBalances}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {loading || !trialBalance ? (
+          <Text style={styles.emptyText}>Loading...</Text>
+        ) : (
+          <View style={styles.reportContainer}>
+            <View style={[styles.statusBanner, trialBalance.balanced ? styles.statusBalanced : styles.statusUnbalanced]}>
+              {trialBalance.balanced ? (
+                <CircleCheck size={18} color="#059669" />
+              ) : (
+                <CircleAlert size={18} color="#dc2626" />
+              )}
+              <Text style={[styles.statusText, { color: trialBalance.balanced ? '#047857' : '#b91c1c' }]}>
+                {trialBalance.balanced
+                  ? 'Debits and credits agree'
+                  : `Out of balance by ${formatAmount(Math.abs(trialBalance.totalDebit - trialBalance.totalCredit))}`}
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <View style={[styles.tableRow, styles.tableHeaderRow]}>
+                <Text style={[styles.headerCell, styles.codeCell]}>Code</Text>
+                <Text style={[styles.headerCell, styles.labelCell]}>Account</Text>
+                <Text style={styles.headerCell}>Debit</Text>
+                <Text style={styles.headerCell}>Credit</Text>
+              </View>
+              {trialBalance.lines.length === 0 ? (
+                <Text style={styles.emptyText}>Nothing has been posted by this date</Text>
+              ) : (
+                trialBalance.lines.map((line, index) => {
+                  const previous = trialBalance.lines[index - 1];
+                  const newType = !previous || previous.account.account_type !== line.account.account_type;
+                  return (
+                    <React.Fragment key={line.account.id}>
+                      {newType && (
+                        <Text style={styles.groupTitle}>{ACCOUNT_TYPE_TITLES[line.account.account_type]}</Text>
+                      )}
+                      <View style={styles.tableRow}>
+                        <Text style={[styles.cell, styles.codeCell]}>{line.account.code}</Text>
+                        <Text style={[styles.cell, styles.labelCell]} numberOfLines={1}>{line.account.name}</Text>
+                        <Text style={styles.cell}>{line.debit ? formatAmount(line.debit) : ''}</Text>
+                        <Text style={styles.cell}>{line.credit ? formatAmount(line.credit) : ''}</Text>
+                      </View>
+                    </React.Fragment>
+                  );
+                })
+              )}
+              <View style={[styles.tableRow, styles.totalRow]}>
+                <Text style={[styles.cell, styles.codeCell]}>{''}</Text>
+                <Text style={[styles.cell, styles.labelCell, styles.strongCell]}>Total</Text>
+                <Text style={[styles.cell, styles.strongCell]}>{formatAmount(trialBalance.totalDebit)}</Text>
+                <Text style={[styles.cell, styles.strongCell]}>{formatAmount(trialBalance.totalCredit)}</Text>
+              </View>
+            </View>
+
+            <Button
+              mode="text"
+              onPress={() => router.push('/reports/balance-sheet')}
+              textColor="#2563eb"
+            >
+              View Balance Sheet
+            </Button>
+
+            <View style={styles.exportRow}>
+              <Button
+                mode="outlined"
+                icon={() => <Download size={18} color="#2563eb" />}
+                onPress={exportCsv}
+                disabled={exporting}
+                textColor="#2563eb"
+                style={styles.exportButton}
+              >
+                CSV
+              </Button>
+              <Button
+                mode="contained"
+                icon={() => <FileDown size={18} color="#ffffff" />}
+                onPress={exportPdf}
+                loading={exporting}
+                disabled={exporting}
+                style={[styles.exportButton, styles.exportPdfButton]}
+              >
+                PDF
+              </Button>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  backButton: {
+    margin: 0,
+  },
+  titleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 2,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#dbeafe',
+    letterSpacing: 0.3,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#dbeafe',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dateInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  reportContainer: {
+    gap: 12,
+    paddingBottom: 120,
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+  },
+  statusBalanced: {
+    backgroundColor: '#ecfdf5',
+    borderColor: '#a7f3d0',
+  },
+  statusUnbalanced: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 4,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#1e293b',
+    paddingTop: 8,
+    paddingHorizontal: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  tableHeaderRow: {
+    backgroundColor: '#f8fafc',
+  },
+  totalRow: {
+    backgroundColor: '#eff6ff',
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+    textAlign: 'right',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  strongCell: {
+    fontWeight: '600',
+  },
+  codeCell: {
+    flex: 0.6,
+    textAlign: 'left',
+  },
+  labelCell: {
+    flex: 1.6,
+    textAlign: 'left',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  exportButton: {
+    flex: 1,
+  },
+  exportPdfButton: {
+    backgroundColor: '#2563eb',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#2563eb',
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyButton: {
+    marginTop: 24,
+    backgroundColor: '#2563eb',
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { View, StyleSheet, Modal, Pressable, Platform } from 'react-native';
+import { Text, Button, IconButton } from 'react-native-paper';
+import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import { Camera, SwitchCamera, X } from 'lucide-react-native';
+import { AttachmentFile } from '../../lib/api/attachments';
+
+interface AttachmentCameraProps {
+  visible: boolean;
+  onCapture: (file: AttachmentFile) => void;
+  onClose: () => void;
+}
+
+// Full-screen camera for photographing documents; closes after each shot
+export function AttachmentCamera({ visible, onCapture, onClose }: AttachmentCameraProps) {
+  const cameraRef = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [facing, setFacing] = useState<CameraType>('back');
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || capturing) return;
+
+    setCapturing(true);
+    setError(null);
+
+    try {
+      const picture = await cameraRef.current.takePictureAsync({ quality: 0.7 });
+      if (picture) {
+        onCapture({ uri: picture.uri, fileName: `photo-${Date.now()}.jpg`, mimeType: 'image/jpeg' });
+        onClose();
+      }
+    } catch (err) {
+      console.error('Error taking photo:', err);
+      setError('Failed to take photo');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {!permission ? (
+          <View style={styles.permission}>
+            <Text style={styles.permissionText}>Checking camera access...</Text>
+          </View>
+        ) : !permission.granted ? (
+          <View style={styles.permission}>
+            <Camera size={48} color="#ffffff" />
+            <Text style={styles.permissionText}>
+              Allow camera access to photograph documents
+            </Text>
+            {permission.canAskAgain && (
+              <Button mode="contained" onPress={requestPermission}>
+                Allow Camera
+              </Button>
+            )}
+            <Button mode="text" textColor="#ffffff" onPress={onClose}>
+              Cancel
+            </Button>
+          </View>
+        ) : (
+          <CameraView ref={cameraRef} style={styles.camera} facing={facing}>
+            <View style={styles.topBar}>
+              <IconButton
+                icon={() => <X size={24} color="#ffffff" />}
+                onPress={onClose}
+                style={styles.roundButton}
+              />
+              <IconButton
+                icon={() => <SwitchCamera size={24} color="#ffffff" />}
+                onPress={() => setFacing(prev => (prev === 'back' ? 'front' : 'back'))}
+                style={styles.roundButton}
+              />
+            </View>
+
+            <View style={styles.bottomBar}>
+              {error && <Text style={styles.errorText}>{error}</Text>}
+              <Pressable
+                onPress={handleCapture}
+                disabled={capturing}
+                style={({ pressed }) => [styles.shutter, (pressed || capturing) && styles.shutterPressed]}
+              >
+                <View style={styles.shutterInner} />
+              </Pressable>
+            </View>
+          </CameraView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+    justifyContent: 'space-between',
+  },
+  topBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: Platform.OS === 'ios' ? 56 : 24,
+    paddingHorizontal: 16,
+  },
+  roundButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  bottomBar: {
+    alignItems: 'center',
+    paddingBottom: Platform.OS === 'ios' ? 48 : 32,
+    gap: 12,
+  },
+  shutter: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shutterPressed: {
+    opacity: 0.6,
+  },
+  shutterInner: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#ffffff',
+  },
+  permission: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  permissionText: {
+    color: '#ffffff',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#fecaca',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Image, Pressable } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera, FileText, ImagePlus, X } from 'lucide-react-native';
+import { AttachmentFile } from '../../lib/api/attachments';
+import { AttachmentCamera } from './AttachmentCamera';
+
+export type AttachmentPreview = {
+  key: string;
+  uri: string | null;
+  fileName: string;
+  isImage: boolean;
+};
+
+interface AttachmentPickerProps {
+  label?: string;
+  previews: AttachmentPreview[];
+  onAdd: (files: AttachmentFile[]) => void;
+  onRemove: (key: string) => void;
+  onOpen?: (key: string) => void;
+  onError: (message: string) => void;
+  color?: string;
+  disabled?: boolean;
+}
+
+const toFiles = (assets: ImagePicker.ImagePickerAsset[]): AttachmentFile[] =>
+  assets.map(asset => ({ uri: asset.uri, fileName: asset.fileName, mimeType: asset.mimeType, size: asset.fileSize }));
+
+// Thumbnails of the files chosen so far, with buttons to photograph a
+// document or pick files from the device
+export function AttachmentPicker({
+  label = 'Attachments',
+  previews,
+  onAdd,
+  onRemove,
+  onOpen,
+  onError,
+  color = '#4f46e5',
+  disabled = false,
+}: AttachmentPickerProps) {
+  const [showCamera, setShowCamera] = useState(false);
+
+  const handleChooseFiles = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      onError('Allow photo library access to attach files');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.7,
+      allowsMultipleSelection: true,
+    });
+    if (!result.canceled) {
+      onAdd(toFiles(result.assets));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+
+      {previews.length > 0 && (
+        <View style={styles.thumbnails}>
+          {previews.map(preview => (
+            <View key={preview.key} style={styles.thumbnail}>
+              <Pressable onPress={() => onOpen?.(preview.key)} disabled={!onOpen}>
+                {preview.uri && preview.isImage ? (
+                  <Image source={{ uri: preview.uri }} style={styles.thumbnailImage} />
+                ) : (
+                  <View style={[styles.thumbnailImage, styles.thumbnailPlaceholder]}>
+                    <FileText size={20} color="#94a3b8" />
+                    <Text style={styles.placeholderText} numberOfLines={1}>
+                      {preview.uri ? preview.fileName : 'Unavailable'}
+                    </Text>
+                  </View>
+                )}
+              </Pressable>
+              <Pressable
+                style={styles.removeButton}
+                onPress={() => onRemove(preview.key)}
+                disabled={disabled}
+                hitSlop={8}
+              >
+                <X size={14} color="#ffffff" />
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.buttons}>
+        <Button
+          mode="outlined"
+          onPress={() => setShowCamera(true)}
+          disabled={disabled}
+          icon={() => <Camera size={18} color={color} />}
+          textColor={color}
+          style={styles.button}
+        >
+          Take Photo
+        </Button>
+        <Button
+          mode="outlined"
+          onPress={handleChooseFiles}
+          disabled={disabled}
+          icon={() => <ImagePlus size={18} color={color} />}
+          textColor={color}
+          style={styles.button}
+        >
+          Choose
+        </Button>
+      </View>
+
+      <AttachmentCamera
+        visible={showCamera}
+        onCapture={(file) => onAdd([file])}
+        onClose={() => setShowCamera(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  thumbnails: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    position: 'relative',
+  },
+  thumbnailImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#f1f5f9',
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 4,
+    gap: 4,
+  },
+  placeholderText: {
+    fontSize: 10,
+    color: '#94a3b8',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#ef4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+  },
+});
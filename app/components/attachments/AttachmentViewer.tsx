@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, StyleSheet, Modal, Image, Platform } from 'react-native';
+import { Text, IconButton } from 'react-native-paper';
+import { FileText, Trash2, X } from 'lucide-react-native';
+
+export type ViewableAttachment = {
+  uri: string | null;
+  fileName: string;
+  isImage: boolean;
+};
+
+interface AttachmentViewerProps {
+  attachment: ViewableAttachment | null;
+  onClose: () => void;
+  onDelete?: () => void;
+}
+
+export function AttachmentViewer({ attachment, onClose, onDelete }: AttachmentViewerProps) {
+  return (
+    <Modal visible={!!attachment} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {attachment?.uri && attachment.isImage ? (
+          <Image source={{ uri: attachment.uri }} style={styles.image} resizeMode="contain" />
+        ) : (
+          <View style={styles.placeholder}>
+            <FileText size={64} color="#94a3b8" />
+            <Text style={styles.placeholderText}>
+              {attachment?.uri ? 'No preview for this file' : 'This file is unavailable'}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.topBar}>
+          <IconButton
+            icon={() => <X size={24} color="#ffffff" />}
+            onPress={onClose}
+            style={styles.roundButton}
+          />
+          <Text style={styles.fileName} numberOfLines={1}>
+            {attachment?.fileName}
+          </Text>
+          {onDelete ? (
+            <IconButton
+              icon={() => <Trash2 size={22} color="#ffffff" />}
+              onPress={onDelete}
+              style={styles.roundButton}
+            />
+          ) : (
+            <View style={styles.spacer} />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  placeholder: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  placeholderText: {
+    color: '#cbd5e1',
+    fontSize: 14,
+  },
+  topBar: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 48 : 16,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  roundButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  fileName: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  spacer: {
+    width: 48,
+  },
+});
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Text, Button, Portal, Dialog, ActivityIndicator } from 'react-native-paper';
+import {
+  AttachmentFile,
+  AttachmentRecordType,
+  AttachmentWithUrl,
+  deleteAttachment,
+  fetchAttachments,
+  isImageAttachment,
+  uploadAttachment,
+} from '../../lib/api/attachments';
+import { AttachmentPicker } from './AttachmentPicker';
+import { AttachmentViewer } from './AttachmentViewer';
+
+interface RecordAttachmentsProps {
+  businessId: string;
+  recordType: AttachmentRecordType;
+  recordId: string;
+  title?: string;
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Attachments of a saved record; files are uploaded as soon as they are added
+export function RecordAttachments({ businessId, recordType, recordId, title = 'Attachments', color, style }: RecordAttachmentsProps) {
+  const [attachments, setAttachments] = useState<AttachmentWithUrl[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<AttachmentWithUrl | null>(null);
+  const [deleting, setDeleting] = useState<AttachmentWithUrl | null>(null);
+
+  const loadAttachments = async () => {
+    try {
+      setError(null);
+      setAttachments(await fetchAttachments(recordType, recordId));
+    } catch (err) {
+      console.error('Error fetching attachments:', err);
+      setError('Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAttachments();
+  }, [recordType, recordId]);
+
+  const handleAdd = async (files: AttachmentFile[]) => {
+    setUploading(true);
+    setError(null);
+
+    try {
+      for (const file of files) {
+        await uploadAttachment(businessId, recordType, recordId, file);
+      }
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setError('Failed to upload attachment');
+    } finally {
+      await loadAttachments();
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setError(null);
+      await deleteAttachment(deleting);
+      setAttachments(prev => prev.filter(attachment => attachment.id !== deleting.id));
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      setError('Failed to delete attachment');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <View style={[styles.card, style]}>
+      {loading ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="small" />
+        </View>
+      ) : (
+        <AttachmentPicker
+          label={title}
+          previews={attachments.map(attachment => ({
+            key: attachment.id,
+            uri: attachment.url,
+            fileName: attachment.file_name,
+            isImage: isImageAttachment(attachment),
+          }))}
+          onAdd={handleAdd}
+          onRemove={(key) => setDeleting(attachments.find(attachment => attachment.id === key) || null)}
+          onOpen={(key) => setViewing(attachments.find(attachment => attachment.id === key) || null)}
+          onError={setError}
+          color={color}
+          disabled={uploading}
+        />
+      )}
+
+      {uploading && <Text style={styles.statusText}>Uploading...</Text>}
+      {error && (
+        <Text style={styles.errorText} onPress={loadAttachments}>
+          {error}
+        </Text>
+      )}
+
+      <AttachmentViewer
+        attachment={viewing && {
+          uri: viewing.url,
+          fileName: viewing.file_name,
+          isImage: isImageAttachment(viewing),
+        }}
+        onClose={() => setViewing(null)}
+        onDelete={() => {
+          setDeleting(viewing);
+          setViewing(null);
+        }}
+      />
+
+      <Portal>
+        <Dialog visible={!!deleting} onDismiss={() => setDeleting(null)}>
+          <Dialog.Title>Delete Attachment</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Delete "{deleting?.file_name}"? This action cannot be undone.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeleting(null)}>Cancel</Button>
+            <Button onPress={handleDelete} textColor="#ef4444">Delete</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+  },
+  loading: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+});
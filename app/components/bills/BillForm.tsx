@@ -0,0 +1,654 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { Text, TextInput, Button, HelperText, IconButton, Surface, Menu } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, FileText, Calendar, Plus, Trash2, Save, ChevronDown } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { format, addDays } from 'date-fns';
+import {
+  BillWithLineItems,
+  BillLineItemDraft,
+  getBillPaidStatus,
+  createBill,
+  updateBill,
+  generateBillNumber,
+  priceBillLineItem,
+  calculateBillTotals
+} from '../../lib/api/bills';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+import { fetchCreditors, Creditor } from '../../lib/api/payments';
+import { isGstRate, getBusinessStateCode, getPartyStateCode, isInterStateSupply } from '../../lib/gst';
+import { GstRatePicker } from '../gst/GstRatePicker';
+import { GstSupplyFields } from '../gst/GstSupplyFields';
+import { GstBreakup } from '../gst/GstBreakup';
+
+const { width } = Dimensions.get('window');
+const isTablet = width > 768;
+
+interface LineItemFormData {
+  key: string;
+  description: string;
+  hsnCode: string;
+  quantity: string;
+  unitPrice: string;
+  taxPercent: number;
+}
+
+interface FormData {
+  billNumber: string;
+  issueDate: string;
+  dueDate: string;
+  creditorId: string;
+  notes: string;
+  placeOfSupply: string | null;
+  reverseCharge: boolean;
+}
+
+interface FormErrors {
+  billNumber?: string;
+  issueDate?: string;
+  dueDate?: string;
+  creditorId?: string;
+  lineItems?: string;
+  submit?: string;
+}
+
+interface BillFormProps {
+  bill?: BillWithLineItems;
+  defaultCreditorId?: string;
+  onSuccess?: (billId: string) => void;
+}
+
+let lineItemKey = 0;
+const nextLineItemKey = () => `line-${++lineItemKey}`;
+
+const emptyLineItem = (): LineItemFormData => ({
+  key: nextLineItemKey(),
+  description: '',
+  hsnCode: '',
+  quantity: '1',
+  unitPrice: '',
+  taxPercent: 0,
+});
+
+function toLineItemDraft(item: LineItemFormData): BillLineItemDraft {
+  return {
+    description: item.description.trim(),
+    hsn_code: item.hsnCode.trim() || null,
+    quantity: parseFloat(item.quantity) || 0,
+    unit_price: parseFloat(item.unitPrice) || 0,
+    tax_percent: item.taxPercent,
+  };
+}
+
+export function BillForm({ bill, defaultCreditorId, onSuccess }: BillFormProps) {
+  const { selectedBusiness } = useBusiness();
+  const isEditing = !!bill;
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    billNumber: bill?.bill_number || '',
+    issueDate: bill?.issue_date || format(new Date(), 'yyyy-MM-dd'),
+    dueDate: bill?.due_date || format(addDays(new Date(), 30), 'yyyy-MM-dd'),
+    creditorId: bill?.creditor_id || defaultCreditorId || '',
+    notes: bill?.notes || '',
+    placeOfSupply: bill?.place_of_supply || null,
+    reverseCharge: bill?.reverse_charge || false,
+  });
+  const [lineItems, setLineItems] = useState<LineItemFormData[]>(
+    bill && bill.bill_line_items.length > 0
+      ? bill.bill_line_items.map(item => ({
+          key: nextLineItemKey(),
+          description: item.description,
+          hsnCode: item.hsn_code || '',
+          quantity: item.quantity.toString(),
+          unitPrice: item.unit_price.toString(),
+          taxPercent: Number(item.tax_percent),
+        }))
+      : [emptyLineItem()]
+  );
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
+  const [creditors, setCreditors] = useState<Creditor[]>([]);
+  const [showCreditorMenu, setShowCreditorMenu] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadCreditors();
+      if (!isEditing) {
+        loadBillNumber();
+      }
+    }
+  }, [selectedBusiness]);
+
+  const loadCreditors = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const creditorsList = await fetchCreditors(selectedBusiness.id);
+      setCreditors(creditorsList);
+
+      const preselected = creditorsList.find(c => c.id === defaultCreditorId);
+      if (preselected && !isEditing) {
+        setFormData(prev => ({ ...prev, placeOfSupply: prev.placeOfSupply || getPartyStateCode(preselected) }));
+      }
+    } catch (err) {
+      console.error('Error fetching creditors:', err);
+    }
+  };
+
+  const loadBillNumber = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const billNumber = await generateBillNumber(selectedBusiness.id);
+      setFormData(prev => ({ ...prev, billNumber }));
+      setSuggestedNumber(billNumber);
+    } catch (err) {
+      console.error('Error generating bill number:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to initialize form' }));
+    }
+  };
+
+  const selectCreditor = (creditor: Creditor) => {
+    setFormData(prev => ({
+      ...prev,
+      creditorId: creditor.id,
+      placeOfSupply: getPartyStateCode(creditor) || prev.placeOfSupply,
+    }));
+    setShowCreditorMenu(false);
+  };
+
+  const updateLineItem = <K extends keyof Omit<LineItemFormData, 'key'>>(key: string, field: K, value: LineItemFormData[K]) => {
+    setLineItems(prev => prev.map(item => item.key === key ? { ...item, [field]: value } : item));
+  };
+
+  const removeLineItem = (key: string) => {
+    setLineItems(prev => prev.length > 1 ? prev.filter(item => item.key !== key) : prev);
+  };
+
+  const selectedCreditor = creditors.find(c => c.id === formData.creditorId);
+  const businessState = getBusinessStateCode(selectedBusiness);
+  const interState = isInterStateSupply(businessState, formData.placeOfSupply);
+  const lineItemInputs = lineItems.map(item => priceBillLineItem(toLineItemDraft(item), interState));
+  const totals = calculateBillTotals(lineItemInputs, { interState, reverseCharge: formData.reverseCharge });
+  const totalAmount = totals.total;
+  const amountPaid = Number(bill?.amount_paid || 0);
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.billNumber.trim()) {
+      newErrors.billNumber = 'Bill number is required';
+    }
+
+    if (!formData.issueDate.trim()) {
+      newErrors.issueDate = 'Bill date is required';
+    }
+
+    if (!formData.dueDate.trim()) {
+      newErrors.dueDate = 'Due date is required';
+    } else if (formData.dueDate < formData.issueDate) {
+      newErrors.dueDate = 'Due date cannot be before the bill date';
+    }
+
+    if (!formData.creditorId) {
+      newErrors.creditorId = 'Please select a creditor';
+    }
+
+    const hasInvalidLine = lineItemInputs.some(item =>
+      !item.description || item.quantity <= 0 || item.unit_price <= 0
+    );
+    if (hasInvalidLine) {
+      newErrors.lineItems = 'Each line needs a description, a positive quantity and a positive rate';
+    } else if (lineItemInputs.some(item => !isGstRate(item.tax_percent))) {
+      newErrors.lineItems = 'Each line needs a GST rate';
+    } else if (totalAmount < amountPaid) {
+      newErrors.lineItems = `Bill total cannot be less than the ₹${amountPaid.toLocaleString()} already paid`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const payload = {
+        business_id: selectedBusiness.id,
+        issue_date: formData.issueDate,
+        due_date: formData.dueDate,
+        creditor_id: formData.creditorId,
+        place_of_supply: formData.placeOfSupply,
+        reverse_charge: formData.reverseCharge,
+        notes: formData.notes || null,
+      };
+
+      // Line amounts and header totals are priced again server side. Status
+      // follows what has been paid against the (possibly changed) total
+      const saved = bill
+        ? await updateBill(bill.id, {
+          ...payload,
+          bill_number: formData.billNumber.trim(),
+          status: getBillPaidStatus({ total_amount: totalAmount }, amountPaid)
+        }, lineItemInputs)
+        : await createBill({
+          ...payload,
+          bill_number: resolveDocumentNumber(formData.billNumber, suggestedNumber),
+          status: 'PENDING'
+        }, lineItemInputs);
+
+      if (onSuccess) {
+        onSuccess(saved.id);
+      } else {
+        router.back();
+      }
+    } catch (err) {
+      console.error('Error saving bill:', err);
+      setErrors(prev => ({ ...prev, submit: isEditing ? 'Failed to update bill' : 'Failed to create bill' }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Please select a business to continue</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Surface style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(79, 70, 229, 0.1)' }]}>
+            <FileText size={16} color="#4f46e5" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Bill Number</Text>
+            <Text style={styles.statValue}>{formData.billNumber || 'Not set'}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(79, 70, 229, 0.1)' }]}>
+            <IndianRupee size={16} color="#4f46e5" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Total</Text>
+            <Text style={styles.statValue}>₹{totalAmount.toLocaleString()}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(79, 70, 229, 0.1)' }]}>
+            <Calendar size={16} color="#4f46e5" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Due Date</Text>
+            <Text style={styles.statValue}>{formData.dueDate || 'Not set'}</Text>
+          </View>
+        </View>
+      </Surface>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.form, isTablet && styles.formTablet]}>
+          <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+            <TextInput
+              mode="outlined"
+              label="Bill Number"
+              value={formData.billNumber}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, billNumber: text }))}
+              error={!!errors.billNumber}
+              style={styles.input}
+            />
+            {errors.billNumber && (
+              <HelperText type="error">{errors.billNumber}</HelperText>
+            )}
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+            <Menu
+              visible={showCreditorMenu}
+              onDismiss={() => setShowCreditorMenu(false)}
+              anchor={
+                <Button
+                  mode="outlined"
+                  onPress={() => setShowCreditorMenu(true)}
+                  style={styles.input}
+                  contentStyle={styles.creditorButton}
+                >
+                  {selectedCreditor ? selectedCreditor.name : 'Select Creditor'}
+                  <ChevronDown size={20} style={styles.chevron} />
+                </Button>
+              }
+            >
+              {creditors.map((creditor) => (
+                <Menu.Item
+                  key={creditor.id}
+                  onPress={() => selectCreditor(creditor)}
+                  title={creditor.name}
+                />
+              ))}
+            </Menu>
+            {errors.creditorId && (
+              <HelperText type="error">{errors.creditorId}</HelperText>
+            )}
+          </Animated.View>
+
+          <View style={styles.row}>
+            <Animated.View entering={FadeInDown.duration(300).delay(300)} style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Bill Date"
+                value={formData.issueDate}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, issueDate: text }))}
+                error={!!errors.issueDate}
+                style={styles.input}
+              />
+              {errors.issueDate && (
+                <HelperText type="error">{errors.issueDate}</HelperText>
+              )}
+            </Animated.View>
+
+            <Animated.View entering={FadeInDown.duration(300).delay(400)} style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Due Date"
+                value={formData.dueDate}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, dueDate: text }))}
+                error={!!errors.dueDate}
+                style={styles.input}
+              />
+              {errors.dueDate && (
+                <HelperText type="error">{errors.dueDate}</HelperText>
+              )}
+            </Animated.View>
+          </View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+            <GstSupplyFields
+              businessState={businessState}
+              placeOfSupply={formData.placeOfSupply}
+              onPlaceOfSupplyChange={(placeOfSupply) => setFormData(prev => ({ ...prev, placeOfSupply }))}
+              reverseCharge={formData.reverseCharge}
+              onReverseChargeChange={(reverseCharge) => setFormData(prev => ({ ...prev, reverseCharge }))}
+              interState={interState}
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(600)} style={styles.lineItemsSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Line Items</Text>
+              <Button
+                mode="text"
+                onPress={() => setLineItems(prev => [...prev, emptyLineItem()])}
+                icon={() => <Plus size={18} color="#4f46e5" />}
+                textColor="#4f46e5"
+              >
+                Add Line
+              </Button>
+            </View>
+
+            {lineItems.map((item, index) => {
+              const line = lineItemInputs[index];
+              return (
+                <View key={item.key} style={styles.lineItemCard}>
+                  <View style={styles.lineItemHeader}>
+                    <Text style={styles.lineItemTitle}>Line {index + 1}</Text>
+                    <IconButton
+                      icon={() => <Trash2 size={18} color={lineItems.length > 1 ? '#ef4444' : '#cbd5e1'} />}
+                      onPress={() => removeLineItem(item.key)}
+                      disabled={lineItems.length === 1}
+                      size={18}
+                    />
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Description"
+                      value={item.description}
+                      onChangeText={(text) => updateLineItem(item.key, 'description', text)}
+                      style={[styles.input, styles.flex2]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="HSN/SAC"
+                      value={item.hsnCode}
+                      onChangeText={(text) => updateLineItem(item.key, 'hsnCode', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Qty"
+                      value={item.quantity}
+                      onChangeText={(text) => updateLineItem(item.key, 'quantity', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="Rate"
+                      value={item.unitPrice}
+                      onChangeText={(text) => updateLineItem(item.key, 'unitPrice', text)}
+                      keyboardType="numeric"
+                      left={<TextInput.Icon icon={() => <IndianRupee size={18} color="#64748b" />} />}
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <GstRatePicker
+                    value={item.taxPercent}
+                    onChange={(rate) => updateLineItem(item.key, 'taxPercent', rate)}
+                  />
+                  <Text style={styles.lineItemAmount}>
+                    Amount: ₹{line.amount.toLocaleString()}
+                    {line.tax_amount > 0 ? ` (incl. ₹${line.tax_amount.toLocaleString()} GST)` : ''}
+                  </Text>
+                </View>
+              );
+            })}
+            {errors.lineItems && (
+              <HelperText type="error">{errors.lineItems}</HelperText>
+            )}
+
+            <GstBreakup summary={totals} placeOfSupply={formData.placeOfSupply} totalLabel="Bill Total" />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(700)}>
+            <TextInput
+              mode="outlined"
+              label="Notes (Optional)"
+              value={formData.notes}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, notes: text }))}
+              multiline
+              numberOfLines={4}
+              style={styles.input}
+            />
+          </Animated.View>
+
+          {errors.submit && (
+            <Text style={styles.errorText}>{errors.submit}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={loading}
+              style={[styles.button, styles.submitButton]}
+              icon={() => <Save size={20} color="#ffffff" />}
+            >
+              {isEditing ? 'Save Changes' : 'Create Bill'}
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    margin: 16,
+    elevation: 2,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: '#e2e8f0',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+    paddingBottom: 120,
+  },
+  formTablet: {
+    padding: 24,
+    maxWidth: 900,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  flex1: {
+    flex: 1,
+  },
+  flex2: {
+    flex: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginVertical: 8,
+  },
+  lineItemsSection: {
+    marginBottom: 16,
+  },
+  lineItemCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  lineItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  lineItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  lineItemAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+    textAlign: 'right',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  submitButton: {
+    backgroundColor: '#4f46e5',
+  },
+  creditorButton: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+});
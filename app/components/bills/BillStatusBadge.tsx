@@ -0,0 +1,40 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Bill, getBillDisplayStatus } from '../../lib/api/bills';
+
+const STATUS_COLORS: Record<string, { background: string; text: string }> = {
+  PENDING: { background: '#e0e7ff', text: '#4338ca' },
+  PARTIAL: { background: '#fef3c7', text: '#b45309' },
+  PAID: { background: '#d1fae5', text: '#047857' },
+  OVERDUE: { background: '#fee2e2', text: '#b91c1c' },
+};
+
+type BillStatusBadgeProps = {
+  bill: Pick<Bill, 'status' | 'due_date'>;
+};
+
+export function BillStatusBadge({ bill }: BillStatusBadgeProps) {
+  const label = getBillDisplayStatus(bill);
+  const colors = STATUS_COLORS[label] || STATUS_COLORS.PENDING;
+
+  return (
+    <View style={[styles.badge, { backgroundColor: colors.background }]}>
+      <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    alignSelf: 'flex-start',
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
@@ -0,0 +1,458 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, HelperText, Menu, Chip } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, Save, ChevronDown, Settings2 } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { BankAccount, fetchBankAccounts } from '../../lib/api/payments';
+import {
+  Expense,
+  ExpenseCategory,
+  createExpense,
+  fetchExpenseCategories,
+  generateExpenseNumber,
+  updateExpense,
+} from '../../lib/api/expenses';
+import {
+  AttachmentFile,
+  AttachmentWithUrl,
+  deleteAttachment,
+  fetchAttachments,
+  isImageAttachment,
+  uploadAttachment,
+} from '../../lib/api/attachments';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+import { AttachmentPicker, AttachmentPreview } from '../attachments/AttachmentPicker';
+
+type FormData = {
+  expenseNumber: string;
+  expenseDate: string;
+  categoryId: string;
+  bankAccountId: string;
+  amount: string;
+  payee: string;
+  reference: string;
+  notes: string;
+};
+
+type FormErrors = Partial<Record<keyof FormData, string>> & {
+  receipts?: string;
+  submit?: string;
+};
+
+interface ExpenseFormProps {
+  expense?: Expense;
+  onSuccess?: (expenseId: string) => void;
+}
+
+export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [formData, setFormData] = useState<FormData>({
+    expenseNumber: expense?.expense_number || '',
+    expenseDate: expense?.expense_date || new Date().toISOString().split('T')[0],
+    categoryId: expense?.category_id || '',
+    bankAccountId: expense?.bank_account_id || '',
+    amount: expense ? String(expense.amount) : '',
+    payee: expense?.payee || '',
+    reference: expense?.reference || '',
+    notes: expense?.notes || '',
+  });
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [showAccountMenu, setShowAccountMenu] = useState(false);
+  // Photos already saved against the expense, and those still to upload
+  const [savedReceipts, setSavedReceipts] = useState<AttachmentWithUrl[]>([]);
+  const [removedReceipts, setRemovedReceipts] = useState<AttachmentWithUrl[]>([]);
+  const [newPhotos, setNewPhotos] = useState<AttachmentFile[]>([]);
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      initializeForm();
+    }
+  }, [selectedBusiness]);
+
+  const initializeForm = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const [expenseCategories, accounts, expenseNumber, receipts] = await Promise.all([
+        fetchExpenseCategories(selectedBusiness.id),
+        fetchBankAccounts(selectedBusiness.id),
+        expense ? Promise.resolve(expense.expense_number) : generateExpenseNumber(selectedBusiness.id),
+        expense ? fetchAttachments('EXPENSE', expense.id) : Promise.resolve([])
+      ]);
+
+      setCategories(expenseCategories);
+      setBankAccounts(accounts);
+      setSavedReceipts(receipts);
+      setFormData(prev => ({
+        ...prev,
+        expenseNumber,
+        bankAccountId: prev.bankAccountId || (accounts.length === 1 ? accounts[0].id : '')
+      }));
+      if (!expense) {
+        setSuggestedNumber(expenseNumber);
+      }
+    } catch (err) {
+      console.error('Error initializing form:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to initialize form' }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.expenseNumber.trim()) {
+      newErrors.expenseNumber = 'Expense number is required';
+    }
+
+    if (!formData.expenseDate.trim()) {
+      newErrors.expenseDate = 'Expense date is required';
+    }
+
+    if (!formData.categoryId) {
+      newErrors.categoryId = 'Select a category';
+    }
+
+    if (!formData.bankAccountId) {
+      newErrors.bankAccountId = 'Select the account the expense was paid from';
+    }
+
+    const amount = parseFloat(formData.amount);
+    if (!formData.amount.trim()) {
+      newErrors.amount = 'Amount is required';
+    } else if (isNaN(amount) || amount <= 0) {
+      newErrors.amount = 'Amount must be a positive number';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const values = {
+        expense_date: formData.expenseDate,
+        category_id: formData.categoryId,
+        bank_account_id: formData.bankAccountId,
+        amount: parseFloat(formData.amount),
+        payee: formData.payee || null,
+        reference: formData.reference || null,
+        notes: formData.notes || null
+      };
+
+      const saved = expense
+        ? await updateExpense(expense.id, { ...values, expense_number: formData.expenseNumber.trim() })
+        : await createExpense({
+          ...values,
+          business_id: selectedBusiness.id,
+          expense_number: resolveDocumentNumber(formData.expenseNumber, suggestedNumber)
+        });
+
+      await Promise.all([
+        ...removedReceipts.map(receipt => deleteAttachment(receipt)),
+        ...newPhotos.map(photo => uploadAttachment(selectedBusiness.id, 'EXPENSE', saved.id, photo))
+      ]);
+
+      if (onSuccess) {
+        onSuccess(saved.id);
+      } else {
+        router.back();
+      }
+    } catch (err) {
+      console.error('Error saving expense:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to save expense' }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveReceipt = (key: string) => {
+    const saved = savedReceipts.find(receipt => receipt.id === key);
+    if (saved) {
+      setSavedReceipts(prev => prev.filter(receipt => receipt.id !== key));
+      setRemovedReceipts(prev => [...prev, saved]);
+      return;
+    }
+    setNewPhotos(prev => prev.filter(photo => photo.uri !== key));
+  };
+
+  const receiptPreviews: AttachmentPreview[] = [
+    ...savedReceipts.map(receipt => ({
+      key: receipt.id,
+      uri: receipt.url,
+      fileName: receipt.file_name,
+      isImage: isImageAttachment(receipt),
+    })),
+    ...newPhotos.map(photo => ({
+      key: photo.uri,
+      uri: photo.uri,
+      fileName: photo.fileName || 'Photo',
+      isImage: true,
+    })),
+  ];
+
+  const bankAccount = bankAccounts.find(account => account.id === formData.bankAccountId);
+
+  return (
+    <View style={styles.form}>
+      <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+        <TextInput
+          mode="outlined"
+          label="Expense Number"
+          value={formData.expenseNumber}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, expenseNumber: text }))}
+          error={!!errors.expenseNumber}
+          style={styles.input}
+        />
+        {errors.expenseNumber && (
+          <HelperText type="error">{errors.expenseNumber}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+        <TextInput
+          mode="outlined"
+          label="Expense Date"
+          value={formData.expenseDate}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, expenseDate: text }))}
+          error={!!errors.expenseDate}
+          style={styles.input}
+        />
+        {errors.expenseDate && (
+          <HelperText type="error">{errors.expenseDate}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(300)}>
+        <View style={styles.categoryHeader}>
+          <Text style={styles.label}>Category</Text>
+          <Button
+            mode="text"
+            compact
+            onPress={() => router.push('/expenses/categories')}
+            icon={() => <Settings2 size={16} color="#ea580c" />}
+            textColor="#ea580c"
+          >
+            Manage
+          </Button>
+        </View>
+        <View style={styles.categories}>
+          {categories.map((category) => (
+            <Chip
+              key={category.id}
+              selected={formData.categoryId === category.id}
+              onPress={() => setFormData(prev => ({ ...prev, categoryId: category.id }))}
+              showSelectedCheck={false}
+              style={[styles.categoryChip, formData.categoryId === category.id && styles.selectedCategoryChip]}
+              textStyle={formData.categoryId === category.id ? styles.selectedCategoryText : undefined}
+            >
+              {category.name}
+            </Chip>
+          ))}
+        </View>
+        {errors.categoryId && (
+          <HelperText type="error">{errors.categoryId}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(400)}>
+        <Menu
+          visible={showAccountMenu}
+          onDismiss={() => setShowAccountMenu(false)}
+          anchor={
+            <Button
+              mode="outlined"
+              onPress={() => setShowAccountMenu(true)}
+              style={styles.input}
+              contentStyle={styles.accountButton}
+            >
+              {bankAccount ? `Paid from: ${bankAccount.name}` : 'Select Account Paid From'}
+              <ChevronDown size={20} style={styles.chevron} />
+            </Button>
+          }
+        >
+          {bankAccounts.map((account) => (
+            <Menu.Item
+              key={account.id}
+              onPress={() => {
+                setFormData(prev => ({ ...prev, bankAccountId: account.id }));
+                setShowAccountMenu(false);
+              }}
+              title={`${account.name} - ₹${Number(account.current_balance).toLocaleString()}`}
+            />
+          ))}
+        </Menu>
+        {errors.bankAccountId && (
+          <HelperText type="error">{errors.bankAccountId}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+        <TextInput
+          mode="outlined"
+          label="Amount"
+          value={formData.amount}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, amount: text }))}
+          error={!!errors.amount}
+          keyboardType="numeric"
+          left={<TextInput.Icon icon={() => <IndianRupee size={20} color="#64748b" />} />}
+          style={styles.input}
+        />
+        {errors.amount && (
+          <HelperText type="error">{errors.amount}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(600)}>
+        <TextInput
+          mode="outlined"
+          label="Paid To (Optional)"
+          value={formData.payee}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, payee: text }))}
+          style={styles.input}
+        />
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(700)}>
+        <TextInput
+          mode="outlined"
+          label="Reference (Optional)"
+          value={formData.reference}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, reference: text }))}
+          style={styles.input}
+        />
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(800)}>
+        <TextInput
+          mode="outlined"
+          label="Notes (Optional)"
+          value={formData.notes}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, notes: text }))}
+          multiline
+          numberOfLines={3}
+          style={styles.input}
+        />
+        <Text style={styles.helperText}>
+          Records a withdrawal from the account, filed under the expense's category
+        </Text>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(900)}>
+        <AttachmentPicker
+          label="Receipts"
+          previews={receiptPreviews}
+          onAdd={(photos) => setNewPhotos(prev => [...prev, ...photos])}
+          onRemove={handleRemoveReceipt}
+          onError={(message) => setErrors(prev => ({ ...prev, receipts: message }))}
+          color="#ea580c"
+        />
+        {errors.receipts && (
+          <HelperText type="error">{errors.receipts}</HelperText>
+        )}
+      </Animated.View>
+
+      {errors.submit && (
+        <Text style={styles.errorText}>{errors.submit}</Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          mode="outlined"
+          onPress={() => router.back()}
+          style={styles.button}
+        >
+          Cancel
+        </Button>
+        <Button
+          mode="contained"
+          onPress={handleSubmit}
+          loading={loading}
+          disabled={loading}
+          style={styles.button}
+          buttonColor="#ea580c"
+          icon={() => <Save size={20} color="#ffffff" />}
+        >
+          {expense ? 'Save Expense' : 'Create Expense'}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    padding: 16,
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  categoryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  categories: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  categoryChip: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedCategoryChip: {
+    backgroundColor: '#ffedd5',
+    borderColor: '#fdba74',
+  },
+  selectedCategoryText: {
+    color: '#c2410c',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  accountButton: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+});
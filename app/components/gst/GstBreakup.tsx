@@ -0,0 +1,162 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { GstSummary, getStateName } from '../../lib/gst';
+
+interface GstBreakupProps {
+  summary: GstSummary;
+  placeOfSupply?: string | null;
+  totalLabel?: string;
+  color?: string;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+export function GstBreakup({ summary, placeOfSupply, totalLabel = 'Grand Total', color = '#4f46e5' }: GstBreakupProps) {
+  const placeName = getStateName(placeOfSupply);
+  const taxedRates = summary.breakup.filter(entry => entry.taxAmount > 0);
+
+  return (
+    <View style={styles.container}>
+      {taxedRates.length > 0 && (
+        <View style={styles.table}>
+          <View style={styles.tableRow}>
+            <Text style={[styles.headerCell, styles.rateCell]}>Rate</Text>
+            <Text style={styles.headerCell}>Taxable</Text>
+            {summary.interState ? (
+              <Text style={styles.headerCell}>IGST</Text>
+            ) : (
+              <>
+                <Text style={styles.headerCell}>CGST</Text>
+                <Text style={styles.headerCell}>SGST</Text>
+              </>
+            )}
+          </View>
+          {taxedRates.map((entry) => (
+            <View key={entry.rate} style={styles.tableRow}>
+              <Text style={[styles.cell, styles.rateCell]}>{entry.rate}%</Text>
+              <Text style={styles.cell}>{formatAmount(entry.taxableAmount)}</Text>
+              {summary.interState ? (
+                <Text style={styles.cell}>{formatAmount(entry.igst)}</Text>
+              ) : (
+                <>
+                  <Text style={styles.cell}>{formatAmount(entry.cgst)}</Text>
+                  <Text style={styles.cell}>{formatAmount(entry.sgst)}</Text>
+                </>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Subtotal</Text>
+        <Text style={styles.value}>{formatAmount(summary.subtotal)}</Text>
+      </View>
+      {summary.interState ? (
+        <View style={styles.row}>
+          <Text style={styles.label}>IGST</Text>
+          <Text style={styles.value}>{formatAmount(summary.igst)}</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label}>CGST</Text>
+            <Text style={styles.value}>{formatAmount(summary.cgst)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>SGST</Text>
+            <Text style={styles.value}>{formatAmount(summary.sgst)}</Text>
+          </View>
+        </>
+      )}
+
+      <View style={styles.totalRow}>
+        <Text style={styles.totalLabel}>{totalLabel}</Text>
+        <Text style={[styles.totalValue, { color }]}>{formatAmount(summary.total)}</Text>
+      </View>
+
+      {placeName && (
+        <Text style={styles.note}>Place of supply: {placeName} ({placeOfSupply})</Text>
+      )}
+      {summary.reverseCharge && summary.taxAmount > 0 && (
+        <Text style={styles.note}>
+          Reverse charge: {formatAmount(summary.taxAmount)} GST is paid to the government by the recipient and is not part of the total
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  table: {
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+    textAlign: 'right',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  rateCell: {
+    flex: 0.6,
+    textAlign: 'left',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  value: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 12,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  note: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+});
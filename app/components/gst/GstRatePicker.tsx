@@ -0,0 +1,66 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Chip } from 'react-native-paper';
+import { GST_RATES } from '../../lib/gst';
+
+interface GstRatePickerProps {
+  value: number;
+  onChange: (rate: number) => void;
+  color?: string;
+}
+
+export function GstRatePicker({ value, onChange, color = '#4f46e5' }: GstRatePickerProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>GST</Text>
+      <View style={styles.chips}>
+        {GST_RATES.map((rate) => {
+          const selected = Number(value) === rate;
+          return (
+            <Chip
+              key={rate}
+              compact
+              selected={selected}
+              showSelectedCheck={false}
+              onPress={() => onChange(rate)}
+              style={[styles.chip, selected && { backgroundColor: color }]}
+              textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+            >
+              {rate}%
+            </Chip>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  chips: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+});
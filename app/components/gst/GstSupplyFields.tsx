@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Switch } from 'react-native-paper';
+import { StatePicker } from './StatePicker';
+import { getStateName } from '../../lib/gst';
+
+interface GstSupplyFieldsProps {
+  businessState: string | null;
+  placeOfSupply: string | null;
+  onPlaceOfSupplyChange: (stateCode: string | null) => void;
+  reverseCharge: boolean;
+  onReverseChargeChange: (reverseCharge: boolean) => void;
+  interState: boolean;
+  color?: string;
+}
+
+export function GstSupplyFields({
+  businessState,
+  placeOfSupply,
+  onPlaceOfSupplyChange,
+  reverseCharge,
+  onReverseChargeChange,
+  interState,
+  color = '#4f46e5',
+}: GstSupplyFieldsProps) {
+  const businessStateName = getStateName(businessState);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Place of Supply</Text>
+      <StatePicker
+        value={placeOfSupply}
+        onChange={onPlaceOfSupplyChange}
+        placeholder="Select Place of Supply"
+        style={styles.picker}
+      />
+      <Text style={styles.hint}>
+        {interState
+          ? 'Inter-state supply: IGST applies'
+          : 'Local supply: CGST + SGST apply'}
+        {businessStateName
+          ? ` (business registered in ${businessStateName})`
+          : ' (add a GSTIN to the business to detect inter-state supplies)'}
+      </Text>
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchText}>
+          <Text style={styles.switchLabel}>Reverse Charge</Text>
+          <Text style={styles.hint}>Tax is paid to the government by the recipient</Text>
+        </View>
+        <Switch value={reverseCharge} onValueChange={onReverseChargeChange} color={color} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  picker: {
+    backgroundColor: '#ffffff',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  switchText: {
+    flex: 1,
+    gap: 2,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+});
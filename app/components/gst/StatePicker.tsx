@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { StyleSheet, ScrollView, StyleProp, ViewStyle } from 'react-native';
+import { Button, Menu } from 'react-native-paper';
+import { ChevronDown } from 'lucide-react-native';
+import { INDIAN_STATES, getStateName } from '../../lib/gst';
+
+interface StatePickerProps {
+  value: string | null;
+  onChange: (stateCode: string | null) => void;
+  placeholder?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function StatePicker({ value, onChange, placeholder = 'Select State', style }: StatePickerProps) {
+  const [visible, setVisible] = useState(false);
+  const stateName = getStateName(value);
+
+  const select = (stateCode: string | null) => {
+    onChange(stateCode);
+    setVisible(false);
+  };
+
+  return (
+    <Menu
+      visible={visible}
+      onDismiss={() => setVisible(false)}
+      anchor={
+        <Button
+          mode="outlined"
+          onPress={() => setVisible(true)}
+          style={style}
+          contentStyle={styles.anchor}
+        >
+          {stateName ? `${stateName} (${value})` : placeholder}
+          <ChevronDown size={20} style={styles.chevron} />
+        </Button>
+      }
+    >
+      <ScrollView style={styles.list}>
+        <Menu.Item onPress={() => select(null)} title="Not specified" />
+        {INDIAN_STATES.map((state) => (
+          <Menu.Item
+            key={state.code}
+            onPress={() => select(state.code)}
+            title={`${state.code} · ${state.name}`}
+          />
+        ))}
+      </ScrollView>
+    </Menu>
+  );
+}
+
+const styles = StyleSheet.create({
+  anchor: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  list: {
+    maxHeight: 320,
+  },
+});
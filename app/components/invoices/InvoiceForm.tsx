@@ -0,0 +1,751 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { Text, TextInput, Button, HelperText, IconButton, Surface, SegmentedButtons, Menu } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, FileText, Calendar, Package, Plus, Trash2, Save, ChevronDown } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { format, addDays } from 'date-fns';
+import {
+  InvoiceWithLineItems,
+  InvoiceLineItemDraft,
+  InvoiceStatus,
+  createInvoice,
+  updateInvoice,
+  generateInvoiceNumber,
+  priceInvoiceLineItem,
+  calculateInvoiceTotals
+} from '../../lib/api/invoices';
+import { fetchCustomers, Customer } from '../../lib/api/customers';
+import { isGstRate, getBusinessStateCode, getPartyStateCode, isInterStateSupply } from '../../lib/gst';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+import { GstRatePicker } from '../gst/GstRatePicker';
+import { GstSupplyFields } from '../gst/GstSupplyFields';
+import { GstBreakup } from '../gst/GstBreakup';
+import { ItemPicker } from '../items/ItemPicker';
+import { Item } from '../../lib/api/items';
+
+const { width } = Dimensions.get('window');
+const isTablet = width > 768;
+
+interface LineItemFormData {
+  key: string;
+  itemId: string | null;
+  description: string;
+  hsnCode: string;
+  quantity: string;
+  unitPrice: string;
+  taxPercent: number;
+}
+
+interface FormData {
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  customerId: string;
+  customerName: string;
+  status: InvoiceStatus;
+  notes: string;
+  placeOfSupply: string | null;
+  reverseCharge: boolean;
+}
+
+interface FormErrors {
+  invoiceNumber?: string;
+  invoiceDate?: string;
+  dueDate?: string;
+  customerName?: string;
+  lineItems?: string;
+  submit?: string;
+}
+
+interface InvoiceFormProps {
+  invoice?: InvoiceWithLineItems;
+  defaultCustomerId?: string;
+  onSuccess?: (invoiceId: string) => void;
+}
+
+let lineItemKey = 0;
+const nextLineItemKey = () => `line-${++lineItemKey}`;
+
+const emptyLineItem = (): LineItemFormData => ({
+  key: nextLineItemKey(),
+  itemId: null,
+  description: '',
+  hsnCode: '',
+  quantity: '1',
+  unitPrice: '',
+  taxPercent: 0,
+});
+
+function toLineItemDraft(item: LineItemFormData): InvoiceLineItemDraft {
+  return {
+    item_id: item.itemId,
+    description: item.description.trim(),
+    hsn_code: item.hsnCode.trim() || null,
+    quantity: parseFloat(item.quantity) || 0,
+    unit_price: parseFloat(item.unitPrice) || 0,
+    tax_percent: item.taxPercent,
+  };
+}
+
+export function InvoiceForm({ invoice, defaultCustomerId, onSuccess }: InvoiceFormProps) {
+  const { selectedBusiness } = useBusiness();
+  const isEditing = !!invoice;
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    invoiceNumber: invoice?.invoice_number || '',
+    invoiceDate: invoice?.invoice_date || format(new Date(), 'yyyy-MM-dd'),
+    dueDate: invoice?.due_date || format(addDays(new Date(), 30), 'yyyy-MM-dd'),
+    customerId: invoice?.customer_id || defaultCustomerId || '',
+    customerName: invoice?.customer_name || '',
+    status: invoice?.status || 'DRAFT',
+    notes: invoice?.notes || '',
+    placeOfSupply: invoice?.place_of_supply || null,
+    reverseCharge: invoice?.reverse_charge || false,
+  });
+  const [lineItems, setLineItems] = useState<LineItemFormData[]>(
+    invoice && invoice.invoice_line_items.length > 0
+      ? invoice.invoice_line_items.map(item => ({
+          key: nextLineItemKey(),
+          itemId: item.item_id,
+          description: item.description,
+          hsnCode: item.hsn_code || '',
+          quantity: item.quantity.toString(),
+          unitPrice: item.unit_price.toString(),
+          taxPercent: Number(item.tax_percent),
+        }))
+      : [emptyLineItem()]
+  );
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [showCustomerMenu, setShowCustomerMenu] = useState(false);
+  const [pickerLineKey, setPickerLineKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadCustomers();
+      if (!isEditing) {
+        loadInvoiceNumber();
+      }
+    }
+  }, [selectedBusiness]);
+
+  const loadCustomers = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const customersList = await fetchCustomers(selectedBusiness.id);
+      setCustomers(customersList);
+
+      const preselected = customersList.find(c => c.id === defaultCustomerId);
+      if (preselected && !isEditing) {
+        setFormData(prev => ({
+          ...prev,
+          customerName: prev.customerName || preselected.name,
+          placeOfSupply: prev.placeOfSupply || getPartyStateCode(preselected),
+        }));
+      }
+    } catch (err) {
+      console.error('Error fetching customers:', err);
+    }
+  };
+
+  const selectCustomer = (customer: Customer | null) => {
+    setFormData(prev => ({
+      ...prev,
+      customerId: customer?.id || '',
+      customerName: customer ? customer.name : prev.customerName,
+      // The customer's state is where the supply is made to
+      placeOfSupply: customer ? getPartyStateCode(customer) || prev.placeOfSupply : prev.placeOfSupply,
+    }));
+    setShowCustomerMenu(false);
+  };
+
+  const loadInvoiceNumber = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const invoiceNumber = await generateInvoiceNumber(selectedBusiness.id);
+      setFormData(prev => ({ ...prev, invoiceNumber }));
+      setSuggestedNumber(invoiceNumber);
+    } catch (err) {
+      console.error('Error generating invoice number:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to initialize form' }));
+    }
+  };
+
+  const updateLineItem = <K extends keyof Omit<LineItemFormData, 'key'>>(key: string, field: K, value: LineItemFormData[K]) => {
+    setLineItems(prev => prev.map(item => item.key === key ? { ...item, [field]: value } : item));
+  };
+
+  // A catalogue item fills the line at its selling price; every field stays editable
+  const applyCatalogueItem = (catalogueItem: Item) => {
+    setLineItems(prev => prev.map(item => item.key === pickerLineKey ? {
+      ...item,
+      itemId: catalogueItem.id,
+      description: catalogueItem.name,
+      hsnCode: catalogueItem.hsn_code || '',
+      unitPrice: catalogueItem.sale_price.toString(),
+      taxPercent: Number(catalogueItem.tax_percent),
+    } : item));
+    setPickerLineKey(null);
+  };
+
+  const removeLineItem = (key: string) => {
+    setLineItems(prev => prev.length > 1 ? prev.filter(item => item.key !== key) : prev);
+  };
+
+  const selectedCustomer = customers.find(c => c.id === formData.customerId);
+  const businessState = getBusinessStateCode(selectedBusiness);
+  const interState = isInterStateSupply(businessState, formData.placeOfSupply);
+  const lineItemInputs = lineItems.map(item => priceInvoiceLineItem(toLineItemDraft(item), interState));
+  const totals = calculateInvoiceTotals(lineItemInputs, { interState, reverseCharge: formData.reverseCharge });
+  const totalAmount = totals.total;
+  // Once money has been received the status is driven by receipts, not picked by hand
+  const amountPaid = Number(invoice?.amount_paid || 0);
+  const status: InvoiceStatus = amountPaid > 0
+    ? (amountPaid >= totalAmount ? 'PAID' : 'PARTIAL')
+    : formData.status;
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.invoiceNumber.trim()) {
+      newErrors.invoiceNumber = 'Invoice number is required';
+    }
+
+    if (!formData.invoiceDate.trim()) {
+      newErrors.invoiceDate = 'Invoice date is required';
+    }
+
+    if (!formData.dueDate.trim()) {
+      newErrors.dueDate = 'Due date is required';
+    } else if (formData.dueDate < formData.invoiceDate) {
+      newErrors.dueDate = 'Due date cannot be before the invoice date';
+    }
+
+    if (!formData.customerName.trim()) {
+      newErrors.customerName = 'Customer name is required';
+    }
+
+    const hasInvalidLine = lineItemInputs.some(item =>
+      !item.description || item.quantity <= 0 || item.unit_price <= 0
+    );
+    if (hasInvalidLine) {
+      newErrors.lineItems = 'Each line needs a description, a positive quantity and a positive rate';
+    } else if (lineItemInputs.some(item => !isGstRate(item.tax_percent))) {
+      newErrors.lineItems = 'Each line needs a GST rate';
+    } else if (totalAmount < amountPaid) {
+      newErrors.lineItems = `Invoice total cannot be less than the ₹${amountPaid.toLocaleString()} already received`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const payload = {
+        business_id: selectedBusiness.id,
+        invoice_date: formData.invoiceDate,
+        due_date: formData.dueDate,
+        customer_id: formData.customerId || null,
+        customer_name: formData.customerName.trim(),
+        place_of_supply: formData.placeOfSupply,
+        reverse_charge: formData.reverseCharge,
+        status,
+        notes: formData.notes || null,
+      };
+
+      // Line amounts and header totals are priced again server side
+      const saved = invoice
+        ? await updateInvoice(invoice.id, { ...payload, invoice_number: formData.invoiceNumber.trim() }, lineItemInputs)
+        : await createInvoice({
+          ...payload,
+          invoice_number: resolveDocumentNumber(formData.invoiceNumber, suggestedNumber)
+        }, lineItemInputs);
+
+      if (onSuccess) {
+        onSuccess(saved.id);
+      } else {
+        router.back();
+      }
+    } catch (err) {
+      console.error('Error saving invoice:', err);
+      setErrors(prev => ({ ...prev, submit: isEditing ? 'Failed to update invoice' : 'Failed to create invoice' }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Please select a business to continue</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Surface style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(5, 150, 105, 0.1)' }]}>
+            <FileText size={16} color="#059669" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Invoice Number</Text>
+            <Text style={styles.statValue}>{formData.invoiceNumber || 'Not set'}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(5, 150, 105, 0.1)' }]}>
+            <IndianRupee size={16} color="#059669" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Total</Text>
+            <Text style={styles.statValue}>₹{totalAmount.toLocaleString()}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(5, 150, 105, 0.1)' }]}>
+            <Calendar size={16} color="#059669" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Due Date</Text>
+            <Text style={styles.statValue}>{formData.dueDate || 'Not set'}</Text>
+          </View>
+        </View>
+      </Surface>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.form, isTablet && styles.formTablet]}>
+          <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+            <TextInput
+              mode="outlined"
+              label="Invoice Number"
+              value={formData.invoiceNumber}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, invoiceNumber: text }))}
+              error={!!errors.invoiceNumber}
+              style={styles.input}
+            />
+            {errors.invoiceNumber && (
+              <HelperText type="error">{errors.invoiceNumber}</HelperText>
+            )}
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+            <Menu
+              visible={showCustomerMenu}
+              onDismiss={() => setShowCustomerMenu(false)}
+              anchor={
+                <Button
+                  mode="outlined"
+                  onPress={() => setShowCustomerMenu(true)}
+                  style={styles.input}
+                  contentStyle={styles.customerButton}
+                >
+                  {selectedCustomer ? selectedCustomer.name : 'Select Customer (Optional)'}
+                  <ChevronDown size={20} style={styles.chevron} />
+                </Button>
+              }
+            >
+              <Menu.Item onPress={() => selectCustomer(null)} title="No Customer" />
+              {customers.map((customer) => (
+                <Menu.Item
+                  key={customer.id}
+                  onPress={() => selectCustomer(customer)}
+                  title={customer.name}
+                />
+              ))}
+            </Menu>
+            <TextInput
+              mode="outlined"
+              label="Bill To"
+              value={formData.customerName}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, customerName: text }))}
+              error={!!errors.customerName}
+              style={styles.input}
+            />
+            {errors.customerName && (
+              <HelperText type="error">{errors.customerName}</HelperText>
+            )}
+          </Animated.View>
+
+          <View style={styles.row}>
+            <Animated.View entering={FadeInDown.duration(300).delay(300)} style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Invoice Date"
+                value={formData.invoiceDate}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, invoiceDate: text }))}
+                error={!!errors.invoiceDate}
+                style={styles.input}
+              />
+              {errors.invoiceDate && (
+                <HelperText type="error">{errors.invoiceDate}</HelperText>
+              )}
+            </Animated.View>
+
+            <Animated.View entering={FadeInDown.duration(300).delay(400)} style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Due Date"
+                value={formData.dueDate}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, dueDate: text }))}
+                error={!!errors.dueDate}
+                style={styles.input}
+              />
+              {errors.dueDate && (
+                <HelperText type="error">{errors.dueDate}</HelperText>
+              )}
+            </Animated.View>
+          </View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+            <Text style={styles.sectionTitle}>Status</Text>
+            {amountPaid > 0 ? (
+              <Text style={styles.statusNote}>
+                ₹{amountPaid.toLocaleString()} received. The status follows the receipts recorded against this invoice.
+              </Text>
+            ) : (
+              <SegmentedButtons
+                value={formData.status}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, status: value as InvoiceStatus }))}
+                buttons={[
+                  { value: 'DRAFT', label: 'Draft' },
+                  { value: 'SENT', label: 'Sent' },
+                  { value: 'CANCELLED', label: 'Void' },
+                ]}
+                style={styles.statusButtons}
+              />
+            )}
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(550)}>
+            <GstSupplyFields
+              businessState={businessState}
+              placeOfSupply={formData.placeOfSupply}
+              onPlaceOfSupplyChange={(placeOfSupply) => setFormData(prev => ({ ...prev, placeOfSupply }))}
+              reverseCharge={formData.reverseCharge}
+              onReverseChargeChange={(reverseCharge) => setFormData(prev => ({ ...prev, reverseCharge }))}
+              interState={interState}
+              color="#059669"
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(600)} style={styles.lineItemsSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Line Items</Text>
+              <Button
+                mode="text"
+                onPress={() => setLineItems(prev => [...prev, emptyLineItem()])}
+                icon={() => <Plus size={18} color="#059669" />}
+                textColor="#059669"
+              >
+                Add Line
+              </Button>
+            </View>
+
+            {lineItems.map((item, index) => {
+              const line = lineItemInputs[index];
+              return (
+                <View key={item.key} style={styles.lineItemCard}>
+                  <View style={styles.lineItemHeader}>
+                    <Text style={styles.lineItemTitle}>Line {index + 1}</Text>
+                    <View style={styles.lineItemActions}>
+                      <Button
+                        compact
+                        mode="text"
+                        onPress={() => setPickerLineKey(item.key)}
+                        icon={() => <Package size={16} color="#059669" />}
+                        textColor="#059669"
+                      >
+                        {item.itemId ? 'Change Item' : 'From Catalogue'}
+                      </Button>
+                      <IconButton
+                        icon={() => <Trash2 size={18} color={lineItems.length > 1 ? '#ef4444' : '#cbd5e1'} />}
+                        onPress={() => removeLineItem(item.key)}
+                        disabled={lineItems.length === 1}
+                        size={18}
+                      />
+                    </View>
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Description"
+                      value={item.description}
+                      onChangeText={(text) => updateLineItem(item.key, 'description', text)}
+                      style={[styles.input, styles.flex2]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="HSN/SAC"
+                      value={item.hsnCode}
+                      onChangeText={(text) => updateLineItem(item.key, 'hsnCode', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Qty"
+                      value={item.quantity}
+                      onChangeText={(text) => updateLineItem(item.key, 'quantity', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="Rate"
+                      value={item.unitPrice}
+                      onChangeText={(text) => updateLineItem(item.key, 'unitPrice', text)}
+                      keyboardType="numeric"
+                      left={<TextInput.Icon icon={() => <IndianRupee size={18} color="#64748b" />} />}
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <GstRatePicker
+                    value={item.taxPercent}
+                    onChange={(rate) => updateLineItem(item.key, 'taxPercent', rate)}
+                    color="#059669"
+                  />
+                  <Text style={styles.lineItemAmount}>
+                    Amount: ₹{line.amount.toLocaleString()}
+                    {line.tax_amount > 0 ? ` (incl. ₹${line.tax_amount.toLocaleString()} GST)` : ''}
+                  </Text>
+                </View>
+              );
+            })}
+            {errors.lineItems && (
+              <HelperText type="error">{errors.lineItems}</HelperText>
+            )}
+
+            <GstBreakup
+              summary={totals}
+              placeOfSupply={formData.placeOfSupply}
+              totalLabel="Invoice Total"
+              color="#059669"
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(700)}>
+            <TextInput
+              mode="outlined"
+              label="Notes (Optional)"
+              value={formData.notes}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, notes: text }))}
+              multiline
+              numberOfLines={4}
+              style={styles.input}
+            />
+          </Animated.View>
+
+          {errors.submit && (
+            <Text style={styles.errorText}>{errors.submit}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={loading}
+              style={[styles.button, styles.submitButton]}
+              icon={() => <Save size={20} color="#ffffff" />}
+            >
+              {isEditing ? 'Save Changes' : 'Create Invoice'}
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+
+      <ItemPicker
+        visible={!!pickerLineKey}
+        onDismiss={() => setPickerLineKey(null)}
+        onSelect={applyCatalogueItem}
+        priceField="sale_price"
+        color="#059669"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    margin: 16,
+    elevation: 2,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: '#e2e8f0',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+    paddingBottom: 120,
+  },
+  formTablet: {
+    padding: 24,
+    maxWidth: 900,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  flex1: {
+    flex: 1,
+  },
+  flex2: {
+    flex: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginVertical: 8,
+  },
+  statusButtons: {
+    marginBottom: 16,
+  },
+  statusNote: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 16,
+  },
+  lineItemsSection: {
+    marginBottom: 16,
+  },
+  lineItemCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  lineItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  lineItemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  lineItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  lineItemAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#059669',
+    textAlign: 'right',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  submitButton: {
+    backgroundColor: '#059669',
+  },
+  customerButton: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,42 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Invoice, isInvoiceOverdue } from '../../lib/api/invoices';
+
+const STATUS_COLORS: Record<string, { background: string; text: string }> = {
+  DRAFT: { background: '#f1f5f9', text: '#475569' },
+  SENT: { background: '#dbeafe', text: '#1d4ed8' },
+  PARTIAL: { background: '#fef3c7', text: '#b45309' },
+  PAID: { background: '#d1fae5', text: '#047857' },
+  OVERDUE: { background: '#fee2e2', text: '#b91c1c' },
+  CANCELLED: { background: '#f1f5f9', text: '#94a3b8' },
+};
+
+type InvoiceStatusBadgeProps = {
+  invoice: Pick<Invoice, 'status' | 'due_date'>;
+};
+
+export function InvoiceStatusBadge({ invoice }: InvoiceStatusBadgeProps) {
+  const label = isInvoiceOverdue(invoice) ? 'OVERDUE' : invoice.status;
+  const colors = STATUS_COLORS[label];
+
+  return (
+    <View style={[styles.badge, { backgroundColor: colors.background }]}>
+      <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    alignSelf: 'flex-start',
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
@@ -0,0 +1,391 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { Text, TextInput, Button, HelperText, Switch } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, Save } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Item, createItem, updateItem, isDuplicateSkuError } from '../../lib/api/items';
+import { isGstRate } from '../../lib/gst';
+import { GstRatePicker } from '../gst/GstRatePicker';
+
+const { width } = Dimensions.get('window');
+const isTablet = width > 768;
+
+interface FormData {
+  name: string;
+  sku: string;
+  unit: string;
+  hsnCode: string;
+  purchasePrice: string;
+  salePrice: string;
+  taxPercent: number;
+  reorderLevel: string;
+  isActive: boolean;
+}
+
+interface FormErrors {
+  name?: string;
+  sku?: string;
+  purchasePrice?: string;
+  salePrice?: string;
+  taxPercent?: string;
+  reorderLevel?: string;
+  submit?: string;
+}
+
+interface ItemFormProps {
+  item?: Item;
+  onSuccess?: (itemId: string) => void;
+}
+
+export function ItemForm({ item, onSuccess }: ItemFormProps) {
+  const { selectedBusiness } = useBusiness();
+  const isEditing = !!item;
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    name: item?.name || '',
+    sku: item?.sku || '',
+    unit: item?.unit || '',
+    hsnCode: item?.hsn_code || '',
+    purchasePrice: item ? item.purchase_price.toString() : '',
+    salePrice: item ? item.sale_price.toString() : '',
+    taxPercent: item ? Number(item.tax_percent) : 0,
+    reorderLevel: item?.reorder_level != null ? item.reorder_level.toString() : '',
+    isActive: item?.is_active ?? true,
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleChange = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field as keyof FormErrors]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Item name is required';
+    }
+
+    const purchasePrice = parseFloat(formData.purchasePrice || '0');
+    if (isNaN(purchasePrice) || purchasePrice < 0) {
+      newErrors.purchasePrice = 'Purchase price must be a valid positive number';
+    }
+
+    const salePrice = parseFloat(formData.salePrice || '0');
+    if (isNaN(salePrice) || salePrice < 0) {
+      newErrors.salePrice = 'Sale price must be a valid positive number';
+    }
+
+    if (formData.reorderLevel.trim()) {
+      const reorderLevel = parseFloat(formData.reorderLevel);
+      if (isNaN(reorderLevel) || reorderLevel < 0) {
+        newErrors.reorderLevel = 'Reorder level must be a valid positive number';
+      }
+    }
+
+    if (!isGstRate(formData.taxPercent)) {
+      newErrors.taxPercent = 'Select a GST rate';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const payload = {
+        name: formData.name.trim(),
+        sku: formData.sku.trim() || null,
+        unit: formData.unit.trim() || null,
+        hsn_code: formData.hsnCode.trim() || null,
+        purchase_price: parseFloat(formData.purchasePrice) || 0,
+        sale_price: parseFloat(formData.salePrice) || 0,
+        tax_percent: formData.taxPercent,
+        reorder_level: formData.reorderLevel.trim() ? parseFloat(formData.reorderLevel) : null,
+        is_active: formData.isActive,
+      };
+
+      const saved = item
+        ? await updateItem(item.id, selectedBusiness.id, payload)
+        : await createItem({ ...payload, business_id: selectedBusiness.id });
+
+      if (onSuccess) {
+        onSuccess(saved.id);
+      } else {
+        router.back();
+      }
+    } catch (err) {
+      console.error('Error saving item:', err);
+      if (isDuplicateSkuError(err)) {
+        setErrors(prev => ({ ...prev, sku: 'Another item already uses this SKU' }));
+      } else {
+        setErrors(prev => ({ ...prev, submit: isEditing ? 'Failed to update item' : 'Failed to create item' }));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Please select a business to continue</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.form, isTablet && styles.formTablet]}>
+          <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+            <TextInput
+              mode="outlined"
+              label="Item Name"
+              value={formData.name}
+              onChangeText={(text) => handleChange('name', text)}
+              error={!!errors.name}
+              style={styles.input}
+            />
+            {errors.name && (
+              <HelperText type="error">{errors.name}</HelperText>
+            )}
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(150)} style={styles.row}>
+            <View style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="SKU (Optional)"
+                value={formData.sku}
+                onChangeText={(text) => handleChange('sku', text)}
+                autoCapitalize="characters"
+                error={!!errors.sku}
+                style={styles.input}
+              />
+              {errors.sku && (
+                <HelperText type="error">{errors.sku}</HelperText>
+              )}
+            </View>
+            <View style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Unit"
+                value={formData.unit}
+                onChangeText={(text) => handleChange('unit', text)}
+                placeholder="pcs"
+                style={styles.input}
+              />
+            </View>
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+            <TextInput
+              mode="outlined"
+              label="HSN/SAC Code"
+              value={formData.hsnCode}
+              onChangeText={(text) => handleChange('hsnCode', text)}
+              keyboardType="numeric"
+              style={styles.input}
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(250)} style={styles.row}>
+            <View style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Purchase Price"
+                value={formData.purchasePrice}
+                onChangeText={(text) => handleChange('purchasePrice', text)}
+                keyboardType="decimal-pad"
+                left={<TextInput.Icon icon={() => <IndianRupee size={18} color="#64748b" />} />}
+                error={!!errors.purchasePrice}
+                style={styles.input}
+              />
+              {errors.purchasePrice && (
+                <HelperText type="error">{errors.purchasePrice}</HelperText>
+              )}
+            </View>
+            <View style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Sale Price"
+                value={formData.salePrice}
+                onChangeText={(text) => handleChange('salePrice', text)}
+                keyboardType="decimal-pad"
+                left={<TextInput.Icon icon={() => <IndianRupee size={18} color="#64748b" />} />}
+                error={!!errors.salePrice}
+                style={styles.input}
+              />
+              {errors.salePrice && (
+                <HelperText type="error">{errors.salePrice}</HelperText>
+              )}
+            </View>
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(300)} style={styles.card}>
+            <GstRatePicker
+              value={formData.taxPercent}
+              onChange={(rate) => handleChange('taxPercent', rate)}
+              color="#7c3aed"
+            />
+            {errors.taxPercent && (
+              <HelperText type="error">{errors.taxPercent}</HelperText>
+            )}
+            <Text style={styles.hint}>Prices are before GST; the rate is applied on each document line</Text>
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(350)}>
+            <TextInput
+              mode="outlined"
+              label="Reorder Level (Optional)"
+              value={formData.reorderLevel}
+              onChangeText={(text) => handleChange('reorderLevel', text)}
+              keyboardType="decimal-pad"
+              error={!!errors.reorderLevel}
+              style={styles.input}
+            />
+            {errors.reorderLevel ? (
+              <HelperText type="error">{errors.reorderLevel}</HelperText>
+            ) : (
+              <Text style={styles.hint}>You are alerted on the dashboard when stock falls to this level</Text>
+            )}
+          </Animated.View>
+
+          {isEditing && (
+            <Animated.View entering={FadeInDown.duration(300).delay(400)} style={[styles.card, styles.switchRow]}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>Active</Text>
+                <Text style={styles.hint}>Inactive items are hidden from the item picker</Text>
+              </View>
+              <Switch
+                value={formData.isActive}
+                onValueChange={(value) => handleChange('isActive', value)}
+                color="#7c3aed"
+              />
+            </Animated.View>
+          )}
+
+          {errors.submit && (
+            <Text style={styles.errorText}>{errors.submit}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={loading}
+              style={[styles.button, styles.submitButton]}
+              icon={() => <Save size={20} color="#ffffff" />}
+            >
+              {isEditing ? 'Save Changes' : 'Create Item'}
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+    paddingBottom: 120,
+  },
+  formTablet: {
+    padding: 24,
+    maxWidth: 900,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  flex1: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchText: {
+    flex: 1,
+    gap: 2,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  submitButton: {
+    backgroundColor: '#7c3aed',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+});
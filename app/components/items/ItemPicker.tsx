@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Pressable } from 'react-native';
+import { Text, TextInput, Button, Portal, Modal } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { Search, Package } from 'lucide-react-native';
+import { Item, fetchItems, matchesItemSearch } from '../../lib/api/items';
+
+interface ItemPickerProps {
+  visible: boolean;
+  onDismiss: () => void;
+  onSelect: (item: Item) => void;
+  // Purchases fill the line at cost, invoices at the selling price
+  priceField: 'purchase_price' | 'sale_price';
+  color?: string;
+}
+
+export function ItemPicker({ visible, onDismiss, onSelect, priceField, color = '#7c3aed' }: ItemPickerProps) {
+  const { selectedBusiness } = useBusiness();
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    if (visible && selectedBusiness) {
+      setSearchQuery('');
+      loadItems();
+    }
+  }, [visible, selectedBusiness]);
+
+  const loadItems = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchItems(selectedBusiness.id, { activeOnly: true });
+      setItems(data);
+    } catch (err) {
+      console.error('Error fetching items:', err);
+      setError('Failed to load items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredItems = items.filter(item => matchesItemSearch(item, searchQuery));
+
+  const addItem = () => {
+    onDismiss();
+    router.push('/items/new');
+  };
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <Text style={styles.title}>Select Item</Text>
+        <TextInput
+          mode="outlined"
+          placeholder="Search by name, SKU or HSN"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          left={<TextInput.Icon icon={() => <Search size={18} color="#64748b" />} />}
+          style={styles.search}
+          autoFocus
+        />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <ScrollView style={styles.list}>
+          {loading ? (
+            <Text style={styles.emptyText}>Loading items...</Text>
+          ) : filteredItems.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Package size={32} color="#94a3b8" />
+              <Text style={styles.emptyText}>
+                {items.length === 0 ? 'No items in the catalogue yet' : 'No items match your search'}
+              </Text>
+            </View>
+          ) : (
+            filteredItems.map((item) => (
+              <Pressable
+                key={item.id}
+                style={styles.itemRow}
+                onPress={() => onSelect(item)}
+              >
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName}>{item.name}</Text>
+                  <Text style={styles.itemMeta}>
+                    {[item.sku, item.hsn_code && `HSN ${item.hsn_code}`, `${Number(item.tax_percent)}% GST`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                </View>
+                <Text style={[styles.itemPrice, { color }]}>
+                  ₹{Number(item[priceField]).toLocaleString()}{item.unit ? ` / ${item.unit}` : ''}
+                </Text>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button mode="text" onPress={addItem} textColor={color}>
+            New Item
+          </Button>
+          <Button mode="text" onPress={onDismiss} textColor="#64748b">
+            Cancel
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: '#ffffff',
+    margin: 16,
+    padding: 16,
+    borderRadius: 16,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  search: {
+    backgroundColor: '#ffffff',
+    marginBottom: 8,
+  },
+  list: {
+    maxHeight: 400,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  itemPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+});
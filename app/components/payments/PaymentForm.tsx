@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, Platform, ScrollView, Dimensions } from 'react-native';
-import { Text, TextInput, Button, HelperText, Checkbox, Portal, Modal, List, ActivityIndicator, Surface, Menu } from 'react-native-paper';
+import { Text, TextInput, Button, HelperText, Checkbox, ActivityIndicator, Surface, Menu } from 'react-native-paper';
 import { router } from 'expo-router';
 import { useBusiness } from '@/contexts/BusinessContext';
 import { IndianRupee, CreditCard, User, FileText, Calendar, ChevronDown, ChevronUp } from 'lucide-react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { format } from 'date-fns';
-import { Payment, Creditor, BankAccount, Bill, createPayment, updateCreditorOutstandingAmount, updateBillStatus, createBankTransaction, fetchCreditors, fetchBankAccounts, fetchBillsForCreditor, generatePaymentNumber } from '../../lib/api/payments';
+import { Payment, Creditor, BankAccount, Bill, createPayment, fetchCreditors, fetchBankAccounts, fetchBillsForCreditor, generatePaymentNumber } from '../../lib/api/payments';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+import { getBillBalance } from '../../lib/api/bills';
 
 const { width } = Dimensions.get('window');
 const isTablet = width > 768;
@@ -17,7 +19,6 @@ interface FormData {
   amount: string;
   creditorId: string;
   bankAccountId: string;
-  billId: string;
   reference: string;
   notes: string;
   createBankTransaction: boolean;
@@ -28,38 +29,42 @@ interface FormErrors {
   paymentDate?: string;
   amount?: string;
   bankAccountId?: string;
+  allocations?: string;
   submit?: string;
 }
 
 interface PaymentFormProps {
+  defaultCreditorId?: string;
+  defaultBillId?: string;
   onSuccess?: () => void;
 }
 
-export function PaymentForm({ onSuccess }: PaymentFormProps) {
+export function PaymentForm({ defaultCreditorId, defaultBillId, onSuccess }: PaymentFormProps) {
   const { selectedBusiness } = useBusiness();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState<FormData>({
     paymentNumber: '',
     paymentDate: format(new Date(), 'yyyy-MM-dd'),
     amount: '',
-    creditorId: '',
+    creditorId: defaultCreditorId || '',
     bankAccountId: '',
-    billId: '',
     reference: '',
     notes: '',
     createBankTransaction: true
   });
+  // Amount applied to each open bill, keyed by bill id
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
   const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
   const [creditors, setCreditors] = useState<Creditor[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [bills, setBills] = useState<Bill[]>([]);
   const [fetchingCreditors, setFetchingCreditors] = useState(true);
   const [fetchingAccounts, setFetchingAccounts] = useState(true);
-  const [fetchingBills, setFetchingBills] = useState(true);
+  const [fetchingBills, setFetchingBills] = useState(false);
   const [showAdditionalFields, setShowAdditionalFields] = useState(false);
   const [showBankAccountModal, setShowBankAccountModal] = useState(false);
   const [showCreditorModal, setShowCreditorModal] = useState(false);
-  const [showBillModal, setShowBillModal] = useState(false);
 
   useEffect(() => {
     if (selectedBusiness) {
@@ -72,21 +77,10 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
       loadBillsForCreditor();
     } else {
       setBills([]);
+      setAllocations({});
     }
   }, [selectedBusiness, formData.creditorId]);
 
-  useEffect(() => {
-    if (formData.billId && bills.length > 0) {
-      const selectedBill = bills.find(bill => bill.id === formData.billId);
-      if (selectedBill) {
-        setFormData(prev => ({
-          ...prev,
-          amount: selectedBill.total_amount.toString()
-        }));
-      }
-    }
-  }, [formData.billId, bills]);
-
   const loadInitialData = async () => {
     if (!selectedBusiness) return;
     
@@ -103,6 +97,7 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
       setCreditors(creditorsData);
       setBankAccounts(bankAccountsData);
       setFormData(prev => ({ ...prev, paymentNumber }));
+      setSuggestedNumber(paymentNumber);
     } catch (err: any) {
       console.error('Error loading initial data:', err);
     } finally {
@@ -118,6 +113,15 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
     try {
       const billsData = await fetchBillsForCreditor(selectedBusiness.id, formData.creditorId);
       setBills(billsData);
+
+      const preselected = billsData.find(bill => bill.id === defaultBillId);
+      if (preselected) {
+        const balance = getBillBalance(preselected).toString();
+        setAllocations({ [preselected.id]: balance });
+        setFormData(prev => ({ ...prev, amount: prev.amount || balance }));
+      } else {
+        setAllocations({});
+      }
     } catch (err: any) {
       console.error('Error loading bills:', err);
     } finally {
@@ -125,6 +129,22 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
     }
   };
 
+  const allocatedTotal = Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+  const paymentAmount = parseFloat(formData.amount) || 0;
+
+  // Spread the payment over open bills, earliest due date first
+  const autoAllocate = () => {
+    let remaining = paymentAmount;
+    const next: Record<string, string> = {};
+    for (const bill of bills) {
+      if (remaining <= 0) break;
+      const applied = Math.min(remaining, getBillBalance(bill));
+      next[bill.id] = applied.toString();
+      remaining -= applied;
+    }
+    setAllocations(next);
+  };
+
   const validateForm = () => {
     const newErrors: FormErrors = {};
     if (!formData.paymentNumber.trim()) {
@@ -144,6 +164,12 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
     if (formData.createBankTransaction && !formData.bankAccountId) {
       newErrors.bankAccountId = 'Please select a bank account or uncheck "Create bank transaction"';
     }
+    const overAllocated = bills.find(bill => (parseFloat(allocations[bill.id]) || 0) > getBillBalance(bill));
+    if (overAllocated) {
+      newErrors.allocations = `Amount applied to ${overAllocated.bill_number} exceeds its balance`;
+    } else if (allocatedTotal > paymentAmount) {
+      newErrors.allocations = 'Amount applied to bills exceeds the payment amount';
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -156,59 +182,35 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
       if (!validateForm() || !selectedBusiness) return;
 
       const amount = parseFloat(formData.amount);
-      const payment = await createPayment({
-        business_id: selectedBusiness.id,
-        payment_number: formData.paymentNumber,
-        amount: amount,
-        payment_date: formData.paymentDate,
-        creditor_id: formData.creditorId || null,
-        bank_account_id: formData.createBankTransaction ? formData.bankAccountId : null,
-        payment_method: formData.createBankTransaction ? 'Bank Transfer' : 'Other',
-        reference: formData.reference || null,
-        notes: formData.notes || null
-      });
+      const billAllocations = bills
+        .map(bill => ({ bill_id: bill.id, amount: parseFloat(allocations[bill.id]) || 0 }))
+        .filter(allocation => allocation.amount > 0);
 
+      let description = `Payment made`;
       if (formData.creditorId) {
         const creditor = creditors.find(c => c.id === formData.creditorId);
         if (creditor) {
-          const newOutstandingAmount = Math.max(0, Number(creditor.outstanding_amount) - amount);
-          await updateCreditorOutstandingAmount(formData.creditorId, newOutstandingAmount);
+          description = `Payment to ${creditor.name}`;
         }
       }
-
-      if (formData.billId) {
-        const bill = bills.find(b => b.id === formData.billId);
-        if (bill && amount >= Number(bill.total_amount)) {
-          await updateBillStatus(formData.billId, 'PAID');
-        }
+      if (billAllocations.length > 0) {
+        const billNumbers = billAllocations
+          .map(allocation => bills.find(bill => bill.id === allocation.bill_id)?.bill_number)
+          .filter(Boolean);
+        description += ` for ${billNumbers.length > 1 ? 'bills' : 'bill'} ${billNumbers.join(', ')}`;
       }
 
-      if (formData.createBankTransaction && formData.bankAccountId) {
-        const transactionNumber = `WIT-${formData.paymentNumber.replace('PAY-', '')}`;
-        let description = `Payment made`;
-        if (formData.creditorId) {
-          const creditor = creditors.find(c => c.id === formData.creditorId);
-          if (creditor) {
-            description = `Payment to ${creditor.name}`;
-          }
-        }
-        if (formData.billId) {
-          description += ` for bill ${bills.find(b => b.id === formData.billId)?.bill_number || ''}`;
-        }
-        await createBankTransaction({
-          business_id: selectedBusiness.id,
-          account_id: formData.bankAccountId,
-          transaction_number: transactionNumber,
-          type: 'withdrawal',
-          amount: amount,
-          date: formData.paymentDate,
-          description: description,
-          category: 'Payment',
-          reference_id: payment.id,
-          reconciled: false,
-          notes: formData.notes || null
-        });
-      }
+      await createPayment({
+        business_id: selectedBusiness.id,
+        payment_number: resolveDocumentNumber(formData.paymentNumber, suggestedNumber),
+        amount: amount,
+        payment_date: formData.paymentDate,
+        creditor_id: formData.creditorId || null,
+        bank_account_id: formData.createBankTransaction ? formData.bankAccountId : null,
+        payment_method: formData.createBankTransaction ? 'Bank Transfer' : 'Other',
+        reference: formData.reference || null,
+        notes: formData.notes || null
+      }, billAllocations, description);
 
       onSuccess?.();
       router.back();
@@ -352,17 +354,46 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
                 </Menu>
               </Animated.View>
 
-              {formData.creditorId && bills.length > 0 && (
-                <Animated.View entering={FadeInDown.duration(300).delay(450)}>
-                  <TextInput
-                    mode="outlined"
-                    label="For Bill"
-                    value={bills.find(b => b.id === formData.billId)?.bill_number || ''}
-                    onPressIn={() => setShowBillModal(true)}
-                    right={<TextInput.Icon icon={() => <ChevronDown size={20} color="#64748b" />} />}
-                    style={styles.input}
-                    disabled={fetchingBills}
-                  />
+              {formData.creditorId && (
+                <Animated.View entering={FadeInDown.duration(300).delay(450)} style={styles.allocationCard}>
+                  <View style={styles.allocationHeader}>
+                    <Text style={styles.allocationTitle}>Apply to Bills</Text>
+                    {bills.length > 0 && (
+                      <Button mode="text" compact onPress={autoAllocate}>
+                        Auto-apply
+                      </Button>
+                    )}
+                  </View>
+                  {fetchingBills ? (
+                    <ActivityIndicator size="small" />
+                  ) : bills.length === 0 ? (
+                    <Text style={styles.allocationEmpty}>
+                      No open bills. The payment will reduce the creditor's outstanding balance.
+                    </Text>
+                  ) : (
+                    bills.map((bill) => (
+                      <View key={bill.id} style={styles.allocationRow}>
+                        <View style={styles.allocationInfo}>
+                          <Text style={styles.allocationNumber}>{bill.bill_number}</Text>
+                          <Text style={styles.allocationMeta}>
+                            Due {format(new Date(bill.due_date), 'MMM dd')} · Balance ₹{getBillBalance(bill).toLocaleString()}
+                          </Text>
+                        </View>
+                        <TextInput
+                          mode="outlined"
+                          dense
+                          value={allocations[bill.id] || ''}
+                          onChangeText={(text) => setAllocations(prev => ({ ...prev, [bill.id]: text }))}
+                          keyboardType="numeric"
+                          placeholder="0"
+                          style={styles.allocationInput}
+                        />
+                      </View>
+                    ))
+                  )}
+                  {errors.allocations && (
+                    <HelperText type="error">{errors.allocations}</HelperText>
+                  )}
                 </Animated.View>
               )}
             </View>
@@ -485,28 +516,6 @@ export function PaymentForm({ onSuccess }: PaymentFormProps) {
         </View>
       </ScrollView>
 
-      <Portal>
-        <Modal
-          visible={showBillModal}
-          onDismiss={() => setShowBillModal(false)}
-          contentContainerStyle={styles.modal}
-        >
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Select Bill</Text>
-            {bills.map(bill => (
-              <List.Item
-                key={bill.id}
-                title={bill.bill_number}
-                description={`Amount: ₹${bill.total_amount.toLocaleString()}`}
-                onPress={() => {
-                  setFormData(prev => ({ ...prev, billId: bill.id }));
-                  setShowBillModal(false);
-                }}
-              />
-            ))}
-          </View>
-        </Modal>
-      </Portal>
     </View>
   );
 }
@@ -592,6 +601,51 @@ const styles = StyleSheet.create({
   toggleButton: {
     marginVertical: 8,
   },
+  allocationCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 8,
+  },
+  allocationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  allocationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  allocationEmpty: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  allocationInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  allocationNumber: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  allocationMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  allocationInput: {
+    width: 110,
+    backgroundColor: '#ffffff',
+  },
   errorText: {
     color: '#ef4444',
     marginBottom: 16,
@@ -605,21 +659,6 @@ const styles = StyleSheet.create({
   button: {
     minWidth: 120,
   },
-  modal: {
-    backgroundColor: '#ffffff',
-    margin: 20,
-    borderRadius: 12,
-    padding: 16,
-  },
-  modalContent: {
-    gap: 8,
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#1e293b',
-    marginBottom: 16,
-  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
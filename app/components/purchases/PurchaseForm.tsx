@@ -0,0 +1,703 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { Text, TextInput, Button, HelperText, IconButton, Surface, Menu } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, ShoppingBag, Package, Plus, Trash2, Save, ChevronDown } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { format } from 'date-fns';
+import {
+  PurchaseWithLineItems,
+  PurchaseLineItemInput,
+  Creditor,
+  fetchCreditors,
+  generatePurchaseNumber,
+  createPurchase,
+  updatePurchase,
+  calculatePurchaseLine,
+  calculatePurchaseTotals
+} from '../../lib/api/purchases';
+import { isGstRate, getBusinessStateCode, getPartyStateCode, isInterStateSupply } from '../../lib/gst';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+import { GstRatePicker } from '../gst/GstRatePicker';
+import { GstSupplyFields } from '../gst/GstSupplyFields';
+import { GstBreakup } from '../gst/GstBreakup';
+import { ItemPicker } from '../items/ItemPicker';
+import { Item } from '../../lib/api/items';
+
+const { width } = Dimensions.get('window');
+const isTablet = width > 768;
+
+interface LineItemFormData {
+  key: string;
+  itemId: string | null;
+  itemName: string;
+  hsnCode: string;
+  quantity: string;
+  unit: string;
+  rate: string;
+  discountPercent: string;
+  taxPercent: number;
+}
+
+interface FormData {
+  purchaseNumber: string;
+  purchaseDate: string;
+  creditorId: string;
+  description: string;
+  placeOfSupply: string | null;
+  reverseCharge: boolean;
+}
+
+interface FormErrors {
+  purchaseNumber?: string;
+  purchaseDate?: string;
+  lineItems?: string;
+  submit?: string;
+}
+
+interface PurchaseFormProps {
+  purchase?: PurchaseWithLineItems;
+  defaultCreditorId?: string;
+  onSuccess?: (purchaseId: string) => void;
+}
+
+let lineItemKey = 0;
+const nextLineItemKey = () => `line-${++lineItemKey}`;
+
+const emptyLineItem = (): LineItemFormData => ({
+  key: nextLineItemKey(),
+  itemId: null,
+  itemName: '',
+  hsnCode: '',
+  quantity: '1',
+  unit: '',
+  rate: '',
+  discountPercent: '0',
+  taxPercent: 0,
+});
+
+function toLineItemInput(item: LineItemFormData): PurchaseLineItemInput {
+  return {
+    item_id: item.itemId,
+    item_name: item.itemName.trim(),
+    hsn_code: item.hsnCode.trim() || null,
+    quantity: parseFloat(item.quantity) || 0,
+    unit: item.unit.trim() || null,
+    rate: parseFloat(item.rate) || 0,
+    discount_percent: parseFloat(item.discountPercent) || 0,
+    tax_percent: item.taxPercent,
+  };
+}
+
+export function PurchaseForm({ purchase, defaultCreditorId, onSuccess }: PurchaseFormProps) {
+  const { selectedBusiness } = useBusiness();
+  const isEditing = !!purchase;
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    purchaseNumber: purchase?.purchase_number || '',
+    purchaseDate: purchase?.purchase_date || format(new Date(), 'yyyy-MM-dd'),
+    creditorId: purchase?.creditor_id || defaultCreditorId || '',
+    description: purchase?.description || '',
+    placeOfSupply: purchase?.place_of_supply || null,
+    reverseCharge: purchase?.reverse_charge || false,
+  });
+  const [lineItems, setLineItems] = useState<LineItemFormData[]>(
+    purchase && purchase.purchase_line_items.length > 0
+      ? purchase.purchase_line_items.map(item => ({
+          key: nextLineItemKey(),
+          itemId: item.item_id,
+          itemName: item.item_name,
+          hsnCode: item.hsn_code || '',
+          quantity: item.quantity.toString(),
+          unit: item.unit || '',
+          rate: item.rate.toString(),
+          discountPercent: item.discount_percent.toString(),
+          taxPercent: Number(item.tax_percent),
+        }))
+      : [emptyLineItem()]
+  );
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
+  const [creditors, setCreditors] = useState<Creditor[]>([]);
+  const [showCreditorMenu, setShowCreditorMenu] = useState(false);
+  const [pickerLineKey, setPickerLineKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadCreditors();
+      if (!isEditing) {
+        loadPurchaseNumber();
+      }
+    }
+  }, [selectedBusiness]);
+
+  const loadCreditors = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const creditorsList = await fetchCreditors(selectedBusiness.id);
+      setCreditors(creditorsList);
+
+      const preselected = creditorsList.find(c => c.id === defaultCreditorId);
+      if (preselected && !isEditing) {
+        setFormData(prev => ({ ...prev, placeOfSupply: prev.placeOfSupply || getPartyStateCode(preselected) }));
+      }
+    } catch (err) {
+      console.error('Error fetching creditors:', err);
+    }
+  };
+
+  const loadPurchaseNumber = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const purchaseNumber = await generatePurchaseNumber(selectedBusiness.id);
+      setFormData(prev => ({ ...prev, purchaseNumber }));
+      setSuggestedNumber(purchaseNumber);
+    } catch (err) {
+      console.error('Error generating purchase number:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to initialize form' }));
+    }
+  };
+
+  // Picking a supplier brings their state along as the place of supply
+  const selectCreditor = (creditor: Creditor | null) => {
+    setFormData(prev => ({
+      ...prev,
+      creditorId: creditor?.id || '',
+      placeOfSupply: creditor ? getPartyStateCode(creditor) || prev.placeOfSupply : prev.placeOfSupply,
+    }));
+    setShowCreditorMenu(false);
+  };
+
+  const updateLineItem = <K extends keyof Omit<LineItemFormData, 'key'>>(key: string, field: K, value: LineItemFormData[K]) => {
+    setLineItems(prev => prev.map(item => item.key === key ? { ...item, [field]: value } : item));
+  };
+
+  // A catalogue item fills the line at cost; every field stays editable
+  const applyCatalogueItem = (catalogueItem: Item) => {
+    setLineItems(prev => prev.map(item => item.key === pickerLineKey ? {
+      ...item,
+      itemId: catalogueItem.id,
+      itemName: catalogueItem.name,
+      hsnCode: catalogueItem.hsn_code || '',
+      unit: catalogueItem.unit || '',
+      rate: catalogueItem.purchase_price.toString(),
+      taxPercent: Number(catalogueItem.tax_percent),
+    } : item));
+    setPickerLineKey(null);
+  };
+
+  const removeLineItem = (key: string) => {
+    setLineItems(prev => prev.length > 1 ? prev.filter(item => item.key !== key) : prev);
+  };
+
+  const selectedCreditor = creditors.find(c => c.id === formData.creditorId);
+  const lineItemInputs = lineItems.map(toLineItemInput);
+  const businessState = getBusinessStateCode(selectedBusiness);
+  const interState = isInterStateSupply(businessState, formData.placeOfSupply);
+  const totals = calculatePurchaseTotals(lineItemInputs, { interState, reverseCharge: formData.reverseCharge });
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.purchaseNumber.trim()) {
+      newErrors.purchaseNumber = 'Purchase number is required';
+    }
+
+    if (!formData.purchaseDate.trim()) {
+      newErrors.purchaseDate = 'Purchase date is required';
+    }
+
+    const hasInvalidLine = lineItemInputs.some(item =>
+      !item.item_name || item.quantity <= 0 || item.rate <= 0
+    );
+    const hasInvalidRate = lineItemInputs.some(item =>
+      item.discount_percent < 0 || item.discount_percent > 100 || !isGstRate(item.tax_percent)
+    );
+    if (hasInvalidLine) {
+      newErrors.lineItems = 'Each line needs an item name, a positive quantity and a positive rate';
+    } else if (hasInvalidRate) {
+      newErrors.lineItems = 'Discount must be between 0 and 100% and each line needs a GST rate';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const payload = {
+        purchase_date: formData.purchaseDate,
+        creditor_id: formData.creditorId || null,
+        description: formData.description || null,
+        place_of_supply: formData.placeOfSupply,
+        reverse_charge: formData.reverseCharge,
+      };
+
+      // Line amounts and header totals are priced again server side
+      const saved = purchase
+        ? await updatePurchase(purchase.id, { ...payload, purchase_number: formData.purchaseNumber.trim() }, lineItemInputs)
+        : await createPurchase({
+          ...payload,
+          business_id: selectedBusiness.id,
+          purchase_number: resolveDocumentNumber(formData.purchaseNumber, suggestedNumber)
+        }, lineItemInputs);
+
+      if (onSuccess) {
+        onSuccess(saved.id);
+      } else {
+        router.back();
+      }
+    } catch (err) {
+      console.error('Error saving purchase:', err);
+      setErrors(prev => ({ ...prev, submit: isEditing ? 'Failed to update purchase' : 'Failed to create purchase' }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Please select a business to continue</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Surface style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(30, 64, 175, 0.1)' }]}>
+            <ShoppingBag size={16} color="#1e40af" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Purchase</Text>
+            <Text style={styles.statValue}>{formData.purchaseNumber || 'Not set'}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(30, 64, 175, 0.1)' }]}>
+            <Package size={16} color="#1e40af" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Lines</Text>
+            <Text style={styles.statValue}>{lineItems.length}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(30, 64, 175, 0.1)' }]}>
+            <IndianRupee size={16} color="#1e40af" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Total</Text>
+            <Text style={styles.statValue}>₹{totals.total.toLocaleString()}</Text>
+          </View>
+        </View>
+      </Surface>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.form, isTablet && styles.formTablet]}>
+          <View style={styles.row}>
+            <Animated.View entering={FadeInDown.duration(300).delay(100)} style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Purchase Number"
+                value={formData.purchaseNumber}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, purchaseNumber: text }))}
+                error={!!errors.purchaseNumber}
+                style={styles.input}
+              />
+              {errors.purchaseNumber && (
+                <HelperText type="error">{errors.purchaseNumber}</HelperText>
+              )}
+            </Animated.View>
+
+            <Animated.View entering={FadeInDown.duration(300).delay(200)} style={styles.flex1}>
+              <TextInput
+                mode="outlined"
+                label="Purchase Date"
+                value={formData.purchaseDate}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, purchaseDate: text }))}
+                error={!!errors.purchaseDate}
+                style={styles.input}
+              />
+              {errors.purchaseDate && (
+                <HelperText type="error">{errors.purchaseDate}</HelperText>
+              )}
+            </Animated.View>
+          </View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(300)}>
+            <Menu
+              visible={showCreditorMenu}
+              onDismiss={() => setShowCreditorMenu(false)}
+              anchor={
+                <Button
+                  mode="outlined"
+                  onPress={() => setShowCreditorMenu(true)}
+                  style={styles.input}
+                  contentStyle={styles.creditorButton}
+                >
+                  {selectedCreditor ? selectedCreditor.name : 'Select Supplier (Optional)'}
+                  <ChevronDown size={20} style={styles.chevron} />
+                </Button>
+              }
+            >
+              <Menu.Item
+                onPress={() => selectCreditor(null)}
+                title="No Supplier"
+              />
+              {creditors.map((creditor) => (
+                <Menu.Item
+                  key={creditor.id}
+                  onPress={() => selectCreditor(creditor)}
+                  title={creditor.name}
+                />
+              ))}
+            </Menu>
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(350)}>
+            <GstSupplyFields
+              businessState={businessState}
+              placeOfSupply={formData.placeOfSupply}
+              onPlaceOfSupplyChange={(placeOfSupply) => setFormData(prev => ({ ...prev, placeOfSupply }))}
+              reverseCharge={formData.reverseCharge}
+              onReverseChargeChange={(reverseCharge) => setFormData(prev => ({ ...prev, reverseCharge }))}
+              interState={interState}
+              color="#1e40af"
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(400)} style={styles.lineItemsSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Items</Text>
+              <Button
+                mode="text"
+                onPress={() => setLineItems(prev => [...prev, emptyLineItem()])}
+                icon={() => <Plus size={18} color="#1e40af" />}
+                textColor="#1e40af"
+              >
+                Add Line
+              </Button>
+            </View>
+
+            {lineItems.map((item, index) => {
+              const line = calculatePurchaseLine(lineItemInputs[index], interState);
+              return (
+                <View key={item.key} style={styles.lineItemCard}>
+                  <View style={styles.lineItemHeader}>
+                    <Text style={styles.lineItemTitle}>Line {index + 1}</Text>
+                    <View style={styles.lineItemActions}>
+                      <Button
+                        compact
+                        mode="text"
+                        onPress={() => setPickerLineKey(item.key)}
+                        icon={() => <Package size={16} color="#1e40af" />}
+                        textColor="#1e40af"
+                      >
+                        {item.itemId ? 'Change Item' : 'From Catalogue'}
+                      </Button>
+                      <IconButton
+                        icon={() => <Trash2 size={18} color={lineItems.length > 1 ? '#ef4444' : '#cbd5e1'} />}
+                        onPress={() => removeLineItem(item.key)}
+                        disabled={lineItems.length === 1}
+                        size={18}
+                      />
+                    </View>
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Item Name"
+                      value={item.itemName}
+                      onChangeText={(text) => updateLineItem(item.key, 'itemName', text)}
+                      style={[styles.input, styles.flex2]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="HSN/SAC"
+                      value={item.hsnCode}
+                      onChangeText={(text) => updateLineItem(item.key, 'hsnCode', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Qty"
+                      value={item.quantity}
+                      onChangeText={(text) => updateLineItem(item.key, 'quantity', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="Unit"
+                      value={item.unit}
+                      onChangeText={(text) => updateLineItem(item.key, 'unit', text)}
+                      placeholder="pcs"
+                      style={[styles.input, styles.flex1]}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="Rate"
+                      value={item.rate}
+                      onChangeText={(text) => updateLineItem(item.key, 'rate', text)}
+                      keyboardType="numeric"
+                      left={<TextInput.Icon icon={() => <IndianRupee size={18} color="#64748b" />} />}
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      mode="outlined"
+                      label="Discount %"
+                      value={item.discountPercent}
+                      onChangeText={(text) => updateLineItem(item.key, 'discountPercent', text)}
+                      keyboardType="numeric"
+                      style={[styles.input, styles.flex1]}
+                    />
+                  </View>
+                  <GstRatePicker
+                    value={item.taxPercent}
+                    onChange={(rate) => updateLineItem(item.key, 'taxPercent', rate)}
+                    color="#1e40af"
+                  />
+                  <View style={styles.lineItemFooter}>
+                    <Text style={styles.lineItemMeta}>
+                      Taxable ₹{line.taxableAmount.toLocaleString()} + {interState ? 'IGST' : 'CGST/SGST'} ₹{line.taxAmount.toLocaleString()}
+                    </Text>
+                    <Text style={styles.lineItemAmount}>₹{line.amount.toLocaleString()}</Text>
+                  </View>
+                </View>
+              );
+            })}
+            {errors.lineItems && (
+              <HelperText type="error">{errors.lineItems}</HelperText>
+            )}
+
+            <GstBreakup summary={totals} placeOfSupply={formData.placeOfSupply} color="#1e40af" />
+          </Animated.View>
+
+          <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+            <TextInput
+              mode="outlined"
+              label="Description (Optional)"
+              value={formData.description}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, description: text }))}
+              multiline
+              numberOfLines={4}
+              style={styles.input}
+            />
+          </Animated.View>
+
+          {errors.submit && (
+            <Text style={styles.errorText}>{errors.submit}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={loading}
+              style={[styles.button, styles.submitButton]}
+              icon={() => <Save size={20} color="#ffffff" />}
+            >
+              {isEditing ? 'Save Changes' : 'Create Purchase'}
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+
+      <ItemPicker
+        visible={!!pickerLineKey}
+        onDismiss={() => setPickerLineKey(null)}
+        onSelect={applyCatalogueItem}
+        priceField="purchase_price"
+        color="#1e40af"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    margin: 16,
+    elevation: 2,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: '#e2e8f0',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+    paddingBottom: 120,
+  },
+  formTablet: {
+    padding: 24,
+    maxWidth: 900,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  flex1: {
+    flex: 1,
+  },
+  flex2: {
+    flex: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginVertical: 8,
+  },
+  lineItemsSection: {
+    marginBottom: 16,
+  },
+  lineItemCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  lineItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  lineItemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  lineItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  lineItemFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  lineItemMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lineItemAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e40af',
+    textAlign: 'right',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  submitButton: {
+    backgroundColor: '#1e40af',
+  },
+  creditorButton: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,687 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { Text, TextInput, Button, HelperText, Checkbox, Surface, Menu } from 'react-native-paper';
+import { router } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, Receipt as ReceiptIcon, Calendar, ChevronDown, ChevronUp } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { format } from 'date-fns';
+import { BankAccount, fetchBankAccounts } from '../../lib/api/payments';
+import { Customer, fetchCustomers } from '../../lib/api/customers';
+import { getInvoiceBalance } from '../../lib/api/invoices';
+import { OpenInvoice, createReceipt, fetchOpenInvoicesForCustomer, generateReceiptNumber } from '../../lib/api/receipts';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+
+const { width } = Dimensions.get('window');
+const isTablet = width > 768;
+
+interface FormData {
+  receiptNumber: string;
+  receiptDate: string;
+  amount: string;
+  customerId: string;
+  bankAccountId: string;
+  reference: string;
+  notes: string;
+  createBankTransaction: boolean;
+}
+
+interface FormErrors {
+  receiptNumber?: string;
+  receiptDate?: string;
+  amount?: string;
+  bankAccountId?: string;
+  allocations?: string;
+  submit?: string;
+}
+
+interface ReceiptFormProps {
+  defaultCustomerId?: string;
+  defaultInvoiceId?: string;
+  onSuccess?: (receiptId: string) => void;
+}
+
+export function ReceiptForm({ defaultCustomerId, defaultInvoiceId, onSuccess }: ReceiptFormProps) {
+  const { selectedBusiness } = useBusiness();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    receiptNumber: '',
+    receiptDate: format(new Date(), 'yyyy-MM-dd'),
+    amount: '',
+    customerId: defaultCustomerId || '',
+    bankAccountId: '',
+    reference: '',
+    notes: '',
+    createBankTransaction: true
+  });
+  // Amount applied to each open invoice, keyed by invoice id
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [fetchingCustomers, setFetchingCustomers] = useState(true);
+  const [fetchingAccounts, setFetchingAccounts] = useState(true);
+  const [fetchingInvoices, setFetchingInvoices] = useState(false);
+  const [showAdditionalFields, setShowAdditionalFields] = useState(false);
+  const [showBankAccountMenu, setShowBankAccountMenu] = useState(false);
+  const [showCustomerMenu, setShowCustomerMenu] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      loadInitialData();
+    }
+  }, [selectedBusiness]);
+
+  useEffect(() => {
+    if (selectedBusiness && formData.customerId) {
+      loadOpenInvoices();
+    } else {
+      setOpenInvoices([]);
+      setAllocations({});
+    }
+  }, [selectedBusiness, formData.customerId]);
+
+  const loadInitialData = async () => {
+    if (!selectedBusiness) return;
+
+    setFetchingCustomers(true);
+    setFetchingAccounts(true);
+
+    try {
+      const [customersData, bankAccountsData, receiptNumber] = await Promise.all([
+        fetchCustomers(selectedBusiness.id),
+        fetchBankAccounts(selectedBusiness.id),
+        generateReceiptNumber(selectedBusiness.id)
+      ]);
+
+      setCustomers(customersData);
+      setBankAccounts(bankAccountsData);
+      setFormData(prev => ({ ...prev, receiptNumber }));
+      setSuggestedNumber(receiptNumber);
+    } catch (err: any) {
+      console.error('Error loading initial data:', err);
+    } finally {
+      setFetchingCustomers(false);
+      setFetchingAccounts(false);
+    }
+  };
+
+  const loadOpenInvoices = async () => {
+    if (!selectedBusiness || !formData.customerId) return;
+
+    setFetchingInvoices(true);
+    try {
+      const invoicesData = await fetchOpenInvoicesForCustomer(selectedBusiness.id, formData.customerId);
+      setOpenInvoices(invoicesData);
+
+      const preselected = invoicesData.find(invoice => invoice.id === defaultInvoiceId);
+      if (preselected) {
+        const balance = getInvoiceBalance(preselected).toString();
+        setAllocations({ [preselected.id]: balance });
+        setFormData(prev => ({ ...prev, amount: prev.amount || balance }));
+      } else {
+        setAllocations({});
+      }
+    } catch (err: any) {
+      console.error('Error loading open invoices:', err);
+    } finally {
+      setFetchingInvoices(false);
+    }
+  };
+
+  const allocatedTotal = Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+  const receiptAmount = parseFloat(formData.amount) || 0;
+
+  // Spread the receipt over open invoices, oldest due date first
+  const autoAllocate = () => {
+    let remaining = receiptAmount;
+    const next: Record<string, string> = {};
+    for (const invoice of openInvoices) {
+      if (remaining <= 0) break;
+      const applied = Math.min(remaining, getInvoiceBalance(invoice));
+      next[invoice.id] = applied.toString();
+      remaining -= applied;
+    }
+    setAllocations(next);
+  };
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+    if (!formData.receiptNumber.trim()) {
+      newErrors.receiptNumber = 'Receipt number is required';
+    }
+    if (!formData.amount.trim()) {
+      newErrors.amount = 'Amount is required';
+    } else {
+      const amount = parseFloat(formData.amount);
+      if (isNaN(amount) || amount <= 0) {
+        newErrors.amount = 'Amount must be a positive number';
+      }
+    }
+    if (!formData.receiptDate.trim()) {
+      newErrors.receiptDate = 'Receipt date is required';
+    }
+    if (formData.createBankTransaction && !formData.bankAccountId) {
+      newErrors.bankAccountId = 'Please select a bank account or uncheck "Create bank transaction"';
+    }
+
+    const overAllocated = openInvoices.find(invoice => (parseFloat(allocations[invoice.id]) || 0) > getInvoiceBalance(invoice));
+    if (overAllocated) {
+      newErrors.allocations = `Amount applied to ${overAllocated.invoice_number} exceeds its balance`;
+    } else if (allocatedTotal > receiptAmount) {
+      newErrors.allocations = 'Amount applied to invoices exceeds the receipt amount';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setLoading(true);
+      setErrors({});
+
+      if (!validateForm() || !selectedBusiness) return;
+
+      const amount = parseFloat(formData.amount);
+      const receiptAllocations = openInvoices
+        .map(invoice => ({ invoice_id: invoice.id, amount: parseFloat(allocations[invoice.id]) || 0 }))
+        .filter(allocation => allocation.amount > 0);
+
+      let description = `Payment received`;
+      const customer = customers.find(c => c.id === formData.customerId);
+      if (customer) {
+        description = `Payment from ${customer.name}`;
+      }
+      if (receiptAllocations.length > 0) {
+        const invoiceNumbers = receiptAllocations
+          .map(allocation => openInvoices.find(invoice => invoice.id === allocation.invoice_id)?.invoice_number)
+          .filter(Boolean);
+        description += ` for ${invoiceNumbers.join(', ')}`;
+      }
+
+      const receipt = await createReceipt({
+        business_id: selectedBusiness.id,
+        receipt_number: resolveDocumentNumber(formData.receiptNumber, suggestedNumber),
+        amount: amount,
+        receipt_date: formData.receiptDate,
+        customer_id: formData.customerId || null,
+        bank_account_id: formData.createBankTransaction ? formData.bankAccountId : null,
+        payment_method: formData.createBankTransaction ? 'Bank Transfer' : 'Other',
+        reference: formData.reference || null,
+        notes: formData.notes || null
+      }, receiptAllocations, description);
+
+      if (onSuccess) {
+        onSuccess(receipt.id);
+      } else {
+        router.back();
+      }
+    } catch (error) {
+      console.error('Error creating receipt:', error);
+      setErrors(prev => ({ ...prev, submit: 'Failed to create receipt' }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!selectedBusiness) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Please select a business to continue</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Surface style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(5, 150, 105, 0.1)' }]}>
+            <ReceiptIcon size={16} color="#059669" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Receipt Number</Text>
+            <Text style={styles.statValue}>{formData.receiptNumber || 'Not set'}</Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(5, 150, 105, 0.1)' }]}>
+            <IndianRupee size={16} color="#059669" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Applied</Text>
+            <Text style={styles.statValue}>
+              ₹{allocatedTotal.toLocaleString()} / ₹{receiptAmount.toLocaleString()}
+            </Text>
+          </View>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <View style={[styles.statIcon, { backgroundColor: 'rgba(5, 150, 105, 0.1)' }]}>
+            <Calendar size={16} color="#059669" strokeWidth={2.5} />
+          </View>
+          <View style={styles.statInfo}>
+            <Text style={styles.statLabel}>Receipt Date</Text>
+            <Text style={styles.statValue}>
+              {format(new Date(formData.receiptDate), 'MMM dd, yyyy')}
+            </Text>
+          </View>
+        </View>
+      </Surface>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.form, isTablet && styles.formTablet]}>
+          <View style={[styles.formGrid, isTablet && styles.formGridTablet]}>
+            {/* Left Column */}
+            <View style={[styles.formColumn, isTablet && styles.formColumnTablet]}>
+              <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+                <TextInput
+                  mode="outlined"
+                  label="Receipt Number"
+                  value={formData.receiptNumber}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, receiptNumber: text }))}
+                  error={!!errors.receiptNumber}
+                  style={styles.input}
+                />
+                {errors.receiptNumber && (
+                  <HelperText type="error">{errors.receiptNumber}</HelperText>
+                )}
+              </Animated.View>
+
+              <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+                <TextInput
+                  mode="outlined"
+                  label="Receipt Date"
+                  value={formData.receiptDate}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, receiptDate: text }))}
+                  error={!!errors.receiptDate}
+                  style={styles.input}
+                />
+                {errors.receiptDate && (
+                  <HelperText type="error">{errors.receiptDate}</HelperText>
+                )}
+              </Animated.View>
+
+              <Animated.View entering={FadeInDown.duration(300).delay(300)}>
+                <TextInput
+                  mode="outlined"
+                  label="Amount Received"
+                  value={formData.amount}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, amount: text }))}
+                  error={!!errors.amount}
+                  keyboardType="numeric"
+                  left={<TextInput.Icon icon={() => <IndianRupee size={20} color="#64748b" />} />}
+                  style={styles.input}
+                />
+                {errors.amount && (
+                  <HelperText type="error">{errors.amount}</HelperText>
+                )}
+              </Animated.View>
+
+              <Animated.View entering={FadeInDown.duration(300).delay(400)}>
+                <Menu
+                  visible={showCustomerMenu}
+                  onDismiss={() => setShowCustomerMenu(false)}
+                  anchor={
+                    <Button
+                      mode="outlined"
+                      onPress={() => setShowCustomerMenu(true)}
+                      style={styles.input}
+                      contentStyle={styles.pickerButton}
+                      disabled={fetchingCustomers}
+                    >
+                      {customers.find(c => c.id === formData.customerId)?.name || 'Select Customer (Optional)'}
+                      <ChevronDown size={20} style={styles.chevron} />
+                    </Button>
+                  }
+                >
+                  <Menu.Item
+                    onPress={() => {
+                      setFormData(prev => ({ ...prev, customerId: '' }));
+                      setShowCustomerMenu(false);
+                    }}
+                    title="No Customer"
+                  />
+                  {customers.map((customer) => (
+                    <Menu.Item
+                      key={customer.id}
+                      onPress={() => {
+                        setFormData(prev => ({ ...prev, customerId: customer.id }));
+                        setShowCustomerMenu(false);
+                      }}
+                      title={`${customer.name} (₹${Number(customer.receivable_amount).toLocaleString()})`}
+                    />
+                  ))}
+                </Menu>
+              </Animated.View>
+
+              {formData.customerId && (
+                <Animated.View entering={FadeInDown.duration(300).delay(450)} style={styles.allocationCard}>
+                  <View style={styles.allocationHeader}>
+                    <Text style={styles.allocationTitle}>Apply to Invoices</Text>
+                    {openInvoices.length > 0 && (
+                      <Button mode="text" compact onPress={autoAllocate} textColor="#059669">
+                        Auto-apply
+                      </Button>
+                    )}
+                  </View>
+                  {fetchingInvoices ? (
+                    <Text style={styles.allocationEmpty}>Loading open invoices...</Text>
+                  ) : openInvoices.length === 0 ? (
+                    <Text style={styles.allocationEmpty}>
+                      No open invoices. The receipt will be kept as customer credit.
+                    </Text>
+                  ) : (
+                    openInvoices.map((invoice) => (
+                      <View key={invoice.id} style={styles.allocationRow}>
+                        <View style={styles.allocationInfo}>
+                          <Text style={styles.allocationNumber}>{invoice.invoice_number}</Text>
+                          <Text style={styles.allocationMeta}>
+                            Due {format(new Date(invoice.due_date), 'MMM dd')} · Balance ₹{getInvoiceBalance(invoice).toLocaleString()}
+                          </Text>
+                        </View>
+                        <TextInput
+                          mode="outlined"
+                          dense
+                          value={allocations[invoice.id] || ''}
+                          onChangeText={(text) => setAllocations(prev => ({ ...prev, [invoice.id]: text }))}
+                          keyboardType="numeric"
+                          placeholder="0"
+                          style={styles.allocationInput}
+                        />
+                      </View>
+                    ))
+                  )}
+                  {errors.allocations && (
+                    <HelperText type="error">{errors.allocations}</HelperText>
+                  )}
+                </Animated.View>
+              )}
+            </View>
+
+            {/* Right Column */}
+            <View style={[styles.formColumn, isTablet && styles.formColumnTablet]}>
+              <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+                <TextInput
+                  mode="outlined"
+                  label="Payment Method"
+                  value={formData.createBankTransaction ? 'Bank Transfer' : 'Other'}
+                  disabled
+                  style={styles.input}
+                />
+              </Animated.View>
+
+              <Animated.View entering={FadeInDown.duration(300).delay(550)}>
+                <Checkbox.Item
+                  label="Create bank transaction record"
+                  status={formData.createBankTransaction ? 'checked' : 'unchecked'}
+                  onPress={() => setFormData(prev => ({ ...prev, createBankTransaction: !prev.createBankTransaction }))}
+                  style={styles.checkbox}
+                />
+              </Animated.View>
+
+              {formData.createBankTransaction && (
+                <Animated.View entering={FadeInDown.duration(300).delay(600)}>
+                  <Menu
+                    visible={showBankAccountMenu}
+                    onDismiss={() => setShowBankAccountMenu(false)}
+                    anchor={
+                      <Button
+                        mode="outlined"
+                        onPress={() => setShowBankAccountMenu(true)}
+                        style={styles.input}
+                        contentStyle={styles.pickerButton}
+                        disabled={fetchingAccounts}
+                      >
+                        {bankAccounts.find(acc => acc.id === formData.bankAccountId)?.name || 'Deposit To Account'}
+                        <ChevronDown size={20} style={styles.chevron} />
+                      </Button>
+                    }
+                  >
+                    {bankAccounts.map((account) => (
+                      <Menu.Item
+                        key={account.id}
+                        onPress={() => {
+                          setFormData(prev => ({ ...prev, bankAccountId: account.id }));
+                          setShowBankAccountMenu(false);
+                        }}
+                        title={`${account.name} (${account.account_type}) - ₹${account.current_balance.toLocaleString()}`}
+                      />
+                    ))}
+                  </Menu>
+                  {errors.bankAccountId && (
+                    <HelperText type="error">{errors.bankAccountId}</HelperText>
+                  )}
+                </Animated.View>
+              )}
+
+              <Button
+                mode="text"
+                onPress={() => setShowAdditionalFields(!showAdditionalFields)}
+                icon={() => showAdditionalFields ? <ChevronUp size={20} color="#64748b" /> : <ChevronDown size={20} color="#64748b" />}
+                style={styles.toggleButton}
+              >
+                {showAdditionalFields ? 'Hide Additional Fields' : 'Show Additional Fields'}
+              </Button>
+
+              {showAdditionalFields && (
+                <React.Fragment>
+                  <Animated.View entering={FadeInDown.duration(300).delay(700)}>
+                    <TextInput
+                      mode="outlined"
+                      label="Reference (Optional)"
+                      value={formData.reference}
+                      onChangeText={(text) => setFormData(prev => ({ ...prev, reference: text }))}
+                      style={styles.input}
+                    />
+                  </Animated.View>
+
+                  <Animated.View entering={FadeInDown.duration(300).delay(800)}>
+                    <TextInput
+                      mode="outlined"
+                      label="Notes (Optional)"
+                      value={formData.notes}
+                      onChangeText={(text) => setFormData(prev => ({ ...prev, notes: text }))}
+                      multiline
+                      numberOfLines={4}
+                      style={styles.input}
+                    />
+                  </Animated.View>
+                </React.Fragment>
+              )}
+            </View>
+          </View>
+
+          {errors.submit && (
+            <Text style={styles.errorText}>{errors.submit}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={() => router.back()}
+              style={styles.button}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={loading}
+              disabled={loading}
+              buttonColor="#059669"
+              style={styles.button}
+            >
+              Record Receipt
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    margin: 16,
+    elevation: 2,
+  },
+  statItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statInfo: {
+    gap: 2,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    opacity: 0.8,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  statDivider: {
+    width: 1,
+    height: 24,
+    backgroundColor: '#e2e8f0',
+    marginHorizontal: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 16,
+  },
+  formTablet: {
+    padding: 24,
+    maxWidth: 1200,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  formGrid: {
+    gap: 16,
+  },
+  formGridTablet: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  formColumn: {
+    gap: 16,
+  },
+  formColumnTablet: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+  },
+  checkbox: {
+    marginBottom: 8,
+  },
+  toggleButton: {
+    marginVertical: 8,
+  },
+  allocationCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 8,
+  },
+  allocationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  allocationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  allocationEmpty: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  allocationInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  allocationNumber: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  allocationMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  allocationInput: {
+    width: 110,
+    backgroundColor: '#ffffff',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  pickerButton: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, HelperText, Menu } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { useBusiness } from '@/contexts/BusinessContext';
+import { IndianRupee, Save, ChevronDown } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { BankAccount, fetchBankAccounts } from '../../lib/api/payments';
+import { Transfer, createTransfer, generateTransferNumber, updateTransfer } from '../../lib/api/transfers';
+import { resolveDocumentNumber } from '../../lib/api/document-settings';
+
+type FormData = {
+  transferNumber: string;
+  transferDate: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string;
+  reference: string;
+  notes: string;
+};
+
+type FormErrors = Partial<Record<keyof FormData, string>> & {
+  submit?: string;
+};
+
+interface TransferFormProps {
+  transfer?: Transfer;
+  defaultFromAccountId?: string;
+  onSuccess?: () => void;
+}
+
+export function TransferForm({ transfer, defaultFromAccountId, onSuccess }: TransferFormProps) {
+  const router = useRouter();
+  const { selectedBusiness } = useBusiness();
+
+  const [formData, setFormData] = useState<FormData>({
+    transferNumber: transfer?.transfer_number || '',
+    transferDate: transfer?.transfer_date || new Date().toISOString().split('T')[0],
+    fromAccountId: transfer?.from_account_id || defaultFromAccountId || '',
+    toAccountId: transfer?.to_account_id || '',
+    amount: transfer ? String(transfer.amount) : '',
+    reference: transfer?.reference || '',
+    notes: transfer?.notes || '',
+  });
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [suggestedNumber, setSuggestedNumber] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [showFromMenu, setShowFromMenu] = useState(false);
+  const [showToMenu, setShowToMenu] = useState(false);
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      initializeForm();
+    }
+  }, [selectedBusiness]);
+
+  const initializeForm = async () => {
+    if (!selectedBusiness) return;
+
+    try {
+      const [accounts, transferNumber] = await Promise.all([
+        fetchBankAccounts(selectedBusiness.id),
+        transfer ? Promise.resolve(transfer.transfer_number) : generateTransferNumber(selectedBusiness.id)
+      ]);
+
+      setBankAccounts(accounts);
+      setFormData(prev => ({ ...prev, transferNumber }));
+      if (!transfer) {
+        setSuggestedNumber(transferNumber);
+      }
+    } catch (err) {
+      console.error('Error initializing form:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to initialize form' }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.transferNumber.trim()) {
+      newErrors.transferNumber = 'Transfer number is required';
+    }
+
+    if (!formData.transferDate.trim()) {
+      newErrors.transferDate = 'Transfer date is required';
+    }
+
+    if (!formData.fromAccountId) {
+      newErrors.fromAccountId = 'Select the account to transfer from';
+    }
+
+    if (!formData.toAccountId) {
+      newErrors.toAccountId = 'Select the account to transfer to';
+    } else if (formData.toAccountId === formData.fromAccountId) {
+      newErrors.toAccountId = 'Choose a different account from the source';
+    }
+
+    const amount = parseFloat(formData.amount);
+    if (!formData.amount.trim()) {
+      newErrors.amount = 'Amount is required';
+    } else if (isNaN(amount) || amount <= 0) {
+      newErrors.amount = 'Amount must be a positive number';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm() || !selectedBusiness) return;
+
+    setLoading(true);
+
+    try {
+      const values = {
+        transfer_date: formData.transferDate,
+        from_account_id: formData.fromAccountId,
+        to_account_id: formData.toAccountId,
+        amount: parseFloat(formData.amount),
+        reference: formData.reference || null,
+        notes: formData.notes || null
+      };
+
+      if (transfer) {
+        await updateTransfer(transfer.id, { ...values, transfer_number: formData.transferNumber.trim() });
+      } else {
+        await createTransfer({
+          ...values,
+          business_id: selectedBusiness.id,
+          transfer_number: resolveDocumentNumber(formData.transferNumber, suggestedNumber)
+        });
+      }
+
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        router.back();
+      }
+    } catch (err) {
+      console.error('Error saving transfer:', err);
+      setErrors(prev => ({ ...prev, submit: 'Failed to save transfer' }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fromAccount = bankAccounts.find(account => account.id === formData.fromAccountId);
+  const toAccount = bankAccounts.find(account => account.id === formData.toAccountId);
+
+  return (
+    <View style={styles.form}>
+      <Animated.View entering={FadeInDown.duration(300).delay(100)}>
+        <TextInput
+          mode="outlined"
+          label="Transfer Number"
+          value={formData.transferNumber}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, transferNumber: text }))}
+          error={!!errors.transferNumber}
+          style={styles.input}
+        />
+        {errors.transferNumber && (
+          <HelperText type="error">{errors.transferNumber}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(200)}>
+        <TextInput
+          mode="outlined"
+          label="Transfer Date"
+          value={formData.transferDate}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, transferDate: text }))}
+          error={!!errors.transferDate}
+          style={styles.input}
+        />
+        {errors.transferDate && (
+          <HelperText type="error">{errors.transferDate}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(300)}>
+        <Menu
+          visible={showFromMenu}
+          onDismiss={() => setShowFromMenu(false)}
+          anchor={
+            <Button
+              mode="outlined"
+              onPress={() => setShowFromMenu(true)}
+              style={styles.input}
+              contentStyle={styles.accountButton}
+            >
+              {fromAccount ? `From: ${fromAccount.name}` : 'Select From Account'}
+              <ChevronDown size={20} style={styles.chevron} />
+            </Button>
+          }
+        >
+          {bankAccounts.map((account) => (
+            <Menu.Item
+              key={account.id}
+              onPress={() => {
+                setFormData(prev => ({ ...prev, fromAccountId: account.id }));
+                setShowFromMenu(false);
+              }}
+              title={`${account.name} - ₹${Number(account.current_balance).toLocaleString()}`}
+            />
+          ))}
+        </Menu>
+        {errors.fromAccountId && (
+          <HelperText type="error">{errors.fromAccountId}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(400)}>
+        <Menu
+          visible={showToMenu}
+          onDismiss={() => setShowToMenu(false)}
+          anchor={
+            <Button
+              mode="outlined"
+              onPress={() => setShowToMenu(true)}
+              style={styles.input}
+              contentStyle={styles.accountButton}
+            >
+              {toAccount ? `To: ${toAccount.name}` : 'Select To Account'}
+              <ChevronDown size={20} style={styles.chevron} />
+            </Button>
+          }
+        >
+          {bankAccounts
+            .filter(account => account.id !== formData.fromAccountId)
+            .map((account) => (
+              <Menu.Item
+                key={account.id}
+                onPress={() => {
+                  setFormData(prev => ({ ...prev, toAccountId: account.id }));
+                  setShowToMenu(false);
+                }}
+                title={`${account.name} - ₹${Number(account.current_balance).toLocaleString()}`}
+              />
+            ))}
+        </Menu>
+        {errors.toAccountId && (
+          <HelperText type="error">{errors.toAccountId}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(500)}>
+        <TextInput
+          mode="outlined"
+          label="Amount"
+          value={formData.amount}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, amount: text }))}
+          error={!!errors.amount}
+          keyboardType="numeric"
+          left={<TextInput.Icon icon={() => <IndianRupee size={20} color="#64748b" />} />}
+          style={styles.input}
+        />
+        {errors.amount && (
+          <HelperText type="error">{errors.amount}</HelperText>
+        )}
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(600)}>
+        <TextInput
+          mode="outlined"
+          label="Reference (Optional)"
+          value={formData.reference}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, reference: text }))}
+          style={styles.input}
+        />
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.duration(300).delay(700)}>
+        <TextInput
+          mode="outlined"
+          label="Notes (Optional)"
+          value={formData.notes}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, notes: text }))}
+          multiline
+          numberOfLines={3}
+          style={styles.input}
+        />
+        <Text style={styles.helperText}>
+          Records a withdrawal from the source account and a matching deposit into the destination
+        </Text>
+      </Animated.View>
+
+      {errors.submit && (
+        <Text style={styles.errorText}>{errors.submit}</Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          mode="outlined"
+          onPress={() => router.back()}
+          style={styles.button}
+        >
+          Cancel
+        </Button>
+        <Button
+          mode="contained"
+          onPress={handleSubmit}
+          loading={loading}
+          disabled={loading}
+          style={styles.button}
+          buttonColor="#2563eb"
+          icon={() => <Save size={20} color="#ffffff" />}
+        >
+          {transfer ? 'Save Transfer' : 'Create Transfer'}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    padding: 16,
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: '#ffffff',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 120,
+  },
+  accountButton: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chevron: {
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,193 @@
+import { supabase } from '@/lib/supabase';
+
+const ATTACHMENTS_BUCKET = 'attachments';
+
+// Signed links to attachments stay valid for an hour
+const ATTACHMENT_URL_EXPIRY = 60 * 60;
+
+export type AttachmentRecordType = 'PURCHASE' | 'PAYMENT' | 'BILL' | 'EXPENSE';
+
+export interface Attachment {
+  id: string;
+  business_id: string;
+  record_type: AttachmentRecordType;
+  record_id: string;
+  bucket: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size: number | null;
+  created_at: string;
+}
+
+export type AttachmentWithUrl = Attachment & {
+  url: string | null;
+};
+
+// A photo taken with the camera or a file chosen from the device
+export interface AttachmentFile {
+  uri: string;
+  fileName?: string | null;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'content_type'>) =>
+  attachment.content_type.startsWith('image/');
+
+async function signAttachmentUrls(attachments: Attachment[]): Promise<AttachmentWithUrl[]> {
+  const urlByKey = new Map<string, string>();
+  const buckets = Array.from(new Set(attachments.map(attachment => attachment.bucket)));
+
+  for (const bucket of buckets) {
+    const paths = attachments
+      .filter(attachment => attachment.bucket === bucket)
+      .map(attachment => attachment.storage_path);
+
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(paths, ATTACHMENT_URL_EXPIRY);
+
+    if (error) throw error;
+    (data || []).forEach(url => {
+      if (url.path && url.signedUrl) urlByKey.set(`${bucket}/${url.path}`, url.signedUrl);
+    });
+  }
+
+  return attachments.map(attachment => ({
+    ...attachment,
+    url: urlByKey.get(`${attachment.bucket}/${attachment.storage_path}`) || null
+  }));
+}
+
+export async function fetchAttachments(recordType: AttachmentRecordType, recordId: string): Promise<AttachmentWithUrl[]> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('*')
+    .eq('record_type', recordType)
+    .eq('record_id', recordId)
+    .order('created_at');
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  return signAttachmentUrls(data);
+}
+
+// Files are kept under the business's folder, which is what the storage policy checks
+export async function uploadAttachment(
+  businessId: string,
+  recordType: AttachmentRecordType,
+  recordId: string,
+  file: AttachmentFile
+): Promise<Attachment> {
+  const contentType = file.mimeType || 'image/jpeg';
+  const fileName = file.fileName || `attachment-${Date.now()}.${contentType.split('/')[1] || 'jpg'}`;
+  const storagePath = [
+    businessId,
+    recordType.toLowerCase(),
+    recordId,
+    `${Date.now()}-${fileName.replace(/[^\w.-]/g, '_')}`
+  ].join('/');
+
+  const response = await fetch(file.uri);
+  const body = await response.arrayBuffer();
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(storagePath, body, { contentType });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert({
+      business_id: businessId,
+      record_type: recordType,
+      record_id: recordId,
+      bucket: ATTACHMENTS_BUCKET,
+      storage_path: storagePath,
+      file_name: fileName,
+      content_type: contentType,
+      size: file.size ?? body.byteLength
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+    throw error;
+  }
+  return data;
+}
+
+async function removeAttachmentFiles(attachments: Pick<Attachment, 'bucket' | 'storage_path'>[]): Promise<void> {
+  const buckets = Array.from(new Set(attachments.map(attachment => attachment.bucket)));
+
+  for (const bucket of buckets) {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .remove(attachments.filter(attachment => attachment.bucket === bucket).map(attachment => attachment.storage_path));
+
+    if (error) throw error;
+  }
+}
+
+export async function deleteAttachment(attachment: Attachment): Promise<void> {
+  const { error } = await supabase
+    .from('attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) throw error;
+  await removeAttachmentFiles([attachment]);
+}
+
+// Record ids by type, for a delete that cascades to records of other types
+export type AttachmentRecords = Partial<Record<AttachmentRecordType, string[]>>;
+
+async function fetchAttachmentFiles(records: AttachmentRecords): Promise<Pick<Attachment, 'bucket' | 'storage_path'>[]> {
+  const types = (Object.keys(records) as AttachmentRecordType[]).filter(type => (records[type] || []).length > 0);
+
+  const results = await Promise.all(types.map(type =>
+    supabase
+      .from('attachments')
+      .select('bucket, storage_path')
+      .eq('record_type', type)
+      .in('record_id', records[type] || [])
+  ));
+
+  return results.flatMap(({ data, error }) => {
+    if (error) throw error;
+    return data || [];
+  });
+}
+
+// The database drops a record's attachments when the record is deleted, but
+// the files have to be removed from storage by the app; their paths are read
+// first and the files only removed once the records are gone. The delete has
+// happened by then, so a file left behind is logged rather than reported
+export async function deleteRecordsWithAttachments(
+  records: AttachmentRecords,
+  deleteRecords: () => Promise<void>
+): Promise<void> {
+  const files = await fetchAttachmentFiles(records);
+
+  await deleteRecords();
+
+  if (files.length > 0) {
+    try {
+      await removeAttachmentFiles(files);
+    } catch (error) {
+      console.error('Error removing attachment files:', error);
+    }
+  }
+}
+
+export async function deleteWithAttachments(
+  recordType: AttachmentRecordType,
+  recordId: string,
+  deleteRecord: () => Promise<void>
+): Promise<void> {
+  await deleteRecordsWithAttachments({ [recordType]: [recordId] }, deleteRecord);
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { deleteRecordsWithAttachments } from './attachments';
 
 export interface BankAccount {
   id: string;
@@ -12,6 +13,11 @@ export interface BankAccount {
   updated_at: string;
 }
 
+export interface BalanceRecomputation {
+  previous_balance: number;
+  recomputed_balance: number;
+}
+
 export interface BankAccountResponse {
   data: BankAccount[] | null;
   error: string | null;
@@ -129,15 +135,25 @@ export async function updateBankAccount(
   }
 }
 
+// Expenses paid from the account are deleted with it, receipt photos included
 export async function deleteBankAccount(id: string, businessId: string): Promise<{ error: string | null }> {
   try {
-    const { error } = await supabase
-      .from('bank_accounts')
-      .delete()
-      .eq('id', id)
-      .eq('business_id', businessId);
+    const { data: expenses, error: expensesError } = await supabase
+      .from('expenses')
+      .select('id')
+      .eq('bank_account_id', id);
 
-    if (error) throw error;
+    if (expensesError) throw expensesError;
+
+    await deleteRecordsWithAttachments({ EXPENSE: (expenses || []).map(expense => expense.id) }, async () => {
+      const { error } = await supabase
+        .from('bank_accounts')
+        .delete()
+        .eq('id', id)
+        .eq('business_id', businessId);
+
+      if (error) throw error;
+    });
 
     return { error: null };
   } catch (error: any) {
@@ -146,4 +162,26 @@ export async function deleteBankAccount(id: string, businessId: string): Promise
       error: error.message || 'Failed to delete bank account'
     };
   }
-} 
\ No newline at end of file
+}
+
+// Rebuilds current_balance from the opening balance and every transaction on the account
+export async function recomputeAccountBalance(id: string): Promise<{ data: BalanceRecomputation | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .rpc('recompute_account_balance', { p_account_id: id })
+      .single();
+
+    if (error) throw error;
+
+    return {
+      data: data as BalanceRecomputation,
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error recomputing account balance:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to recompute account balance'
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import { supabase } from '@/lib/supabase';
+import { calculateGstLine, summarizeGst, toSummaryLine, GstSummary } from '../gst';
+import { previewDocumentNumber } from './document-settings';
+import { deleteWithAttachments } from './attachments';
+
+export type BillStatus = 'PENDING' | 'PARTIAL' | 'PAID' | 'OVERDUE';
+
+export interface Bill {
+  id: string;
+  business_id: string;
+  bill_number: string;
+  issue_date: string;
+  due_date: string;
+  creditor_id: string;
+  place_of_supply: string | null;
+  reverse_charge: boolean;
+  subtotal: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  amount_paid: number;
+  status: BillStatus;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BillLineItem {
+  id: string;
+  bill_id: string;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_percent: number;
+  taxable_amount: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  amount: number;
+  sort_order: number;
+  created_at: string;
+}
+
+export type BillListItem = Bill & {
+  creditors: { name: string } | null;
+};
+
+export type BillWithLineItems = BillListItem & {
+  bill_line_items: BillLineItem[];
+};
+
+// amount_paid is maintained by payment allocations, never by the bill form;
+// the totals are written by post_bill/update_bill from the lines
+export type BillInput = Omit<
+  Bill,
+  'id' | 'subtotal' | 'tax_amount' | 'cgst_amount' | 'sgst_amount' | 'igst_amount' | 'total_amount' |
+  'amount_paid' | 'created_at' | 'updated_at'
+>;
+
+// A null number is allocated by post_bill as the bill is saved
+export type NewBillInput = Omit<BillInput, 'bill_number'> & { bill_number: string | null };
+
+export type BillLineItemInput = Omit<BillLineItem, 'id' | 'bill_id' | 'sort_order' | 'created_at'>;
+
+export type BillLineItemDraft = Pick<BillLineItem, 'description' | 'hsn_code' | 'quantity' | 'unit_price' | 'tax_percent'>;
+
+// OVERDUE is derived from the due date; older rows may also have it stored
+export function isBillOverdue(bill: Pick<Bill, 'status' | 'due_date'>): boolean {
+  if (bill.status === 'OVERDUE') return true;
+  if (bill.status !== 'PENDING' && bill.status !== 'PARTIAL') return false;
+  const today = new Date().toISOString().split('T')[0];
+  return bill.due_date < today;
+}
+
+export function getBillDisplayStatus(bill: Pick<Bill, 'status' | 'due_date'>): BillStatus {
+  return isBillOverdue(bill) ? 'OVERDUE' : bill.status;
+}
+
+export function getBillBalance(bill: Pick<Bill, 'total_amount' | 'amount_paid'>): number {
+  return Math.max(0, Number(bill.total_amount) - Number(bill.amount_paid));
+}
+
+export function getBillPaidStatus(bill: Pick<Bill, 'total_amount'>, amountPaid: number): BillStatus {
+  if (amountPaid >= Number(bill.total_amount)) return 'PAID';
+  if (amountPaid > 0) return 'PARTIAL';
+  return 'PENDING';
+}
+
+// Mirrors write_bill_lines so the form shows what the database will store
+export function priceBillLineItem(item: BillLineItemDraft, interState: boolean): BillLineItemInput {
+  const line = calculateGstLine({ quantity: item.quantity, rate: item.unit_price, taxRate: item.tax_percent }, interState);
+  return {
+    ...item,
+    taxable_amount: line.taxableAmount,
+    tax_amount: line.taxAmount,
+    cgst_amount: line.cgst,
+    sgst_amount: line.sgst,
+    igst_amount: line.igst,
+    amount: line.amount
+  };
+}
+
+// total is what the creditor is owed; under reverse charge the tax is paid to the government instead
+export function calculateBillTotals(
+  lineItems: BillLineItemInput[],
+  options: { interState: boolean; reverseCharge: boolean }
+): GstSummary {
+  return summarizeGst(lineItems.map(toSummaryLine), options);
+}
+
+export async function fetchBills(businessId: string): Promise<BillListItem[]> {
+  const { data, error } = await supabase
+    .from('bills')
+    .select('*, creditors(name)')
+    .eq('business_id', businessId)
+    .order('issue_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchBill(id: string, businessId: string): Promise<BillWithLineItems> {
+  const { data, error } = await supabase
+    .from('bills')
+    .select('*, creditors(name), bill_line_items(*)')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .order('sort_order', { referencedTable: 'bill_line_items' })
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Numbering follows the business's document settings; the number is only used up when saved
+export async function generateBillNumber(businessId: string): Promise<string> {
+  return previewDocumentNumber(businessId, 'BILL');
+}
+
+function billParams(bill: Omit<NewBillInput, 'business_id'>, lineItems: BillLineItemDraft[]) {
+  return {
+    p_bill_number: bill.bill_number,
+    p_issue_date: bill.issue_date,
+    p_due_date: bill.due_date,
+    p_creditor_id: bill.creditor_id,
+    p_place_of_supply: bill.place_of_supply,
+    p_reverse_charge: bill.reverse_charge,
+    p_status: bill.status,
+    p_notes: bill.notes,
+    p_line_items: lineItems
+  };
+}
+
+// The header and its line items are written by one database function so a
+// failure part way never leaves a bill without its lines
+export async function createBill(bill: NewBillInput, lineItems: BillLineItemDraft[]): Promise<Bill> {
+  const { data, error } = await supabase.rpc('post_bill', {
+    p_business_id: bill.business_id,
+    ...billParams(bill, lineItems)
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Line items are replaced wholesale so removed rows don't linger
+export async function updateBill(
+  id: string,
+  bill: Omit<BillInput, 'business_id'>,
+  lineItems: BillLineItemDraft[]
+): Promise<Bill> {
+  const { data, error } = await supabase.rpc('update_bill', {
+    p_bill_id: id,
+    ...billParams(bill, lineItems)
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteBill(id: string, businessId: string): Promise<void> {
+  await deleteWithAttachments('BILL', id, async () => {
+    const { error } = await supabase
+      .from('bills')
+      .delete()
+      .eq('id', id)
+      .eq('business_id', businessId);
+
+    if (error) throw error;
+  });
+}
@@ -0,0 +1,38 @@
+import { supabase } from '@/lib/supabase';
+
+export interface Customer {
+  id: string;
+  business_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  opening_balance: number;
+  // Derived from invoices and receipts by the database, never written by the app
+  receivable_amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export async function fetchCustomers(businessId: string): Promise<Customer[]> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Rebuilds every customer balance from invoices and receipts and returns how many were off
+export async function recalculateCustomerBalances(businessId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('recalculate_customer_balances', {
+    p_business_id: businessId
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
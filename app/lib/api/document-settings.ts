@@ -0,0 +1,103 @@
+import { supabase } from '@/lib/supabase';
+
+export type DocumentType = 'INVOICE' | 'PURCHASE' | 'PAYMENT' | 'RECEIPT' | 'BILL' | 'TRANSFER' | 'EXPENSE';
+
+export type NumberSeparator = '-' | '/';
+
+export interface DocumentSettings {
+  business_id: string;
+  document_type: DocumentType;
+  prefix: string;
+  separator: NumberSeparator;
+  padding: number;
+  financial_year_reset: boolean;
+  next_number: number;
+  // Financial year next_number belongs to, e.g. 24-25
+  sequence_year: string | null;
+  title: string | null;
+  accent_color: string;
+  show_logo: boolean;
+  show_signatures: boolean;
+  footer: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DocumentSettingsInput = Pick<
+  DocumentSettings,
+  'prefix' | 'separator' | 'padding' | 'financial_year_reset' | 'next_number' |
+  'title' | 'accent_color' | 'show_logo' | 'show_signatures' | 'footer'
+>;
+
+export type DocumentTemplate = Pick<DocumentSettings, 'title' | 'accent_color' | 'show_logo' | 'show_signatures' | 'footer'>;
+
+// Settings rows are created on first use, continuing from the numbers already in use
+export async function fetchDocumentSettings(businessId: string): Promise<DocumentSettings[]> {
+  const { error: ensureError } = await supabase.rpc('ensure_document_settings', {
+    p_business_id: businessId
+  });
+
+  if (ensureError) throw ensureError;
+
+  const { data, error } = await supabase
+    .from('document_settings')
+    .select('*')
+    .eq('business_id', businessId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchDocumentTemplate(businessId: string, documentType: DocumentType): Promise<DocumentTemplate | null> {
+  const { data, error } = await supabase
+    .from('document_settings')
+    .select('title, accent_color, show_logo, show_signatures, footer')
+    .eq('business_id', businessId)
+    .eq('document_type', documentType)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDocumentSettings(
+  businessId: string,
+  documentType: DocumentType,
+  settings: DocumentSettingsInput
+): Promise<DocumentSettings> {
+  const { data, error } = await supabase
+    .from('document_settings')
+    .update(settings)
+    .eq('business_id', businessId)
+    .eq('document_type', documentType)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// The number the next document would get; nothing is used up
+export async function previewDocumentNumber(businessId: string, documentType: DocumentType, date?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('preview_document_number', {
+    p_business_id: businessId,
+    p_document_type: documentType,
+    ...(date ? { p_date: date } : {})
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Forms show a previewed number. If it is still there at save time this
+ * returns null and the posting function allocates the real number in the same
+ * transaction as the document, so two devices never save the same one and a
+ * failed save leaves no gap; a number typed in by hand is kept as it is.
+ */
+export function resolveDocumentNumber(entered: string, suggested: string | null): string | null {
+  if (suggested === null || entered.trim() !== suggested) {
+    return entered.trim();
+  }
+  return null;
+}
@@ -0,0 +1,157 @@
+import { supabase } from '@/lib/supabase';
+import { previewDocumentNumber } from './document-settings';
+import { deleteWithAttachments } from './attachments';
+
+export interface ExpenseCategory {
+  id: string;
+  business_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface Expense {
+  id: string;
+  business_id: string;
+  expense_number: string;
+  expense_date: string;
+  category_id: string;
+  bank_account_id: string;
+  amount: number;
+  payee: string | null;
+  reference: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExpenseWithDetails = Expense & {
+  expense_categories: { name: string } | null;
+  bank_accounts: { name: string; account_type: string } | null;
+};
+
+export type ExpenseInput = Omit<Expense, 'id' | 'created_at' | 'updated_at'>;
+
+// A null number is allocated by post_expense as the expense is saved
+export type NewExpenseInput = Omit<ExpenseInput, 'expense_number'> & { expense_number: string | null };
+
+// A business gets the default categories the first time it has none
+export async function fetchExpenseCategories(businessId: string): Promise<ExpenseCategory[]> {
+  const { error: ensureError } = await supabase.rpc('ensure_expense_categories', { p_business_id: businessId });
+  if (ensureError) throw ensureError;
+
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createExpenseCategory(businessId: string, name: string): Promise<ExpenseCategory> {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .insert({ business_id: businessId, name })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// The database refiles the category's withdrawals and ledger postings under the new name
+export async function renameExpenseCategory(id: string, name: string): Promise<ExpenseCategory> {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .update({ name })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Fails while any expense is filed under the category
+export async function deleteExpenseCategory(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('expense_categories')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function fetchExpenses(businessId: string): Promise<ExpenseWithDetails[]> {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*, expense_categories(name), bank_accounts(name, account_type)')
+    .eq('business_id', businessId)
+    .order('expense_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchExpense(id: string, businessId: string): Promise<ExpenseWithDetails> {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*, expense_categories(name), bank_accounts(name, account_type)')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Numbering follows the business's document settings; the number is only used up when saved
+export async function generateExpenseNumber(businessId: string): Promise<string> {
+  return previewDocumentNumber(businessId, 'EXPENSE');
+}
+
+// The expense and its withdrawal from the bank account are written together
+export async function createExpense(expense: NewExpenseInput): Promise<Expense> {
+  const { data, error } = await supabase.rpc('post_expense', {
+    p_business_id: expense.business_id,
+    p_expense_number: expense.expense_number,
+    p_expense_date: expense.expense_date,
+    p_category_id: expense.category_id,
+    p_bank_account_id: expense.bank_account_id,
+    p_amount: expense.amount,
+    p_payee: expense.payee,
+    p_reference: expense.reference,
+    p_notes: expense.notes
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateExpense(id: string, expense: Omit<ExpenseInput, 'business_id'>): Promise<Expense> {
+  const { data, error } = await supabase.rpc('update_expense', {
+    p_expense_id: id,
+    p_expense_number: expense.expense_number,
+    p_expense_date: expense.expense_date,
+    p_category_id: expense.category_id,
+    p_bank_account_id: expense.bank_account_id,
+    p_amount: expense.amount,
+    p_payee: expense.payee,
+    p_reference: expense.reference,
+    p_notes: expense.notes
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Refunds the bank account, then clears the receipt photos out of storage
+export async function deleteExpense(id: string): Promise<void> {
+  await deleteWithAttachments('EXPENSE', id, async () => {
+    const { error } = await supabase.rpc('delete_expense', { p_expense_id: id });
+
+    if (error) throw error;
+  });
+}
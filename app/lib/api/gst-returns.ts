@@ -0,0 +1,75 @@
+import { supabase } from '@/lib/supabase';
+import { Invoice, InvoiceLineItem } from './invoices';
+import { Bill, BillLineItem } from './bills';
+import { Purchase, PurchaseLineItem } from './purchases';
+
+export interface GstParty {
+  name: string;
+  gstin: string | null;
+  state_code: string | null;
+}
+
+export type GstReturnInvoice = Invoice & {
+  customers: GstParty | null;
+  invoice_line_items: InvoiceLineItem[];
+};
+
+export type GstReturnBill = Bill & {
+  creditors: GstParty | null;
+  bill_line_items: BillLineItem[];
+};
+
+export type GstReturnPurchase = Purchase & {
+  creditors: GstParty | null;
+  purchase_line_items: PurchaseLineItem[];
+};
+
+export interface GstReturnDocuments {
+  invoices: GstReturnInvoice[];
+  bills: GstReturnBill[];
+  purchases: GstReturnPurchase[];
+}
+
+// Everything dated inside the period, inclusive. Draft and cancelled invoices
+// were never issued, so they are not supplies
+export async function fetchGstReturnDocuments(
+  businessId: string,
+  startDate: string,
+  endDate: string
+): Promise<GstReturnDocuments> {
+  const [invoices, bills, purchases] = await Promise.all([
+    supabase
+      .from('invoices')
+      .select('*, customers(name, gstin, state_code), invoice_line_items(*)')
+      .eq('business_id', businessId)
+      .not('status', 'in', '(DRAFT,CANCELLED)')
+      .gte('invoice_date', startDate)
+      .lte('invoice_date', endDate)
+      .order('invoice_date')
+      .order('invoice_number'),
+    supabase
+      .from('bills')
+      .select('*, creditors(name, gstin, state_code), bill_line_items(*)')
+      .eq('business_id', businessId)
+      .gte('issue_date', startDate)
+      .lte('issue_date', endDate)
+      .order('issue_date'),
+    supabase
+      .from('purchases')
+      .select('*, creditors(name, gstin, state_code), purchase_line_items(*)')
+      .eq('business_id', businessId)
+      .gte('purchase_date', startDate)
+      .lte('purchase_date', endDate)
+      .order('purchase_date'),
+  ]);
+
+  if (invoices.error) throw invoices.error;
+  if (bills.error) throw bills.error;
+  if (purchases.error) throw purchases.error;
+
+  return {
+    invoices: invoices.data || [],
+    bills: bills.data || [],
+    purchases: purchases.data || [],
+  };
+}
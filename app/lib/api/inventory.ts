@@ -0,0 +1,75 @@
+import { supabase } from '@/lib/supabase';
+
+export type StockMovementType = 'PURCHASE' | 'SALE' | 'ADJUSTMENT';
+
+// One row of the `stock_movements` view. Quantities are signed: stock in is positive.
+export interface StockMovement {
+  id: string;
+  business_id: string;
+  item_id: string;
+  movement_date: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  unit_cost: number | null;
+  // Purchase, invoice or adjustment the movement came from
+  source_id: string;
+  // Document number, or the reason for an adjustment
+  reference: string;
+  created_at: string;
+}
+
+export interface StockAdjustment {
+  id: string;
+  business_id: string;
+  item_id: string;
+  adjustment_date: string;
+  quantity: number;
+  unit_cost: number | null;
+  reason: string;
+  created_at: string;
+}
+
+export type StockAdjustmentInput = Omit<StockAdjustment, 'id' | 'created_at'>;
+
+export async function fetchStockMovements(businessId: string, itemId?: string): Promise<StockMovement[]> {
+  let query = supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('business_id', businessId);
+
+  if (itemId) {
+    query = query.eq('item_id', itemId);
+  }
+
+  const { data, error } = await query
+    .order('movement_date')
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(movement => ({
+    ...movement,
+    quantity: Number(movement.quantity),
+    unit_cost: movement.unit_cost === null ? null : Number(movement.unit_cost)
+  }));
+}
+
+export async function createStockAdjustment(adjustment: StockAdjustmentInput): Promise<StockAdjustment> {
+  const { data, error } = await supabase
+    .from('stock_adjustments')
+    .insert(adjustment)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteStockAdjustment(id: string, businessId: string): Promise<void> {
+  const { error } = await supabase
+    .from('stock_adjustments')
+    .delete()
+    .eq('id', id)
+    .eq('business_id', businessId);
+
+  if (error) throw error;
+}
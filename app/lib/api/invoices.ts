@@ -0,0 +1,191 @@
+import { supabase } from '@/lib/supabase';
+import { calculateGstLine, summarizeGst, toSummaryLine, GstSummary } from '../gst';
+import { Customer } from './customers';
+import { previewDocumentNumber } from './document-settings';
+
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PARTIAL' | 'PAID' | 'CANCELLED';
+
+export interface Invoice {
+  id: string;
+  business_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date: string;
+  customer_id: string | null;
+  customer_name: string;
+  place_of_supply: string | null;
+  reverse_charge: boolean;
+  subtotal: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  amount_paid: number;
+  status: InvoiceStatus;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  item_id: string | null;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_percent: number;
+  taxable_amount: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  amount: number;
+  sort_order: number;
+  created_at: string;
+}
+
+export type InvoiceWithLineItems = Invoice & {
+  customers: Pick<Customer, 'address' | 'gstin' | 'state_code'> | null;
+  invoice_line_items: InvoiceLineItem[];
+};
+
+// amount_paid is maintained by receipts, never by the invoice form; the
+// totals are written by post_invoice/update_invoice from the lines
+export type InvoiceInput = Omit<
+  Invoice,
+  'id' | 'subtotal' | 'tax_amount' | 'cgst_amount' | 'sgst_amount' | 'igst_amount' | 'total_amount' |
+  'amount_paid' | 'created_at' | 'updated_at'
+>;
+
+// A null number is allocated by post_invoice as the invoice is saved
+export type NewInvoiceInput = Omit<InvoiceInput, 'invoice_number'> & { invoice_number: string | null };
+
+export type InvoiceLineItemInput = Omit<InvoiceLineItem, 'id' | 'invoice_id' | 'sort_order' | 'created_at'>;
+
+export type InvoiceLineItemDraft = Pick<InvoiceLineItem, 'item_id' | 'description' | 'hsn_code' | 'quantity' | 'unit_price' | 'tax_percent'>;
+
+export function isInvoiceOverdue(invoice: Pick<Invoice, 'status' | 'due_date'>): boolean {
+  if (invoice.status !== 'SENT' && invoice.status !== 'PARTIAL') return false;
+  const today = new Date().toISOString().split('T')[0];
+  return invoice.due_date < today;
+}
+
+export function getInvoiceBalance(invoice: Pick<Invoice, 'total_amount' | 'amount_paid'>): number {
+  return Math.max(0, Number(invoice.total_amount) - Number(invoice.amount_paid));
+}
+
+// Mirrors write_invoice_lines so the form shows what the database will store
+export function priceInvoiceLineItem(item: InvoiceLineItemDraft, interState: boolean): InvoiceLineItemInput {
+  const line = calculateGstLine({ quantity: item.quantity, rate: item.unit_price, taxRate: item.tax_percent }, interState);
+  return {
+    ...item,
+    taxable_amount: line.taxableAmount,
+    tax_amount: line.taxAmount,
+    cgst_amount: line.cgst,
+    sgst_amount: line.sgst,
+    igst_amount: line.igst,
+    amount: line.amount
+  };
+}
+
+// total is what the customer owes; under reverse charge they pay the tax to the government instead
+export function calculateInvoiceTotals(
+  lineItems: InvoiceLineItemInput[],
+  options: { interState: boolean; reverseCharge: boolean }
+): GstSummary {
+  return summarizeGst(lineItems.map(toSummaryLine), options);
+}
+
+export async function fetchInvoices(businessId: string): Promise<Invoice[]> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('invoice_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchInvoice(id: string, businessId: string): Promise<InvoiceWithLineItems> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, customers(address, gstin, state_code), invoice_line_items(*)')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .order('sort_order', { referencedTable: 'invoice_line_items' })
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Numbering follows the business's document settings; the number is only used up when saved
+export async function generateInvoiceNumber(businessId: string): Promise<string> {
+  return previewDocumentNumber(businessId, 'INVOICE');
+}
+
+function invoiceParams(invoice: Omit<NewInvoiceInput, 'business_id'>, lineItems: InvoiceLineItemDraft[]) {
+  return {
+    p_invoice_number: invoice.invoice_number,
+    p_invoice_date: invoice.invoice_date,
+    p_due_date: invoice.due_date,
+    p_customer_id: invoice.customer_id,
+    p_customer_name: invoice.customer_name,
+    p_place_of_supply: invoice.place_of_supply,
+    p_reverse_charge: invoice.reverse_charge,
+    p_status: invoice.status,
+    p_notes: invoice.notes,
+    p_line_items: lineItems
+  };
+}
+
+// The header and its line items are written by one database function so a
+// failure part way never leaves an invoice without its lines
+export async function createInvoice(invoice: NewInvoiceInput, lineItems: InvoiceLineItemDraft[]): Promise<Invoice> {
+  const { data, error } = await supabase.rpc('post_invoice', {
+    p_business_id: invoice.business_id,
+    ...invoiceParams(invoice, lineItems)
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Line items are replaced wholesale so removed rows don't linger
+export async function updateInvoice(
+  id: string,
+  invoice: Omit<InvoiceInput, 'business_id'>,
+  lineItems: InvoiceLineItemDraft[]
+): Promise<Invoice> {
+  const { data, error } = await supabase.rpc('update_invoice', {
+    p_invoice_id: id,
+    ...invoiceParams(invoice, lineItems)
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// The customer's receivable follows status changes through database triggers
+export async function updateInvoiceStatus(id: string, status: InvoiceStatus): Promise<void> {
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteInvoice(id: string, businessId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invoices')
+    .delete()
+    .eq('id', id)
+    .eq('business_id', businessId);
+
+  if (error) throw error;
+}
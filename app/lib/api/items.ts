@@ -0,0 +1,94 @@
+import { supabase } from '@/lib/supabase';
+
+export interface Item {
+  id: string;
+  business_id: string;
+  name: string;
+  sku: string | null;
+  unit: string | null;
+  purchase_price: number;
+  sale_price: number;
+  tax_percent: number;
+  hsn_code: string | null;
+  // Stock at or below this level is reported as low
+  reorder_level: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ItemInput = Omit<Item, 'id' | 'created_at' | 'updated_at'>;
+
+export async function fetchItems(businessId: string, options: { activeOnly?: boolean } = {}): Promise<Item[]> {
+  let query = supabase
+    .from('items')
+    .select('*')
+    .eq('business_id', businessId);
+
+  if (options.activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query.order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchItem(id: string, businessId: string): Promise<Item> {
+  const { data, error } = await supabase
+    .from('items')
+    .select('*')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Postgres reports a duplicate SKU as a unique violation
+export function isDuplicateSkuError(error: any): boolean {
+  return error?.code === '23505';
+}
+
+export async function createItem(item: ItemInput): Promise<Item> {
+  const { data, error } = await supabase
+    .from('items')
+    .insert(item)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateItem(id: string, businessId: string, item: Partial<ItemInput>): Promise<Item> {
+  const { data, error } = await supabase
+    .from('items')
+    .update(item)
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Lines that used the item keep their own copy of its details
+export async function deleteItem(id: string, businessId: string): Promise<void> {
+  const { error } = await supabase
+    .from('items')
+    .delete()
+    .eq('id', id)
+    .eq('business_id', businessId);
+
+  if (error) throw error;
+}
+
+export function matchesItemSearch(item: Pick<Item, 'name' | 'sku' | 'hsn_code'>, query: string): boolean {
+  const search = query.trim().toLowerCase();
+  if (!search) return true;
+  return [item.name, item.sku, item.hsn_code].some(value => value?.toLowerCase().includes(search));
+}
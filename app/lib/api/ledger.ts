@@ -0,0 +1,55 @@
+import { supabase } from '@/lib/supabase';
+
+export type LedgerAccountType = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'INCOME' | 'EXPENSE';
+
+export interface LedgerAccount {
+  id: string;
+  business_id: string;
+  code: string;
+  name: string;
+  account_type: LedgerAccountType;
+  // Set on the accounts postings are made to, e.g. ACCOUNTS_PAYABLE
+  system_key: string | null;
+  bank_account_id: string | null;
+  created_at: string;
+}
+
+export interface LedgerAccountBalance {
+  account_id: string;
+  debit: number;
+  credit: number;
+}
+
+// The standard accounts are created on first use; bank and category accounts
+// appear as they are posted to
+export async function fetchLedgerAccounts(businessId: string): Promise<LedgerAccount[]> {
+  const { error: ensureError } = await supabase.rpc('ensure_ledger_accounts', {
+    p_business_id: businessId
+  });
+
+  if (ensureError) throw ensureError;
+
+  const { data, error } = await supabase
+    .from('ledger_accounts')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('code');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Debit and credit totals of every account posted to on or before the date
+export async function fetchLedgerBalances(businessId: string, asOf: string): Promise<LedgerAccountBalance[]> {
+  const { data, error } = await supabase.rpc('ledger_account_balances', {
+    p_business_id: businessId,
+    p_as_of: asOf
+  });
+
+  if (error) throw error;
+  return (data || []).map((balance: LedgerAccountBalance) => ({
+    account_id: balance.account_id,
+    debit: Number(balance.debit),
+    credit: Number(balance.credit),
+  }));
+}
@@ -0,0 +1,256 @@
+import { supabase } from '@/lib/supabase';
+import { Transaction } from './transactions';
+import { Payment } from './payments';
+import { Receipt } from './receipts';
+import { Bill } from './bills';
+import { MatchCandidate, MatchDocumentType, MatchRule, rejectionKey } from '../matching';
+
+export type MatchRuleListItem = MatchRule & {
+  creditors: { name: string } | null;
+  customers: { name: string } | null;
+};
+
+type PaymentCandidateRow = Pick<Payment, 'id' | 'payment_number' | 'payment_date' | 'amount' | 'creditor_id'> & {
+  creditors: { name: string } | null;
+};
+
+type ReceiptCandidateRow = Pick<Receipt, 'id' | 'receipt_number' | 'receipt_date' | 'amount' | 'customer_id'> & {
+  customers: { name: string } | null;
+};
+
+type BillCandidateRow = Pick<Bill, 'id' | 'bill_number' | 'issue_date' | 'total_amount' | 'amount_paid' | 'creditor_id'> & {
+  creditors: { name: string } | null;
+};
+
+type LinkedLeg = {
+  reference_id: string;
+  account_id: string;
+  type: Transaction['type'];
+  category: string | null;
+  reconciled: boolean;
+  matched: boolean;
+};
+
+// A document already posted to this account can still be matched: accepting
+// swaps its own bank leg for the statement line. Documents whose leg sits on
+// another account, is reconciled or was matched before are left out.
+function isMatchable(legs: LinkedLeg[], accountId: string): boolean {
+  return legs.every(leg => leg.account_id === accountId && !leg.reconciled && !leg.matched);
+}
+
+export async function getMatchCandidates(
+  businessId: string,
+  accountId: string
+): Promise<{ data: MatchCandidate[] | null; error: string | null }> {
+  try {
+    const [payments, receipts, bills, legs] = await Promise.all([
+      supabase
+        .from('payments')
+        .select('id, payment_number, payment_date, amount, creditor_id, creditors(name)')
+        .eq('business_id', businessId)
+        .returns<PaymentCandidateRow[]>(),
+      supabase
+        .from('receipts')
+        .select('id, receipt_number, receipt_date, amount, customer_id, customers(name)')
+        .eq('business_id', businessId)
+        .returns<ReceiptCandidateRow[]>(),
+      supabase
+        .from('bills')
+        .select('id, bill_number, issue_date, total_amount, amount_paid, creditor_id, creditors(name)')
+        .eq('business_id', businessId)
+        .neq('status', 'PAID')
+        .returns<BillCandidateRow[]>(),
+      supabase
+        .from('transactions')
+        .select('reference_id, account_id, type, category, reconciled, matched')
+        .eq('business_id', businessId)
+        .not('reference_id', 'is', null)
+        .returns<LinkedLeg[]>()
+    ]);
+
+    if (payments.error) throw payments.error;
+    if (receipts.error) throw receipts.error;
+    if (bills.error) throw bills.error;
+    if (legs.error) throw legs.error;
+
+    const legsFor = (id: string, matches: (leg: LinkedLeg) => boolean) =>
+      (legs.data || []).filter(leg => String(leg.reference_id) === id && matches(leg));
+
+    const candidates: MatchCandidate[] = [];
+
+    for (const payment of payments.data || []) {
+      if (!isMatchable(legsFor(payment.id, leg => leg.type === 'withdrawal'), accountId)) continue;
+      candidates.push({
+        type: 'payment',
+        id: payment.id,
+        number: payment.payment_number,
+        date: payment.payment_date,
+        amount: Number(payment.amount),
+        partyType: 'creditor',
+        partyId: payment.creditor_id,
+        partyName: payment.creditors?.name ?? null
+      });
+    }
+
+    for (const receipt of receipts.data || []) {
+      if (!isMatchable(legsFor(receipt.id, leg => leg.category === 'Receipt'), accountId)) continue;
+      candidates.push({
+        type: 'receipt',
+        id: receipt.id,
+        number: receipt.receipt_number,
+        date: receipt.receipt_date,
+        amount: Number(receipt.amount),
+        partyType: 'customer',
+        partyId: receipt.customer_id,
+        partyName: receipt.customers?.name ?? null
+      });
+    }
+
+    for (const bill of bills.data || []) {
+      const balance = Number(bill.total_amount) - Number(bill.amount_paid);
+      if (balance <= 0) continue;
+      candidates.push({
+        type: 'bill',
+        id: bill.id,
+        number: bill.bill_number,
+        date: bill.issue_date,
+        amount: balance,
+        partyType: 'creditor',
+        partyId: bill.creditor_id,
+        partyName: bill.creditors?.name ?? null
+      });
+    }
+
+    return {
+      data: candidates,
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error fetching match candidates:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to fetch match candidates'
+    };
+  }
+}
+
+export async function getMatchRules(businessId: string): Promise<{ data: MatchRuleListItem[] | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('match_rules')
+      .select('*, creditors(name), customers(name)')
+      .eq('business_id', businessId)
+      .order('hits', { ascending: false });
+
+    if (error) throw error;
+
+    return {
+      data: data as MatchRuleListItem[],
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error fetching match rules:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to fetch match rules'
+    };
+  }
+}
+
+export async function deleteMatchRule(id: string): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from('match_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error deleting match rule:', error);
+    return {
+      error: error.message || 'Failed to delete match rule'
+    };
+  }
+}
+
+export async function getRejectedMatches(businessId: string): Promise<{ data: Set<string> | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('match_rejections')
+      .select('transaction_id, document_type, document_id')
+      .eq('business_id', businessId);
+
+    if (error) throw error;
+
+    return {
+      data: new Set((data || []).map(row => rejectionKey(row.transaction_id, row.document_type, row.document_id))),
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error fetching rejected matches:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to fetch rejected matches'
+    };
+  }
+}
+
+export async function rejectMatch(
+  businessId: string,
+  transactionId: string,
+  documentType: MatchDocumentType,
+  documentId: string
+): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from('match_rejections')
+      .insert({
+        business_id: businessId,
+        transaction_id: transactionId,
+        document_type: documentType,
+        document_id: documentId
+      });
+
+    if (error) throw error;
+
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error rejecting match:', error);
+    return {
+      error: error.message || 'Failed to reject match'
+    };
+  }
+}
+
+// Bills are settled by a new payment, numbered from the PAYMENT sequence unless one is given
+export async function acceptMatch(
+  transactionId: string,
+  documentType: MatchDocumentType,
+  documentId: string,
+  options: { paymentNumber?: string; rulePattern?: string } = {}
+): Promise<{ data: Transaction | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc('accept_transaction_match', {
+      p_transaction_id: transactionId,
+      p_document_type: documentType,
+      p_document_id: documentId,
+      p_payment_number: options.paymentNumber ?? null,
+      p_rule_pattern: options.rulePattern ?? null
+    });
+
+    if (error) throw error;
+
+    return {
+      data: data as Transaction,
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error accepting match:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to accept match'
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { supabase } from '@/lib/supabase';
+import { Bill } from './bills';
+import { Purchase } from './purchases';
+import { Payment, Creditor } from './payments';
+
+export type PayablesCreditor = Pick<Creditor, 'id' | 'name' | 'opening_balance' | 'outstanding_amount' | 'created_at'>;
+
+export type PayablesBill = Pick<Bill, 'id' | 'creditor_id' | 'bill_number' | 'issue_date' | 'due_date' | 'total_amount' | 'amount_paid'>;
+
+export type PayablesPurchase = Pick<Purchase, 'id' | 'creditor_id' | 'purchase_number' | 'purchase_date' | 'total_price'>;
+
+export type PayablesPayment = Pick<Payment, 'id' | 'creditor_id' | 'payment_number' | 'payment_date' | 'amount' | 'payment_method' | 'reference'>;
+
+export interface PayablesDocuments {
+  creditors: PayablesCreditor[];
+  bills: PayablesBill[];
+  purchases: PayablesPurchase[];
+  payments: PayablesPayment[];
+}
+
+// Everything that makes up what a business owes its creditors, or one
+// creditor when given. Purchases without a creditor were paid on the spot
+export async function fetchPayablesDocuments(businessId: string, creditorId?: string): Promise<PayablesDocuments> {
+  let creditorsQuery = supabase
+    .from('creditors')
+    .select('id, name, opening_balance, outstanding_amount, created_at')
+    .eq('business_id', businessId)
+    .order('name');
+  let billsQuery = supabase
+    .from('bills')
+    .select('id, creditor_id, bill_number, issue_date, due_date, total_amount, amount_paid')
+    .eq('business_id', businessId)
+    .order('issue_date');
+  let purchasesQuery = supabase
+    .from('purchases')
+    .select('id, creditor_id, purchase_number, purchase_date, total_price')
+    .eq('business_id', businessId)
+    .not('creditor_id', 'is', null)
+    .order('purchase_date');
+  let paymentsQuery = supabase
+    .from('payments')
+    .select('id, creditor_id, payment_number, payment_date, amount, payment_method, reference')
+    .eq('business_id', businessId)
+    .not('creditor_id', 'is', null)
+    .order('payment_date');
+
+  if (creditorId) {
+    creditorsQuery = creditorsQuery.eq('id', creditorId);
+    billsQuery = billsQuery.eq('creditor_id', creditorId);
+    purchasesQuery = purchasesQuery.eq('creditor_id', creditorId);
+    paymentsQuery = paymentsQuery.eq('creditor_id', creditorId);
+  }
+
+  const [creditors, bills, purchases, payments] = await Promise.all([
+    creditorsQuery,
+    billsQuery,
+    purchasesQuery,
+    paymentsQuery,
+  ]);
+
+  if (creditors.error) throw creditors.error;
+  if (bills.error) throw bills.error;
+  if (purchases.error) throw purchases.error;
+  if (payments.error) throw payments.error;
+
+  return {
+    creditors: creditors.data || [],
+    bills: bills.data || [],
+    purchases: purchases.data || [],
+    payments: payments.data || [],
+  };
+}
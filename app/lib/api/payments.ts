@@ -1,4 +1,9 @@
 import { supabase } from '@/lib/supabase';
+import { Bill } from './bills';
+import { previewDocumentNumber } from './document-settings';
+import { deleteRecordsWithAttachments, deleteWithAttachments } from './attachments';
+
+export type { Bill };
 
 export interface Payment {
   id: string;
@@ -15,6 +20,19 @@ export interface Payment {
   updated_at: string;
 }
 
+export interface PaymentAllocation {
+  id: string;
+  payment_id: string;
+  bill_id: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface PaymentAllocationInput {
+  bill_id: string;
+  amount: number;
+}
+
 export interface Creditor {
   id: string;
   business_id: string;
@@ -22,11 +40,25 @@ export interface Creditor {
   email: string | null;
   phone: string | null;
   address: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  opening_balance: number;
+  // Derived from the ledger by the database, never written by the app
   outstanding_amount: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface CreditorBalance {
+  creditor_id: string;
+  business_id: string;
+  opening_balance: number;
+  total_purchases: number;
+  total_bills: number;
+  total_payments: number;
+  outstanding_amount: number;
+}
+
 export interface BankAccount {
   id: string;
   business_id: string;
@@ -39,20 +71,6 @@ export interface BankAccount {
   updated_at: string;
 }
 
-export interface Bill {
-  id: string;
-  business_id: string;
-  bill_number: string;
-  issue_date: string;
-  due_date: string;
-  creditor_id: string;
-  total_amount: number;
-  status: string;
-  notes: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
 export async function fetchCreditors(businessId: string): Promise<Creditor[]> {
   const { data, error } = await supabase
     .from('creditors')
@@ -64,6 +82,57 @@ export async function fetchCreditors(businessId: string): Promise<Creditor[]> {
   return data || [];
 }
 
+export async function fetchCreditorBalance(creditorId: string): Promise<CreditorBalance> {
+  const { data, error } = await supabase
+    .from('creditor_balances')
+    .select('*')
+    .eq('creditor_id', creditorId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Rebuilds every creditor balance from the ledger and returns how many were off
+export async function recalculateCreditorBalances(businessId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('recalculate_creditor_balances', {
+    p_business_id: businessId
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+// The creditor's bills, purchases and payments go with it, so their
+// attachments are collected before the delete cascades
+export async function deleteCreditor(id: string, businessId: string): Promise<void> {
+  const [bills, purchases, payments] = await Promise.all([
+    supabase.from('bills').select('id').eq('creditor_id', id),
+    supabase.from('purchases').select('id').eq('creditor_id', id),
+    supabase.from('payments').select('id').eq('creditor_id', id),
+  ]);
+
+  if (bills.error) throw bills.error;
+  if (purchases.error) throw purchases.error;
+  if (payments.error) throw payments.error;
+
+  const ids = (rows: { id: string }[] | null) => (rows || []).map(row => row.id);
+
+  await deleteRecordsWithAttachments({
+    BILL: ids(bills.data),
+    PURCHASE: ids(purchases.data),
+    PAYMENT: ids(payments.data)
+  }, async () => {
+    const { error } = await supabase
+      .from('creditors')
+      .delete()
+      .eq('id', id)
+      .eq('business_id', businessId);
+
+    if (error) throw error;
+  });
+}
+
 export async function fetchBankAccounts(businessId: string): Promise<BankAccount[]> {
   const { data, error } = await supabase
     .from('bank_accounts')
@@ -81,79 +150,96 @@ export async function fetchBillsForCreditor(businessId: string, creditorId: stri
     .select('*')
     .eq('business_id', businessId)
     .eq('creditor_id', creditorId)
-    .eq('status', 'PENDING')
-    .order('issue_date', { ascending: false });
+    .in('status', ['PENDING', 'PARTIAL', 'OVERDUE'])
+    .order('due_date', { ascending: true });
 
   if (error) throw error;
   return data || [];
 }
 
+// Numbering follows the business's document settings; the number is only used up when saved
 export async function generatePaymentNumber(businessId: string): Promise<string> {
-  const { data, error } = await supabase
-    .from('payments')
-    .select('payment_number')
-    .eq('business_id', businessId)
-    .order('payment_number', { ascending: false })
-    .limit(1);
-
-  if (error) throw error;
+  return previewDocumentNumber(businessId, 'PAYMENT');
+}
 
-  let nextNumber = 1;
-  if (data && data.length > 0 && data[0].payment_number) {
-    const match = data[0].payment_number.match(/PAY-(\d+)/);
-    if (match && match[1]) {
-      nextNumber = parseInt(match[1], 10) + 1;
-    }
-  }
+export type PaymentInput = Omit<Payment, 'id' | 'created_at' | 'updated_at'>;
+
+// A null number is allocated by post_payment as the payment is saved
+export type NewPaymentInput = Omit<PaymentInput, 'payment_number'> & { payment_number: string | null };
+
+// Payment, bill allocations, creditor outstanding and the bank withdrawal are
+// posted by one database function so a failure part way leaves nothing behind
+export async function createPayment(
+  payment: NewPaymentInput,
+  allocations: PaymentAllocationInput[],
+  transactionDescription: string | null
+): Promise<Payment> {
+  const { data, error } = await supabase.rpc('post_payment', {
+    p_business_id: payment.business_id,
+    p_payment_number: payment.payment_number,
+    p_payment_date: payment.payment_date,
+    p_amount: payment.amount,
+    p_creditor_id: payment.creditor_id,
+    p_bank_account_id: payment.bank_account_id,
+    p_payment_method: payment.payment_method,
+    p_reference: payment.reference,
+    p_notes: payment.notes,
+    p_allocations: allocations,
+    p_transaction_description: transactionDescription
+  });
 
-  return `PAY-${nextNumber.toString().padStart(4, '0')}`;
+  if (error) throw error;
+  return data;
 }
 
-export async function createPayment(payment: Omit<Payment, 'id' | 'created_at' | 'updated_at'>): Promise<Payment> {
-  const { data, error } = await supabase
-    .from('payments')
-    .insert(payment)
-    .select()
-    .single();
+export async function updatePayment(
+  id: string,
+  payment: Omit<PaymentInput, 'business_id'>,
+  transactionDescription: string | null
+): Promise<Payment> {
+  const { data, error } = await supabase.rpc('update_payment', {
+    p_payment_id: id,
+    p_payment_number: payment.payment_number,
+    p_payment_date: payment.payment_date,
+    p_amount: payment.amount,
+    p_creditor_id: payment.creditor_id,
+    p_bank_account_id: payment.bank_account_id,
+    p_payment_method: payment.payment_method,
+    p_reference: payment.reference,
+    p_notes: payment.notes,
+    p_transaction_description: transactionDescription
+  });
 
   if (error) throw error;
   return data;
 }
 
-export async function updateCreditorOutstandingAmount(creditorId: string, newAmount: number): Promise<void> {
-  const { error } = await supabase
-    .from('creditors')
-    .update({ outstanding_amount: newAmount })
-    .eq('id', creditorId);
+export async function fetchPaymentAllocations(paymentId: string): Promise<(PaymentAllocation & { bills: Pick<Bill, 'bill_number' | 'total_amount'> | null })[]> {
+  const { data, error } = await supabase
+    .from('payment_allocations')
+    .select('*, bills(bill_number, total_amount)')
+    .eq('payment_id', paymentId)
+    .order('created_at');
 
   if (error) throw error;
+  return data || [];
 }
 
-export async function updateBillStatus(billId: string, status: string): Promise<void> {
-  const { error } = await supabase
-    .from('bills')
-    .update({ status })
-    .eq('id', billId);
+export async function fetchPaymentsForBill(billId: string): Promise<(PaymentAllocation & { payments: Pick<Payment, 'payment_number' | 'payment_date'> | null })[]> {
+  const { data, error } = await supabase
+    .from('payment_allocations')
+    .select('*, payments(payment_number, payment_date)')
+    .eq('bill_id', billId)
+    .order('created_at', { ascending: false });
 
   if (error) throw error;
+  return data || [];
 }
 
-export async function createBankTransaction(transaction: {
-  business_id: string;
-  account_id: string;
-  transaction_number: string;
-  type: 'deposit' | 'withdrawal' | 'transfer';
-  amount: number;
-  date: string;
-  description: string;
-  category: string;
-  reference_id: string;
-  reconciled: boolean;
-  notes: string | null;
-}): Promise<void> {
-  const { error } = await supabase
-    .from('transactions')
-    .insert(transaction);
+export async function deletePayment(id: string): Promise<void> {
+  await deleteWithAttachments('PAYMENT', id, async () => {
+    const { error } = await supabase.rpc('delete_payment', { p_payment_id: id });
 
-  if (error) throw error;
-} 
\ No newline at end of file
+    if (error) throw error;
+  });
+}
@@ -0,0 +1,94 @@
+import { supabase } from '@/lib/supabase';
+import { Invoice } from './invoices';
+import { Bill } from './bills';
+import { Purchase } from './purchases';
+import { Transaction } from './transactions';
+import { Expense } from './expenses';
+
+export type ProfitLossInvoice = Pick<Invoice, 'id' | 'invoice_date' | 'subtotal'>;
+
+export type ProfitLossBill = Pick<Bill, 'id' | 'issue_date' | 'subtotal'>;
+
+export type ProfitLossPurchase = Pick<Purchase, 'id' | 'purchase_date' | 'subtotal'>;
+
+export type ProfitLossTransaction = Pick<Transaction, 'id' | 'date' | 'type' | 'amount' | 'category'>;
+
+export type ProfitLossExpense = Pick<Expense, 'id' | 'expense_date' | 'amount'> & {
+  expense_categories: { name: string } | null;
+};
+
+export interface ProfitLossDocuments {
+  invoices: ProfitLossInvoice[];
+  bills: ProfitLossBill[];
+  purchases: ProfitLossPurchase[];
+  transactions: ProfitLossTransaction[];
+  expenses: ProfitLossExpense[];
+}
+
+// Categories the app gives the bank side of documents and transfers, and
+// statement lines nobody has categorised yet. The ledger holds these in
+// Suspense (see category_ledger_account), so the two reports agree
+export const SETTLEMENT_CATEGORIES = ['Payment', 'Receipt', 'Transfer', 'Imported'];
+
+// Everything dated inside the range, inclusive. Bank transactions only count
+// when they stand on their own: money paid against a bill or received against
+// an invoice, or spent on an expense, is already in the report through the
+// document
+export async function fetchProfitLossDocuments(
+  businessId: string,
+  startDate: string,
+  endDate: string
+): Promise<ProfitLossDocuments> {
+  const [invoices, bills, purchases, transactions, expenses] = await Promise.all([
+    supabase
+      .from('invoices')
+      .select('id, invoice_date, subtotal')
+      .eq('business_id', businessId)
+      .not('status', 'in', '(DRAFT,CANCELLED)')
+      .gte('invoice_date', startDate)
+      .lte('invoice_date', endDate),
+    supabase
+      .from('bills')
+      .select('id, issue_date, subtotal')
+      .eq('business_id', businessId)
+      .gte('issue_date', startDate)
+      .lte('issue_date', endDate),
+    supabase
+      .from('purchases')
+      .select('id, purchase_date, subtotal')
+      .eq('business_id', businessId)
+      .gte('purchase_date', startDate)
+      .lte('purchase_date', endDate),
+    supabase
+      .from('transactions')
+      .select('id, date, type, amount, category')
+      .eq('business_id', businessId)
+      .in('type', ['deposit', 'withdrawal'])
+      .is('transfer_id', null)
+      .is('reference_id', null)
+      .not('category', 'is', null)
+      .not('category', 'in', `(${SETTLEMENT_CATEGORIES.join(',')})`)
+      .gte('date', startDate)
+      .lte('date', endDate),
+    supabase
+      .from('expenses')
+      .select('*, expense_categories(name)')
+      .eq('business_id', businessId)
+      .gte('expense_date', startDate)
+      .lte('expense_date', endDate),
+  ]);
+
+  if (invoices.error) throw invoices.error;
+  if (bills.error) throw bills.error;
+  if (purchases.error) throw purchases.error;
+  if (transactions.error) throw transactions.error;
+  if (expenses.error) throw expenses.error;
+
+  return {
+    invoices: invoices.data || [],
+    bills: bills.data || [],
+    purchases: purchases.data || [],
+    transactions: transactions.data || [],
+    expenses: expenses.data || [],
+  };
+}
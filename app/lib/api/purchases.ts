@@ -1,4 +1,7 @@
 import { supabase } from '../../../lib/supabase';
+import { calculateGstLine, summarizeGst, GstLine, GstSummary } from '../gst';
+import { previewDocumentNumber } from './document-settings';
+import { deleteWithAttachments } from './attachments';
 
 export interface Purchase {
   id: string;
@@ -8,13 +11,44 @@ export interface Purchase {
   creditor_id: string | null;
   description: string | null;
   item_name: string;
-  quantity: number;
-  unit_price: number;
+  place_of_supply: string | null;
+  reverse_charge: boolean;
+  subtotal: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
   total_price: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface PurchaseLineItem {
+  id: string;
+  purchase_id: string;
+  item_id: string | null;
+  item_name: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit: string | null;
+  rate: number;
+  discount_percent: number;
+  tax_percent: number;
+  taxable_amount: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  amount: number;
+  sort_order: number;
+  created_at: string;
+}
+
+export type PurchaseWithLineItems = Purchase & {
+  creditors: Pick<Creditor, 'id' | 'name' | 'address' | 'gstin' | 'state_code'> | null;
+  purchase_line_items: PurchaseLineItem[];
+};
+
 export interface Creditor {
   id: string;
   business_id: string;
@@ -22,6 +56,9 @@ export interface Creditor {
   email: string | null;
   phone: string | null;
   address: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  opening_balance: number;
   outstanding_amount: number;
   created_at: string;
   updated_at: string;
@@ -38,43 +75,99 @@ export async function fetchCreditors(businessId: string): Promise<Creditor[]> {
   return data || [];
 }
 
+// Numbering follows the business's document settings; the number is only used up when saved
 export async function generatePurchaseNumber(businessId: string): Promise<string> {
-  const { data, error } = await supabase
-    .from('purchases')
-    .select('purchase_number')
-    .eq('business_id', businessId)
-    .order('purchase_number', { ascending: false })
-    .limit(1);
+  return previewDocumentNumber(businessId, 'PURCHASE');
+}
 
-  if (error) throw error;
+// item_name and the totals are written by post_purchase/update_purchase from the lines
+export type PurchaseInput = Pick<
+  Purchase,
+  'business_id' | 'purchase_number' | 'purchase_date' | 'creditor_id' | 'description' | 'place_of_supply' | 'reverse_charge'
+>;
+
+// A null number is allocated by post_purchase as the purchase is saved
+export type NewPurchaseInput = Omit<PurchaseInput, 'purchase_number'> & { purchase_number: string | null };
 
-  let nextNumber = 1;
-  if (data && data.length > 0 && data[0].purchase_number) {
-    const match = data[0].purchase_number.match(/PUR-(\d+)/);
-    if (match && match[1]) {
-      nextNumber = parseInt(match[1], 10) + 1;
-    }
-  }
+export type PurchaseLineItemInput = Pick<
+  PurchaseLineItem,
+  'item_id' | 'item_name' | 'hsn_code' | 'quantity' | 'unit' | 'rate' | 'discount_percent' | 'tax_percent'
+>;
 
-  return `PUR-${nextNumber.toString().padStart(4, '0')}`;
+// Mirrors write_purchase_lines so the form shows what the database will store
+export function calculatePurchaseLine(item: PurchaseLineItemInput, interState: boolean): GstLine {
+  return calculateGstLine({
+    quantity: item.quantity,
+    rate: item.rate,
+    discountPercent: item.discount_percent,
+    taxRate: item.tax_percent
+  }, interState);
 }
 
-export async function createPurchase(purchase: Omit<Purchase, 'id' | 'created_at' | 'updated_at'>): Promise<Purchase> {
+export function calculatePurchaseTotals(
+  lineItems: PurchaseLineItemInput[],
+  options: { interState: boolean; reverseCharge: boolean }
+): GstSummary {
+  return summarizeGst(lineItems.map(item => calculatePurchaseLine(item, options.interState)), options);
+}
+
+export async function fetchPurchase(id: string, businessId: string): Promise<PurchaseWithLineItems> {
   const { data, error } = await supabase
     .from('purchases')
-    .insert(purchase)
-    .select()
+    .select('*, creditors(id, name, address, gstin, state_code), purchase_line_items(*)')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .order('sort_order', { referencedTable: 'purchase_line_items' })
     .single();
 
   if (error) throw error;
   return data;
 }
 
-export async function updateCreditorOutstandingAmount(creditorId: string, newAmount: number): Promise<void> {
-  const { error } = await supabase
-    .from('creditors')
-    .update({ outstanding_amount: newAmount })
-    .eq('id', creditorId);
+export async function createPurchase(purchase: NewPurchaseInput, lineItems: PurchaseLineItemInput[]): Promise<Purchase> {
+  const { data, error } = await supabase.rpc('post_purchase', {
+    p_business_id: purchase.business_id,
+    p_purchase_number: purchase.purchase_number,
+    p_purchase_date: purchase.purchase_date,
+    p_creditor_id: purchase.creditor_id,
+    p_description: purchase.description,
+    p_place_of_supply: purchase.place_of_supply,
+    p_reverse_charge: purchase.reverse_charge,
+    p_line_items: lineItems
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePurchase(
+  id: string,
+  purchase: Omit<PurchaseInput, 'business_id'>,
+  lineItems: PurchaseLineItemInput[]
+): Promise<Purchase> {
+  const { data, error } = await supabase.rpc('update_purchase', {
+    p_purchase_id: id,
+    p_purchase_number: purchase.purchase_number,
+    p_purchase_date: purchase.purchase_date,
+    p_creditor_id: purchase.creditor_id,
+    p_description: purchase.description,
+    p_place_of_supply: purchase.place_of_supply,
+    p_reverse_charge: purchase.reverse_charge,
+    p_line_items: lineItems
+  });
 
   if (error) throw error;
-} 
\ No newline at end of file
+  return data;
+}
+
+export async function deletePurchase(id: string, businessId: string): Promise<void> {
+  await deleteWithAttachments('PURCHASE', id, async () => {
+    const { error } = await supabase
+      .from('purchases')
+      .delete()
+      .eq('id', id)
+      .eq('business_id', businessId);
+
+    if (error) throw error;
+  });
+}
@@ -0,0 +1,145 @@
+import { supabase } from '@/lib/supabase';
+import { Invoice } from './invoices';
+import { previewDocumentNumber } from './document-settings';
+
+export interface Receipt {
+  id: string;
+  business_id: string;
+  receipt_number: string;
+  receipt_date: string;
+  amount: number;
+  customer_id: string | null;
+  bank_account_id: string | null;
+  payment_method: string;
+  reference: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReceiptAllocation {
+  id: string;
+  receipt_id: string;
+  invoice_id: string;
+  amount: number;
+  created_at: string;
+}
+
+export type ReceiptWithAllocations = Receipt & {
+  customers: { name: string } | null;
+  bank_accounts: { name: string } | null;
+  receipt_allocations: (ReceiptAllocation & {
+    invoices: Pick<Invoice, 'invoice_number' | 'total_amount'> | null;
+  })[];
+};
+
+export type ReceiptListItem = Receipt & {
+  customers: { name: string } | null;
+};
+
+export type ReceiptInput = Omit<Receipt, 'id' | 'created_at' | 'updated_at'>;
+
+// A null number is allocated by post_receipt as the receipt is saved
+export type NewReceiptInput = Omit<ReceiptInput, 'receipt_number'> & { receipt_number: string | null };
+
+export type OpenInvoice = Pick<Invoice, 'id' | 'invoice_number' | 'invoice_date' | 'due_date' | 'total_amount' | 'amount_paid' | 'status'>;
+
+export interface ReceiptAllocationInput {
+  invoice_id: string;
+  amount: number;
+}
+
+export async function fetchReceipts(businessId: string): Promise<ReceiptListItem[]> {
+  const { data, error } = await supabase
+    .from('receipts')
+    .select('*, customers(name)')
+    .eq('business_id', businessId)
+    .order('receipt_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchReceipt(id: string, businessId: string): Promise<ReceiptWithAllocations> {
+  const { data, error } = await supabase
+    .from('receipts')
+    .select('*, customers(name), bank_accounts(name), receipt_allocations(*, invoices(invoice_number, total_amount))')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchReceiptsForCustomer(businessId: string, customerId: string): Promise<Receipt[]> {
+  const { data, error } = await supabase
+    .from('receipts')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('customer_id', customerId)
+    .order('receipt_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchReceiptsForInvoice(invoiceId: string): Promise<(ReceiptAllocation & { receipts: Pick<Receipt, 'receipt_number' | 'receipt_date'> | null })[]> {
+  const { data, error } = await supabase
+    .from('receipt_allocations')
+    .select('*, receipts(receipt_number, receipt_date)')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchOpenInvoicesForCustomer(businessId: string, customerId: string): Promise<OpenInvoice[]> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, invoice_date, due_date, total_amount, amount_paid, status')
+    .eq('business_id', businessId)
+    .eq('customer_id', customerId)
+    .in('status', ['SENT', 'PARTIAL'])
+    .order('due_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Numbering follows the business's document settings; the number is only used up when saved
+export async function generateReceiptNumber(businessId: string): Promise<string> {
+  return previewDocumentNumber(businessId, 'RECEIPT');
+}
+
+// Receipt, invoice allocations, customer receivable and the bank deposit are
+// posted by one database function so a failure part way leaves nothing behind
+export async function createReceipt(
+  receipt: NewReceiptInput,
+  allocations: ReceiptAllocationInput[],
+  transactionDescription: string | null
+): Promise<Receipt> {
+  const { data, error } = await supabase.rpc('post_receipt', {
+    p_business_id: receipt.business_id,
+    p_receipt_number: receipt.receipt_number,
+    p_receipt_date: receipt.receipt_date,
+    p_amount: receipt.amount,
+    p_customer_id: receipt.customer_id,
+    p_bank_account_id: receipt.bank_account_id,
+    p_payment_method: receipt.payment_method,
+    p_reference: receipt.reference,
+    p_notes: receipt.notes,
+    p_allocations: allocations,
+    p_transaction_description: transactionDescription
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteReceipt(id: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_receipt', { p_receipt_id: id });
+
+  if (error) throw error;
+}
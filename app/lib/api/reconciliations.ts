@@ -0,0 +1,124 @@
+import { supabase } from '@/lib/supabase';
+import { Transaction } from './transactions';
+
+export interface Reconciliation {
+  id: string;
+  business_id: string;
+  account_id: string;
+  statement_date: string;
+  opening_balance: number;
+  closing_balance: number;
+  cleared_count: number;
+  created_at: string;
+}
+
+export interface ReconciliationResponse {
+  data: Reconciliation[] | null;
+  error: string | null;
+}
+
+export interface ReconciliationDetailResponse {
+  data: Reconciliation | null;
+  error: string | null;
+}
+
+// Newest first, so the first entry is the one a new reconciliation continues from
+export async function getReconciliations(
+  accountId: string,
+  businessId: string
+): Promise<ReconciliationResponse> {
+  try {
+    const { data, error } = await supabase
+      .from('reconciliations')
+      .select('*')
+      .eq('account_id', accountId)
+      .eq('business_id', businessId)
+      .order('statement_date', { ascending: false });
+
+    if (error) throw error;
+
+    return {
+      data: data as Reconciliation[],
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error fetching reconciliations:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to fetch reconciliations'
+    };
+  }
+}
+
+export async function getUnreconciledTransactions(
+  accountId: string,
+  businessId: string
+): Promise<{ data: Transaction[] | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('account_id', accountId)
+      .eq('business_id', businessId)
+      .eq('reconciled', false)
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+
+    return {
+      data: data as Transaction[],
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error fetching unreconciled transactions:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to fetch unreconciled transactions'
+    };
+  }
+}
+
+// The database refuses the reconciliation unless the cleared balance matches the statement
+export async function completeReconciliation(
+  accountId: string,
+  statementDate: string,
+  closingBalance: number,
+  transactionIds: string[]
+): Promise<ReconciliationDetailResponse> {
+  try {
+    const { data, error } = await supabase.rpc('complete_reconciliation', {
+      p_account_id: accountId,
+      p_statement_date: statementDate,
+      p_closing_balance: closingBalance,
+      p_transaction_ids: transactionIds
+    });
+
+    if (error) throw error;
+
+    return {
+      data: data as Reconciliation,
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error completing reconciliation:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to complete reconciliation'
+    };
+  }
+}
+
+export async function undoReconciliation(id: string): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase.rpc('undo_reconciliation', { p_reconciliation_id: id });
+
+    if (error) throw error;
+
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error undoing reconciliation:', error);
+    return {
+      error: error.message || 'Failed to undo reconciliation'
+    };
+  }
+}
@@ -1,13 +1,27 @@
 import { supabase } from '@/lib/supabase';
+import { format } from 'date-fns';
+import { StatementLine } from '../statements';
 
 export interface Transaction {
   id: string;
   business_id: string;
   account_id: string;
+  transaction_number?: string;
   type: 'deposit' | 'withdrawal' | 'transfer';
   amount: number;
   description: string;
   date: string;
+  category?: string | null;
+  reference_id?: string | null;
+  reconciled?: boolean;
+  reconciliation_id?: string | null;
+  // Confirmed against a payment, receipt or bill through the matching screen
+  matched?: boolean;
+  notes?: string | null;
+  // Set on both legs of an account-to-account transfer
+  transfer_id?: string | null;
+  // The bank's id for an imported statement line (OFX FITID), unique per account
+  statement_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -81,27 +95,27 @@ export async function createTransaction(
   transaction: Omit<Transaction, 'id' | 'business_id' | 'created_at' | 'updated_at'>
 ): Promise<TransactionDetailResponse> {
   try {
-    const { data, error } = await supabase
-      .from('transactions')
-      .insert([
-        {
-          ...transaction,
-          business_id: businessId
-        }
-      ])
-      .select()
-      .single();
+    // A transfer needs a destination account, so it goes through createTransfer
+    if (transaction.type === 'transfer') {
+      throw new Error('Use createTransfer to move money between accounts');
+    }
 
-    if (error) throw error;
-
-    // Update the account balance
-    const amount = transaction.type === 'deposit' ? transaction.amount : -transaction.amount;
-    const { error: updateError } = await supabase.rpc('update_account_balance', {
+    // The insert and the account balance change commit together
+    const { data, error } = await supabase.rpc('post_transaction', {
+      p_business_id: businessId,
       p_account_id: transaction.account_id,
-      p_amount: amount
+      p_transaction_number: transaction.transaction_number ?? null,
+      p_type: transaction.type,
+      p_amount: transaction.amount,
+      p_date: transaction.date,
+      p_description: transaction.description ?? null,
+      p_category: transaction.category ?? null,
+      p_reference_id: transaction.reference_id ?? null,
+      p_reconciled: transaction.reconciled ?? false,
+      p_notes: transaction.notes ?? null
     });
 
-    if (updateError) throw updateError;
+    if (error) throw error;
 
     return {
       data: data as Transaction,
@@ -122,6 +136,7 @@ export async function updateTransaction(
   updates: Partial<Transaction>
 ): Promise<TransactionDetailResponse> {
   try {
+    // The account balance follows through the transactions trigger
     const { data, error } = await supabase
       .from('transactions')
       .update(updates)
@@ -165,4 +180,78 @@ export async function deleteTransaction(
       error: error.message || 'Failed to delete transaction'
     };
   }
-} 
\ No newline at end of file
+}
+
+// Zero-amount lines, and lines whose statement id is already on the account,
+// are skipped rather than imported again
+export async function importTransactions(
+  businessId: string,
+  accountId: string,
+  lines: StatementLine[]
+): Promise<TransactionResponse> {
+  try {
+    const statementIds = lines
+      .map(line => line.externalId)
+      .filter((externalId): externalId is string => !!externalId);
+
+    const seen = new Set<string>();
+    if (statementIds.length > 0) {
+      const { data: existing, error: existingError } = await supabase
+        .from('transactions')
+        .select('statement_id')
+        .eq('account_id', accountId)
+        .in('statement_id', statementIds);
+
+      if (existingError) throw existingError;
+      existing?.forEach(row => seen.add(row.statement_id));
+    }
+
+    const newLines = lines.filter(line => {
+      if (line.amount === 0) return false;
+      if (!line.externalId) return true;
+      if (seen.has(line.externalId)) return false;
+      seen.add(line.externalId);
+      return true;
+    });
+
+    if (newLines.length === 0) {
+      return {
+        data: [],
+        error: null
+      };
+    }
+
+    const batch = format(new Date(), 'yyyyMMddHHmmss');
+
+    // One insert statement, so either every row lands or none do; the
+    // transactions trigger moves the account balance row by row
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert(newLines.map((line, index) => ({
+        business_id: businessId,
+        account_id: accountId,
+        transaction_number: `IMP-${batch}-${index + 1}`,
+        type: line.amount > 0 ? 'deposit' : 'withdrawal',
+        amount: Math.abs(line.amount),
+        date: line.date,
+        description: line.description,
+        category: 'Imported',
+        reconciled: false,
+        statement_id: line.externalId || null
+      })))
+      .select();
+
+    if (error) throw error;
+
+    return {
+      data: data as Transaction[],
+      error: null
+    };
+  } catch (error: any) {
+    console.error('Error importing transactions:', error);
+    return {
+      data: null,
+      error: error.message || 'Failed to import transactions'
+    };
+  }
+}
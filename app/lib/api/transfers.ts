@@ -0,0 +1,82 @@
+import { supabase } from '@/lib/supabase';
+import { previewDocumentNumber } from './document-settings';
+
+export interface Transfer {
+  id: string;
+  business_id: string;
+  transfer_number: string;
+  transfer_date: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  reference: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TransferWithAccounts = Transfer & {
+  from_account: { name: string } | null;
+  to_account: { name: string } | null;
+};
+
+export type TransferInput = Omit<Transfer, 'id' | 'created_at' | 'updated_at'>;
+
+// A null number is allocated by post_transfer as the transfer is saved
+export type NewTransferInput = Omit<TransferInput, 'transfer_number'> & { transfer_number: string | null };
+
+export async function fetchTransfer(id: string, businessId: string): Promise<TransferWithAccounts> {
+  const { data, error } = await supabase
+    .from('transfers')
+    .select('*, from_account:bank_accounts!transfers_from_account_id_fkey(name), to_account:bank_accounts!transfers_to_account_id_fkey(name)')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Numbering follows the business's document settings; the number is only used up when saved
+export async function generateTransferNumber(businessId: string): Promise<string> {
+  return previewDocumentNumber(businessId, 'TRANSFER');
+}
+
+// The transfer and its withdrawal and deposit legs are written together
+export async function createTransfer(transfer: NewTransferInput): Promise<Transfer> {
+  const { data, error } = await supabase.rpc('post_transfer', {
+    p_business_id: transfer.business_id,
+    p_transfer_number: transfer.transfer_number,
+    p_transfer_date: transfer.transfer_date,
+    p_from_account_id: transfer.from_account_id,
+    p_to_account_id: transfer.to_account_id,
+    p_amount: transfer.amount,
+    p_reference: transfer.reference,
+    p_notes: transfer.notes
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateTransfer(id: string, transfer: Omit<TransferInput, 'business_id'>): Promise<Transfer> {
+  const { data, error } = await supabase.rpc('update_transfer', {
+    p_transfer_id: id,
+    p_transfer_number: transfer.transfer_number,
+    p_transfer_date: transfer.transfer_date,
+    p_from_account_id: transfer.from_account_id,
+    p_to_account_id: transfer.to_account_id,
+    p_amount: transfer.amount,
+    p_reference: transfer.reference,
+    p_notes: transfer.notes
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTransfer(id: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_transfer', { p_transfer_id: id });
+
+  if (error) throw error;
+}
@@ -0,0 +1,497 @@
+import { format } from 'date-fns';
+import { getStateName } from './gst';
+import { PurchaseWithLineItems } from './api/purchases';
+import { InvoiceWithLineItems } from './api/invoices';
+import { Payment, Creditor } from './api/payments';
+import { DocumentTemplate } from './api/document-settings';
+
+// The letterhead every document is printed under
+export interface DocumentBusiness {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  tax_id: string | null;
+  logo_url: string | null;
+}
+
+export interface DocumentParty {
+  label: string;
+  name: string;
+  address?: string | null;
+  gstin?: string | null;
+  stateCode?: string | null;
+}
+
+export interface DocumentColumn {
+  header: string;
+  numeric?: boolean;
+}
+
+export interface DocumentTotal {
+  label: string;
+  amount: number;
+  emphasis?: boolean;
+}
+
+export interface PrintableDocument {
+  title: string;
+  number: string;
+  details: { label: string; value: string }[];
+  party: DocumentParty | null;
+  columns: DocumentColumn[];
+  rows: string[][];
+  totals: DocumentTotal[];
+  // Spelled out under the totals
+  amount: number;
+  notes?: string | null;
+  remarks?: string[];
+  signatures: string[];
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function twoDigitsInWords(value: number): string {
+  if (value < 20) return ONES[value];
+  const ones = value % 10;
+  return `${TENS[Math.floor(value / 10)]}${ones ? ` ${ONES[ones]}` : ''}`;
+}
+
+function threeDigitsInWords(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigitsInWords(rest) : '']
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Indian grouping: thousands, then lakhs and crores of two digits each
+function integerInWords(value: number): string {
+  if (value === 0) return 'Zero';
+
+  const crores = Math.floor(value / 10000000);
+  const lakhs = Math.floor((value % 10000000) / 100000);
+  const thousands = Math.floor((value % 100000) / 1000);
+  const rest = value % 1000;
+
+  return [
+    crores ? `${integerInWords(crores)} Crore` : '',
+    lakhs ? `${twoDigitsInWords(lakhs)} Lakh` : '',
+    thousands ? `${twoDigitsInWords(thousands)} Thousand` : '',
+    rest ? threeDigitsInWords(rest) : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function amountInWords(amount: number): string {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${twoDigitsInWords(paise)} Paise` : ''} Only`;
+}
+
+export function formatDocumentAmount(amount: number): string {
+  return `₹${Number(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+const formatDocumentDate = (date: string) => format(new Date(date), 'dd MMM yyyy');
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const multiline = (value: string) => escapeHtml(value).replace(/\n/g, '<br />');
+
+function placeOfSupplyDetail(stateCode: string | null) {
+  return stateCode ? [{ label: 'Place of Supply', value: `${getStateName(stateCode) || stateCode} (${stateCode})` }] : [];
+}
+
+function gstTotals(document: { subtotal: number; cgst_amount: number; sgst_amount: number; igst_amount: number }): DocumentTotal[] {
+  return [
+    { label: 'Taxable Value', amount: Number(document.subtotal) },
+    { label: 'CGST', amount: Number(document.cgst_amount) },
+    { label: 'SGST', amount: Number(document.sgst_amount) },
+    { label: 'IGST', amount: Number(document.igst_amount) },
+  ].filter((total, index) => index === 0 || total.amount > 0);
+}
+
+const REVERSE_CHARGE_REMARK = 'Tax on this supply is payable by the recipient under reverse charge.';
+
+export function buildInvoiceDocument(invoice: InvoiceWithLineItems): PrintableDocument {
+  const customer = invoice.customers;
+  const totals = [
+    ...gstTotals(invoice),
+    { label: 'Total', amount: Number(invoice.total_amount), emphasis: true },
+  ];
+  if (Number(invoice.amount_paid) > 0) {
+    totals.push(
+      { label: 'Received', amount: Number(invoice.amount_paid) },
+      { label: 'Balance Due', amount: Number(invoice.total_amount) - Number(invoice.amount_paid), emphasis: true }
+    );
+  }
+
+  return {
+    title: Number(invoice.tax_amount) > 0 ? 'Tax Invoice' : 'Invoice',
+    number: invoice.invoice_number,
+    details: [
+      { label: 'Invoice Date', value: formatDocumentDate(invoice.invoice_date) },
+      { label: 'Due Date', value: formatDocumentDate(invoice.due_date) },
+      ...placeOfSupplyDetail(invoice.place_of_supply),
+    ],
+    party: {
+      label: 'Bill To',
+      name: invoice.customer_name,
+      address: customer?.address,
+      gstin: customer?.gstin,
+      stateCode: customer?.state_code,
+    },
+    columns: [
+      { header: '#' },
+      { header: 'Description' },
+      { header: 'HSN/SAC' },
+      { header: 'Qty', numeric: true },
+      { header: 'Rate', numeric: true },
+      { header: 'Taxable', numeric: true },
+      { header: 'GST', numeric: true },
+      { header: 'Amount', numeric: true },
+    ],
+    rows: invoice.invoice_line_items.map((line, index) => [
+      String(index + 1),
+      line.description,
+      line.hsn_code || '',
+      Number(line.quantity).toLocaleString('en-IN'),
+      formatDocumentAmount(line.unit_price),
+      formatDocumentAmount(line.taxable_amount),
+      `${Number(line.tax_percent)}%`,
+      formatDocumentAmount(line.amount),
+    ]),
+    totals,
+    amount: Number(invoice.total_amount),
+    notes: invoice.notes,
+    remarks: invoice.reverse_charge ? [REVERSE_CHARGE_REMARK] : [],
+    signatures: ['Authorised Signatory'],
+  };
+}
+
+export function buildPurchaseDocument(purchase: PurchaseWithLineItems): PrintableDocument {
+  const creditor = purchase.creditors;
+
+  return {
+    title: 'Purchase Record',
+    number: purchase.purchase_number,
+    details: [
+      { label: 'Purchase Date', value: formatDocumentDate(purchase.purchase_date) },
+      ...placeOfSupplyDetail(purchase.place_of_supply),
+    ],
+    party: creditor ? {
+      label: 'Supplier',
+      name: creditor.name,
+      address: creditor.address,
+      gstin: creditor.gstin,
+      stateCode: creditor.state_code,
+    } : null,
+    columns: [
+      { header: '#' },
+      { header: 'Item' },
+      { header: 'HSN/SAC' },
+      { header: 'Qty', numeric: true },
+      { header: 'Rate', numeric: true },
+      { header: 'Disc', numeric: true },
+      { header: 'Taxable', numeric: true },
+      { header: 'GST', numeric: true },
+      { header: 'Amount', numeric: true },
+    ],
+    rows: purchase.purchase_line_items.map((line, index) => [
+      String(index + 1),
+      line.item_name,
+      line.hsn_code || '',
+      `${Number(line.quantity).toLocaleString('en-IN')}${line.unit ? ` ${line.unit}` : ''}`,
+      formatDocumentAmount(line.rate),
+      Number(line.discount_percent) > 0 ? `${Number(line.discount_percent)}%` : '',
+      formatDocumentAmount(line.taxable_amount),
+      `${Number(line.tax_percent)}%`,
+      formatDocumentAmount(line.amount),
+    ]),
+    totals: [
+      ...gstTotals(purchase),
+      { label: purchase.reverse_charge ? 'Payable to Supplier' : 'Total', amount: Number(purchase.total_price), emphasis: true },
+    ],
+    amount: Number(purchase.total_price),
+    notes: purchase.description,
+    remarks: purchase.reverse_charge ? [REVERSE_CHARGE_REMARK] : [],
+    signatures: ['Checked By', 'Authorised Signatory'],
+  };
+}
+
+export function buildPaymentVoucherDocument(
+  payment: Pick<Payment, 'payment_number' | 'payment_date' | 'amount' | 'payment_method' | 'reference' | 'notes'>,
+  creditor: Pick<Creditor, 'name' | 'address' | 'gstin'> | null,
+  bankAccountName: string | null,
+  allocations: { bill_number: string; amount: number }[]
+): PrintableDocument {
+  const allocated = allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0);
+  const rows = allocations.map(allocation => [`Against bill ${allocation.bill_number}`, formatDocumentAmount(allocation.amount)]);
+  const onAccount = Math.round((Number(payment.amount) - allocated) * 100) / 100;
+  if (onAccount > 0) {
+    rows.push([allocations.length > 0 ? 'On account' : 'Payment on account', formatDocumentAmount(onAccount)]);
+  }
+
+  return {
+    title: 'Payment Voucher',
+    number: payment.payment_number,
+    details: [
+      { label: 'Payment Date', value: formatDocumentDate(payment.payment_date) },
+      { label: 'Paid By', value: bankAccountName ? `${payment.payment_method} - ${bankAccountName}` : payment.payment_method },
+      ...(payment.reference ? [{ label: 'Reference', value: payment.reference }] : []),
+    ],
+    party: creditor ? {
+      label: 'Paid To',
+      name: creditor.name,
+      address: creditor.address,
+      gstin: creditor.gstin,
+    } : null,
+    columns: [
+      { header: 'Particulars' },
+      { header: 'Amount', numeric: true },
+    ],
+    rows,
+    totals: [{ label: 'Amount Paid', amount: Number(payment.amount), emphasis: true }],
+    amount: Number(payment.amount),
+    notes: payment.notes,
+    signatures: ["Receiver's Signature", 'Authorised Signatory'],
+  };
+}
+
+export function getDocumentFileName(document: Pick<PrintableDocument, 'title' | 'number'>): string {
+  return `${document.title}-${document.number}`.replace(/[^A-Za-z0-9-]+/g, '-') + '.pdf';
+}
+
+// The business's template for the document type adjusts the heading, colour, logo, signatures and footer
+export function renderDocumentHtml(
+  business: DocumentBusiness,
+  document: PrintableDocument,
+  template?: DocumentTemplate | null
+): string {
+  const { party } = document;
+  const title = template?.title?.trim() || document.title;
+  const accentColor = template?.accent_color || '#4f46e5';
+  const showLogo = !!business.logo_url && template?.show_logo !== false;
+  const showSignatures = template?.show_signatures !== false;
+
+  const letterhead = [
+    business.address ? multiline(business.address) : '',
+    [business.phone, business.email].filter(Boolean).map(value => escapeHtml(value as string)).join(' · '),
+    business.tax_id ? `GSTIN: ${escapeHtml(business.tax_id)}` : '',
+  ].filter(Boolean).join('<br />');
+
+  const partyBlock = party ? `
+    <div class="party">
+      <div class="label">${escapeHtml(party.label)}</div>
+      <div class="party-name">${escapeHtml(party.name)}</div>
+      ${party.address ? `<div>${multiline(party.address)}</div>` : ''}
+      ${party.gstin ? `<div>GSTIN: ${escapeHtml(party.gstin)}</div>` : ''}
+      ${party.stateCode ? `<div>State: ${escapeHtml(getStateName(party.stateCode) || party.stateCode)} (${escapeHtml(party.stateCode)})</div>` : ''}
+    </div>` : '<div class="party"></div>';
+
+  const details = document.details.map(detail => `
+      <tr><td class="label">${escapeHtml(detail.label)}</td><td>${escapeHtml(detail.value)}</td></tr>`).join('');
+
+  const headerCells = document.columns
+    .map(column => `<th class="${column.numeric ? 'num' : ''}">${escapeHtml(column.header)}</th>`)
+    .join('');
+
+  const bodyRows = document.rows.map(row => `
+        <tr>${row.map((cell, index) => `<td class="${document.columns[index]?.numeric ? 'num' : ''}">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+
+  const totals = document.totals.map(total => `
+      <tr class="${total.emphasis ? 'emphasis' : ''}"><td>${escapeHtml(total.label)}</td><td class="num">${formatDocumentAmount(total.amount)}</td></tr>`).join('');
+
+  const remarks = (document.remarks || []).map(remark => `<p class="remark">${escapeHtml(remark)}</p>`).join('');
+
+  const signatures = document.signatures
+    .map(signature => `<div class="signature"><div class="line"></div>${escapeHtml(signature)}</div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)} ${escapeHtml(document.number)}</title>
+<style>
+  @page { margin: 24px; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1e293b; font-size: 12px; margin: 0; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid ${accentColor}; padding-bottom: 16px; }
+  .brand { display: flex; gap: 12px; align-items: flex-start; }
+  .logo { width: 64px; height: 64px; object-fit: contain; }
+  .business-name { font-size: 20px; font-weight: 700; margin-bottom: 4px; }
+  .muted, .label { color: #64748b; }
+  .title { text-align: right; }
+  .title h1 { font-size: 20px; margin: 0 0 4px; color: ${accentColor}; text-transform: uppercase; letter-spacing: 1px; }
+  .meta { display: flex; justify-content: space-between; gap: 24px; margin: 16px 0; }
+  .party { flex: 1; line-height: 1.5; }
+  .party-name { font-size: 14px; font-weight: 600; }
+  .details td { padding: 2px 0 2px 12px; }
+  table.lines { width: 100%; border-collapse: collapse; }
+  table.lines th { background: #f1f5f9; color: #64748b; font-weight: 600; text-align: left; padding: 8px; }
+  table.lines td { padding: 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .summary { display: flex; justify-content: space-between; gap: 24px; margin-top: 16px; }
+  .words { flex: 1; }
+  .words .value { font-weight: 600; margin-top: 4px; }
+  table.totals { min-width: 240px; border-collapse: collapse; }
+  table.totals td { padding: 4px 0 4px 16px; }
+  table.totals tr.emphasis td { font-weight: 700; font-size: 14px; border-top: 1px solid #1e293b; padding-top: 8px; }
+  .notes { margin-top: 16px; line-height: 1.5; }
+  .remark { color: #b45309; margin: 8px 0 0; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 64px; }
+  .signature { width: 200px; text-align: center; color: #64748b; }
+  .signature:last-child { margin-left: auto; }
+  .footer { margin-top: 32px; padding-top: 8px; border-top: 1px solid #e2e8f0; color: #64748b; text-align: center; line-height: 1.5; }
+  .signature .line { border-top: 1px solid #94a3b8; margin-bottom: 4px; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div class="brand">
+      ${showLogo ? `<img class="logo" src="${escapeHtml(business.logo_url as string)}" />` : ''}
+      <div>
+        <div class="business-name">${escapeHtml(business.name)}</div>
+        <div class="muted">${letterhead}</div>
+      </div>
+    </div>
+    <div class="title">
+      <h1>${escapeHtml(title)}</h1>
+      <div># ${escapeHtml(document.number)}</div>
+    </div>
+  </div>
+
+  <div class="meta">
+    ${partyBlock}
+    <table class="details">${details}
+    </table>
+  </div>
+
+  <table class="lines">
+    <thead><tr>${headerCells}</tr></thead>
+    <tbody>${bodyRows}
+    </tbody>
+  </table>
+
+  <div class="summary">
+    <div class="words">
+      <div class="label">Amount in words</div>
+      <div class="value">${escapeHtml(amountInWords(document.amount))}</div>
+      ${remarks}
+    </div>
+    <table class="totals">${totals}
+    </table>
+  </div>
+
+  ${document.notes ? `<div class="notes"><div class="label">Notes</div>${multiline(document.notes)}</div>` : ''}
+
+  ${showSignatures ? `<div class="signatures">${signatures}</div>` : ''}
+
+  ${template?.footer ? `<div class="footer">${multiline(template.footer)}</div>` : ''}
+</body>
+</html>`;
+}
+
+export type ReportRowKind = 'heading' | 'line' | 'total' | 'grandTotal';
+
+export interface ReportRow {
+  cells: string[];
+  kind?: ReportRowKind;
+}
+
+// A statement printed on the letterhead without a party, totals or signatures
+export interface PrintableReport {
+  title: string;
+  // The period or date the report covers
+  subtitle: string;
+  columns: DocumentColumn[];
+  rows: ReportRow[];
+  notes?: string[];
+}
+
+export function getReportFileName(report: Pick<PrintableReport, 'title' | 'subtitle'>, extension: 'pdf' | 'csv' = 'pdf'): string {
+  return `${`${report.title} ${report.subtitle}`.replace(/[^A-Za-z0-9-]+/g, '_').replace(/^_+|_+$/g, '')}.${extension}`;
+}
+
+export function renderReportHtml(business: DocumentBusiness, report: PrintableReport): string {
+  const letterhead = [
+    business.address ? multiline(business.address) : '',
+    business.tax_id ? `GSTIN: ${escapeHtml(business.tax_id)}` : '',
+  ].filter(Boolean).join('<br />');
+
+  const headerCells = report.columns
+    .map(column => `<th class="${column.numeric ? 'num' : ''}">${escapeHtml(column.header)}</th>`)
+    .join('');
+
+  const bodyRows = report.rows.map(row => `
+        <tr class="${row.kind || 'line'}">${row.cells.map((cell, index) => `<td class="${report.columns[index]?.numeric ? 'num' : ''}">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+
+  const notes = (report.notes || []).map(note => `<p class="note">${escapeHtml(note)}</p>`).join('');
+
+  // Month-by-month reports do not fit across a portrait page
+  const orientation = report.columns.length > 6 ? 'landscape' : 'portrait';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(report.title)} ${escapeHtml(report.subtitle)}</title>
+<style>
+  @page { size: A4 ${orientation}; margin: 24px; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1e293b; font-size: 11px; margin: 0; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid #4f46e5; padding-bottom: 12px; margin-bottom: 16px; }
+  .business-name { font-size: 18px; font-weight: 700; margin-bottom: 4px; }
+  .muted { color: #64748b; }
+  .title { text-align: right; }
+  .title h1 { font-size: 18px; margin: 0 0 4px; color: #4f46e5; text-transform: uppercase; letter-spacing: 1px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #f1f5f9; color: #64748b; font-weight: 600; text-align: left; padding: 6px 8px; }
+  td { padding: 5px 8px; border-bottom: 1px solid #f1f5f9; }
+  tr.heading td { font-weight: 700; padding-top: 12px; border-bottom: 1px solid #e2e8f0; }
+  tr.line td:first-child { padding-left: 20px; }
+  tr.total td { font-weight: 600; border-top: 1px solid #cbd5e1; }
+  tr.grandTotal td { font-weight: 700; font-size: 12px; border-top: 2px solid #1e293b; border-bottom: 2px solid #1e293b; }
+  .num { text-align: right; white-space: nowrap; }
+  .note { color: #64748b; margin: 12px 0 0; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="business-name">${escapeHtml(business.name)}</div>
+      <div class="muted">${letterhead}</div>
+    </div>
+    <div class="title">
+      <h1>${escapeHtml(report.title)}</h1>
+      <div>${escapeHtml(report.subtitle)}</div>
+    </div>
+  </div>
+
+  <table>
+    <thead><tr>${headerCells}</tr></thead>
+    <tbody>${bodyRows}
+    </tbody>
+  </table>
+
+  ${notes}
+</body>
+</html>`;
+}
@@ -0,0 +1,627 @@
+import { format, parseISO, startOfMonth, endOfMonth } from 'date-fns';
+import { getBusinessStateCode, getPartyStateCode, getStateName, isInterStateSupply, isValidGstin } from './gst';
+import { toCsv } from './export';
+import { GstParty, GstReturnDocuments } from './api/gst-returns';
+
+// Builds GSTR-1 (outward supplies) and GSTR-3B (summary return) figures from
+// the tax already stored on invoices, bills and purchases, and lays them out
+// the way the GST portal's offline tool imports them.
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Inter-state invoices to unregistered buyers above this value are reported
+// one by one (B2CL) rather than summed by state and rate (B2CS)
+export const B2CL_THRESHOLD = 100000;
+
+export interface ReturnPeriod {
+  start: string;
+  end: string;
+  label: string;
+  // MMYYYY, the portal's filing period format
+  code: string;
+}
+
+export function getReturnPeriod(month: Date): ReturnPeriod {
+  const start = startOfMonth(month);
+  return {
+    start: format(start, 'yyyy-MM-dd'),
+    end: format(endOfMonth(month), 'yyyy-MM-dd'),
+    label: format(start, 'MMMM yyyy'),
+    code: format(start, 'MMyyyy'),
+  };
+}
+
+export type TaxHead = 'igst' | 'cgst' | 'sgst';
+
+export type TaxHeads = Record<TaxHead, number>;
+
+export interface TaxTotals extends TaxHeads {
+  taxableValue: number;
+  // Compensation cess is not charged on anything the app sells, but the
+  // portal layouts expect the column
+  cess: number;
+}
+
+export interface RateTotals extends TaxTotals {
+  rate: number;
+}
+
+const emptyTotals = (): TaxTotals => ({ taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+function addTotals(target: TaxTotals, amounts: TaxTotals): void {
+  target.taxableValue = roundCurrency(target.taxableValue + amounts.taxableValue);
+  target.igst = roundCurrency(target.igst + amounts.igst);
+  target.cgst = roundCurrency(target.cgst + amounts.cgst);
+  target.sgst = roundCurrency(target.sgst + amounts.sgst);
+  target.cess = roundCurrency(target.cess + amounts.cess);
+}
+
+export function getTotalTax(amounts: TaxHeads): number {
+  return roundCurrency(amounts.igst + amounts.cgst + amounts.sgst);
+}
+
+function groupByRate(lines: RateTotals[]): RateTotals[] {
+  const byRate = new Map<number, RateTotals>();
+  for (const line of lines) {
+    const entry = byRate.get(line.rate) ?? { rate: line.rate, ...emptyTotals() };
+    addTotals(entry, line);
+    byRate.set(line.rate, entry);
+  }
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+}
+
+export interface ReturnLine extends RateTotals {
+  hsnCode: string | null;
+  description: string;
+  quantity: number;
+}
+
+// An invoice, bill or purchase reduced to what the returns need
+export interface ReturnDocument {
+  id: string;
+  number: string;
+  date: string;
+  partyName: string;
+  partyGstin: string | null;
+  placeOfSupply: string | null;
+  reverseCharge: boolean;
+  interState: boolean;
+  taxAmount: number;
+  value: number;
+  lines: ReturnLine[];
+  rates: RateTotals[];
+}
+
+interface StoredLine {
+  hsn_code: string | null;
+  quantity: number;
+  tax_percent: number;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}
+
+function toReturnLine(line: StoredLine, description: string): ReturnLine {
+  return {
+    rate: Number(line.tax_percent),
+    hsnCode: line.hsn_code?.trim() || null,
+    description,
+    quantity: Number(line.quantity),
+    taxableValue: Number(line.taxable_amount),
+    igst: Number(line.igst_amount),
+    cgst: Number(line.cgst_amount),
+    sgst: Number(line.sgst_amount),
+    cess: 0,
+  };
+}
+
+// Only a well-formed GSTIN makes a party registered; anything else is B2C
+function getRegisteredGstin(party: GstParty | null): string | null {
+  const gstin = party?.gstin?.trim().toUpperCase();
+  return gstin && isValidGstin(gstin) ? gstin : null;
+}
+
+function toReturnDocument(
+  document: {
+    id: string;
+    number: string;
+    date: string;
+    party: GstParty | null;
+    partyName?: string;
+    place_of_supply: string | null;
+    reverse_charge: boolean;
+  },
+  lines: ReturnLine[],
+  businessState: string | null
+): ReturnDocument {
+  const placeOfSupply = document.place_of_supply || getPartyStateCode(document.party) || businessState;
+  const rates = groupByRate(lines);
+  const taxAmount = roundCurrency(rates.reduce((sum, entry) => sum + getTotalTax(entry), 0));
+  const taxableValue = roundCurrency(rates.reduce((sum, entry) => sum + entry.taxableValue, 0));
+
+  return {
+    id: document.id,
+    number: document.number,
+    date: document.date,
+    partyName: document.party?.name || document.partyName || '',
+    partyGstin: getRegisteredGstin(document.party),
+    placeOfSupply,
+    reverseCharge: !!document.reverse_charge,
+    // Stored IGST is authoritative; the states decide for untaxed documents
+    interState: lines.some(line => line.igst > 0) || isInterStateSupply(businessState, placeOfSupply),
+    taxAmount,
+    value: roundCurrency(taxableValue + taxAmount),
+    lines,
+    rates,
+  };
+}
+
+export function getOutwardDocuments(
+  documents: GstReturnDocuments,
+  business: { tax_id: string | null }
+): ReturnDocument[] {
+  const businessState = getBusinessStateCode(business);
+  return documents.invoices.map(invoice => toReturnDocument(
+    {
+      id: invoice.id,
+      number: invoice.invoice_number,
+      date: invoice.invoice_date,
+      party: invoice.customers,
+      partyName: invoice.customer_name,
+      place_of_supply: invoice.place_of_supply,
+      reverse_charge: invoice.reverse_charge,
+    },
+    invoice.invoice_line_items.map(line => toReturnLine(line, line.description)),
+    businessState
+  ));
+}
+
+export function getInwardDocuments(
+  documents: GstReturnDocuments,
+  business: { tax_id: string | null }
+): ReturnDocument[] {
+  const businessState = getBusinessStateCode(business);
+  const bills = documents.bills.map(bill => toReturnDocument(
+    {
+      id: bill.id,
+      number: bill.bill_number,
+      date: bill.issue_date,
+      party: bill.creditors,
+      place_of_supply: bill.place_of_supply,
+      reverse_charge: bill.reverse_charge,
+    },
+    bill.bill_line_items.map(line => toReturnLine(line, line.description)),
+    businessState
+  ));
+  const purchases = documents.purchases.map(purchase => toReturnDocument(
+    {
+      id: purchase.id,
+      number: purchase.purchase_number,
+      date: purchase.purchase_date,
+      party: purchase.creditors,
+      place_of_supply: purchase.place_of_supply,
+      reverse_charge: purchase.reverse_charge,
+    },
+    purchase.purchase_line_items.map(line => toReturnLine(line, line.item_name)),
+    businessState
+  ));
+  return [...bills, ...purchases].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// GSTR-1
+
+export type Gstr1Section = 'b2b' | 'b2cl' | 'b2cs' | 'hsn';
+
+export interface B2csRow extends RateTotals {
+  placeOfSupply: string | null;
+  interState: boolean;
+}
+
+export interface HsnRow extends RateTotals {
+  hsnCode: string;
+  description: string;
+  quantity: number;
+  value: number;
+}
+
+export interface Gstr1Report {
+  period: ReturnPeriod;
+  gstin: string | null;
+  b2b: ReturnDocument[];
+  b2cl: ReturnDocument[];
+  b2cs: B2csRow[];
+  hsn: HsnRow[];
+  b2bByRate: RateTotals[];
+  b2cByRate: RateTotals[];
+  totals: TaxTotals;
+}
+
+export function buildGstr1(
+  documents: GstReturnDocuments,
+  business: { tax_id: string | null },
+  period: ReturnPeriod
+): Gstr1Report {
+  const invoices = getOutwardDocuments(documents, business);
+  const b2b = invoices.filter(invoice => invoice.partyGstin);
+  const b2c = invoices.filter(invoice => !invoice.partyGstin);
+  const b2cl = b2c.filter(invoice => invoice.interState && invoice.value > B2CL_THRESHOLD);
+  const b2csInvoices = b2c.filter(invoice => !b2cl.includes(invoice));
+
+  const b2csRows = new Map<string, B2csRow>();
+  for (const invoice of b2csInvoices) {
+    for (const entry of invoice.rates) {
+      const key = `${invoice.placeOfSupply}|${invoice.interState}|${entry.rate}`;
+      const row = b2csRows.get(key) ?? {
+        placeOfSupply: invoice.placeOfSupply,
+        interState: invoice.interState,
+        rate: entry.rate,
+        ...emptyTotals(),
+      };
+      addTotals(row, entry);
+      b2csRows.set(key, row);
+    }
+  }
+
+  const hsnRows = new Map<string, HsnRow>();
+  for (const line of invoices.flatMap(invoice => invoice.lines)) {
+    const hsnCode = line.hsnCode || '';
+    const key = `${hsnCode}|${line.rate}`;
+    const row = hsnRows.get(key) ?? {
+      hsnCode,
+      description: line.description,
+      rate: line.rate,
+      quantity: 0,
+      value: 0,
+      ...emptyTotals(),
+    };
+    addTotals(row, line);
+    row.quantity = roundCurrency(row.quantity + line.quantity);
+    row.value = roundCurrency(row.taxableValue + getTotalTax(row));
+    hsnRows.set(key, row);
+  }
+
+  const totals = emptyTotals();
+  invoices.forEach(invoice => invoice.rates.forEach(entry => addTotals(totals, entry)));
+
+  return {
+    period,
+    gstin: getRegisteredGstin({ name: '', gstin: business.tax_id, state_code: null }),
+    b2b,
+    b2cl,
+    b2cs: Array.from(b2csRows.values()).sort((a, b) =>
+      (a.placeOfSupply || '').localeCompare(b.placeOfSupply || '') || a.rate - b.rate
+    ),
+    hsn: Array.from(hsnRows.values()).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.rate - b.rate),
+    b2bByRate: groupByRate(b2b.flatMap(invoice => invoice.rates)),
+    b2cByRate: groupByRate(b2c.flatMap(invoice => invoice.rates)),
+    totals,
+  };
+}
+
+// GSTR-3B
+
+export interface UnregisteredSupply {
+  placeOfSupply: string;
+  taxableValue: number;
+  igst: number;
+}
+
+export interface Gstr3bReport {
+  period: ReturnPeriod;
+  gstin: string | null;
+  // 3.1(a) taxable outward supplies; tax on reverse charge invoices is the buyer's to pay
+  outwardTaxable: TaxTotals;
+  // 3.1(c) nil rated outward supplies
+  outwardNilRated: TaxTotals;
+  // 3.1(d) inward supplies on which this business pays the tax
+  inwardReverseCharge: TaxTotals;
+  // 3.2 inter-state supplies to unregistered buyers
+  unregisteredInterState: UnregisteredSupply[];
+  // 4(A)(3) and 4(A)(5) credit available, 4(D) credit that cannot be claimed
+  itcReverseCharge: TaxTotals;
+  itcOther: TaxTotals;
+  itcIneligible: TaxTotals;
+  itcNet: TaxTotals;
+  liability: TaxHeads;
+  creditUsed: TaxHeads;
+  // Reverse charge tax always has to be paid in cash
+  cashPayable: TaxHeads;
+  creditCarriedForward: TaxHeads;
+  netPayable: number;
+}
+
+const pickHeads = (amounts: TaxHeads): TaxHeads => ({ igst: amounts.igst, cgst: amounts.cgst, sgst: amounts.sgst });
+
+// Section 49 order: IGST credit goes to IGST, then CGST, then SGST; CGST and
+// SGST credit go to their own head first and then IGST, never to each other
+export function setOffCredit(liability: TaxHeads, credit: TaxHeads): { due: TaxHeads; remaining: TaxHeads } {
+  const due = pickHeads(liability);
+  const remaining = pickHeads(credit);
+
+  const use = (from: TaxHead, to: TaxHead) => {
+    const amount = Math.min(remaining[from], due[to]);
+    remaining[from] = roundCurrency(remaining[from] - amount);
+    due[to] = roundCurrency(due[to] - amount);
+  };
+
+  use('igst', 'igst');
+  use('igst', 'cgst');
+  use('igst', 'sgst');
+  use('cgst', 'cgst');
+  use('cgst', 'igst');
+  use('sgst', 'sgst');
+  use('sgst', 'igst');
+
+  return { due, remaining };
+}
+
+export function buildGstr3b(
+  documents: GstReturnDocuments,
+  business: { tax_id: string | null },
+  period: ReturnPeriod
+): Gstr3bReport {
+  const outwardTaxable = emptyTotals();
+  const outwardNilRated = emptyTotals();
+  const unregistered = new Map<string, UnregisteredSupply>();
+
+  for (const invoice of getOutwardDocuments(documents, business)) {
+    for (const entry of invoice.rates) {
+      if (entry.rate === 0) {
+        addTotals(outwardNilRated, entry);
+      } else if (invoice.reverseCharge) {
+        addTotals(outwardTaxable, { ...emptyTotals(), taxableValue: entry.taxableValue });
+      } else {
+        addTotals(outwardTaxable, entry);
+      }
+
+      if (!invoice.partyGstin && invoice.interState && invoice.placeOfSupply) {
+        const supply = unregistered.get(invoice.placeOfSupply) ?? { placeOfSupply: invoice.placeOfSupply, taxableValue: 0, igst: 0 };
+        supply.taxableValue = roundCurrency(supply.taxableValue + entry.taxableValue);
+        supply.igst = roundCurrency(supply.igst + entry.igst);
+        unregistered.set(invoice.placeOfSupply, supply);
+      }
+    }
+  }
+
+  const inwardReverseCharge = emptyTotals();
+  const itcOther = emptyTotals();
+  const itcIneligible = emptyTotals();
+
+  for (const document of getInwardDocuments(documents, business)) {
+    for (const entry of document.rates) {
+      if (document.reverseCharge) {
+        addTotals(inwardReverseCharge, entry);
+      } else if (document.partyGstin) {
+        addTotals(itcOther, entry);
+      } else {
+        addTotals(itcIneligible, entry);
+      }
+    }
+  }
+
+  // Tax paid under reverse charge comes back as credit; taxable values are
+  // not part of the ITC table
+  const itcReverseCharge = { ...inwardReverseCharge, taxableValue: 0 };
+  const itcOtherTax = { ...itcOther, taxableValue: 0 };
+  const itcNet = emptyTotals();
+  addTotals(itcNet, itcReverseCharge);
+  addTotals(itcNet, itcOtherTax);
+
+  const liability = pickHeads(outwardTaxable);
+  const { due, remaining } = setOffCredit(liability, itcNet);
+  const cashPayable: TaxHeads = {
+    igst: roundCurrency(due.igst + inwardReverseCharge.igst),
+    cgst: roundCurrency(due.cgst + inwardReverseCharge.cgst),
+    sgst: roundCurrency(due.sgst + inwardReverseCharge.sgst),
+  };
+
+  return {
+    period,
+    gstin: getRegisteredGstin({ name: '', gstin: business.tax_id, state_code: null }),
+    outwardTaxable,
+    outwardNilRated,
+    inwardReverseCharge,
+    unregisteredInterState: Array.from(unregistered.values()).sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply)),
+    itcReverseCharge,
+    itcOther: itcOtherTax,
+    itcIneligible: { ...itcIneligible, taxableValue: 0 },
+    itcNet,
+    liability,
+    creditUsed: {
+      igst: roundCurrency(liability.igst - due.igst),
+      cgst: roundCurrency(liability.cgst - due.cgst),
+      sgst: roundCurrency(liability.sgst - due.sgst),
+    },
+    cashPayable,
+    creditCarriedForward: remaining,
+    netPayable: getTotalTax(cashPayable),
+  };
+}
+
+// Portal layouts
+
+const formatPortalDate = (date: string) => format(parseISO(date), 'dd-MM-yyyy');
+const formatCsvDate = (date: string) => format(parseISO(date), 'dd-MMM-yy');
+const formatCsvPlace = (code: string | null) => (code ? `${code}-${getStateName(code) || ''}` : '');
+
+const toPortalAmounts = (amounts: TaxTotals) => ({
+  txval: amounts.taxableValue,
+  iamt: amounts.igst,
+  camt: amounts.cgst,
+  samt: amounts.sgst,
+  csamt: amounts.cess,
+});
+
+const toPortalTax = (amounts: TaxTotals) => ({
+  iamt: amounts.igst,
+  camt: amounts.cgst,
+  samt: amounts.sgst,
+  csamt: amounts.cess,
+});
+
+export function toGstr1Json(report: Gstr1Report): object {
+  const b2bByParty = new Map<string, ReturnDocument[]>();
+  for (const invoice of report.b2b) {
+    const invoices = b2bByParty.get(invoice.partyGstin!) ?? [];
+    invoices.push(invoice);
+    b2bByParty.set(invoice.partyGstin!, invoices);
+  }
+
+  const b2clByPlace = new Map<string, ReturnDocument[]>();
+  for (const invoice of report.b2cl) {
+    const place = invoice.placeOfSupply || '';
+    b2clByPlace.set(place, [...(b2clByPlace.get(place) ?? []), invoice]);
+  }
+
+  return {
+    gstin: report.gstin || '',
+    fp: report.period.code,
+    b2b: Array.from(b2bByParty.entries()).map(([ctin, invoices]) => ({
+      ctin,
+      inv: invoices.map(invoice => ({
+        inum: invoice.number,
+        idt: formatPortalDate(invoice.date),
+        val: invoice.value,
+        pos: invoice.placeOfSupply || '',
+        rchrg: invoice.reverseCharge ? 'Y' : 'N',
+        inv_typ: 'R',
+        itms: invoice.rates.map((entry, index) => ({
+          num: index + 1,
+          itm_det: { rt: entry.rate, ...toPortalAmounts(entry) },
+        })),
+      })),
+    })),
+    b2cl: Array.from(b2clByPlace.entries()).map(([pos, invoices]) => ({
+      pos,
+      inv: invoices.map(invoice => ({
+        inum: invoice.number,
+        idt: formatPortalDate(invoice.date),
+        val: invoice.value,
+        itms: invoice.rates.map((entry, index) => ({
+          num: index + 1,
+          itm_det: { rt: entry.rate, txval: entry.taxableValue, iamt: entry.igst, csamt: entry.cess },
+        })),
+      })),
+    })),
+    b2cs: report.b2cs.map(row => ({
+      sply_ty: row.interState ? 'INTER' : 'INTRA',
+      pos: row.placeOfSupply || '',
+      typ: 'OE',
+      rt: row.rate,
+      ...toPortalAmounts(row),
+    })),
+    hsn: {
+      data: report.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsnCode,
+        desc: row.description,
+        uqc: 'NOS',
+        qty: row.quantity,
+        rt: row.rate,
+        ...toPortalAmounts(row),
+      })),
+    },
+  };
+}
+
+export function toGstr3bJson(report: Gstr3bReport): object {
+  const zero = emptyTotals();
+  return {
+    gstin: report.gstin || '',
+    ret_period: report.period.code,
+    sup_details: {
+      osup_det: toPortalAmounts(report.outwardTaxable),
+      osup_zero: toPortalAmounts(zero),
+      osup_nil_exmp: { txval: report.outwardNilRated.taxableValue },
+      isup_rev: toPortalAmounts(report.inwardReverseCharge),
+      osup_nongst: { txval: 0 },
+    },
+    inter_sup: {
+      unreg_details: report.unregisteredInterState.map(supply => ({
+        pos: supply.placeOfSupply,
+        txval: supply.taxableValue,
+        iamt: supply.igst,
+      })),
+      comp_details: [],
+      uin_details: [],
+    },
+    itc_elg: {
+      itc_avl: [
+        { ty: 'IMPG', ...toPortalTax(zero) },
+        { ty: 'IMPS', ...toPortalTax(zero) },
+        { ty: 'ISRC', ...toPortalTax(report.itcReverseCharge) },
+        { ty: 'ISD', ...toPortalTax(zero) },
+        { ty: 'OTH', ...toPortalTax(report.itcOther) },
+      ],
+      itc_rev: [
+        { ty: 'RUL', ...toPortalTax(zero) },
+        { ty: 'OTH', ...toPortalTax(zero) },
+      ],
+      itc_net: toPortalTax(report.itcNet),
+      itc_inelg: [
+        { ty: 'RUL', ...toPortalTax(zero) },
+        { ty: 'OTH', ...toPortalTax(report.itcIneligible) },
+      ],
+    },
+  };
+}
+
+// Column headings follow the portal's offline tool templates, one file per section
+export function toGstr1Csv(report: Gstr1Report, section: Gstr1Section): string {
+  switch (section) {
+    case 'b2b':
+      return toCsv(
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+        report.b2b.flatMap(invoice => invoice.rates.map(entry => [
+          invoice.partyGstin, invoice.partyName, invoice.number, formatCsvDate(invoice.date), invoice.value,
+          formatCsvPlace(invoice.placeOfSupply), invoice.reverseCharge ? 'Y' : 'N', '', 'Regular B2B', '',
+          entry.rate, entry.taxableValue, entry.cess,
+        ]))
+      );
+    case 'b2cl':
+      return toCsv(
+        ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        report.b2cl.flatMap(invoice => invoice.rates.map(entry => [
+          invoice.number, formatCsvDate(invoice.date), invoice.value, formatCsvPlace(invoice.placeOfSupply),
+          '', entry.rate, entry.taxableValue, entry.cess, '',
+        ]))
+      );
+    case 'b2cs':
+      return toCsv(
+        ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        report.b2cs.map(row => ['OE', formatCsvPlace(row.placeOfSupply), '', row.rate, row.taxableValue, row.cess, ''])
+      );
+    case 'hsn':
+      return toCsv(
+        ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+        report.hsn.map(row => [
+          row.hsnCode, row.description, 'NOS-NUMBERS', row.quantity, row.value, row.rate,
+          row.taxableValue, row.igst, row.cgst, row.sgst, row.cess,
+        ])
+      );
+  }
+}
+
+export function toGstr3bCsv(report: Gstr3bReport): string {
+  const row = (section: string, description: string, amounts: TaxTotals, showTaxable = true) => [
+    section, description, showTaxable ? amounts.taxableValue : '', amounts.igst, amounts.cgst, amounts.sgst, amounts.cess,
+  ];
+
+  return toCsv(
+    ['Section', 'Description', 'Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'],
+    [
+      row('3.1(a)', 'Outward taxable supplies (other than zero rated, nil rated and exempted)', report.outwardTaxable),
+      row('3.1(c)', 'Other outward supplies (nil rated, exempted)', report.outwardNilRated),
+      row('3.1(d)', 'Inward supplies (liable to reverse charge)', report.inwardReverseCharge),
+      ...report.unregisteredInterState.map(supply => [
+        '3.2', `Supplies made to unregistered persons - ${formatCsvPlace(supply.placeOfSupply)}`, supply.taxableValue, supply.igst, '', '', '',
+      ]),
+      row('4(A)(3)', 'Inward supplies liable to reverse charge', report.itcReverseCharge, false),
+      row('4(A)(5)', 'All other ITC', report.itcOther, false),
+      row('4(C)', 'Net ITC available', report.itcNet, false),
+      row('4(D)(2)', 'Ineligible ITC - others', report.itcIneligible, false),
+      row('6.1', 'Tax payable in cash', { ...report.cashPayable, taxableValue: 0, cess: 0 }, false),
+    ]
+  );
+}
@@ -0,0 +1,221 @@
+// GST rules shared by purchases, bills and invoices. Amounts are rounded to
+// the paisa per line, the same way the database prices purchase lines.
+
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+export type GstRate = typeof GST_RATES[number];
+
+export function isGstRate(rate: number): rate is GstRate {
+  return (GST_RATES as readonly number[]).includes(Number(rate));
+}
+
+export interface IndianState {
+  code: string;
+  name: string;
+}
+
+// Codes are the two-digit prefixes GSTINs are issued under
+export const INDIAN_STATES: IndianState[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+export function getStateName(code: string | null | undefined): string | null {
+  if (!code) return null;
+  return INDIAN_STATES.find(state => state.code === code)?.name ?? null;
+}
+
+export function getStateFromGstin(gstin: string | null | undefined): string | null {
+  if (!gstin || !isValidGstin(gstin)) return null;
+  const code = gstin.trim().slice(0, 2);
+  return getStateName(code) ? code : null;
+}
+
+// The business is registered in the state its GSTIN (stored as tax_id) was issued in
+export function getBusinessStateCode(business: { tax_id: string | null } | null | undefined): string | null {
+  return getStateFromGstin(business?.tax_id);
+}
+
+// A party's explicit state wins over the one implied by its GSTIN
+export function getPartyStateCode(party: { gstin?: string | null; state_code?: string | null } | null | undefined): string | null {
+  return party?.state_code || getStateFromGstin(party?.gstin);
+}
+
+// Unknown states are treated as local supplies, which is what an
+// unregistered business or walk-in party would be charged
+export function isInterStateSupply(businessState: string | null, placeOfSupply: string | null): boolean {
+  return !!businessState && !!placeOfSupply && businessState !== placeOfSupply;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export interface GstSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Local supplies split the tax evenly between centre and state; any odd
+// paisa goes to SGST so the halves always add back to the tax
+export function splitGst(taxAmount: number, interState: boolean): GstSplit {
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: roundCurrency(taxAmount) };
+  }
+  const cgst = roundCurrency(taxAmount / 2);
+  return { cgst, sgst: roundCurrency(taxAmount - cgst), igst: 0 };
+}
+
+export interface GstLineInput {
+  quantity: number;
+  rate: number;
+  discountPercent?: number;
+  taxRate: number;
+}
+
+export interface GstLine extends GstSplit {
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  amount: number;
+}
+
+export function calculateGstLine(input: GstLineInput, interState: boolean): GstLine {
+  const gross = Number(input.quantity) * Number(input.rate);
+  const taxableAmount = roundCurrency(gross * (1 - Number(input.discountPercent || 0) / 100));
+  const taxAmount = roundCurrency(taxableAmount * Number(input.taxRate || 0) / 100);
+  return {
+    taxRate: Number(input.taxRate || 0),
+    taxableAmount,
+    taxAmount,
+    amount: roundCurrency(taxableAmount + taxAmount),
+    ...splitGst(taxAmount, interState),
+  };
+}
+
+export interface GstRateBreakup extends GstSplit {
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface GstSummary extends GstSplit {
+  subtotal: number;
+  taxAmount: number;
+  // What the counterparty settles: under reverse charge the recipient pays
+  // the tax to the government directly, so it is left out
+  total: number;
+  interState: boolean;
+  reverseCharge: boolean;
+  breakup: GstRateBreakup[];
+}
+
+type SummaryLine = Pick<GstLine, 'taxRate' | 'taxableAmount' | 'taxAmount' | 'cgst' | 'sgst' | 'igst'>;
+
+export function summarizeGst(
+  lines: SummaryLine[],
+  options: { interState: boolean; reverseCharge: boolean }
+): GstSummary {
+  const byRate = new Map<number, GstRateBreakup>();
+
+  for (const line of lines) {
+    const entry = byRate.get(line.taxRate) ?? { rate: line.taxRate, taxableAmount: 0, taxAmount: 0, cgst: 0, sgst: 0, igst: 0 };
+    entry.taxableAmount = roundCurrency(entry.taxableAmount + line.taxableAmount);
+    entry.taxAmount = roundCurrency(entry.taxAmount + line.taxAmount);
+    entry.cgst = roundCurrency(entry.cgst + line.cgst);
+    entry.sgst = roundCurrency(entry.sgst + line.sgst);
+    entry.igst = roundCurrency(entry.igst + line.igst);
+    byRate.set(line.taxRate, entry);
+  }
+
+  const breakup = Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+  const sum = (pick: (entry: GstRateBreakup) => number) =>
+    roundCurrency(breakup.reduce((total, entry) => total + pick(entry), 0));
+
+  const subtotal = sum(entry => entry.taxableAmount);
+  const taxAmount = sum(entry => entry.taxAmount);
+
+  return {
+    subtotal,
+    taxAmount,
+    cgst: sum(entry => entry.cgst),
+    sgst: sum(entry => entry.sgst),
+    igst: sum(entry => entry.igst),
+    total: options.reverseCharge ? subtotal : roundCurrency(subtotal + taxAmount),
+    interState: options.interState,
+    reverseCharge: options.reverseCharge,
+    breakup,
+  };
+}
+
+// Stored lines use snake_case columns; this reads them back for summarizeGst
+export function toSummaryLine(line: {
+  tax_percent: number;
+  taxable_amount: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}): SummaryLine {
+  return {
+    taxRate: Number(line.tax_percent),
+    taxableAmount: Number(line.taxable_amount),
+    taxAmount: Number(line.tax_amount),
+    cgst: Number(line.cgst_amount),
+    sgst: Number(line.sgst_amount),
+    igst: Number(line.igst_amount),
+  };
+}
+
+// Saved documents keep the split they were priced with, so a later change of
+// business GSTIN does not rewrite how an old document reads
+export function summarizeStoredGst(
+  lines: Parameters<typeof toSummaryLine>[0][],
+  reverseCharge: boolean
+): GstSummary {
+  const summaryLines = lines.map(toSummaryLine);
+  return summarizeGst(summaryLines, {
+    interState: summaryLines.some(line => line.igst > 0),
+    reverseCharge,
+  });
+}
@@ -0,0 +1,96 @@
+import { Item } from './api/items';
+import { StockMovement } from './api/inventory';
+
+export interface StockLevel {
+  itemId: string;
+  onHand: number;
+  averageCost: number;
+  value: number;
+}
+
+export interface StockLedgerEntry {
+  movement: StockMovement;
+  // Stock on hand and average cost once the movement is applied
+  balance: number;
+  averageCost: number;
+}
+
+export type StockStatus = 'ok' | 'low' | 'out';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Stock coming in on a day is counted before stock going out, so a purchase and
+// a sale on the same date never dip below zero in between
+function compareMovements(a: StockMovement, b: StockMovement): number {
+  if (a.movement_date !== b.movement_date) return a.movement_date < b.movement_date ? -1 : 1;
+  if ((a.quantity > 0) !== (b.quantity > 0)) return a.quantity > 0 ? -1 : 1;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
+
+/**
+ * Walks one item's movements in date order keeping a perpetual weighted-average
+ * cost. Stock added with a cost is blended into the average; stock added without
+ * one, and every removal, moves at the current average. Once stock has run out
+ * the next costed receipt sets the average afresh.
+ */
+export function buildStockLedger(movements: StockMovement[]): StockLedgerEntry[] {
+  let balance = 0;
+  let averageCost = 0;
+
+  return [...movements].sort(compareMovements).map(movement => {
+    const quantity = Number(movement.quantity);
+
+    if (quantity > 0 && movement.unit_cost !== null) {
+      const cost = Number(movement.unit_cost);
+      averageCost = balance <= 0
+        ? cost
+        : (balance * averageCost + quantity * cost) / (balance + quantity);
+    }
+    balance = round3(balance + quantity);
+
+    return { movement, balance, averageCost: round2(averageCost) };
+  });
+}
+
+export function getStockLevel(itemId: string, movements: StockMovement[]): StockLevel {
+  const ledger = buildStockLedger(movements.filter(movement => movement.item_id === itemId));
+  const last = ledger[ledger.length - 1];
+  const onHand = last?.balance ?? 0;
+  const averageCost = last?.averageCost ?? 0;
+
+  return {
+    itemId,
+    onHand,
+    averageCost,
+    // Stock sold ahead of its purchase has no value until it is bought in
+    value: round2(Math.max(onHand, 0) * averageCost)
+  };
+}
+
+export function buildStockLevels(items: Pick<Item, 'id'>[], movements: StockMovement[]): Map<string, StockLevel> {
+  const byItem = new Map<string, StockMovement[]>();
+  movements.forEach(movement => {
+    byItem.set(movement.item_id, [...(byItem.get(movement.item_id) || []), movement]);
+  });
+
+  return new Map(items.map(item => [item.id, getStockLevel(item.id, byItem.get(item.id) || [])]));
+}
+
+export function getStockStatus(item: Pick<Item, 'reorder_level'>, level: Pick<StockLevel, 'onHand'> | undefined): StockStatus {
+  const onHand = level?.onHand ?? 0;
+  if (item.reorder_level === null) return 'ok';
+  if (onHand <= 0) return 'out';
+  return onHand <= Number(item.reorder_level) ? 'low' : 'ok';
+}
+
+// Active items at or below their reorder level, emptiest first
+export function getLowStockItems<T extends Pick<Item, 'id' | 'reorder_level' | 'is_active'>>(
+  items: T[],
+  levels: Map<string, StockLevel>
+): { item: T; level: StockLevel }[] {
+  return items
+    .filter(item => item.is_active && getStockStatus(item, levels.get(item.id)) !== 'ok')
+    .map(item => ({ item, level: levels.get(item.id) || { itemId: item.id, onHand: 0, averageCost: 0, value: 0 } }))
+    .sort((a, b) => a.level.onHand - b.level.onHand);
+}
@@ -0,0 +1,245 @@
+import { format, parseISO } from 'date-fns';
+import { toCsv, CsvValue } from './export';
+import { PrintableReport, ReportRow, formatDocumentAmount } from './documents';
+import { LedgerAccount, LedgerAccountBalance, LedgerAccountType } from './api/ledger';
+
+// Trial balance and balance sheet from the double-entry journal. The database
+// posts every document, bank transaction and opening balance, so these only
+// add up what it returns for a date.
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const ACCOUNT_TYPE_TITLES: Record<LedgerAccountType, string> = {
+  ASSET: 'Assets',
+  LIABILITY: 'Liabilities',
+  EQUITY: 'Equity',
+  INCOME: 'Income',
+  EXPENSE: 'Expenses',
+};
+
+const ACCOUNT_TYPE_ORDER: LedgerAccountType[] = ['ASSET', 'LIABILITY', 'EQUITY', 'INCOME', 'EXPENSE'];
+
+// Assets and expenses grow with debits, everything else with credits
+const isDebitNormal = (type: LedgerAccountType) => type === 'ASSET' || type === 'EXPENSE';
+
+export const formatAsOf = (asOf: string) => format(parseISO(asOf), 'dd MMM yyyy');
+
+export interface TrialBalanceLine {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOf: string;
+  lines: TrialBalanceLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}
+
+// One line per account that has been posted to, on the side it nets to
+export function buildTrialBalance(
+  accounts: LedgerAccount[],
+  balances: LedgerAccountBalance[],
+  asOf: string
+): TrialBalance {
+  const byAccount = new Map(balances.map(balance => [balance.account_id, balance]));
+
+  const lines: TrialBalanceLine[] = [];
+  accounts.forEach(account => {
+    const balance = byAccount.get(account.id);
+    if (!balance) return;
+    const net = roundCurrency(balance.debit - balance.credit);
+    if (net === 0) return;
+    lines.push({ account, debit: Math.max(net, 0), credit: Math.max(-net, 0) });
+  });
+
+  lines.sort((a, b) => (
+    ACCOUNT_TYPE_ORDER.indexOf(a.account.account_type) - ACCOUNT_TYPE_ORDER.indexOf(b.account.account_type) ||
+    a.account.code.localeCompare(b.account.code)
+  ));
+
+  const totalDebit = roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0));
+  const totalCredit = roundCurrency(lines.reduce((sum, line) => sum + line.credit, 0));
+
+  return { asOf, lines, totalDebit, totalCredit, balanced: totalDebit === totalCredit };
+}
+
+export interface BalanceSheetLine {
+  // Unset on the earnings line, which has no account of its own
+  account?: LedgerAccount;
+  label: string;
+  amount: number;
+}
+
+export interface BalanceSheetSection {
+  type: 'ASSET' | 'LIABILITY' | 'EQUITY';
+  title: string;
+  lines: BalanceSheetLine[];
+  total: number;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  assets: BalanceSheetSection;
+  liabilities: BalanceSheetSection;
+  equity: BalanceSheetSection;
+  // Income less expenses to date, shown under equity until the books are closed
+  earnings: number;
+  totalLiabilitiesAndEquity: number;
+  balanced: boolean;
+}
+
+export function buildBalanceSheet(trialBalance: TrialBalance): BalanceSheet {
+  const buildSection = (type: BalanceSheetSection['type']): BalanceSheetSection => {
+    const lines = trialBalance.lines
+      .filter(line => line.account.account_type === type)
+      .map(line => ({
+        account: line.account,
+        label: line.account.name,
+        amount: roundCurrency(isDebitNormal(type) ? line.debit - line.credit : line.credit - line.debit),
+      }));
+    return {
+      type,
+      title: ACCOUNT_TYPE_TITLES[type],
+      lines,
+      total: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+    };
+  };
+
+  const earnings = roundCurrency(trialBalance.lines.reduce((sum, line) => {
+    const type = line.account.account_type;
+    if (type !== 'INCOME' && type !== 'EXPENSE') return sum;
+    return sum + line.credit - line.debit;
+  }, 0));
+
+  const assets = buildSection('ASSET');
+  const liabilities = buildSection('LIABILITY');
+  const equity = buildSection('EQUITY');
+  if (earnings !== 0) {
+    equity.lines.push({ label: 'Retained Earnings', amount: earnings });
+    equity.total = roundCurrency(equity.total + earnings);
+  }
+
+  const totalLiabilitiesAndEquity = roundCurrency(liabilities.total + equity.total);
+
+  return {
+    asOf: trialBalance.asOf,
+    assets,
+    liabilities,
+    equity,
+    earnings,
+    totalLiabilitiesAndEquity,
+    balanced: assets.total === totalLiabilitiesAndEquity,
+  };
+}
+
+export type BalanceSheetRowKind = 'heading' | 'line' | 'total' | 'grandTotal';
+
+export interface BalanceSheetRow {
+  label: string;
+  kind: BalanceSheetRowKind;
+  amount?: number;
+}
+
+// The statement in reading order, shared by the screen and the exports
+export function getBalanceSheetRows(sheet: BalanceSheet): BalanceSheetRow[] {
+  const rows: BalanceSheetRow[] = [];
+
+  const addSection = (section: BalanceSheetSection, grandTotalLabel?: string) => {
+    rows.push({ label: section.title, kind: 'heading' });
+    section.lines.forEach(line => rows.push({ label: line.label, kind: 'line', amount: line.amount }));
+    rows.push(grandTotalLabel
+      ? { label: grandTotalLabel, kind: 'grandTotal', amount: section.total }
+      : { label: `Total ${section.title}`, kind: 'total', amount: section.total });
+  };
+
+  addSection(sheet.assets, 'Total Assets');
+  addSection(sheet.liabilities);
+  addSection(sheet.equity);
+  rows.push({ label: 'Total Liabilities & Equity', kind: 'grandTotal', amount: sheet.totalLiabilitiesAndEquity });
+
+  return rows;
+}
+
+const outOfBalanceNote = (difference: number) => (
+  `Out of balance by ${formatDocumentAmount(Math.abs(difference))}.`
+);
+
+export function toTrialBalanceCsv(trialBalance: TrialBalance): string {
+  const rows: CsvValue[][] = trialBalance.lines.map(line => [
+    line.account.code,
+    line.account.name,
+    ACCOUNT_TYPE_TITLES[line.account.account_type],
+    line.debit || '',
+    line.credit || '',
+  ]);
+  rows.push(['', 'Total', '', trialBalance.totalDebit, trialBalance.totalCredit]);
+  return toCsv(['Code', 'Account', 'Type', 'Debit', 'Credit'], rows);
+}
+
+export function toTrialBalanceDocument(trialBalance: TrialBalance): PrintableReport {
+  const rows: ReportRow[] = [];
+  ACCOUNT_TYPE_ORDER.forEach(type => {
+    const lines = trialBalance.lines.filter(line => line.account.account_type === type);
+    if (lines.length === 0) return;
+    rows.push({ kind: 'heading', cells: ['', ACCOUNT_TYPE_TITLES[type], '', ''] });
+    lines.forEach(line => rows.push({
+      kind: 'line',
+      cells: [
+        line.account.code,
+        line.account.name,
+        line.debit ? formatDocumentAmount(line.debit) : '',
+        line.credit ? formatDocumentAmount(line.credit) : '',
+      ],
+    }));
+  });
+  rows.push({
+    kind: 'grandTotal',
+    cells: ['', 'Total', formatDocumentAmount(trialBalance.totalDebit), formatDocumentAmount(trialBalance.totalCredit)],
+  });
+
+  return {
+    title: 'Trial Balance',
+    subtitle: `As of ${formatAsOf(trialBalance.asOf)}`,
+    columns: [
+      { header: 'Code' },
+      { header: 'Account' },
+      { header: 'Debit', numeric: true },
+      { header: 'Credit', numeric: true },
+    ],
+    rows,
+    notes: trialBalance.balanced
+      ? undefined
+      : [outOfBalanceNote(trialBalance.totalDebit - trialBalance.totalCredit)],
+  };
+}
+
+export function toBalanceSheetCsv(sheet: BalanceSheet): string {
+  const rows: CsvValue[][] = getBalanceSheetRows(sheet).map(row => (
+    row.amount === undefined ? [row.label] : [row.label, row.amount]
+  ));
+  return toCsv(['Particulars', 'Amount'], rows);
+}
+
+export function toBalanceSheetDocument(sheet: BalanceSheet): PrintableReport {
+  const notes = ['Retained earnings are income less expenses from the journal up to this date.'];
+  if (!sheet.balanced) {
+    notes.push(outOfBalanceNote(sheet.assets.total - sheet.totalLiabilitiesAndEquity));
+  }
+
+  return {
+    title: 'Balance Sheet',
+    subtitle: `As of ${formatAsOf(sheet.asOf)}`,
+    columns: [
+      { header: 'Particulars' },
+      { header: 'Amount', numeric: true },
+    ],
+    rows: getBalanceSheetRows(sheet).map(row => ({
+      kind: row.kind,
+      cells: [row.label, row.amount === undefined ? '' : formatDocumentAmount(row.amount)],
+    })),
+    notes,
+  };
+}
@@ -0,0 +1,149 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { Transaction } from './api/transactions';
+
+export type MatchDocumentType = 'payment' | 'receipt' | 'bill';
+
+// A business document a bank transaction could settle. For bills `amount` is the balance still due.
+export interface MatchCandidate {
+  type: MatchDocumentType;
+  id: string;
+  number: string;
+  date: string;
+  amount: number;
+  partyType: 'creditor' | 'customer';
+  partyId: string | null;
+  partyName: string | null;
+}
+
+export interface MatchRule {
+  id: string;
+  business_id: string;
+  pattern: string;
+  creditor_id: string | null;
+  customer_id: string | null;
+  hits: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MatchSuggestion {
+  candidate: MatchCandidate;
+  score: number;
+  reasons: string[];
+}
+
+// How far either side of the transaction date a document may fall
+const DATE_WINDOWS: Record<MatchDocumentType, number> = {
+  payment: 7,
+  receipt: 7,
+  bill: 60,
+};
+
+const MIN_SCORE = 40;
+const MAX_SUGGESTIONS = 3;
+
+export function rejectionKey(transactionId: string, type: MatchDocumentType, documentId: string): string {
+  return `${transactionId}:${type}:${documentId}`;
+}
+
+function normalize(text: string | null | undefined): string {
+  return (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// The party name counts when any of its words of four or more letters appears in the description
+function mentionsParty(description: string, partyName: string | null): boolean {
+  if (!partyName) return false;
+
+  const words = normalize(partyName).split(' ').filter(word => word.length >= 4);
+  return words.some(word => description.includes(word));
+}
+
+// A pattern of only spaces and punctuation normalizes to '' and would match every description
+export function isUsableRulePattern(pattern: string | null | undefined): boolean {
+  return normalize(pattern) !== '';
+}
+
+function ruleParty(rule: MatchRule): string | null {
+  return rule.creditor_id || rule.customer_id;
+}
+
+export function suggestMatches(
+  transaction: Transaction,
+  candidates: MatchCandidate[],
+  rules: MatchRule[],
+  rejected: Set<string>
+): MatchSuggestion[] {
+  const description = normalize(transaction.description);
+  const amount = Number(transaction.amount);
+  const ruleParties = new Set(
+    rules
+      .filter(rule => isUsableRulePattern(rule.pattern) && description.includes(normalize(rule.pattern)))
+      .map(ruleParty)
+  );
+
+  const suggestions: MatchSuggestion[] = [];
+
+  for (const candidate of candidates) {
+    if (rejected.has(rejectionKey(transaction.id, candidate.type, candidate.id))) continue;
+
+    const direction = candidate.type === 'receipt' ? 'deposit' : 'withdrawal';
+    if (transaction.type !== direction) continue;
+
+    const days = Math.abs(differenceInCalendarDays(new Date(transaction.date), new Date(candidate.date)));
+    if (days > DATE_WINDOWS[candidate.type]) continue;
+
+    const reasons: string[] = [];
+    let score = 0;
+
+    const byName = mentionsParty(description, candidate.partyName);
+    const byRule = !!candidate.partyId && ruleParties.has(candidate.partyId);
+
+    if (Math.abs(candidate.amount - amount) < 0.005) {
+      score += 50;
+      reasons.push('Same amount');
+    } else if (candidate.type === 'bill' && amount < candidate.amount && (byName || byRule)) {
+      // A smaller withdrawal to the right creditor is taken as a part payment
+      score += 20;
+      reasons.push('Part payment');
+    } else {
+      continue;
+    }
+
+    score += Math.round(20 * (1 - days / DATE_WINDOWS[candidate.type]));
+    if (days === 0) reasons.push('Same day');
+    else reasons.push(`${days} day${days === 1 ? '' : 's'} apart`);
+
+    if (byName) {
+      score += 20;
+      reasons.push(`Mentions ${candidate.partyName}`);
+    }
+    if (byRule) {
+      score += 25;
+      reasons.push('Learned rule');
+    }
+
+    if (score >= MIN_SCORE) {
+      suggestions.push({ candidate, score, reasons });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Proposes the text a rule should look for: the party name when the description
+// mentions it, otherwise the first few words with reference numbers stripped
+export function suggestRulePattern(description: string | null | undefined, partyName: string | null): string {
+  const normalized = normalize(description);
+
+  if (partyName && normalized.includes(normalize(partyName))) {
+    return normalize(partyName);
+  }
+
+  return normalized
+    .split(' ')
+    .filter(word => word.length > 2 && !/\d/.test(word))
+    .slice(0, 3)
+    .join(' ');
+}
@@ -0,0 +1,18 @@
+import { DocumentSettings } from './api/document-settings';
+
+// Indian financial years run from April to March: 24-25 covers April 2024 to March 2025
+export function financialYearLabel(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  const twoDigits = (year: number) => (year % 100).toString().padStart(2, '0');
+  return `${twoDigits(startYear)}-${twoDigits(startYear + 1)}`;
+}
+
+// Mirrors format_document_number in the database so settings can be previewed while editing
+export function formatDocumentNumber(
+  settings: Pick<DocumentSettings, 'prefix' | 'separator' | 'padding' | 'financial_year_reset'>,
+  year: string,
+  number: number
+): string {
+  const yearPart = settings.financial_year_reset ? `${year}${settings.separator}` : '';
+  return `${settings.prefix.trim()}${settings.separator}${yearPart}${number.toString().padStart(settings.padding, '0')}`;
+}
@@ -0,0 +1,491 @@
+import { format, parseISO, addDays, differenceInCalendarDays } from 'date-fns';
+import { toCsv, CsvValue } from './export';
+import { PrintableReport, ReportRow, formatDocumentAmount } from './documents';
+import { PayablesDocuments, PayablesCreditor } from './api/payables';
+import { DateRange, formatRange } from './profit-loss';
+
+// Ages what is owed to each creditor. Bills carry what has been allocated to
+// them; payments that were not allocated to a bill settle the oldest open
+// items first, so a creditor's open items always add up to its outstanding
+// amount.
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export type AgeingBucket = 'notDue' | 'days0to30' | 'days31to60' | 'days61to90' | 'over90';
+
+// Age from when the money fell due, or from the date of the document
+export type AgeingBasis = 'dueDate' | 'documentDate';
+
+export type OpenItemKind = 'OPENING' | 'PURCHASE' | 'BILL';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string }[] = [
+  { key: 'notDue', label: 'Not Due' },
+  { key: 'days0to30', label: '0–30' },
+  { key: 'days31to60', label: '31–60' },
+  { key: 'days61to90', label: '61–90' },
+  { key: 'over90', label: '90+' },
+];
+
+export const OPEN_ITEM_LABELS: Record<OpenItemKind, string> = {
+  OPENING: 'Opening Balance',
+  PURCHASE: 'Purchase',
+  BILL: 'Bill',
+};
+
+export type AgeingFigures = Record<AgeingBucket, number> & { total: number };
+
+export interface OpenItem {
+  kind: OpenItemKind;
+  // The creditor's id for the opening balance
+  id: string;
+  number: string;
+  date: string;
+  // Purchases and opening balances are due when they are recorded
+  dueDate: string;
+  amount: number;
+  // What is still unpaid
+  balance: number;
+  days: number;
+  bucket: AgeingBucket;
+}
+
+export interface CreditorAgeing {
+  creditor: PayablesCreditor;
+  items: OpenItem[];
+  figures: AgeingFigures;
+  // Paid but not yet matched to anything open, e.g. an advance
+  unappliedCredit: number;
+  // figures.total less the unapplied credit
+  balance: number;
+  dueSoon: number;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  basis: AgeingBasis;
+  // Open items due on or before this date are counted as due soon
+  dueBy: string;
+  creditors: CreditorAgeing[];
+  totals: AgeingFigures;
+  unappliedCredit: number;
+  balance: number;
+  dueSoon: number;
+}
+
+const emptyFigures = (): AgeingFigures => ({
+  notDue: 0,
+  days0to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+  total: 0,
+});
+
+const addToFigures = (figures: AgeingFigures, bucket: AgeingBucket, amount: number) => {
+  figures[bucket] = roundCurrency(figures[bucket] + amount);
+  figures.total = roundCurrency(figures.total + amount);
+};
+
+export function getAgeingBucket(days: number): AgeingBucket {
+  if (days < 0) return 'notDue';
+  if (days <= 30) return 'days0to30';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'over90';
+}
+
+interface OpenItemDraft {
+  kind: OpenItemKind;
+  id: string;
+  number: string;
+  date: string;
+  dueDate: string;
+  amount: number;
+  balance: number;
+}
+
+function getCreditorOpenItems(creditor: PayablesCreditor, documents: PayablesDocuments) {
+  const drafts: OpenItemDraft[] = [];
+  let credit = 0;
+
+  const openingBalance = Number(creditor.opening_balance);
+  const openingDate = creditor.created_at.slice(0, 10);
+  if (openingBalance > 0) {
+    drafts.push({
+      kind: 'OPENING',
+      id: creditor.id,
+      number: 'Opening',
+      date: openingDate,
+      dueDate: openingDate,
+      amount: openingBalance,
+      balance: openingBalance,
+    });
+  } else {
+    credit -= openingBalance;
+  }
+
+  documents.purchases
+    .filter(purchase => purchase.creditor_id === creditor.id)
+    .forEach(purchase => drafts.push({
+      kind: 'PURCHASE',
+      id: purchase.id,
+      number: purchase.purchase_number,
+      date: purchase.purchase_date,
+      dueDate: purchase.purchase_date,
+      amount: Number(purchase.total_price),
+      balance: Number(purchase.total_price),
+    }));
+
+  documents.bills
+    .filter(bill => bill.creditor_id === creditor.id)
+    .forEach(bill => {
+      drafts.push({
+        kind: 'BILL',
+        id: bill.id,
+        number: bill.bill_number,
+        date: bill.issue_date,
+        dueDate: bill.due_date,
+        amount: Number(bill.total_amount),
+        balance: roundCurrency(Number(bill.total_amount) - Number(bill.amount_paid)),
+      });
+      credit -= Number(bill.amount_paid);
+    });
+
+  documents.payments
+    .filter(payment => payment.creditor_id === creditor.id)
+    .forEach(payment => {
+      credit += Number(payment.amount);
+    });
+
+  credit = roundCurrency(credit);
+  drafts.sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+
+  // Oldest first, the way suppliers apply money on account
+  drafts.forEach(draft => {
+    if (credit <= 0 || draft.balance <= 0) return;
+    const applied = Math.min(credit, draft.balance);
+    draft.balance = roundCurrency(draft.balance - applied);
+    credit = roundCurrency(credit - applied);
+  });
+
+  return {
+    drafts: drafts.filter(draft => draft.balance > 0),
+    unappliedCredit: Math.max(credit, 0),
+  };
+}
+
+export function buildAgeingReport(documents: PayablesDocuments, asOf: string, basis: AgeingBasis): AgeingReport {
+  const asOfDate = parseISO(asOf);
+  const dueBy = format(addDays(asOfDate, 7), 'yyyy-MM-dd');
+  const totals = emptyFigures();
+  let unappliedCredit = 0;
+  let dueSoon = 0;
+
+  const creditors: CreditorAgeing[] = [];
+  documents.creditors.forEach(creditor => {
+    const { drafts, unappliedCredit: credit } = getCreditorOpenItems(creditor, documents);
+    if (drafts.length === 0 && credit === 0) return;
+
+    const figures = emptyFigures();
+    let creditorDueSoon = 0;
+    const items = drafts.map(draft => {
+      const days = differenceInCalendarDays(asOfDate, parseISO(basis === 'dueDate' ? draft.dueDate : draft.date));
+      const bucket = getAgeingBucket(days);
+      addToFigures(figures, bucket, draft.balance);
+      addToFigures(totals, bucket, draft.balance);
+      if (draft.dueDate <= dueBy) {
+        creditorDueSoon = roundCurrency(creditorDueSoon + draft.balance);
+      }
+      return { ...draft, days, bucket };
+    });
+
+    unappliedCredit = roundCurrency(unappliedCredit + credit);
+    dueSoon = roundCurrency(dueSoon + creditorDueSoon);
+    creditors.push({
+      creditor,
+      items,
+      figures,
+      unappliedCredit: credit,
+      balance: roundCurrency(figures.total - credit),
+      dueSoon: creditorDueSoon,
+    });
+  });
+
+  // Whoever is owed the most for the longest comes first
+  creditors.sort((a, b) => (
+    b.figures.over90 - a.figures.over90 ||
+    b.figures.total - a.figures.total ||
+    a.creditor.name.localeCompare(b.creditor.name)
+  ));
+
+  return {
+    asOf,
+    basis,
+    dueBy,
+    creditors,
+    totals,
+    unappliedCredit,
+    balance: roundCurrency(totals.total - unappliedCredit),
+    dueSoon,
+  };
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+const getBasisLabel = (basis: AgeingBasis) => (basis === 'dueDate' ? 'days past due date' : 'days since document date');
+
+export function toAgeingCsv(report: AgeingReport): string {
+  const rows: CsvValue[][] = [];
+  report.creditors.forEach(({ creditor, items, unappliedCredit }) => {
+    items.forEach(item => rows.push([
+      creditor.name,
+      OPEN_ITEM_LABELS[item.kind],
+      item.number,
+      item.date,
+      item.dueDate,
+      item.days,
+      ...AGEING_BUCKETS.map(({ key }) => (item.bucket === key ? item.balance : '')),
+      item.balance,
+    ]));
+    if (unappliedCredit > 0) {
+      rows.push([creditor.name, 'Unapplied Credit', '', '', '', '', ...AGEING_BUCKETS.map(() => ''), -unappliedCredit]);
+    }
+  });
+
+  return toCsv(
+    ['Creditor', 'Document', 'Number', 'Date', 'Due Date', 'Days', ...AGEING_BUCKETS.map(({ label }) => label), 'Balance'],
+    rows
+  );
+}
+
+export function toAgeingDocument(report: AgeingReport): PrintableReport {
+  const blankBuckets = AGEING_BUCKETS.map(() => '');
+  const figureCells = (figures: AgeingFigures) => AGEING_BUCKETS.map(({ key }) => formatDocumentAmount(figures[key]));
+
+  const rows: ReportRow[] = [];
+  report.creditors.forEach(({ creditor, items, figures, unappliedCredit, balance }) => {
+    rows.push({ kind: 'heading', cells: [creditor.name, '', '', '', ...blankBuckets, ''] });
+    items.forEach(item => rows.push({
+      kind: 'line',
+      cells: [
+        `${OPEN_ITEM_LABELS[item.kind]} ${item.kind === 'OPENING' ? '' : item.number}`.trim(),
+        formatDate(item.date),
+        formatDate(item.dueDate),
+        String(item.days),
+        ...AGEING_BUCKETS.map(({ key }) => (item.bucket === key ? formatDocumentAmount(item.balance) : '')),
+        formatDocumentAmount(item.balance),
+      ],
+    }));
+    if (unappliedCredit > 0) {
+      rows.push({
+        kind: 'line',
+        cells: ['Unapplied Credit', '', '', '', ...blankBuckets, formatDocumentAmount(-unappliedCredit)],
+      });
+    }
+    rows.push({
+      kind: 'total',
+      cells: [`Total ${creditor.name}`, '', '', '', ...figureCells(figures), formatDocumentAmount(balance)],
+    });
+  });
+  rows.push({
+    kind: 'grandTotal',
+    cells: ['Total', '', '', '', ...figureCells(report.totals), formatDocumentAmount(report.balance)],
+  });
+
+  return {
+    title: 'Accounts Payable Ageing',
+    subtitle: `As of ${formatDate(report.asOf)}`,
+    columns: [
+      { header: 'Particulars' },
+      { header: 'Date' },
+      { header: 'Due' },
+      { header: 'Days', numeric: true },
+      ...AGEING_BUCKETS.map(({ label }) => ({ header: label, numeric: true })),
+      { header: 'Balance', numeric: true },
+    ],
+    rows,
+    notes: [
+      `Aged by ${getBasisLabel(report.basis)}. Purchases and opening balances fall due when recorded.`,
+      'Payments not allocated to a bill are applied to the oldest open items first.',
+    ],
+  };
+}
+
+// Statement of account: everything recorded against one creditor in a date
+// range, with what was owed before it as the opening balance
+
+export type StatementEntryKind = 'PURCHASE' | 'BILL' | 'PAYMENT';
+
+export interface StatementEntry {
+  kind: StatementEntryKind;
+  id: string;
+  date: string;
+  number: string;
+  description: string;
+  // Purchases and bills add to what is owed, payments take it away
+  billed: number;
+  paid: number;
+  balance: number;
+}
+
+export interface CreditorStatement {
+  creditor: PayablesCreditor;
+  range: DateRange;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalBilled: number;
+  totalPaid: number;
+  closingBalance: number;
+}
+
+// Documents come before payments made on the same day
+const STATEMENT_ENTRY_ORDER: StatementEntryKind[] = ['PURCHASE', 'BILL', 'PAYMENT'];
+
+const STATEMENT_ENTRY_LABELS: Record<StatementEntryKind, string> = {
+  PURCHASE: 'Purchase',
+  BILL: 'Bill',
+  PAYMENT: 'Payment',
+};
+
+export function buildCreditorStatement(
+  documents: PayablesDocuments,
+  creditor: PayablesCreditor,
+  range: DateRange
+): CreditorStatement {
+  const entries: Omit<StatementEntry, 'balance'>[] = [];
+
+  documents.purchases
+    .filter(purchase => purchase.creditor_id === creditor.id)
+    .forEach(purchase => entries.push({
+      kind: 'PURCHASE',
+      id: purchase.id,
+      date: purchase.purchase_date,
+      number: purchase.purchase_number,
+      description: STATEMENT_ENTRY_LABELS.PURCHASE,
+      billed: Number(purchase.total_price),
+      paid: 0,
+    }));
+
+  documents.bills
+    .filter(bill => bill.creditor_id === creditor.id)
+    .forEach(bill => entries.push({
+      kind: 'BILL',
+      id: bill.id,
+      date: bill.issue_date,
+      number: bill.bill_number,
+      description: `${STATEMENT_ENTRY_LABELS.BILL}, due ${formatDate(bill.due_date)}`,
+      billed: Number(bill.total_amount),
+      paid: 0,
+    }));
+
+  documents.payments
+    .filter(payment => payment.creditor_id === creditor.id)
+    .forEach(payment => entries.push({
+      kind: 'PAYMENT',
+      id: payment.id,
+      date: payment.payment_date,
+      number: payment.payment_number,
+      description: [STATEMENT_ENTRY_LABELS.PAYMENT, payment.payment_method, payment.reference]
+        .filter(Boolean)
+        .join(', '),
+      billed: 0,
+      paid: Number(payment.amount),
+    }));
+
+  entries.sort((a, b) => (
+    a.date.localeCompare(b.date) ||
+    STATEMENT_ENTRY_ORDER.indexOf(a.kind) - STATEMENT_ENTRY_ORDER.indexOf(b.kind) ||
+    a.number.localeCompare(b.number)
+  ));
+
+  // The creditor's opening balance was owed before anything was recorded
+  let balance = Number(creditor.opening_balance);
+  entries
+    .filter(entry => entry.date < range.start)
+    .forEach(entry => {
+      balance = roundCurrency(balance + entry.billed - entry.paid);
+    });
+  const openingBalance = balance;
+
+  const inRange = entries
+    .filter(entry => entry.date >= range.start && entry.date <= range.end)
+    .map(entry => {
+      balance = roundCurrency(balance + entry.billed - entry.paid);
+      return { ...entry, balance };
+    });
+
+  return {
+    creditor,
+    range,
+    openingBalance,
+    entries: inRange,
+    totalBilled: roundCurrency(inRange.reduce((sum, entry) => sum + entry.billed, 0)),
+    totalPaid: roundCurrency(inRange.reduce((sum, entry) => sum + entry.paid, 0)),
+    closingBalance: balance,
+  };
+}
+
+export function toCreditorStatementCsv(statement: CreditorStatement): string {
+  const rows: CsvValue[][] = [
+    [statement.range.start, 'Opening Balance', '', '', '', statement.openingBalance],
+    ...statement.entries.map(entry => [
+      entry.date,
+      entry.description,
+      entry.number,
+      entry.billed || '',
+      entry.paid || '',
+      entry.balance,
+    ]),
+    [statement.range.end, 'Closing Balance', '', statement.totalBilled, statement.totalPaid, statement.closingBalance],
+  ];
+  return toCsv(['Date', 'Particulars', 'Reference', 'Billed', 'Paid', 'Balance'], rows);
+}
+
+export function toCreditorStatementDocument(statement: CreditorStatement): PrintableReport {
+  return {
+    title: 'Statement of Account',
+    subtitle: `${statement.creditor.name} · ${formatRange(statement.range)}`,
+    columns: [
+      { header: 'Date' },
+      { header: 'Particulars' },
+      { header: 'Reference' },
+      { header: 'Billed', numeric: true },
+      { header: 'Paid', numeric: true },
+      { header: 'Balance', numeric: true },
+    ],
+    rows: [
+      {
+        kind: 'total',
+        cells: [formatDate(statement.range.start), 'Opening Balance', '', '', '', formatDocumentAmount(statement.openingBalance)],
+      },
+      ...statement.entries.map((entry): ReportRow => ({
+        kind: 'line',
+        cells: [
+          formatDate(entry.date),
+          entry.description,
+          entry.number,
+          entry.billed ? formatDocumentAmount(entry.billed) : '',
+          entry.paid ? formatDocumentAmount(entry.paid) : '',
+          formatDocumentAmount(entry.balance),
+        ],
+      })),
+      {
+        kind: 'grandTotal',
+        cells: [
+          formatDate(statement.range.end),
+          'Closing Balance',
+          '',
+          formatDocumentAmount(statement.totalBilled),
+          formatDocumentAmount(statement.totalPaid),
+          formatDocumentAmount(statement.closingBalance),
+        ],
+      },
+    ],
+    notes: [
+      statement.closingBalance < 0
+        ? 'A negative balance is an advance paid to you.'
+        : 'The balance is the amount we owe you.',
+      'Please confirm the closing balance or let us know of any difference.',
+    ],
+  };
+}
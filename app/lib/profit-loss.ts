@@ -0,0 +1,345 @@
+import {
+  format,
+  parseISO,
+  subDays,
+  addMonths,
+  subMonths,
+  startOfMonth,
+  endOfMonth,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  isSameDay,
+} from 'date-fns';
+import { toCsv, CsvValue } from './export';
+import { PrintableReport, ReportRow, formatDocumentAmount } from './documents';
+import { ProfitLossDocuments } from './api/profit-loss';
+
+// Builds a profit and loss statement on an accrual basis: sales when they are
+// invoiced, costs when they are bought or billed. Amounts are taxable values;
+// GST collected or paid is owed to or claimed from the government, not earned
+// or spent.
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type ProfitLossSection = 'revenue' | 'costOfSales' | 'otherIncome' | 'expenses';
+
+export interface ProfitLossEntry {
+  date: string;
+  section: ProfitLossSection;
+  account: string;
+  amount: number;
+}
+
+export interface ProfitLossFigures {
+  // One per month of the range, in order
+  months: number[];
+  total: number;
+  // Total for the period before, of the same length
+  previous: number;
+}
+
+export interface ProfitLossLine extends ProfitLossFigures {
+  account: string;
+}
+
+export interface ProfitLossSectionTotals extends ProfitLossFigures {
+  section: ProfitLossSection;
+  title: string;
+  lines: ProfitLossLine[];
+}
+
+export interface ProfitLossMonth {
+  // yyyy-MM
+  key: string;
+  label: string;
+}
+
+export interface ProfitLossReport {
+  range: DateRange;
+  previousRange: DateRange;
+  months: ProfitLossMonth[];
+  sections: Record<ProfitLossSection, ProfitLossSectionTotals>;
+  grossProfit: ProfitLossFigures;
+  netProfit: ProfitLossFigures;
+}
+
+export const SECTION_TITLES: Record<ProfitLossSection, string> = {
+  revenue: 'Revenue',
+  costOfSales: 'Cost of Sales',
+  otherIncome: 'Other Income',
+  expenses: 'Expenses',
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const isWholeMonths = (range: DateRange) => {
+  const start = parseISO(range.start);
+  const end = parseISO(range.end);
+  return isSameDay(start, startOfMonth(start)) && isSameDay(end, endOfMonth(end));
+};
+
+// The same number of whole months before a range of whole months, otherwise
+// the same number of days
+export function getPreviousRange(range: DateRange): DateRange {
+  const start = parseISO(range.start);
+  const end = parseISO(range.end);
+
+  if (isWholeMonths(range)) {
+    const months = differenceInCalendarMonths(end, start) + 1;
+    return {
+      start: toDateString(subMonths(start, months)),
+      end: toDateString(endOfMonth(subMonths(end, months))),
+    };
+  }
+
+  const days = differenceInCalendarDays(end, start) + 1;
+  return {
+    start: toDateString(subDays(start, days)),
+    end: toDateString(subDays(start, 1)),
+  };
+}
+
+export function getRangeMonths(range: DateRange): ProfitLossMonth[] {
+  const months: ProfitLossMonth[] = [];
+  const last = startOfMonth(parseISO(range.end));
+  for (let month = startOfMonth(parseISO(range.start)); month <= last; month = addMonths(month, 1)) {
+    months.push({ key: format(month, 'yyyy-MM'), label: format(month, 'MMM yyyy') });
+  }
+  return months;
+}
+
+export function formatRange(range: DateRange): string {
+  const start = parseISO(range.start);
+  const end = parseISO(range.end);
+  if (isWholeMonths(range)) {
+    return differenceInCalendarMonths(end, start) === 0
+      ? format(start, 'MMMM yyyy')
+      : `${format(start, 'MMM yyyy')} – ${format(end, 'MMM yyyy')}`;
+  }
+  return `${format(start, 'dd MMM yyyy')} – ${format(end, 'dd MMM yyyy')}`;
+}
+
+// Indian financial years run from April to March
+export function getFinancialYearRange(date: Date): DateRange {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return { start: `${startYear}-04-01`, end: `${startYear + 1}-03-31` };
+}
+
+export function toProfitLossEntries(documents: ProfitLossDocuments): ProfitLossEntry[] {
+  const entries: ProfitLossEntry[] = [];
+
+  documents.invoices.forEach(invoice => {
+    entries.push({ date: invoice.invoice_date, section: 'revenue', account: 'Sales', amount: Number(invoice.subtotal) });
+  });
+
+  documents.purchases.forEach(purchase => {
+    entries.push({ date: purchase.purchase_date, section: 'costOfSales', account: 'Purchases', amount: Number(purchase.subtotal) });
+  });
+
+  documents.bills.forEach(bill => {
+    entries.push({ date: bill.issue_date, section: 'expenses', account: 'Supplier Bills', amount: Number(bill.subtotal) });
+  });
+
+  documents.transactions.forEach(transaction => {
+    const category = transaction.category?.trim();
+    if (!category) return;
+    entries.push({
+      date: transaction.date,
+      section: transaction.type === 'deposit' ? 'otherIncome' : 'expenses',
+      account: category,
+      amount: Number(transaction.amount),
+    });
+  });
+
+  documents.expenses.forEach(expense => {
+    entries.push({
+      date: expense.expense_date,
+      section: 'expenses',
+      account: expense.expense_categories?.name || 'Other Expenses',
+      amount: Number(expense.amount),
+    });
+  });
+
+  return entries;
+}
+
+const emptyFigures = (monthCount: number): ProfitLossFigures => ({
+  months: new Array(monthCount).fill(0),
+  total: 0,
+  previous: 0,
+});
+
+function combineFigures(monthCount: number, parts: { figures: ProfitLossFigures; sign: 1 | -1 }[]): ProfitLossFigures {
+  const result = emptyFigures(monthCount);
+  parts.forEach(({ figures, sign }) => {
+    figures.months.forEach((amount, index) => {
+      result.months[index] = roundCurrency(result.months[index] + sign * amount);
+    });
+    result.total = roundCurrency(result.total + sign * figures.total);
+    result.previous = roundCurrency(result.previous + sign * figures.previous);
+  });
+  return result;
+}
+
+// Entries may span both the range and the period before it; anything outside
+// both is ignored
+export function buildProfitLoss(entries: ProfitLossEntry[], range: DateRange): ProfitLossReport {
+  const previousRange = getPreviousRange(range);
+  const months = getRangeMonths(range);
+  const monthIndex = new Map(months.map((month, index) => [month.key, index]));
+
+  const lineMaps: Record<ProfitLossSection, Map<string, ProfitLossLine>> = {
+    revenue: new Map(),
+    costOfSales: new Map(),
+    otherIncome: new Map(),
+    expenses: new Map(),
+  };
+
+  entries.forEach(entry => {
+    const inRange = entry.date >= range.start && entry.date <= range.end;
+    const inPrevious = entry.date >= previousRange.start && entry.date <= previousRange.end;
+    if (!inRange && !inPrevious) return;
+
+    const lines = lineMaps[entry.section];
+    let line = lines.get(entry.account);
+    if (!line) {
+      line = { account: entry.account, ...emptyFigures(months.length) };
+      lines.set(entry.account, line);
+    }
+
+    if (inRange) {
+      const index = monthIndex.get(entry.date.slice(0, 7));
+      if (index !== undefined) {
+        line.months[index] = roundCurrency(line.months[index] + entry.amount);
+      }
+      line.total = roundCurrency(line.total + entry.amount);
+    } else {
+      line.previous = roundCurrency(line.previous + entry.amount);
+    }
+  });
+
+  const buildSection = (section: ProfitLossSection): ProfitLossSectionTotals => {
+    const lines = Array.from(lineMaps[section].values())
+      .sort((a, b) => b.total - a.total || a.account.localeCompare(b.account));
+    return {
+      section,
+      title: SECTION_TITLES[section],
+      lines,
+      ...combineFigures(months.length, lines.map(line => ({ figures: line, sign: 1 as const }))),
+    };
+  };
+
+  const sections = {
+    revenue: buildSection('revenue'),
+    costOfSales: buildSection('costOfSales'),
+    otherIncome: buildSection('otherIncome'),
+    expenses: buildSection('expenses'),
+  };
+
+  const grossProfit = combineFigures(months.length, [
+    { figures: sections.revenue, sign: 1 },
+    { figures: sections.costOfSales, sign: -1 },
+  ]);
+
+  const netProfit = combineFigures(months.length, [
+    { figures: grossProfit, sign: 1 },
+    { figures: sections.otherIncome, sign: 1 },
+    { figures: sections.expenses, sign: -1 },
+  ]);
+
+  return { range, previousRange, months, sections, grossProfit, netProfit };
+}
+
+// Percentage change on the period before; null when there is nothing to compare with
+export function getChange(figures: Pick<ProfitLossFigures, 'total' | 'previous'>): number | null {
+  if (figures.previous === 0) return null;
+  return Math.round(((figures.total - figures.previous) / Math.abs(figures.previous)) * 1000) / 10;
+}
+
+export type ProfitLossRowKind = 'heading' | 'line' | 'total' | 'profit';
+
+export interface ProfitLossRow {
+  label: string;
+  kind: ProfitLossRowKind;
+  // Unset on the profit rows
+  section?: ProfitLossSection;
+  figures?: ProfitLossFigures;
+}
+
+// The statement in reading order, shared by the screen and the exports
+export function getProfitLossRows(report: ProfitLossReport): ProfitLossRow[] {
+  const rows: ProfitLossRow[] = [];
+
+  const addSection = (section: ProfitLossSectionTotals) => {
+    rows.push({ label: section.title, kind: 'heading', section: section.section });
+    section.lines.forEach(line => rows.push({ label: line.account, kind: 'line', section: section.section, figures: line }));
+    rows.push({ label: `Total ${section.title}`, kind: 'total', section: section.section, figures: section });
+  };
+
+  addSection(report.sections.revenue);
+  addSection(report.sections.costOfSales);
+  rows.push({ label: 'Gross Profit', kind: 'profit', figures: report.grossProfit });
+  addSection(report.sections.otherIncome);
+  addSection(report.sections.expenses);
+  rows.push({ label: 'Net Profit', kind: 'profit', figures: report.netProfit });
+
+  return rows;
+}
+
+const formatChange = (change: number | null) => (change === null ? '' : `${change > 0 ? '+' : ''}${change}%`);
+
+function getColumnHeaders(report: ProfitLossReport): string[] {
+  return [
+    'Particulars',
+    ...report.months.map(month => month.label),
+    'Total',
+    `Previous (${formatRange(report.previousRange)})`,
+    'Change',
+  ];
+}
+
+export function toProfitLossCsv(report: ProfitLossReport): string {
+  const rows: CsvValue[][] = getProfitLossRows(report).map(row => (
+    row.figures
+      ? [row.label, ...row.figures.months, row.figures.total, row.figures.previous, formatChange(getChange(row.figures))]
+      : [row.label]
+  ));
+  return toCsv(getColumnHeaders(report), rows);
+}
+
+export function toProfitLossDocument(report: ProfitLossReport): PrintableReport {
+  const headers = getColumnHeaders(report);
+  const kinds: Record<ProfitLossRowKind, ReportRow['kind']> = {
+    heading: 'heading',
+    line: 'line',
+    total: 'total',
+    profit: 'grandTotal',
+  };
+
+  return {
+    title: 'Profit & Loss',
+    subtitle: formatRange(report.range),
+    columns: headers.map((header, index) => ({ header, numeric: index > 0 })),
+    rows: getProfitLossRows(report).map(row => ({
+      kind: kinds[row.kind],
+      cells: row.figures
+        ? [
+            row.label,
+            ...row.figures.months.map(formatDocumentAmount),
+            formatDocumentAmount(row.figures.total),
+            formatDocumentAmount(row.figures.previous),
+            formatChange(getChange(row.figures)),
+          ]
+        : [row.label, ...new Array(headers.length - 1).fill('')],
+    })),
+    notes: [
+      'Sales and costs are shown when invoiced, bought or billed, at their value before GST.',
+      'Other income and expenses come from categorised bank transactions not linked to a document.',
+    ],
+  };
+}
@@ -0,0 +1,232 @@
+import { parse, isValid, format } from 'date-fns';
+import { Transaction } from './api/transactions';
+
+// A single row read from a bank statement. Money in is positive, money out negative.
+export interface StatementLine {
+  date: string;
+  description: string;
+  amount: number;
+  externalId?: string;
+}
+
+export type StatementFormat = 'csv' | 'ofx';
+
+export const STATEMENT_DATE_FORMATS = [
+  'dd/MM/yyyy',
+  'dd-MM-yyyy',
+  'dd-MMM-yyyy',
+  'dd MMM yyyy',
+  'dd/MM/yy',
+  'MM/dd/yyyy',
+  'yyyy-MM-dd',
+] as const;
+
+export type StatementDateFormat = typeof STATEMENT_DATE_FORMATS[number];
+
+// Column indexes into the CSV rows. Either `amount` or one of `debit`/`credit` is set.
+export interface CsvColumnMapping {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  dateFormat: StatementDateFormat;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text)) {
+    return 'ofx';
+  }
+  return 'csv';
+}
+
+export function parseCsv(text: string): ParsedCsv {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(cell => cell !== ''));
+  const [headers = [], ...body] = nonEmpty;
+
+  return { headers, rows: body };
+}
+
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex(header => pattern.test(header));
+    return index === -1 ? null : index;
+  };
+
+  const debit = find(/withdrawal|debit|\bdr\b/i);
+  const credit = find(/deposit|credit|\bcr\b/i);
+
+  return {
+    date: find(/date/i),
+    description: find(/description|narration|particulars|details|remarks/i),
+    amount: debit === null && credit === null ? find(/amount/i) : null,
+    debit,
+    credit,
+    dateFormat: 'dd/MM/yyyy',
+  };
+}
+
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value) return null;
+
+  let text = value.trim();
+  let sign = 1;
+
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/dr\.?$/i.test(text)) {
+    sign = -1;
+    text = text.replace(/dr\.?$/i, '');
+  } else if (/cr\.?$/i.test(text)) {
+    text = text.replace(/cr\.?$/i, '');
+  }
+
+  const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+  return isNaN(amount) ? null : sign * amount;
+}
+
+export function parseStatementDate(value: string | undefined, dateFormat: StatementDateFormat): string | null {
+  if (!value) return null;
+
+  const date = parse(value.trim(), dateFormat, new Date());
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+}
+
+// Rows whose date or amount cannot be read are left out of the result
+export function mapCsvRows(rows: string[][], mapping: CsvColumnMapping): StatementLine[] {
+  const lines: StatementLine[] = [];
+
+  for (const row of rows) {
+    const date = mapping.date === null ? null : parseStatementDate(row[mapping.date], mapping.dateFormat);
+
+    let amount: number | null = null;
+    if (mapping.amount !== null) {
+      amount = parseStatementAmount(row[mapping.amount]);
+    } else {
+      const debit = mapping.debit === null ? null : parseStatementAmount(row[mapping.debit]);
+      const credit = mapping.credit === null ? null : parseStatementAmount(row[mapping.credit]);
+      if (debit || credit) {
+        amount = (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0);
+      }
+    }
+
+    if (!date || !amount) continue;
+
+    lines.push({
+      date,
+      description: mapping.description === null ? '' : (row[mapping.description] || ''),
+      amount,
+    });
+  }
+
+  return lines;
+}
+
+// OFX 1.x is SGML with unclosed tags and OFX 2.x is XML, so values are read up to the next tag or line end
+export function parseOfx(text: string): StatementLine[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+
+  const readTag = (block: string, tag: string) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  };
+
+  return blocks
+    .map(block => {
+      const posted = readTag(block, 'DTPOSTED');
+      const amount = parseFloat(readTag(block, 'TRNAMT'));
+      const name = readTag(block, 'NAME');
+      const memo = readTag(block, 'MEMO');
+
+      return {
+        date: posted.length >= 8
+          ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+          : '',
+        description: [name, memo].filter(Boolean).join(' - '),
+        amount,
+        externalId: readTag(block, 'FITID') || undefined,
+      };
+    })
+    .filter(line => line.date && !isNaN(line.amount) && line.amount !== 0);
+}
+
+function duplicateKey(date: string, amount: number, description: string | null | undefined) {
+  const normalized = (description || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${date}|${amount.toFixed(2)}|${normalized}`;
+}
+
+// A line whose bank id is already on the account is always a duplicate.
+// Otherwise each existing transaction can only account for one statement line,
+// so a statement with two identical rows against one recorded row flags just one
+export function findDuplicateLines(lines: StatementLine[], existing: Transaction[]): Set<number> {
+  const statementIds = new Set(existing.map(transaction => transaction.statement_id).filter(Boolean));
+  const counts = new Map<string, number>();
+
+  for (const transaction of existing) {
+    const signed = transaction.type === 'deposit' ? Number(transaction.amount) : -Number(transaction.amount);
+    const key = duplicateKey(transaction.date, signed, transaction.description);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const duplicates = new Set<number>();
+  lines.forEach((line, index) => {
+    if (line.externalId && statementIds.has(line.externalId)) {
+      duplicates.add(index);
+      return;
+    }
+
+    const key = duplicateKey(line.date, line.amount, line.description);
+    const remaining = counts.get(key) || 0;
+    if (remaining > 0) {
+      duplicates.add(index);
+      counts.set(key, remaining - 1);
+    }
+  });
+
+  return duplicates;
+}
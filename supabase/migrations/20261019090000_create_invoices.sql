@@ -0,0 +1,92 @@
+/*
+  # Create invoices tables
+
+  1. New Tables
+    - `invoices`
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `invoice_number` (text, unique per business)
+      - `invoice_date` (date)
+      - `due_date` (date)
+      - `customer_name` (text)
+      - `total_amount` (numeric)
+      - `status` (text: DRAFT, SENT, PARTIAL, PAID, CANCELLED)
+      - `notes` (text, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+    - `invoice_line_items`
+      - `id` (uuid, primary key)
+      - `invoice_id` (uuid, references invoices, cascades on delete)
+      - `description` (text)
+      - `quantity` (numeric)
+      - `unit_price` (numeric)
+      - `amount` (numeric)
+      - `sort_order` (integer)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Owners of a business can manage its invoices and their line items
+*/
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  invoice_number text NOT NULL,
+  invoice_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date NOT NULL DEFAULT CURRENT_DATE,
+  customer_name text NOT NULL,
+  total_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'DRAFT'
+    CHECK (status IN ('DRAFT', 'SENT', 'PARTIAL', 'PAID', 'CANCELLED')),
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, invoice_number)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity numeric(12, 3) NOT NULL DEFAULT 1,
+  unit_price numeric(12, 2) NOT NULL DEFAULT 0,
+  amount numeric(12, 2) NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS invoices_business_id_idx ON invoices(business_id);
+CREATE INDEX IF NOT EXISTS invoice_line_items_invoice_id_idx ON invoice_line_items(invoice_id);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage invoices"
+  ON invoices
+  FOR ALL
+  TO authenticated
+  USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can manage invoice line items"
+  ON invoice_line_items
+  FOR ALL
+  TO authenticated
+  USING (
+    invoice_id IN (
+      SELECT i.id FROM invoices i
+      JOIN businesses b ON b.id = i.business_id
+      WHERE b.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    invoice_id IN (
+      SELECT i.id FROM invoices i
+      JOIN businesses b ON b.id = i.business_id
+      WHERE b.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,52 @@
+/*
+  # Create customers table
+
+  1. New Tables
+    - `customers`
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `name` (text)
+      - `email`, `phone`, `address` (text, nullable)
+      - `receivable_amount` (numeric) - what the customer currently owes the business
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `invoices.customer_id` links an invoice to a customer. `customer_name`
+      stays on the invoice as the billed-to snapshot.
+
+  3. Security
+    - Enable RLS on `customers`
+    - Owners of a business can manage its customers
+*/
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  email text,
+  phone text,
+  address text,
+  receivable_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customers_business_id_idx ON customers(business_id);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS invoices_customer_id_idx ON invoices(customer_id);
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage customers"
+  ON customers
+  FOR ALL
+  TO authenticated
+  USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+  );
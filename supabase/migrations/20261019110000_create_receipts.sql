@@ -0,0 +1,94 @@
+/*
+  # Create receipts tables
+
+  1. New Tables
+    - `receipts` - money received from customers
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `receipt_number` (text, unique per business)
+      - `receipt_date` (date)
+      - `amount` (numeric)
+      - `customer_id` (uuid, nullable, references customers)
+      - `bank_account_id` (uuid, nullable, references bank_accounts)
+      - `payment_method` (text)
+      - `reference`, `notes` (text, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+    - `receipt_allocations` - how much of a receipt settles each invoice
+      - `id` (uuid, primary key)
+      - `receipt_id` (uuid, references receipts, cascades on delete)
+      - `invoice_id` (uuid, references invoices, cascades on delete)
+      - `amount` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `invoices.amount_paid` tracks how much of each invoice has been received
+
+  3. Security
+    - Enable RLS on both tables
+    - Owners of a business can manage its receipts and allocations
+*/
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS amount_paid numeric(12, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  receipt_number text NOT NULL,
+  receipt_date date NOT NULL DEFAULT CURRENT_DATE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  bank_account_id uuid REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  payment_method text NOT NULL DEFAULT 'Other',
+  reference text,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, receipt_number)
+);
+
+CREATE TABLE IF NOT EXISTS receipt_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES receipts(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS receipts_business_id_idx ON receipts(business_id);
+CREATE INDEX IF NOT EXISTS receipts_customer_id_idx ON receipts(customer_id);
+CREATE INDEX IF NOT EXISTS receipt_allocations_receipt_id_idx ON receipt_allocations(receipt_id);
+CREATE INDEX IF NOT EXISTS receipt_allocations_invoice_id_idx ON receipt_allocations(invoice_id);
+
+ALTER TABLE receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE receipt_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage receipts"
+  ON receipts
+  FOR ALL
+  TO authenticated
+  USING (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can manage receipt allocations"
+  ON receipt_allocations
+  FOR ALL
+  TO authenticated
+  USING (
+    receipt_id IN (
+      SELECT r.id FROM receipts r
+      JOIN businesses b ON b.id = r.business_id
+      WHERE b.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    receipt_id IN (
+      SELECT r.id FROM receipts r
+      JOIN businesses b ON b.id = r.business_id
+      WHERE b.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,99 @@
+/*
+  # Bills and bill line items
+
+  1. Tables
+    - `bills` (already used by payments; created here for fresh databases)
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `bill_number` (text, unique per business)
+      - `issue_date`, `due_date` (date)
+      - `creditor_id` (uuid, references creditors)
+      - `total_amount` (numeric)
+      - `status` (text: PENDING, PARTIAL, PAID, OVERDUE)
+      - `notes` (text, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+    - `bill_line_items`
+      - `id` (uuid, primary key)
+      - `bill_id` (uuid, references bills, cascades on delete)
+      - `description` (text)
+      - `quantity` (numeric)
+      - `unit_price` (numeric)
+      - `amount` (numeric)
+      - `sort_order` (integer)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Owners of a business can manage its bills and their line items
+*/
+
+CREATE TABLE IF NOT EXISTS bills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  bill_number text NOT NULL,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date NOT NULL DEFAULT CURRENT_DATE,
+  creditor_id uuid NOT NULL REFERENCES creditors(id) ON DELETE CASCADE,
+  total_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'PARTIAL', 'PAID', 'OVERDUE')),
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, bill_number)
+);
+
+CREATE TABLE IF NOT EXISTS bill_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity numeric(12, 3) NOT NULL DEFAULT 1,
+  unit_price numeric(12, 2) NOT NULL DEFAULT 0,
+  amount numeric(12, 2) NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS bills_business_id_idx ON bills(business_id);
+CREATE INDEX IF NOT EXISTS bills_creditor_id_idx ON bills(creditor_id);
+CREATE INDEX IF NOT EXISTS bill_line_items_bill_id_idx ON bill_line_items(bill_id);
+
+ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_line_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'bills' AND policyname = 'Owners can manage bills'
+  ) THEN
+    CREATE POLICY "Owners can manage bills"
+      ON bills
+      FOR ALL
+      TO authenticated
+      USING (
+        business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+      )
+      WITH CHECK (
+        business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid())
+      );
+  END IF;
+END $$;
+
+CREATE POLICY "Owners can manage bill line items"
+  ON bill_line_items
+  FOR ALL
+  TO authenticated
+  USING (
+    bill_id IN (
+      SELECT b.id FROM bills b
+      JOIN businesses bu ON bu.id = b.business_id
+      WHERE bu.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    bill_id IN (
+      SELECT b.id FROM bills b
+      JOIN businesses bu ON bu.id = b.business_id
+      WHERE bu.owner_id = auth.uid()
+    )
+  );
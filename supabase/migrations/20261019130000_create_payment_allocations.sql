@@ -0,0 +1,57 @@
+/*
+  # Create payment allocations
+
+  1. New Tables
+    - `payment_allocations` - how much of a payment settles each bill
+      - `id` (uuid, primary key)
+      - `payment_id` (uuid, references payments, cascades on delete)
+      - `bill_id` (uuid, references bills, cascades on delete)
+      - `amount` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `bills.amount_paid` tracks how much of each bill has been paid, so a
+      bill's remaining balance is `total_amount - amount_paid`
+
+  3. Security
+    - Enable RLS on `payment_allocations`
+    - Owners of a business can manage allocations of its payments
+*/
+
+ALTER TABLE bills
+  ADD COLUMN IF NOT EXISTS amount_paid numeric(12, 2) NOT NULL DEFAULT 0;
+
+-- Bills already marked paid before allocations existed are treated as fully paid
+UPDATE bills SET amount_paid = total_amount WHERE status = 'PAID' AND amount_paid = 0;
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  bill_id uuid NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_allocations_payment_id_idx ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS payment_allocations_bill_id_idx ON payment_allocations(bill_id);
+
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage payment allocations"
+  ON payment_allocations
+  FOR ALL
+  TO authenticated
+  USING (
+    payment_id IN (
+      SELECT p.id FROM payments p
+      JOIN businesses b ON b.id = p.business_id
+      WHERE b.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    payment_id IN (
+      SELECT p.id FROM payments p
+      JOIN businesses b ON b.id = p.business_id
+      WHERE b.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,496 @@
+/*
+  # Create posting functions
+
+  1. New Functions
+    - `post_payment` - records a payment, its bill allocations, the creditor
+      outstanding change and the bank withdrawal in one transaction
+    - `update_payment` - edits a payment and re-posts the creditor outstanding
+      and bank withdrawal differences
+    - `delete_payment` - reopens allocated bills, restores the creditor
+      outstanding and removes the bank withdrawal before deleting the payment
+    - `post_receipt` / `delete_receipt` - the same for customer receipts
+    - `post_purchase` / `update_purchase` - records or edits a purchase together
+      with the creditor outstanding change
+    - `post_transaction` - inserts a bank transaction and moves the account
+      balance through `update_account_balance`
+
+  2. Helpers
+    - `adjust_creditor_outstanding`, `adjust_customer_receivable`,
+      `apply_bill_payment` and `apply_invoice_payment` apply a delta to a
+      single row, mirroring what the client used to do in several round trips
+
+  3. Notes
+    - Every function runs as the calling user (SECURITY INVOKER), so the
+      existing row level security policies still decide what can be touched
+    - Any failure raises and rolls back the whole posting
+    - `transactions.reference_id` holds ids from several tables, so it is
+      compared as text
+*/
+
+CREATE OR REPLACE FUNCTION adjust_creditor_outstanding(p_creditor_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_creditor_id IS NULL OR p_amount = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE creditors
+  SET outstanding_amount = GREATEST(0, outstanding_amount + p_amount)
+  WHERE id = p_creditor_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION adjust_customer_receivable(p_customer_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_customer_id IS NULL OR p_amount = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE customers
+  SET receivable_amount = receivable_amount + p_amount
+  WHERE id = p_customer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_bill_payment(p_bill_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE bills
+  SET amount_paid = GREATEST(0, amount_paid + p_amount),
+      status = CASE
+        WHEN GREATEST(0, amount_paid + p_amount) >= total_amount THEN 'PAID'
+        WHEN GREATEST(0, amount_paid + p_amount) > 0 THEN 'PARTIAL'
+        ELSE 'PENDING'
+      END
+  WHERE id = p_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_invoice_payment(p_invoice_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE invoices
+  SET amount_paid = GREATEST(0, amount_paid + p_amount),
+      status = CASE
+        WHEN GREATEST(0, amount_paid + p_amount) >= total_amount THEN 'PAID'
+        WHEN GREATEST(0, amount_paid + p_amount) > 0 THEN 'PARTIAL'
+        ELSE 'SENT'
+      END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payment(
+  p_business_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+  v_allocated numeric := 0;
+BEGIN
+  INSERT INTO payments (
+    business_id, payment_number, payment_date, amount, creditor_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, p_payment_number, p_payment_date, p_amount, p_creditor_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(bill_id uuid, amount numeric)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM bills
+      WHERE id = v_allocation.bill_id
+        AND business_id = p_business_id
+        AND creditor_id IS NOT DISTINCT FROM p_creditor_id
+    ) THEN
+      RAISE EXCEPTION 'Bill % does not belong to this creditor', v_allocation.bill_id;
+    END IF;
+
+    INSERT INTO payment_allocations (payment_id, bill_id, amount)
+    VALUES (v_payment.id, v_allocation.bill_id, v_allocation.amount);
+
+    PERFORM apply_bill_payment(v_allocation.bill_id, v_allocation.amount);
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the payment amount';
+  END IF;
+
+  PERFORM adjust_creditor_outstanding(p_creditor_id, -p_amount);
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, 'WIT-' || replace(p_payment_number, 'PAY-', ''), 'withdrawal', p_amount, p_payment_date,
+      COALESCE(p_transaction_description, 'Payment made'), 'Payment', v_payment.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_payment(
+  p_payment_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous payments;
+  v_payment payments;
+  v_allocated numeric;
+BEGIN
+  SELECT * INTO v_previous FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_allocated
+  FROM payment_allocations
+  WHERE payment_id = p_payment_id;
+
+  IF v_allocated > 0 THEN
+    IF p_amount < v_allocated THEN
+      RAISE EXCEPTION 'Payment amount cannot be less than the amount applied to bills';
+    END IF;
+    IF p_creditor_id IS DISTINCT FROM v_previous.creditor_id THEN
+      RAISE EXCEPTION 'Creditor cannot change while the payment is applied to bills';
+    END IF;
+  END IF;
+
+  UPDATE payments
+  SET payment_number = p_payment_number,
+      payment_date = p_payment_date,
+      amount = p_amount,
+      creditor_id = p_creditor_id,
+      bank_account_id = p_bank_account_id,
+      payment_method = p_payment_method,
+      reference = p_reference,
+      notes = p_notes
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF v_previous.creditor_id IS DISTINCT FROM p_creditor_id THEN
+    PERFORM adjust_creditor_outstanding(v_previous.creditor_id, v_previous.amount);
+    PERFORM adjust_creditor_outstanding(p_creditor_id, -p_amount);
+  ELSE
+    PERFORM adjust_creditor_outstanding(p_creditor_id, -(p_amount - v_previous.amount));
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    UPDATE transactions
+    SET account_id = p_bank_account_id,
+        amount = p_amount,
+        date = p_payment_date,
+        description = COALESCE(p_transaction_description, 'Payment made'),
+        notes = p_notes
+    WHERE reference_id::text = p_payment_id::text
+      AND type = 'withdrawal';
+
+    IF NOT FOUND THEN
+      INSERT INTO transactions (
+        business_id, account_id, transaction_number, type, amount, date,
+        description, category, reference_id, reconciled, notes
+      )
+      VALUES (
+        v_payment.business_id, p_bank_account_id, 'WIT-' || replace(p_payment_number, 'PAY-', ''), 'withdrawal', p_amount, p_payment_date,
+        COALESCE(p_transaction_description, 'Payment made'), 'Payment', p_payment_id, false, p_notes
+      );
+    END IF;
+  ELSE
+    DELETE FROM transactions
+    WHERE reference_id::text = p_payment_id::text
+      AND type = 'withdrawal';
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_payment(p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  -- Reopen the bills this payment settled before the allocations cascade away
+  FOR v_allocation IN
+    SELECT bill_id, amount FROM payment_allocations WHERE payment_id = p_payment_id
+  LOOP
+    PERFORM apply_bill_payment(v_allocation.bill_id, -v_allocation.amount);
+  END LOOP;
+
+  PERFORM adjust_creditor_outstanding(v_payment.creditor_id, v_payment.amount);
+
+  DELETE FROM transactions
+  WHERE reference_id::text = p_payment_id::text
+    AND type = 'withdrawal';
+
+  DELETE FROM payments WHERE id = p_payment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_receipt(
+  p_business_id uuid,
+  p_receipt_number text,
+  p_receipt_date date,
+  p_amount numeric,
+  p_customer_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS receipts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+  v_allocation record;
+  v_allocated numeric := 0;
+BEGIN
+  INSERT INTO receipts (
+    business_id, receipt_number, receipt_date, amount, customer_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, p_receipt_number, p_receipt_date, p_amount, p_customer_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_receipt;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(invoice_id uuid, amount numeric)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM invoices
+      WHERE id = v_allocation.invoice_id
+        AND business_id = p_business_id
+        AND customer_id IS NOT DISTINCT FROM p_customer_id
+    ) THEN
+      RAISE EXCEPTION 'Invoice % does not belong to this customer', v_allocation.invoice_id;
+    END IF;
+
+    INSERT INTO receipt_allocations (receipt_id, invoice_id, amount)
+    VALUES (v_receipt.id, v_allocation.invoice_id, v_allocation.amount);
+
+    PERFORM apply_invoice_payment(v_allocation.invoice_id, v_allocation.amount);
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the receipt amount';
+  END IF;
+
+  -- The whole receipt lowers the receivable; any unallocated part stays as customer credit
+  PERFORM adjust_customer_receivable(p_customer_id, -p_amount);
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, 'DEP-' || replace(p_receipt_number, 'RCP-', ''), 'deposit', p_amount, p_receipt_date,
+      COALESCE(p_transaction_description, 'Payment received'), 'Receipt', v_receipt.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_receipt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_receipt(p_receipt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+  v_allocation record;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt % not found', p_receipt_id;
+  END IF;
+
+  FOR v_allocation IN
+    SELECT invoice_id, amount FROM receipt_allocations WHERE receipt_id = p_receipt_id
+  LOOP
+    PERFORM apply_invoice_payment(v_allocation.invoice_id, -v_allocation.amount);
+  END LOOP;
+
+  PERFORM adjust_customer_receivable(v_receipt.customer_id, v_receipt.amount);
+
+  DELETE FROM transactions
+  WHERE reference_id::text = p_receipt_id::text
+    AND category = 'Receipt';
+
+  DELETE FROM receipts WHERE id = p_receipt_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_purchase(
+  p_business_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_item_name text,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_total_price numeric
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  INSERT INTO purchases (
+    business_id, purchase_number, purchase_date, creditor_id, description,
+    item_name, quantity, unit_price, total_price
+  )
+  VALUES (
+    p_business_id, p_purchase_number, p_purchase_date, p_creditor_id, p_description,
+    p_item_name, p_quantity, p_unit_price, p_total_price
+  )
+  RETURNING * INTO v_purchase;
+
+  PERFORM adjust_creditor_outstanding(p_creditor_id, p_total_price);
+
+  RETURN v_purchase;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_purchase(
+  p_purchase_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_item_name text,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_total_price numeric
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous purchases;
+  v_purchase purchases;
+BEGIN
+  SELECT * INTO v_previous FROM purchases WHERE id = p_purchase_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase % not found', p_purchase_id;
+  END IF;
+
+  UPDATE purchases
+  SET purchase_number = p_purchase_number,
+      purchase_date = p_purchase_date,
+      creditor_id = p_creditor_id,
+      description = p_description,
+      item_name = p_item_name,
+      quantity = p_quantity,
+      unit_price = p_unit_price,
+      total_price = p_total_price
+  WHERE id = p_purchase_id
+  RETURNING * INTO v_purchase;
+
+  IF v_previous.creditor_id IS DISTINCT FROM p_creditor_id THEN
+    PERFORM adjust_creditor_outstanding(v_previous.creditor_id, -v_previous.total_price);
+    PERFORM adjust_creditor_outstanding(p_creditor_id, p_total_price);
+  ELSE
+    PERFORM adjust_creditor_outstanding(p_creditor_id, p_total_price - v_previous.total_price);
+  END IF;
+
+  RETURN v_purchase;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transaction(
+  p_business_id uuid,
+  p_account_id uuid,
+  p_transaction_number text,
+  p_type text,
+  p_amount numeric,
+  p_date date,
+  p_description text,
+  p_category text,
+  p_reference_id uuid,
+  p_reconciled boolean,
+  p_notes text
+)
+RETURNS transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction transactions;
+BEGIN
+  INSERT INTO transactions (
+    business_id, account_id, transaction_number, type, amount, date,
+    description, category, reference_id, reconciled, notes
+  )
+  VALUES (
+    p_business_id, p_account_id, p_transaction_number, p_type, p_amount, p_date,
+    p_description, p_category, p_reference_id, p_reconciled, p_notes
+  )
+  RETURNING * INTO v_transaction;
+
+  PERFORM update_account_balance(
+    p_account_id,
+    CASE WHEN p_type = 'deposit' THEN p_amount ELSE -p_amount END
+  );
+
+  RETURN v_transaction;
+END;
+$$;
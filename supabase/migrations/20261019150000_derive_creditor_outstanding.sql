@@ -0,0 +1,405 @@
+/*
+  # Derive creditor outstanding from the ledger
+
+  1. Changes
+    - `creditors.opening_balance` holds what was owed before any purchase,
+      bill or payment was recorded in the app
+    - `creditors.outstanding_amount` is no longer adjusted by hand. It is
+      always `opening_balance + purchases + bills - payments` and may go
+      negative when a creditor has been overpaid
+    - Every creditor's opening balance is seeded as the stored balance less
+      what the app has recorded since (purchases + bills - payments), so no
+      balance moves when this migration runs. Amounts typed in when the
+      creditor was created or edited, and drift from the old hand
+      adjustments, end up in the opening balance where they can be seen and
+      corrected
+
+  2. New Views
+    - `creditor_balances` - per creditor opening balance, purchase, bill and
+      payment totals and the resulting outstanding amount
+
+  3. New Functions
+    - `creditor_ledger_total` - purchases + bills - payments for a creditor
+    - `refresh_creditor_outstanding` - rebuilds one creditor's balance
+    - `recalculate_creditor_balances` - rebuilds every creditor balance of a
+      business and returns how many were corrected
+    - Triggers on `purchases`, `bills` and `payments` refresh the old and new
+      creditor on every insert, update and delete, so deleting a purchase
+      now lowers the balance too
+
+  4. Changes to posting functions
+    - `post_payment`, `update_payment`, `delete_payment`, `post_purchase` and
+      `update_purchase` no longer adjust the balance themselves
+    - `adjust_creditor_outstanding` is dropped
+*/
+
+ALTER TABLE creditors
+  ADD COLUMN IF NOT EXISTS opening_balance numeric(12, 2) NOT NULL DEFAULT 0;
+
+-- Overpaid creditors carry a negative balance
+ALTER TABLE creditors DROP CONSTRAINT IF EXISTS creditors_outstanding_amount_check;
+
+-- Whatever the stored balance holds beyond the recorded activity was owed
+-- before the app knew about it
+UPDATE creditors c
+SET opening_balance = c.outstanding_amount
+  - COALESCE((SELECT SUM(total_price) FROM purchases WHERE creditor_id = c.id), 0)
+  - COALESCE((SELECT SUM(total_amount) FROM bills WHERE creditor_id = c.id), 0)
+  + COALESCE((SELECT SUM(amount) FROM payments WHERE creditor_id = c.id), 0);
+
+CREATE OR REPLACE FUNCTION creditor_ledger_total(p_creditor_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE((SELECT SUM(total_price) FROM purchases WHERE creditor_id = p_creditor_id), 0)
+    + COALESCE((SELECT SUM(total_amount) FROM bills WHERE creditor_id = p_creditor_id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payments WHERE creditor_id = p_creditor_id), 0);
+$$;
+
+CREATE OR REPLACE VIEW creditor_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS creditor_id,
+  c.business_id,
+  c.opening_balance,
+  COALESCE((SELECT SUM(total_price) FROM purchases WHERE creditor_id = c.id), 0) AS total_purchases,
+  COALESCE((SELECT SUM(total_amount) FROM bills WHERE creditor_id = c.id), 0) AS total_bills,
+  COALESCE((SELECT SUM(amount) FROM payments WHERE creditor_id = c.id), 0) AS total_payments,
+  c.opening_balance + creditor_ledger_total(c.id) AS outstanding_amount
+FROM creditors c;
+
+CREATE OR REPLACE FUNCTION refresh_creditor_outstanding(p_creditor_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_creditor_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE creditors
+  SET outstanding_amount = opening_balance + creditor_ledger_total(id)
+  WHERE id = p_creditor_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION recalculate_creditor_balances(p_business_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_corrected integer;
+BEGIN
+  UPDATE creditors
+  SET outstanding_amount = opening_balance + creditor_ledger_total(id)
+  WHERE business_id = p_business_id
+    AND outstanding_amount IS DISTINCT FROM opening_balance + creditor_ledger_total(id);
+
+  GET DIAGNOSTICS v_corrected = ROW_COUNT;
+  RETURN v_corrected;
+END;
+$$;
+
+-- Keeps the stored balance in step with the opening balance typed on the creditor
+CREATE OR REPLACE FUNCTION set_creditor_outstanding()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.outstanding_amount := NEW.opening_balance + creditor_ledger_total(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_creditor_outstanding ON creditors;
+CREATE TRIGGER set_creditor_outstanding
+  BEFORE INSERT OR UPDATE ON creditors
+  FOR EACH ROW EXECUTE FUNCTION set_creditor_outstanding();
+
+CREATE OR REPLACE FUNCTION refresh_creditor_outstanding_from_ledger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_creditor_outstanding(NEW.creditor_id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_creditor_outstanding(OLD.creditor_id);
+  ELSE
+    PERFORM refresh_creditor_outstanding(OLD.creditor_id);
+    IF NEW.creditor_id IS DISTINCT FROM OLD.creditor_id THEN
+      PERFORM refresh_creditor_outstanding(NEW.creditor_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_creditor_outstanding ON purchases;
+CREATE TRIGGER refresh_creditor_outstanding
+  AFTER INSERT OR UPDATE OR DELETE ON purchases
+  FOR EACH ROW EXECUTE FUNCTION refresh_creditor_outstanding_from_ledger();
+
+DROP TRIGGER IF EXISTS refresh_creditor_outstanding ON bills;
+CREATE TRIGGER refresh_creditor_outstanding
+  AFTER INSERT OR UPDATE OR DELETE ON bills
+  FOR EACH ROW EXECUTE FUNCTION refresh_creditor_outstanding_from_ledger();
+
+DROP TRIGGER IF EXISTS refresh_creditor_outstanding ON payments;
+CREATE TRIGGER refresh_creditor_outstanding
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION refresh_creditor_outstanding_from_ledger();
+
+-- Posting functions leave the balance to the triggers above
+CREATE OR REPLACE FUNCTION post_payment(
+  p_business_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+  v_allocated numeric := 0;
+BEGIN
+  INSERT INTO payments (
+    business_id, payment_number, payment_date, amount, creditor_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, p_payment_number, p_payment_date, p_amount, p_creditor_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(bill_id uuid, amount numeric)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM bills
+      WHERE id = v_allocation.bill_id
+        AND business_id = p_business_id
+        AND creditor_id IS NOT DISTINCT FROM p_creditor_id
+    ) THEN
+      RAISE EXCEPTION 'Bill % does not belong to this creditor', v_allocation.bill_id;
+    END IF;
+
+    INSERT INTO payment_allocations (payment_id, bill_id, amount)
+    VALUES (v_payment.id, v_allocation.bill_id, v_allocation.amount);
+
+    PERFORM apply_bill_payment(v_allocation.bill_id, v_allocation.amount);
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the payment amount';
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, 'WIT-' || replace(p_payment_number, 'PAY-', ''), 'withdrawal', p_amount, p_payment_date,
+      COALESCE(p_transaction_description, 'Payment made'), 'Payment', v_payment.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_payment(
+  p_payment_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous payments;
+  v_payment payments;
+  v_allocated numeric;
+BEGIN
+  SELECT * INTO v_previous FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_allocated
+  FROM payment_allocations
+  WHERE payment_id = p_payment_id;
+
+  IF v_allocated > 0 THEN
+    IF p_amount < v_allocated THEN
+      RAISE EXCEPTION 'Payment amount cannot be less than the amount applied to bills';
+    END IF;
+    IF p_creditor_id IS DISTINCT FROM v_previous.creditor_id THEN
+      RAISE EXCEPTION 'Creditor cannot change while the payment is applied to bills';
+    END IF;
+  END IF;
+
+  UPDATE payments
+  SET payment_number = p_payment_number,
+      payment_date = p_payment_date,
+      amount = p_amount,
+      creditor_id = p_creditor_id,
+      bank_account_id = p_bank_account_id,
+      payment_method = p_payment_method,
+      reference = p_reference,
+      notes = p_notes
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    UPDATE transactions
+    SET account_id = p_bank_account_id,
+        amount = p_amount,
+        date = p_payment_date,
+        description = COALESCE(p_transaction_description, 'Payment made'),
+        notes = p_notes
+    WHERE reference_id::text = p_payment_id::text
+      AND type = 'withdrawal';
+
+    IF NOT FOUND THEN
+      INSERT INTO transactions (
+        business_id, account_id, transaction_number, type, amount, date,
+        description, category, reference_id, reconciled, notes
+      )
+      VALUES (
+        v_payment.business_id, p_bank_account_id, 'WIT-' || replace(p_payment_number, 'PAY-', ''), 'withdrawal', p_amount, p_payment_date,
+        COALESCE(p_transaction_description, 'Payment made'), 'Payment', p_payment_id, false, p_notes
+      );
+    END IF;
+  ELSE
+    DELETE FROM transactions
+    WHERE reference_id::text = p_payment_id::text
+      AND type = 'withdrawal';
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_payment(p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  -- Reopen the bills this payment settled before the allocations cascade away
+  FOR v_allocation IN
+    SELECT bill_id, amount FROM payment_allocations WHERE payment_id = p_payment_id
+  LOOP
+    PERFORM apply_bill_payment(v_allocation.bill_id, -v_allocation.amount);
+  END LOOP;
+
+  DELETE FROM transactions
+  WHERE reference_id::text = p_payment_id::text
+    AND type = 'withdrawal';
+
+  DELETE FROM payments WHERE id = p_payment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_purchase(
+  p_business_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_item_name text,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_total_price numeric
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  INSERT INTO purchases (
+    business_id, purchase_number, purchase_date, creditor_id, description,
+    item_name, quantity, unit_price, total_price
+  )
+  VALUES (
+    p_business_id, p_purchase_number, p_purchase_date, p_creditor_id, p_description,
+    p_item_name, p_quantity, p_unit_price, p_total_price
+  )
+  RETURNING * INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_purchase(
+  p_purchase_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_item_name text,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_total_price numeric
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous purchases;
+  v_purchase purchases;
+BEGIN
+  SELECT * INTO v_previous FROM purchases WHERE id = p_purchase_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase % not found', p_purchase_id;
+  END IF;
+
+  UPDATE purchases
+  SET purchase_number = p_purchase_number,
+      purchase_date = p_purchase_date,
+      creditor_id = p_creditor_id,
+      description = p_description,
+      item_name = p_item_name,
+      quantity = p_quantity,
+      unit_price = p_unit_price,
+      total_price = p_total_price
+  WHERE id = p_purchase_id
+  RETURNING * INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS adjust_creditor_outstanding(uuid, numeric);
@@ -0,0 +1,111 @@
+/*
+  # Keep bank balances in sync with their transactions
+
+  1. New Functions
+    - `transaction_balance_effect` - how much a transaction moves its account:
+      deposits add, withdrawals and transfers subtract
+    - `apply_transaction_balance` - trigger that reverses the old effect and
+      applies the new one on every insert, update and delete of a transaction,
+      so edits, deletes and the payment and receipt postings all move
+      `bank_accounts.current_balance` through `update_account_balance`
+    - `recompute_account_balance` - rebuilds an account's current balance from
+      its opening balance and every transaction on it, returning the balance
+      before and after so drift can be audited
+
+  2. Changes
+    - `post_transaction` no longer moves the balance itself; the trigger does
+*/
+
+CREATE OR REPLACE FUNCTION transaction_balance_effect(p_type text, p_amount numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN p_type = 'deposit' THEN p_amount ELSE -p_amount END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_transaction_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM update_account_balance(OLD.account_id, -transaction_balance_effect(OLD.type, OLD.amount));
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM update_account_balance(NEW.account_id, transaction_balance_effect(NEW.type, NEW.amount));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_transaction_balance ON transactions;
+CREATE TRIGGER apply_transaction_balance
+  AFTER INSERT OR DELETE OR UPDATE OF account_id, type, amount ON transactions
+  FOR EACH ROW EXECUTE FUNCTION apply_transaction_balance();
+
+CREATE OR REPLACE FUNCTION recompute_account_balance(p_account_id uuid)
+RETURNS TABLE (previous_balance numeric, recomputed_balance numeric)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous numeric;
+  v_recomputed numeric;
+BEGIN
+  SELECT a.current_balance,
+         a.opening_balance + COALESCE((
+           SELECT SUM(transaction_balance_effect(t.type, t.amount))
+           FROM transactions t
+           WHERE t.account_id = a.id
+         ), 0)
+  INTO v_previous, v_recomputed
+  FROM bank_accounts a
+  WHERE a.id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account % not found', p_account_id;
+  END IF;
+
+  UPDATE bank_accounts
+  SET current_balance = v_recomputed
+  WHERE id = p_account_id;
+
+  RETURN QUERY SELECT v_previous, v_recomputed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transaction(
+  p_business_id uuid,
+  p_account_id uuid,
+  p_transaction_number text,
+  p_type text,
+  p_amount numeric,
+  p_date date,
+  p_description text,
+  p_category text,
+  p_reference_id uuid,
+  p_reconciled boolean,
+  p_notes text
+)
+RETURNS transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction transactions;
+BEGIN
+  INSERT INTO transactions (
+    business_id, account_id, transaction_number, type, amount, date,
+    description, category, reference_id, reconciled, notes
+  )
+  VALUES (
+    p_business_id, p_account_id, p_transaction_number, p_type, p_amount, p_date,
+    p_description, p_category, p_reference_id, p_reconciled, p_notes
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
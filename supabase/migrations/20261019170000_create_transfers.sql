@@ -0,0 +1,222 @@
+/*
+  # Create transfers
+
+  1. New Tables
+    - `transfers` - money moved between two bank accounts of a business
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `transfer_number` (text, unique per business)
+      - `transfer_date` (date)
+      - `from_account_id` (uuid, references bank_accounts)
+      - `to_account_id` (uuid, references bank_accounts, differs from the source)
+      - `amount` (numeric)
+      - `reference` (text, nullable)
+      - `notes` (text, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `transactions.transfer_id` links the two legs of a transfer: a
+      withdrawal from the source account and a deposit into the destination,
+      so the existing balance trigger moves both accounts
+    - Editing the amount, date or notes of either leg carries over to the
+      other leg and the transfer; moving a leg to another account updates
+      the transfer's source or destination
+    - Deleting either leg deletes the transfer and with it the other leg
+
+  3. New Functions
+    - `post_transfer`, `update_transfer` and `delete_transfer` write the
+      transfer and both legs in one transaction
+
+  4. Security
+    - Enable RLS on `transfers`
+    - Owners of a business can manage its transfers
+*/
+
+CREATE TABLE IF NOT EXISTS transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  transfer_number text NOT NULL,
+  transfer_date date NOT NULL DEFAULT CURRENT_DATE,
+  from_account_id uuid NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  to_account_id uuid NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  reference text,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, transfer_number),
+  CHECK (from_account_id <> to_account_id)
+);
+
+CREATE INDEX IF NOT EXISTS transfers_business_id_idx ON transfers(business_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transfer_id uuid REFERENCES transfers(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS transactions_transfer_id_idx ON transactions(transfer_id);
+
+ALTER TABLE transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage transfers"
+  ON transfers
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION transfer_description(p_from_account_id uuid, p_to_account_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'Transfer from ' || f.name || ' to ' || t.name
+  FROM bank_accounts f, bank_accounts t
+  WHERE f.id = p_from_account_id AND t.id = p_to_account_id;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transfer(
+  p_business_id uuid,
+  p_transfer_number text,
+  p_transfer_date date,
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_notes text
+)
+RETURNS transfers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers;
+  v_description text := transfer_description(p_from_account_id, p_to_account_id);
+BEGIN
+  INSERT INTO transfers (
+    business_id, transfer_number, transfer_date, from_account_id, to_account_id,
+    amount, reference, notes
+  )
+  VALUES (
+    p_business_id, p_transfer_number, p_transfer_date, p_from_account_id, p_to_account_id,
+    p_amount, p_reference, p_notes
+  )
+  RETURNING * INTO v_transfer;
+
+  INSERT INTO transactions (
+    business_id, account_id, transaction_number, type, amount, date,
+    description, category, transfer_id, reconciled, notes
+  )
+  VALUES
+    (p_business_id, p_from_account_id, p_transfer_number || '-OUT', 'withdrawal', p_amount, p_transfer_date,
+     v_description, 'Transfer', v_transfer.id, false, p_notes),
+    (p_business_id, p_to_account_id, p_transfer_number || '-IN', 'deposit', p_amount, p_transfer_date,
+     v_description, 'Transfer', v_transfer.id, false, p_notes);
+
+  RETURN v_transfer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_transfer(
+  p_transfer_id uuid,
+  p_transfer_number text,
+  p_transfer_date date,
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_notes text
+)
+RETURNS transfers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers;
+  v_description text := transfer_description(p_from_account_id, p_to_account_id);
+BEGIN
+  UPDATE transfers
+  SET transfer_number = p_transfer_number,
+      transfer_date = p_transfer_date,
+      from_account_id = p_from_account_id,
+      to_account_id = p_to_account_id,
+      amount = p_amount,
+      reference = p_reference,
+      notes = p_notes,
+      updated_at = now()
+  WHERE id = p_transfer_id
+  RETURNING * INTO v_transfer;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  UPDATE transactions
+  SET account_id = CASE WHEN type = 'withdrawal' THEN p_from_account_id ELSE p_to_account_id END,
+      transaction_number = p_transfer_number || CASE WHEN type = 'withdrawal' THEN '-OUT' ELSE '-IN' END,
+      amount = p_amount,
+      date = p_transfer_date,
+      description = v_description,
+      notes = p_notes
+  WHERE transfer_id = p_transfer_id;
+
+  RETURN v_transfer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_transfer(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Removing the legs first lets the balance trigger reverse both accounts
+  DELETE FROM transactions WHERE transfer_id = p_transfer_id;
+  DELETE FROM transfers WHERE id = p_transfer_id;
+END;
+$$;
+
+-- Changes made to a single leg are mirrored onto its transfer and the other leg
+CREATE OR REPLACE FUNCTION sync_transfer_legs()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM transfers WHERE id = OLD.transfer_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE transfers
+  SET amount = NEW.amount,
+      transfer_date = NEW.date,
+      notes = NEW.notes,
+      from_account_id = CASE WHEN NEW.type = 'withdrawal' THEN NEW.account_id ELSE from_account_id END,
+      to_account_id = CASE WHEN NEW.type = 'deposit' THEN NEW.account_id ELSE to_account_id END,
+      updated_at = now()
+  WHERE id = NEW.transfer_id;
+
+  UPDATE transactions
+  SET amount = NEW.amount,
+      date = NEW.date,
+      notes = NEW.notes
+  WHERE transfer_id = NEW.transfer_id
+    AND id <> NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_transfer_legs ON transactions;
+CREATE TRIGGER sync_transfer_legs
+  AFTER UPDATE OF account_id, amount, date, notes ON transactions
+  FOR EACH ROW
+  WHEN (NEW.transfer_id IS NOT NULL)
+  EXECUTE FUNCTION sync_transfer_legs();
+
+DROP TRIGGER IF EXISTS delete_transfer_with_leg ON transactions;
+CREATE TRIGGER delete_transfer_with_leg
+  AFTER DELETE ON transactions
+  FOR EACH ROW
+  WHEN (OLD.transfer_id IS NOT NULL)
+  EXECUTE FUNCTION sync_transfer_legs();
@@ -0,0 +1,206 @@
+/*
+  # Create bank reconciliations
+
+  1. New Tables
+    - `reconciliations` - a bank statement matched against an account's transactions
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `account_id` (uuid, references bank_accounts)
+      - `statement_date` (date, the statement closing date)
+      - `opening_balance` (numeric, the previous statement's closing balance)
+      - `closing_balance` (numeric, the statement closing balance)
+      - `cleared_count` (integer, transactions ticked off)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `transactions.reconciliation_id` records which reconciliation cleared a transaction
+    - Once reconciled, a transaction's account, type, amount and date can no
+      longer be changed and it cannot be deleted
+    - No transaction can be added or moved on or before the account's latest
+      reconciled statement date
+
+  3. New Functions
+    - `complete_reconciliation` - marks the cleared transactions reconciled and
+      records the statement, refusing when the cleared balance does not match
+    - `undo_reconciliation` - reopens the latest reconciliation of an account
+
+  4. Security
+    - Enable RLS on `reconciliations`
+    - Owners of a business can manage its reconciliations
+*/
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  statement_date date NOT NULL,
+  opening_balance numeric(12, 2) NOT NULL,
+  closing_balance numeric(12, 2) NOT NULL,
+  cleared_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (account_id, statement_date)
+);
+
+CREATE INDEX IF NOT EXISTS reconciliations_account_id_idx ON reconciliations(account_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS reconciliation_id uuid REFERENCES reconciliations(id) ON DELETE SET NULL;
+
+ALTER TABLE reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage reconciliations"
+  ON reconciliations
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION reconciled_through(p_account_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT MAX(statement_date) FROM reconciliations WHERE account_id = p_account_id;
+$$;
+
+CREATE OR REPLACE FUNCTION protect_reconciled_transactions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_locked_through date;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Rows removed because their account was deleted are let through
+    IF OLD.reconciled AND EXISTS (SELECT 1 FROM bank_accounts WHERE id = OLD.account_id) THEN
+      RAISE EXCEPTION 'Transaction % is reconciled and cannot be deleted', OLD.transaction_number;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Ticking off, notes and descriptions stay editable
+    IF NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+       AND NEW.type IS NOT DISTINCT FROM OLD.type
+       AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+       AND NEW.date IS NOT DISTINCT FROM OLD.date THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.reconciled THEN
+      RAISE EXCEPTION 'Transaction % is reconciled and cannot be changed', OLD.transaction_number;
+    END IF;
+
+    IF NEW.date IS NOT DISTINCT FROM OLD.date AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  v_locked_through := reconciled_through(NEW.account_id);
+  IF v_locked_through IS NOT NULL AND NEW.date <= v_locked_through THEN
+    RAISE EXCEPTION 'The account is reconciled through %; choose a later date', v_locked_through;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_reconciled_transactions ON transactions;
+CREATE TRIGGER protect_reconciled_transactions
+  BEFORE INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION protect_reconciled_transactions();
+
+CREATE OR REPLACE FUNCTION complete_reconciliation(
+  p_account_id uuid,
+  p_statement_date date,
+  p_closing_balance numeric,
+  p_transaction_ids uuid[]
+)
+RETURNS reconciliations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_account bank_accounts;
+  v_previous reconciliations;
+  v_opening numeric;
+  v_cleared numeric;
+  v_count integer;
+  v_reconciliation reconciliations;
+BEGIN
+  SELECT * INTO v_account FROM bank_accounts WHERE id = p_account_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account % not found', p_account_id;
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM reconciliations
+  WHERE account_id = p_account_id
+  ORDER BY statement_date DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NOT NULL AND p_statement_date <= v_previous.statement_date THEN
+    RAISE EXCEPTION 'Statement date must be after the last reconciled date %', v_previous.statement_date;
+  END IF;
+
+  v_opening := COALESCE(v_previous.closing_balance, v_account.opening_balance);
+
+  SELECT COALESCE(SUM(transaction_balance_effect(type, amount)), 0), COUNT(*)
+  INTO v_cleared, v_count
+  FROM transactions
+  WHERE id = ANY(p_transaction_ids)
+    AND account_id = p_account_id
+    AND NOT reconciled
+    AND date <= p_statement_date;
+
+  IF v_count <> COALESCE(array_length(p_transaction_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some selected transactions are already reconciled or fall after the statement date';
+  END IF;
+
+  IF v_opening + v_cleared <> p_closing_balance THEN
+    RAISE EXCEPTION 'Cleared balance % does not match the statement balance %',
+      v_opening + v_cleared, p_closing_balance;
+  END IF;
+
+  INSERT INTO reconciliations (
+    business_id, account_id, statement_date, opening_balance, closing_balance, cleared_count
+  )
+  VALUES (
+    v_account.business_id, p_account_id, p_statement_date, v_opening, p_closing_balance, v_count
+  )
+  RETURNING * INTO v_reconciliation;
+
+  UPDATE transactions
+  SET reconciled = true,
+      reconciliation_id = v_reconciliation.id
+  WHERE id = ANY(p_transaction_ids);
+
+  RETURN v_reconciliation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_reconciliation(p_reconciliation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reconciliation reconciliations;
+BEGIN
+  SELECT * INTO v_reconciliation FROM reconciliations WHERE id = p_reconciliation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation % not found', p_reconciliation_id;
+  END IF;
+
+  IF v_reconciliation.statement_date < reconciled_through(v_reconciliation.account_id) THEN
+    RAISE EXCEPTION 'Only the latest reconciliation of an account can be undone';
+  END IF;
+
+  UPDATE transactions
+  SET reconciled = false,
+      reconciliation_id = NULL
+  WHERE reconciliation_id = p_reconciliation_id;
+
+  DELETE FROM reconciliations WHERE id = p_reconciliation_id;
+END;
+$$;
@@ -0,0 +1,226 @@
+/*
+  # Match bank transactions to payments, receipts and bills
+
+  1. New Tables
+    - `match_rules` - learned "description contains X → party" rules
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `pattern` (text, matched case-insensitively against descriptions)
+      - `creditor_id` (uuid, nullable, references creditors)
+      - `customer_id` (uuid, nullable, references customers)
+      - `hits` (integer, times the rule was confirmed)
+      - `created_at`, `updated_at` (timestamptz)
+    - `match_rejections` - suggestions the user turned down, so they are not offered again
+      - `transaction_id` (uuid, references transactions)
+      - `document_type` (text, payment, receipt or bill)
+      - `document_id` (uuid)
+
+  2. Changes
+    - `transactions.matched` marks a transaction the user confirmed against a document
+
+  3. New Functions
+    - `accept_transaction_match` links a bank transaction to the document it settles:
+      - a payment or receipt takes the transaction as its bank leg, replacing
+        any leg it had posted itself so the account is not moved twice
+      - a bill gets a new payment whose bank leg is the transaction
+      - when a pattern is given, the rule for that party is learned or strengthened
+
+  4. Security
+    - Enable RLS on both tables
+    - Owners of a business can manage their rules and rejections
+*/
+
+CREATE TABLE IF NOT EXISTS match_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  pattern text NOT NULL,
+  creditor_id uuid REFERENCES creditors(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES customers(id) ON DELETE CASCADE,
+  hits integer NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((creditor_id IS NULL) <> (customer_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS match_rules_pattern_idx
+  ON match_rules(business_id, lower(pattern));
+
+CREATE TABLE IF NOT EXISTS match_rejections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('payment', 'receipt', 'bill')),
+  document_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (transaction_id, document_type, document_id)
+);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS matched boolean NOT NULL DEFAULT false;
+
+ALTER TABLE match_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE match_rejections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage match rules"
+  ON match_rules
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage match rejections"
+  ON match_rejections
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION accept_transaction_match(
+  p_transaction_id uuid,
+  p_document_type text,
+  p_document_id uuid,
+  p_payment_number text DEFAULT NULL,
+  p_rule_pattern text DEFAULT NULL
+)
+RETURNS transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction transactions;
+  v_payment payments;
+  v_receipt receipts;
+  v_bill bills;
+  v_applied numeric;
+  v_creditor_id uuid;
+  v_customer_id uuid;
+BEGIN
+  SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF v_transaction.reference_id IS NOT NULL OR v_transaction.transfer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transaction % is already linked', v_transaction.transaction_number;
+  END IF;
+
+  IF p_document_type = 'payment' THEN
+    IF v_transaction.type <> 'withdrawal' THEN
+      RAISE EXCEPTION 'Only withdrawals can settle a payment';
+    END IF;
+
+    SELECT * INTO v_payment FROM payments WHERE id = p_document_id FOR UPDATE;
+    IF NOT FOUND OR v_payment.amount <> v_transaction.amount THEN
+      RAISE EXCEPTION 'Payment % does not match this transaction', p_document_id;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM transactions
+      WHERE reference_id::text = p_document_id::text AND type = 'withdrawal' AND matched
+    ) THEN
+      RAISE EXCEPTION 'Payment % is already matched', v_payment.payment_number;
+    END IF;
+
+    DELETE FROM transactions
+    WHERE reference_id::text = p_document_id::text
+      AND type = 'withdrawal';
+
+    UPDATE payments SET bank_account_id = v_transaction.account_id WHERE id = p_document_id;
+    UPDATE transactions
+    SET reference_id = p_document_id, category = 'Payment', matched = true
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    v_creditor_id := v_payment.creditor_id;
+
+  ELSIF p_document_type = 'receipt' THEN
+    IF v_transaction.type <> 'deposit' THEN
+      RAISE EXCEPTION 'Only deposits can settle a receipt';
+    END IF;
+
+    SELECT * INTO v_receipt FROM receipts WHERE id = p_document_id FOR UPDATE;
+    IF NOT FOUND OR v_receipt.amount <> v_transaction.amount THEN
+      RAISE EXCEPTION 'Receipt % does not match this transaction', p_document_id;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM transactions
+      WHERE reference_id::text = p_document_id::text AND category = 'Receipt' AND matched
+    ) THEN
+      RAISE EXCEPTION 'Receipt % is already matched', v_receipt.receipt_number;
+    END IF;
+
+    DELETE FROM transactions
+    WHERE reference_id::text = p_document_id::text
+      AND category = 'Receipt';
+
+    UPDATE receipts SET bank_account_id = v_transaction.account_id WHERE id = p_document_id;
+    UPDATE transactions
+    SET reference_id = p_document_id, category = 'Receipt', matched = true
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    v_customer_id := v_receipt.customer_id;
+
+  ELSIF p_document_type = 'bill' THEN
+    IF v_transaction.type <> 'withdrawal' THEN
+      RAISE EXCEPTION 'Only withdrawals can pay a bill';
+    END IF;
+
+    IF p_payment_number IS NULL THEN
+      RAISE EXCEPTION 'A payment number is needed to pay a bill';
+    END IF;
+
+    SELECT * INTO v_bill FROM bills WHERE id = p_document_id FOR UPDATE;
+    IF NOT FOUND OR v_bill.total_amount - v_bill.amount_paid <= 0 THEN
+      RAISE EXCEPTION 'Bill % has nothing left to pay', p_document_id;
+    END IF;
+
+    -- Anything above the bill balance stays on the payment as an advance
+    v_applied := LEAST(v_transaction.amount, v_bill.total_amount - v_bill.amount_paid);
+
+    INSERT INTO payments (
+      business_id, payment_number, payment_date, amount, creditor_id,
+      bank_account_id, payment_method, reference, notes
+    )
+    VALUES (
+      v_transaction.business_id, p_payment_number, v_transaction.date, v_transaction.amount, v_bill.creditor_id,
+      v_transaction.account_id, 'Bank Transfer', v_transaction.transaction_number, v_transaction.description
+    )
+    RETURNING * INTO v_payment;
+
+    INSERT INTO payment_allocations (payment_id, bill_id, amount)
+    VALUES (v_payment.id, v_bill.id, v_applied);
+
+    PERFORM apply_bill_payment(v_bill.id, v_applied);
+
+    UPDATE transactions
+    SET reference_id = v_payment.id, category = 'Payment', matched = true
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    v_creditor_id := v_bill.creditor_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown document type %', p_document_type;
+  END IF;
+
+  IF NULLIF(trim(p_rule_pattern), '') IS NOT NULL
+     AND (v_creditor_id IS NOT NULL OR v_customer_id IS NOT NULL) THEN
+    INSERT INTO match_rules (business_id, pattern, creditor_id, customer_id)
+    VALUES (v_transaction.business_id, trim(p_rule_pattern), v_creditor_id, v_customer_id)
+    ON CONFLICT (business_id, lower(pattern)) DO UPDATE
+    SET creditor_id = EXCLUDED.creditor_id,
+        customer_id = EXCLUDED.customer_id,
+        hits = CASE
+          WHEN match_rules.creditor_id IS NOT DISTINCT FROM EXCLUDED.creditor_id
+           AND match_rules.customer_id IS NOT DISTINCT FROM EXCLUDED.customer_id
+          THEN match_rules.hits + 1
+          ELSE 1
+        END,
+        updated_at = now();
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$;
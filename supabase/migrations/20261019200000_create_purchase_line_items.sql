@@ -0,0 +1,209 @@
+/*
+  # Purchase line items
+
+  1. New Tables
+    - `purchase_line_items`
+      - `id` (uuid, primary key)
+      - `purchase_id` (uuid, references purchases, cascades on delete)
+      - `item_name` (text)
+      - `quantity` (numeric)
+      - `unit` (text, nullable, e.g. pcs, kg, box)
+      - `rate` (numeric)
+      - `discount_percent` (numeric, taken off quantity × rate)
+      - `tax_percent` (numeric, charged on the discounted amount)
+      - `taxable_amount`, `tax_amount`, `amount` (numeric, worked out by the database)
+      - `sort_order` (integer)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `purchases.subtotal` and `purchases.tax_amount` hold the header totals;
+      `purchases.total_price` stays the grand total the creditor ledger reads
+    - `purchases.item_name` now summarises the lines ("Cement +2 more") for lists
+    - Existing single-item purchases become one line each, after which
+      `purchases.quantity` and `purchases.unit_price` are dropped
+
+  3. Functions
+    - `post_purchase` and `update_purchase` take the lines as JSON, price each
+      line and write the header totals in the same transaction
+    - `purchase_line_summary` builds the list summary
+
+  4. Security
+    - Enable RLS on `purchase_line_items`
+    - Owners of a business can manage the lines of its purchases
+*/
+
+CREATE TABLE IF NOT EXISTS purchase_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_id uuid NOT NULL REFERENCES purchases(id) ON DELETE CASCADE,
+  item_name text NOT NULL,
+  quantity numeric(12, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit text,
+  rate numeric(12, 2) NOT NULL DEFAULT 0 CHECK (rate >= 0),
+  discount_percent numeric(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  tax_percent numeric(5, 2) NOT NULL DEFAULT 0 CHECK (tax_percent >= 0),
+  taxable_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  amount numeric(12, 2) NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_line_items_purchase_id_idx ON purchase_line_items(purchase_id);
+
+ALTER TABLE purchases
+  ADD COLUMN IF NOT EXISTS subtotal numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+INSERT INTO purchase_line_items (
+  purchase_id, item_name, quantity, rate, taxable_amount, amount, sort_order
+)
+SELECT p.id, p.item_name, p.quantity, p.unit_price, p.total_price, p.total_price, 0
+FROM purchases p
+WHERE NOT EXISTS (SELECT 1 FROM purchase_line_items l WHERE l.purchase_id = p.id);
+
+UPDATE purchases SET subtotal = total_price, tax_amount = 0;
+
+ALTER TABLE purchases
+  DROP COLUMN IF EXISTS quantity,
+  DROP COLUMN IF EXISTS unit_price;
+
+ALTER TABLE purchase_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage purchase line items"
+  ON purchase_line_items
+  FOR ALL
+  TO authenticated
+  USING (
+    purchase_id IN (
+      SELECT p.id FROM purchases p
+      JOIN businesses bu ON bu.id = p.business_id
+      WHERE bu.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    purchase_id IN (
+      SELECT p.id FROM purchases p
+      JOIN businesses bu ON bu.id = p.business_id
+      WHERE bu.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION purchase_line_summary(p_purchase_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (array_agg(item_name ORDER BY sort_order))[1]
+    || CASE WHEN COUNT(*) > 1 THEN ' +' || (COUNT(*) - 1) || ' more' ELSE '' END
+  FROM purchase_line_items
+  WHERE purchase_id = p_purchase_id;
+$$;
+
+-- Replaces a purchase's lines and rewrites its header totals from them
+CREATE OR REPLACE FUNCTION write_purchase_lines(p_purchase_id uuid, p_line_items jsonb)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A purchase needs at least one line';
+  END IF;
+
+  DELETE FROM purchase_line_items WHERE purchase_id = p_purchase_id;
+
+  INSERT INTO purchase_line_items (
+    purchase_id, item_name, quantity, unit, rate, discount_percent, tax_percent,
+    taxable_amount, tax_amount, amount, sort_order
+  )
+  SELECT
+    p_purchase_id, l.item_name, l.quantity, NULLIF(trim(l.unit), ''), l.rate,
+    COALESCE(l.discount_percent, 0), COALESCE(l.tax_percent, 0),
+    priced.taxable, priced.tax, priced.taxable + priced.tax,
+    (l.ordinality - 1)::integer
+  FROM jsonb_to_recordset(p_line_items) WITH ORDINALITY AS l(
+    item_name text, quantity numeric, unit text, rate numeric,
+    discount_percent numeric, tax_percent numeric, ordinality bigint
+  )
+  CROSS JOIN LATERAL (
+    SELECT round(l.quantity * l.rate * (1 - COALESCE(l.discount_percent, 0) / 100), 2) AS taxable
+  ) base
+  CROSS JOIN LATERAL (
+    SELECT base.taxable, round(base.taxable * COALESCE(l.tax_percent, 0) / 100, 2) AS tax
+  ) priced;
+
+  UPDATE purchases p
+  SET subtotal = totals.subtotal,
+      tax_amount = totals.tax,
+      total_price = totals.subtotal + totals.tax,
+      item_name = purchase_line_summary(p_purchase_id)
+  FROM (
+    SELECT COALESCE(SUM(taxable_amount), 0) AS subtotal, COALESCE(SUM(tax_amount), 0) AS tax
+    FROM purchase_line_items
+    WHERE purchase_id = p_purchase_id
+  ) totals
+  WHERE p.id = p_purchase_id
+  RETURNING p.* INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS post_purchase(uuid, text, date, uuid, text, text, numeric, numeric, numeric);
+DROP FUNCTION IF EXISTS update_purchase(uuid, text, date, uuid, text, text, numeric, numeric, numeric);
+
+CREATE OR REPLACE FUNCTION post_purchase(
+  p_business_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_line_items jsonb
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  INSERT INTO purchases (
+    business_id, purchase_number, purchase_date, creditor_id, description,
+    item_name, total_price
+  )
+  VALUES (
+    p_business_id, p_purchase_number, p_purchase_date, p_creditor_id, p_description,
+    '', 0
+  )
+  RETURNING * INTO v_purchase;
+
+  RETURN write_purchase_lines(v_purchase.id, p_line_items);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_purchase(
+  p_purchase_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_line_items jsonb
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE purchases
+  SET purchase_number = p_purchase_number,
+      purchase_date = p_purchase_date,
+      creditor_id = p_creditor_id,
+      description = p_description
+  WHERE id = p_purchase_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase % not found', p_purchase_id;
+  END IF;
+
+  RETURN write_purchase_lines(p_purchase_id, p_line_items);
+END;
+$$;
@@ -0,0 +1,263 @@
+/*
+  # GST on purchases, bills and invoices
+
+  1. Changes
+    - `creditors` and `customers` get `gstin` and `state_code` (two-digit GST state code)
+    - `purchases`, `bills` and `invoices` get:
+      - `place_of_supply` (state code of the counterparty for this document)
+      - `reverse_charge` (boolean; the recipient pays the tax to the government,
+        so it is left out of the amount settled with the counterparty)
+      - `cgst_amount`, `sgst_amount`, `igst_amount` (numeric)
+    - `bills` and `invoices` also get `subtotal` and `tax_amount`; `total_amount`
+      stays what the counterparty settles
+    - Every line table gets `hsn_code` and the CGST/SGST/IGST split of its tax;
+      bill and invoice lines also get `tax_percent`, `taxable_amount` and
+      `tax_amount`, with `amount` now including tax
+    - Line rates are limited to the GST slabs 0, 5, 12, 18 and 28%
+    - Existing bills and invoices are carried over as untaxed; existing purchase
+      tax is split as a local supply
+
+  2. Functions
+    - `business_state_code` reads the state from the business GSTIN (`tax_id`)
+    - `write_purchase_lines` splits tax into CGST+SGST for local supplies and
+      IGST when the place of supply is another state, and honours reverse charge
+    - `post_purchase` and `update_purchase` take the place of supply and the
+      reverse charge flag
+*/
+
+ALTER TABLE creditors
+  ADD COLUMN IF NOT EXISTS gstin text,
+  ADD COLUMN IF NOT EXISTS state_code text;
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS gstin text,
+  ADD COLUMN IF NOT EXISTS state_code text;
+
+ALTER TABLE purchases
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS reverse_charge boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bills
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS reverse_charge boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS subtotal numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS reverse_charge boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS subtotal numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE purchase_line_items
+  ADD COLUMN IF NOT EXISTS hsn_code text,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bill_line_items
+  ADD COLUMN IF NOT EXISTS hsn_code text,
+  ADD COLUMN IF NOT EXISTS tax_percent numeric(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS taxable_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE invoice_line_items
+  ADD COLUMN IF NOT EXISTS hsn_code text,
+  ADD COLUMN IF NOT EXISTS tax_percent numeric(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS taxable_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+UPDATE bill_line_items SET taxable_amount = amount;
+UPDATE invoice_line_items SET taxable_amount = amount;
+UPDATE bills SET subtotal = total_amount;
+UPDATE invoices SET subtotal = total_amount;
+
+UPDATE purchase_line_items
+SET cgst_amount = round(tax_amount / 2, 2),
+    sgst_amount = tax_amount - round(tax_amount / 2, 2);
+
+UPDATE purchases p
+SET cgst_amount = totals.cgst,
+    sgst_amount = totals.sgst
+FROM (
+  SELECT purchase_id, SUM(cgst_amount) AS cgst, SUM(sgst_amount) AS sgst
+  FROM purchase_line_items
+  GROUP BY purchase_id
+) totals
+WHERE totals.purchase_id = p.id;
+
+ALTER TABLE bill_line_items
+  ADD CONSTRAINT bill_line_items_gst_rate_check CHECK (tax_percent IN (0, 5, 12, 18, 28));
+
+ALTER TABLE invoice_line_items
+  ADD CONSTRAINT invoice_line_items_gst_rate_check CHECK (tax_percent IN (0, 5, 12, 18, 28));
+
+-- Purchases entered before GST support may carry other rates, so only new rows are checked
+ALTER TABLE purchase_line_items
+  ADD CONSTRAINT purchase_line_items_gst_rate_check CHECK (tax_percent IN (0, 5, 12, 18, 28)) NOT VALID;
+
+-- The first two characters of a GSTIN are the state it was issued in
+CREATE OR REPLACE FUNCTION business_state_code(p_business_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN upper(trim(tax_id)) ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'
+    THEN left(trim(tax_id), 2)
+  END
+  FROM businesses
+  WHERE id = p_business_id;
+$$;
+
+CREATE OR REPLACE FUNCTION write_purchase_lines(p_purchase_id uuid, p_line_items jsonb)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+  v_business_state text;
+  v_inter_state boolean;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A purchase needs at least one line';
+  END IF;
+
+  SELECT * INTO v_purchase FROM purchases WHERE id = p_purchase_id;
+  v_business_state := business_state_code(v_purchase.business_id);
+
+  -- Unknown states are priced as a local supply
+  v_inter_state := v_business_state IS NOT NULL
+    AND v_purchase.place_of_supply IS NOT NULL
+    AND v_business_state <> v_purchase.place_of_supply;
+
+  DELETE FROM purchase_line_items WHERE purchase_id = p_purchase_id;
+
+  INSERT INTO purchase_line_items (
+    purchase_id, item_name, hsn_code, quantity, unit, rate, discount_percent, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, sort_order
+  )
+  SELECT
+    p_purchase_id, l.item_name, NULLIF(trim(l.hsn_code), ''), l.quantity, NULLIF(trim(l.unit), ''), l.rate,
+    COALESCE(l.discount_percent, 0), COALESCE(l.tax_percent, 0),
+    priced.taxable, priced.tax,
+    CASE WHEN v_inter_state THEN 0 ELSE round(priced.tax / 2, 2) END,
+    CASE WHEN v_inter_state THEN 0 ELSE priced.tax - round(priced.tax / 2, 2) END,
+    CASE WHEN v_inter_state THEN priced.tax ELSE 0 END,
+    priced.taxable + priced.tax,
+    (l.ordinality - 1)::integer
+  FROM jsonb_to_recordset(p_line_items) WITH ORDINALITY AS l(
+    item_name text, hsn_code text, quantity numeric, unit text, rate numeric,
+    discount_percent numeric, tax_percent numeric, ordinality bigint
+  )
+  CROSS JOIN LATERAL (
+    SELECT round(l.quantity * l.rate * (1 - COALESCE(l.discount_percent, 0) / 100), 2) AS taxable
+  ) base
+  CROSS JOIN LATERAL (
+    SELECT base.taxable, round(base.taxable * COALESCE(l.tax_percent, 0) / 100, 2) AS tax
+  ) priced;
+
+  -- Under reverse charge the tax is paid to the government, not the supplier
+  UPDATE purchases p
+  SET subtotal = totals.subtotal,
+      tax_amount = totals.tax,
+      cgst_amount = totals.cgst,
+      sgst_amount = totals.sgst,
+      igst_amount = totals.igst,
+      total_price = totals.subtotal + CASE WHEN p.reverse_charge THEN 0 ELSE totals.tax END,
+      item_name = purchase_line_summary(p_purchase_id)
+  FROM (
+    SELECT
+      COALESCE(SUM(taxable_amount), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM purchase_line_items
+    WHERE purchase_id = p_purchase_id
+  ) totals
+  WHERE p.id = p_purchase_id
+  RETURNING p.* INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS post_purchase(uuid, text, date, uuid, text, jsonb);
+DROP FUNCTION IF EXISTS update_purchase(uuid, text, date, uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION post_purchase(
+  p_business_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_line_items jsonb
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  INSERT INTO purchases (
+    business_id, purchase_number, purchase_date, creditor_id, description,
+    place_of_supply, reverse_charge, item_name, total_price
+  )
+  VALUES (
+    p_business_id, p_purchase_number, p_purchase_date, p_creditor_id, p_description,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), '', 0
+  )
+  RETURNING * INTO v_purchase;
+
+  RETURN write_purchase_lines(v_purchase.id, p_line_items);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_purchase(
+  p_purchase_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_line_items jsonb
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE purchases
+  SET purchase_number = p_purchase_number,
+      purchase_date = p_purchase_date,
+      creditor_id = p_creditor_id,
+      description = p_description,
+      place_of_supply = p_place_of_supply,
+      reverse_charge = COALESCE(p_reverse_charge, false)
+  WHERE id = p_purchase_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase % not found', p_purchase_id;
+  END IF;
+
+  RETURN write_purchase_lines(p_purchase_id, p_line_items);
+END;
+$$;
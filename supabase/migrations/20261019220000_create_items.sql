@@ -0,0 +1,144 @@
+/*
+  # Items catalogue
+
+  1. New Tables
+    - `items`
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `name` (text)
+      - `sku` (text, nullable, unique per business)
+      - `unit` (text, nullable, e.g. pcs, kg, box)
+      - `purchase_price` (numeric, default rate on purchase lines)
+      - `sale_price` (numeric, default rate on invoice lines)
+      - `tax_percent` (numeric, one of the GST slabs)
+      - `hsn_code` (text, nullable)
+      - `is_active` (boolean, inactive items stay on old documents but are not offered)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `purchase_line_items.item_id` and `invoice_line_items.item_id` remember
+      which catalogue item a line was filled from; lines keep their own copy of
+      the name, price and tax so editing an item never rewrites old documents
+    - `write_purchase_lines` stores `item_id`, and reads the lines through
+      ROWS FROM so their order can be numbered alongside the column list
+
+  3. Security
+    - Enable RLS on `items`
+    - Owners of a business can manage its items
+*/
+
+CREATE TABLE IF NOT EXISTS items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sku text,
+  unit text,
+  purchase_price numeric(12, 2) NOT NULL DEFAULT 0 CHECK (purchase_price >= 0),
+  sale_price numeric(12, 2) NOT NULL DEFAULT 0 CHECK (sale_price >= 0),
+  tax_percent numeric(5, 2) NOT NULL DEFAULT 0 CHECK (tax_percent IN (0, 5, 12, 18, 28)),
+  hsn_code text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS items_business_id_idx ON items(business_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS items_business_sku_key
+  ON items(business_id, upper(sku))
+  WHERE sku IS NOT NULL;
+
+ALTER TABLE items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage items"
+  ON items
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+ALTER TABLE purchase_line_items
+  ADD COLUMN IF NOT EXISTS item_id uuid REFERENCES items(id) ON DELETE SET NULL;
+
+ALTER TABLE invoice_line_items
+  ADD COLUMN IF NOT EXISTS item_id uuid REFERENCES items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS purchase_line_items_item_id_idx ON purchase_line_items(item_id);
+CREATE INDEX IF NOT EXISTS invoice_line_items_item_id_idx ON invoice_line_items(item_id);
+
+CREATE OR REPLACE FUNCTION write_purchase_lines(p_purchase_id uuid, p_line_items jsonb)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+  v_business_state text;
+  v_inter_state boolean;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A purchase needs at least one line';
+  END IF;
+
+  SELECT * INTO v_purchase FROM purchases WHERE id = p_purchase_id;
+  v_business_state := business_state_code(v_purchase.business_id);
+
+  -- Unknown states are priced as a local supply
+  v_inter_state := v_business_state IS NOT NULL
+    AND v_purchase.place_of_supply IS NOT NULL
+    AND v_business_state <> v_purchase.place_of_supply;
+
+  DELETE FROM purchase_line_items WHERE purchase_id = p_purchase_id;
+
+  INSERT INTO purchase_line_items (
+    purchase_id, item_id, item_name, hsn_code, quantity, unit, rate, discount_percent, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, sort_order
+  )
+  SELECT
+    p_purchase_id, l.item_id, l.item_name, NULLIF(trim(l.hsn_code), ''), l.quantity, NULLIF(trim(l.unit), ''), l.rate,
+    COALESCE(l.discount_percent, 0), COALESCE(l.tax_percent, 0),
+    priced.taxable, priced.tax,
+    CASE WHEN v_inter_state THEN 0 ELSE round(priced.tax / 2, 2) END,
+    CASE WHEN v_inter_state THEN 0 ELSE priced.tax - round(priced.tax / 2, 2) END,
+    CASE WHEN v_inter_state THEN priced.tax ELSE 0 END,
+    priced.taxable + priced.tax,
+    (l.ordinality - 1)::integer
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_line_items) AS (
+      item_id uuid, item_name text, hsn_code text, quantity numeric, unit text, rate numeric,
+      discount_percent numeric, tax_percent numeric
+    )
+  ) WITH ORDINALITY AS l(
+    item_id, item_name, hsn_code, quantity, unit, rate, discount_percent, tax_percent, ordinality
+  )
+  CROSS JOIN LATERAL (
+    SELECT round(l.quantity * l.rate * (1 - COALESCE(l.discount_percent, 0) / 100), 2) AS taxable
+  ) base
+  CROSS JOIN LATERAL (
+    SELECT base.taxable, round(base.taxable * COALESCE(l.tax_percent, 0) / 100, 2) AS tax
+  ) priced;
+
+  -- Under reverse charge the tax is paid to the government, not the supplier
+  UPDATE purchases p
+  SET subtotal = totals.subtotal,
+      tax_amount = totals.tax,
+      cgst_amount = totals.cgst,
+      sgst_amount = totals.sgst,
+      igst_amount = totals.igst,
+      total_price = totals.subtotal + CASE WHEN p.reverse_charge THEN 0 ELSE totals.tax END,
+      item_name = purchase_line_summary(p_purchase_id)
+  FROM (
+    SELECT
+      COALESCE(SUM(taxable_amount), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM purchase_line_items
+    WHERE purchase_id = p_purchase_id
+  ) totals
+  WHERE p.id = p_purchase_id
+  RETURNING p.* INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$;
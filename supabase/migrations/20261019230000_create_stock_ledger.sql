@@ -0,0 +1,108 @@
+/*
+  # Inventory stock ledger
+
+  1. Changes
+    - `items.reorder_level` (numeric, nullable) - stock at or below this
+      level is reported as low; items without one are never flagged
+
+  2. New Tables
+    - `stock_adjustments`
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `item_id` (uuid, references items)
+      - `adjustment_date` (date)
+      - `quantity` (numeric, positive adds stock, negative removes it)
+      - `unit_cost` (numeric, nullable, cost of stock added; added stock
+        without a cost is valued at the current average cost)
+      - `reason` (text, required, e.g. opening stock, damaged, stock count)
+      - `created_at` (timestamptz)
+
+  3. New Views
+    - `stock_movements` - every change to an item's stock in one ledger:
+      purchase lines add stock at their cost before GST, lines of issued
+      invoices remove it, and adjustments do either. Drafts and cancelled
+      invoices never move stock. Being derived, the ledger follows every
+      edit or delete of a purchase or invoice without any bookkeeping
+
+  4. Security
+    - Enable RLS on `stock_adjustments`
+    - Owners of a business can manage its adjustments
+    - `stock_movements` runs with the caller's permissions
+*/
+
+ALTER TABLE items
+  ADD COLUMN IF NOT EXISTS reorder_level numeric(12, 3) CHECK (reorder_level >= 0);
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  adjustment_date date NOT NULL DEFAULT CURRENT_DATE,
+  quantity numeric(12, 3) NOT NULL CHECK (quantity <> 0),
+  unit_cost numeric(12, 2) CHECK (unit_cost >= 0),
+  reason text NOT NULL CHECK (trim(reason) <> ''),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_business_id_idx ON stock_adjustments(business_id);
+CREATE INDEX IF NOT EXISTS stock_adjustments_item_id_idx ON stock_adjustments(item_id);
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage stock adjustments"
+  ON stock_adjustments
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE OR REPLACE VIEW stock_movements
+WITH (security_invoker = true)
+AS
+SELECT
+  l.id,
+  p.business_id,
+  l.item_id,
+  p.purchase_date AS movement_date,
+  'PURCHASE'::text AS movement_type,
+  l.quantity,
+  round(l.taxable_amount / l.quantity, 2) AS unit_cost,
+  p.id AS source_id,
+  p.purchase_number AS reference,
+  l.created_at
+FROM purchase_line_items l
+JOIN purchases p ON p.id = l.purchase_id
+WHERE l.item_id IS NOT NULL
+
+UNION ALL
+
+SELECT
+  l.id,
+  i.business_id,
+  l.item_id,
+  i.invoice_date,
+  'SALE'::text,
+  -l.quantity,
+  NULL::numeric,
+  i.id,
+  i.invoice_number,
+  l.created_at
+FROM invoice_line_items l
+JOIN invoices i ON i.id = l.invoice_id
+WHERE l.item_id IS NOT NULL
+  AND i.status NOT IN ('DRAFT', 'CANCELLED')
+
+UNION ALL
+
+SELECT
+  a.id,
+  a.business_id,
+  a.item_id,
+  a.adjustment_date,
+  'ADJUSTMENT'::text,
+  a.quantity,
+  a.unit_cost,
+  a.id,
+  a.reason,
+  a.created_at
+FROM stock_adjustments a;
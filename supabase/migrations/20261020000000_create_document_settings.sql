@@ -0,0 +1,227 @@
+/*
+  # Document numbering and templates
+
+  1. New Tables
+    - `document_settings` - one row per business and document type
+      - `business_id` (uuid, references businesses)
+      - `document_type` (text, INVOICE, PURCHASE, PAYMENT, RECEIPT, BILL or TRANSFER)
+      - `prefix` (text, e.g. PUR)
+      - `separator` (text, `-` or `/`)
+      - `padding` (integer, minimum digits in the running number)
+      - `financial_year_reset` (boolean, adds the financial year to the number,
+        e.g. PUR/24-25/0001, and restarts at 1 every April)
+      - `next_number` (integer, the next running number to hand out)
+      - `sequence_year` (text, financial year `next_number` belongs to)
+      - `title` (text, nullable, heading printed on the PDF instead of the default)
+      - `accent_color` (text, colour of the PDF heading and rules)
+      - `show_logo` (boolean, print the business logo)
+      - `show_signatures` (boolean, print the signature lines)
+      - `footer` (text, nullable, terms or a thank-you note printed at the bottom)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. New Functions
+    - `financial_year_label` - `24-25` for any date from April 2024 to March 2025
+    - `ensure_document_settings` - creates missing settings for a business,
+      continuing after the numerically highest number already used, so
+      INV-10000 follows INV-9999
+    - `preview_document_number` - the number the next document would get
+    - `allocate_document_number` - hands out the next number under a row
+      lock, so two devices saving at once never get the same one, and skips
+      any number already taken by hand
+
+  3. Security
+    - Enable RLS on `document_settings`
+    - Owners of a business can manage its settings
+*/
+
+CREATE TABLE IF NOT EXISTS document_settings (
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('INVOICE', 'PURCHASE', 'PAYMENT', 'RECEIPT', 'BILL', 'TRANSFER')),
+  prefix text NOT NULL CHECK (trim(prefix) <> ''),
+  separator text NOT NULL DEFAULT '-' CHECK (separator IN ('-', '/')),
+  padding integer NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  financial_year_reset boolean NOT NULL DEFAULT false,
+  next_number integer NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  sequence_year text,
+  title text,
+  accent_color text NOT NULL DEFAULT '#4f46e5' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  show_logo boolean NOT NULL DEFAULT true,
+  show_signatures boolean NOT NULL DEFAULT true,
+  footer text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (business_id, document_type)
+);
+
+ALTER TABLE document_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage document settings"
+  ON document_settings
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+-- Indian financial years run from April to March
+CREATE OR REPLACE FUNCTION financial_year_label(p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(y.start_year % 100, 'FM00') || '-' || to_char((y.start_year + 1) % 100, 'FM00')
+  FROM (
+    SELECT CASE
+      WHEN extract(month FROM p_date) >= 4 THEN extract(year FROM p_date)::integer
+      ELSE extract(year FROM p_date)::integer - 1
+    END AS start_year
+  ) y;
+$$;
+
+CREATE OR REPLACE FUNCTION format_document_number(p_settings document_settings, p_year text, p_number integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(p_settings.prefix) || p_settings.separator
+    || CASE WHEN p_settings.financial_year_reset THEN p_year || p_settings.separator ELSE '' END
+    || lpad(p_number::text, GREATEST(p_settings.padding, length(p_number::text)), '0');
+$$;
+
+-- Every document table is named after its type and keeps its number in <type>_number
+CREATE OR REPLACE FUNCTION document_number_exists(p_business_id uuid, p_document_type text, p_number text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_exists boolean;
+BEGIN
+  EXECUTE format(
+    'SELECT EXISTS (SELECT 1 FROM %I WHERE business_id = $1 AND %I = $2)',
+    lower(p_document_type) || 's',
+    lower(p_document_type) || '_number'
+  )
+  INTO v_exists
+  USING p_business_id, p_number;
+
+  RETURN v_exists;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ensure_document_settings(p_business_id uuid, p_document_type text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_type record;
+  v_highest numeric;
+BEGIN
+  FOR v_type IN
+    SELECT t.document_type, t.prefix
+    FROM (VALUES
+      ('INVOICE', 'INV'),
+      ('PURCHASE', 'PUR'),
+      ('PAYMENT', 'PAY'),
+      ('RECEIPT', 'RCP'),
+      ('BILL', 'BILL'),
+      ('TRANSFER', 'TRF')
+    ) AS t(document_type, prefix)
+    WHERE (p_document_type IS NULL OR t.document_type = p_document_type)
+      AND NOT EXISTS (
+        SELECT 1 FROM document_settings
+        WHERE business_id = p_business_id AND document_type = t.document_type
+      )
+  LOOP
+    -- Compared as numbers, not text, so the sequence carries on past 9999
+    EXECUTE format(
+      'SELECT MAX(substring(%I FROM ''(\d+)$'')::numeric) FROM %I WHERE business_id = $1',
+      lower(v_type.document_type) || '_number',
+      lower(v_type.document_type) || 's'
+    )
+    INTO v_highest
+    USING p_business_id;
+
+    INSERT INTO document_settings (business_id, document_type, prefix, next_number)
+    VALUES (p_business_id, v_type.document_type, v_type.prefix, LEAST(COALESCE(v_highest, 0) + 1, 2147483647)::integer)
+    ON CONFLICT (business_id, document_type) DO NOTHING;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION next_document_number(
+  p_business_id uuid,
+  p_document_type text,
+  p_date date,
+  p_allocate boolean
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings document_settings;
+  v_year text;
+  v_number integer;
+  v_document_number text;
+BEGIN
+  PERFORM ensure_document_settings(p_business_id, p_document_type);
+
+  IF p_allocate THEN
+    SELECT * INTO v_settings
+    FROM document_settings
+    WHERE business_id = p_business_id AND document_type = p_document_type
+    FOR UPDATE;
+  ELSE
+    SELECT * INTO v_settings
+    FROM document_settings
+    WHERE business_id = p_business_id AND document_type = p_document_type;
+  END IF;
+
+  v_year := financial_year_label(COALESCE(p_date, CURRENT_DATE));
+  v_number := v_settings.next_number;
+
+  -- A sequence that has not been used yet carries its number into the year
+  IF v_settings.financial_year_reset
+    AND v_settings.sequence_year IS NOT NULL
+    AND v_settings.sequence_year <> v_year THEN
+    v_number := 1;
+  END IF;
+
+  v_document_number := format_document_number(v_settings, v_year, v_number);
+  WHILE document_number_exists(p_business_id, p_document_type, v_document_number) LOOP
+    v_number := v_number + 1;
+    v_document_number := format_document_number(v_settings, v_year, v_number);
+  END LOOP;
+
+  IF p_allocate THEN
+    UPDATE document_settings
+    SET next_number = v_number + 1,
+        sequence_year = v_year,
+        updated_at = now()
+    WHERE business_id = p_business_id AND document_type = p_document_type;
+  END IF;
+
+  RETURN v_document_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION preview_document_number(
+  p_business_id uuid,
+  p_document_type text,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS text
+LANGUAGE sql
+AS $$
+  SELECT next_document_number(p_business_id, p_document_type, p_date, false);
+$$;
+
+CREATE OR REPLACE FUNCTION allocate_document_number(
+  p_business_id uuid,
+  p_document_type text,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS text
+LANGUAGE sql
+AS $$
+  SELECT next_document_number(p_business_id, p_document_type, p_date, true);
+$$;
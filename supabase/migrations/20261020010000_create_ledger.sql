@@ -0,0 +1,760 @@
+/*
+  # Double-entry ledger
+
+  1. New Tables
+    - `ledger_accounts` - the chart of accounts of a business
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `code` (text, unique per business, e.g. 2000)
+      - `name` (text)
+      - `account_type` (text, ASSET, LIABILITY, EQUITY, INCOME or EXPENSE)
+      - `system_key` (text, nullable, marks the accounts postings are made to,
+        e.g. ACCOUNTS_PAYABLE)
+      - `bank_account_id` (uuid, nullable, the bank account this account mirrors)
+      - `created_at` (timestamptz)
+    - `journal_entries` - one per posted document, transaction or opening balance
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `entry_date` (date)
+      - `description` (text)
+      - `source_type` (text, PURCHASE, BILL, PAYMENT, INVOICE, RECEIPT,
+        TRANSACTION, TRANSFER, BANK_ACCOUNT or CREDITOR)
+      - `source_id` (uuid, the row that was posted)
+      - `created_at` (timestamptz)
+    - `journal_lines` - the debits and credits of an entry
+      - `id` (uuid, primary key)
+      - `journal_entry_id` (uuid, references journal_entries)
+      - `business_id` (uuid, references businesses)
+      - `account_id` (uuid, references ledger_accounts)
+      - `debit`, `credit` (numeric, one of them zero)
+
+  2. Postings
+    - Purchases and bills: debit Purchases or Bills & Services with the value
+      before tax and GST Input Credit with the tax; credit Accounts Payable
+      with what the supplier is owed. Under reverse charge the tax is owed to
+      the government, so it is credited to GST Payable instead
+    - Issued invoices: debit Accounts Receivable, credit Sales and GST Payable.
+      Draft and cancelled invoices are not posted
+    - Payments: debit Accounts Payable, credit the bank account paid from,
+      or Cash in Hand
+    - Receipts: debit the bank account or Cash in Hand, credit Accounts Receivable
+    - Bank transactions that stand on their own: the bank account against an
+      income or expense account named after the transaction category, or
+      Other Income / Other Expenses when uncategorised. Transactions created
+      for a payment, receipt or transfer are posted through that document
+    - Transfers: debit the destination bank account, credit the source
+    - Opening balances of bank accounts and creditors against Opening
+      Balance Equity, dated when the account or creditor was created
+
+  3. New Functions
+    - `ensure_ledger_accounts` - creates the standard chart of accounts
+    - `replace_journal_entry` - rewrites the entry of a source row
+    - `post_*_journal` - posts one source row
+    - `rebuild_journal` - reposts everything of a business
+    - `ledger_account_balances` - debit and credit totals per account up to a date
+    - Triggers on every source table keep its entry in step on insert,
+      update and delete; a deferred constraint trigger rejects any entry
+      whose debits and credits differ
+
+  4. Security
+    - Enable RLS on all three tables
+    - Owners of a business can manage its accounts and journal
+*/
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  name text NOT NULL CHECK (trim(name) <> ''),
+  account_type text NOT NULL CHECK (account_type IN ('ASSET', 'LIABILITY', 'EQUITY', 'INCOME', 'EXPENSE')),
+  system_key text,
+  bank_account_id uuid UNIQUE REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, code),
+  UNIQUE (business_id, system_key)
+);
+
+-- Category accounts are looked up by name
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_accounts_category_name_idx
+  ON ledger_accounts(business_id, account_type, lower(name))
+  WHERE system_key IS NULL AND bank_account_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  entry_date date NOT NULL,
+  description text NOT NULL,
+  source_type text NOT NULL CHECK (source_type IN (
+    'PURCHASE', 'BILL', 'PAYMENT', 'INVOICE', 'RECEIPT', 'TRANSACTION', 'TRANSFER', 'BANK_ACCOUNT', 'CREDITOR'
+  )),
+  source_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS journal_entries_business_date_idx ON journal_entries(business_id, entry_date);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_entry_id uuid NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES ledger_accounts(id),
+  debit numeric(14, 2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit numeric(14, 2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS journal_lines_entry_idx ON journal_lines(journal_entry_id);
+CREATE INDEX IF NOT EXISTS journal_lines_account_idx ON journal_lines(account_id);
+
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage ledger accounts"
+  ON ledger_accounts
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage journal entries"
+  ON journal_entries
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage journal lines"
+  ON journal_lines
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION check_journal_entry_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_difference numeric;
+BEGIN
+  SELECT SUM(debit) - SUM(credit) INTO v_difference
+  FROM journal_lines
+  WHERE journal_entry_id = NEW.journal_entry_id;
+
+  IF v_difference IS NOT NULL AND v_difference <> 0 THEN
+    RAISE EXCEPTION 'Journal entry % is out of balance by %', NEW.journal_entry_id, v_difference;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Checked at commit, once every line of the entry is in
+DROP TRIGGER IF EXISTS check_journal_entry_balance ON journal_lines;
+CREATE CONSTRAINT TRIGGER check_journal_entry_balance
+  AFTER INSERT OR UPDATE ON journal_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_journal_entry_balance();
+
+CREATE OR REPLACE FUNCTION ensure_ledger_accounts(p_business_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO ledger_accounts (business_id, code, name, account_type, system_key)
+  VALUES
+    (p_business_id, '1000', 'Cash in Hand', 'ASSET', 'CASH'),
+    (p_business_id, '1200', 'Accounts Receivable', 'ASSET', 'ACCOUNTS_RECEIVABLE'),
+    (p_business_id, '1300', 'GST Input Credit', 'ASSET', 'GST_INPUT'),
+    (p_business_id, '2000', 'Accounts Payable', 'LIABILITY', 'ACCOUNTS_PAYABLE'),
+    (p_business_id, '2100', 'GST Payable', 'LIABILITY', 'GST_PAYABLE'),
+    (p_business_id, '3000', 'Opening Balance Equity', 'EQUITY', 'OPENING_BALANCE'),
+    (p_business_id, '4000', 'Sales', 'INCOME', 'SALES'),
+    (p_business_id, '4900', 'Other Income', 'INCOME', 'OTHER_INCOME'),
+    (p_business_id, '5000', 'Purchases', 'EXPENSE', 'PURCHASES'),
+    (p_business_id, '6000', 'Bills & Services', 'EXPENSE', 'BILLS'),
+    (p_business_id, '6900', 'Other Expenses', 'EXPENSE', 'OTHER_EXPENSES')
+  ON CONFLICT DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION system_ledger_account(p_business_id uuid, p_system_key text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_account_id uuid;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM ledger_accounts
+  WHERE business_id = p_business_id AND system_key = p_system_key;
+
+  IF v_account_id IS NULL THEN
+    PERFORM ensure_ledger_accounts(p_business_id);
+
+    SELECT id INTO v_account_id
+    FROM ledger_accounts
+    WHERE business_id = p_business_id AND system_key = p_system_key;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- The next free numeric code in a block, e.g. 1101 after 1100
+CREATE OR REPLACE FUNCTION next_ledger_account_code(p_business_id uuid, p_first integer, p_last integer)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_code integer;
+BEGIN
+  SELECT COALESCE(MAX(code::integer) + 1, p_first) INTO v_code
+  FROM ledger_accounts
+  WHERE business_id = p_business_id
+    AND code ~ '^\d+$'
+    AND code::integer BETWEEN p_first AND p_last;
+
+  IF v_code > p_last THEN
+    RAISE EXCEPTION 'No account codes left between % and %', p_first, p_last;
+  END IF;
+
+  RETURN v_code::text;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION bank_ledger_account(p_bank_account_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_account_id uuid;
+  v_bank_account bank_accounts;
+BEGIN
+  IF p_bank_account_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_account_id FROM ledger_accounts WHERE bank_account_id = p_bank_account_id;
+  IF v_account_id IS NOT NULL THEN
+    RETURN v_account_id;
+  END IF;
+
+  SELECT * INTO v_bank_account FROM bank_accounts WHERE id = p_bank_account_id;
+
+  INSERT INTO ledger_accounts (business_id, code, name, account_type, bank_account_id)
+  VALUES (
+    v_bank_account.business_id,
+    next_ledger_account_code(v_bank_account.business_id, 1100, 1199),
+    v_bank_account.name,
+    'ASSET',
+    p_bank_account_id
+  )
+  RETURNING id INTO v_account_id;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Income and expense accounts are created the first time a category is used
+CREATE OR REPLACE FUNCTION category_ledger_account(p_business_id uuid, p_category text, p_account_type text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_account_id uuid;
+  v_category text := NULLIF(trim(p_category), '');
+BEGIN
+  IF v_category IS NULL OR v_category IN ('Imported', 'Payment', 'Receipt', 'Transfer') THEN
+    RETURN system_ledger_account(
+      p_business_id,
+      CASE WHEN p_account_type = 'INCOME' THEN 'OTHER_INCOME' ELSE 'OTHER_EXPENSES' END
+    );
+  END IF;
+
+  SELECT id INTO v_account_id
+  FROM ledger_accounts
+  WHERE business_id = p_business_id
+    AND account_type = p_account_type
+    AND lower(name) = lower(v_category)
+    AND bank_account_id IS NULL
+  ORDER BY system_key NULLS LAST
+  LIMIT 1;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO ledger_accounts (business_id, code, name, account_type)
+    VALUES (
+      p_business_id,
+      CASE WHEN p_account_type = 'INCOME'
+        THEN next_ledger_account_code(p_business_id, 4100, 4899)
+        ELSE next_ledger_account_code(p_business_id, 6100, 6899)
+      END,
+      v_category,
+      p_account_type
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Lines are {account_id, debit, credit}; a line that nets to a negative
+-- amount moves to the other side and a line that nets to zero is dropped
+CREATE OR REPLACE FUNCTION replace_journal_entry(
+  p_business_id uuid,
+  p_source_type text,
+  p_source_id uuid,
+  p_entry_date date,
+  p_description text,
+  p_lines jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry_id uuid;
+BEGIN
+  DELETE FROM journal_entries WHERE source_type = p_source_type AND source_id = p_source_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_lines) AS l(account_id uuid, debit numeric, credit numeric)
+    WHERE COALESCE(l.debit, 0) <> COALESCE(l.credit, 0)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO journal_entries (business_id, entry_date, description, source_type, source_id)
+  VALUES (p_business_id, p_entry_date, p_description, p_source_type, p_source_id)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO journal_lines (journal_entry_id, business_id, account_id, debit, credit)
+  SELECT
+    v_entry_id,
+    p_business_id,
+    l.account_id,
+    GREATEST(COALESCE(l.debit, 0) - COALESCE(l.credit, 0), 0),
+    GREATEST(COALESCE(l.credit, 0) - COALESCE(l.debit, 0), 0)
+  FROM jsonb_to_recordset(p_lines) AS l(account_id uuid, debit numeric, credit numeric)
+  WHERE COALESCE(l.debit, 0) <> COALESCE(l.credit, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_journal_entry(p_source_type text, p_source_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM journal_entries WHERE source_type = p_source_type AND source_id = p_source_id;
+$$;
+
+CREATE OR REPLACE FUNCTION post_purchase_journal(p_purchase_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+  v_supplier_tax numeric;
+BEGIN
+  SELECT * INTO v_purchase FROM purchases WHERE id = p_purchase_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('PURCHASE', p_purchase_id);
+    RETURN;
+  END IF;
+
+  -- The part of the tax charged by the supplier; reverse charge tax is owed to the government
+  v_supplier_tax := CASE WHEN v_purchase.reverse_charge THEN 0 ELSE v_purchase.tax_amount END;
+
+  PERFORM replace_journal_entry(
+    v_purchase.business_id, 'PURCHASE', v_purchase.id, v_purchase.purchase_date,
+    'Purchase ' || v_purchase.purchase_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', system_ledger_account(v_purchase.business_id, 'PURCHASES'),
+        'debit', v_purchase.total_price - v_supplier_tax),
+      jsonb_build_object('account_id', system_ledger_account(v_purchase.business_id, 'GST_INPUT'),
+        'debit', v_purchase.tax_amount),
+      -- A purchase without a supplier was paid on the spot
+      jsonb_build_object('account_id', system_ledger_account(v_purchase.business_id,
+          CASE WHEN v_purchase.creditor_id IS NULL THEN 'CASH' ELSE 'ACCOUNTS_PAYABLE' END),
+        'credit', v_purchase.total_price),
+      jsonb_build_object('account_id', system_ledger_account(v_purchase.business_id, 'GST_PAYABLE'),
+        'credit', v_purchase.tax_amount - v_supplier_tax)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_bill_journal(p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill bills;
+  v_supplier_tax numeric;
+BEGIN
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('BILL', p_bill_id);
+    RETURN;
+  END IF;
+
+  v_supplier_tax := CASE WHEN v_bill.reverse_charge THEN 0 ELSE v_bill.tax_amount END;
+
+  PERFORM replace_journal_entry(
+    v_bill.business_id, 'BILL', v_bill.id, v_bill.issue_date,
+    'Bill ' || v_bill.bill_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', system_ledger_account(v_bill.business_id, 'BILLS'),
+        'debit', v_bill.total_amount - v_supplier_tax),
+      jsonb_build_object('account_id', system_ledger_account(v_bill.business_id, 'GST_INPUT'),
+        'debit', v_bill.tax_amount),
+      jsonb_build_object('account_id', system_ledger_account(v_bill.business_id, 'ACCOUNTS_PAYABLE'),
+        'credit', v_bill.total_amount),
+      jsonb_build_object('account_id', system_ledger_account(v_bill.business_id, 'GST_PAYABLE'),
+        'credit', v_bill.tax_amount - v_supplier_tax)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_invoice_journal(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+  v_output_tax numeric;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND OR v_invoice.status IN ('DRAFT', 'CANCELLED') THEN
+    PERFORM remove_journal_entry('INVOICE', p_invoice_id);
+    RETURN;
+  END IF;
+
+  -- Under reverse charge the buyer pays the tax to the government
+  v_output_tax := CASE WHEN v_invoice.reverse_charge THEN 0 ELSE v_invoice.tax_amount END;
+
+  PERFORM replace_journal_entry(
+    v_invoice.business_id, 'INVOICE', v_invoice.id, v_invoice.invoice_date,
+    'Invoice ' || v_invoice.invoice_number || ' to ' || v_invoice.customer_name,
+    jsonb_build_array(
+      jsonb_build_object('account_id', system_ledger_account(v_invoice.business_id, 'ACCOUNTS_RECEIVABLE'),
+        'debit', v_invoice.total_amount),
+      jsonb_build_object('account_id', system_ledger_account(v_invoice.business_id, 'SALES'),
+        'credit', v_invoice.total_amount - v_output_tax),
+      jsonb_build_object('account_id', system_ledger_account(v_invoice.business_id, 'GST_PAYABLE'),
+        'credit', v_output_tax)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payment_journal(p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('PAYMENT', p_payment_id);
+    RETURN;
+  END IF;
+
+  PERFORM replace_journal_entry(
+    v_payment.business_id, 'PAYMENT', v_payment.id, v_payment.payment_date,
+    'Payment ' || v_payment.payment_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', system_ledger_account(v_payment.business_id, 'ACCOUNTS_PAYABLE'),
+        'debit', v_payment.amount),
+      jsonb_build_object('account_id', COALESCE(
+          bank_ledger_account(v_payment.bank_account_id),
+          system_ledger_account(v_payment.business_id, 'CASH')
+        ),
+        'credit', v_payment.amount)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_receipt_journal(p_receipt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts WHERE id = p_receipt_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('RECEIPT', p_receipt_id);
+    RETURN;
+  END IF;
+
+  PERFORM replace_journal_entry(
+    v_receipt.business_id, 'RECEIPT', v_receipt.id, v_receipt.receipt_date,
+    'Receipt ' || v_receipt.receipt_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', COALESCE(
+          bank_ledger_account(v_receipt.bank_account_id),
+          system_ledger_account(v_receipt.business_id, 'CASH')
+        ),
+        'debit', v_receipt.amount),
+      jsonb_build_object('account_id', system_ledger_account(v_receipt.business_id, 'ACCOUNTS_RECEIVABLE'),
+        'credit', v_receipt.amount)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transaction_journal(p_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction transactions;
+  v_bank_account_id uuid;
+  v_category_account_id uuid;
+BEGIN
+  SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+  -- Payment, receipt and transfer legs are posted through their document
+  IF NOT FOUND
+     OR v_transaction.type NOT IN ('deposit', 'withdrawal')
+     OR v_transaction.reference_id IS NOT NULL
+     OR v_transaction.transfer_id IS NOT NULL THEN
+    PERFORM remove_journal_entry('TRANSACTION', p_transaction_id);
+    RETURN;
+  END IF;
+
+  v_bank_account_id := bank_ledger_account(v_transaction.account_id);
+  v_category_account_id := category_ledger_account(
+    v_transaction.business_id,
+    v_transaction.category,
+    CASE WHEN v_transaction.type = 'deposit' THEN 'INCOME' ELSE 'EXPENSE' END
+  );
+
+  PERFORM replace_journal_entry(
+    v_transaction.business_id, 'TRANSACTION', v_transaction.id, v_transaction.date,
+    COALESCE(NULLIF(v_transaction.description, ''), 'Bank transaction'),
+    CASE WHEN v_transaction.type = 'deposit' THEN
+      jsonb_build_array(
+        jsonb_build_object('account_id', v_bank_account_id, 'debit', v_transaction.amount),
+        jsonb_build_object('account_id', v_category_account_id, 'credit', v_transaction.amount)
+      )
+    ELSE
+      jsonb_build_array(
+        jsonb_build_object('account_id', v_category_account_id, 'debit', v_transaction.amount),
+        jsonb_build_object('account_id', v_bank_account_id, 'credit', v_transaction.amount)
+      )
+    END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transfer_journal(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('TRANSFER', p_transfer_id);
+    RETURN;
+  END IF;
+
+  PERFORM replace_journal_entry(
+    v_transfer.business_id, 'TRANSFER', v_transfer.id, v_transfer.transfer_date,
+    'Transfer ' || v_transfer.transfer_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', bank_ledger_account(v_transfer.to_account_id), 'debit', v_transfer.amount),
+      jsonb_build_object('account_id', bank_ledger_account(v_transfer.from_account_id), 'credit', v_transfer.amount)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_bank_account_journal(p_bank_account_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bank_account bank_accounts;
+BEGIN
+  SELECT * INTO v_bank_account FROM bank_accounts WHERE id = p_bank_account_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('BANK_ACCOUNT', p_bank_account_id);
+    RETURN;
+  END IF;
+
+  PERFORM replace_journal_entry(
+    v_bank_account.business_id, 'BANK_ACCOUNT', v_bank_account.id, v_bank_account.created_at::date,
+    'Opening balance of ' || v_bank_account.name,
+    jsonb_build_array(
+      jsonb_build_object('account_id', bank_ledger_account(v_bank_account.id), 'debit', v_bank_account.opening_balance),
+      jsonb_build_object('account_id', system_ledger_account(v_bank_account.business_id, 'OPENING_BALANCE'),
+        'credit', v_bank_account.opening_balance)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_creditor_journal(p_creditor_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_creditor creditors;
+BEGIN
+  SELECT * INTO v_creditor FROM creditors WHERE id = p_creditor_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('CREDITOR', p_creditor_id);
+    RETURN;
+  END IF;
+
+  PERFORM replace_journal_entry(
+    v_creditor.business_id, 'CREDITOR', v_creditor.id, v_creditor.created_at::date,
+    'Opening balance owed to ' || v_creditor.name,
+    jsonb_build_array(
+      jsonb_build_object('account_id', system_ledger_account(v_creditor.business_id, 'OPENING_BALANCE'),
+        'debit', v_creditor.opening_balance),
+      jsonb_build_object('account_id', system_ledger_account(v_creditor.business_id, 'ACCOUNTS_PAYABLE'),
+        'credit', v_creditor.opening_balance)
+    )
+  );
+END;
+$$;
+
+-- One trigger function for every source table; the argument is the source type
+CREATE OR REPLACE FUNCTION sync_journal_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM remove_journal_entry(TG_ARGV[0], OLD.id);
+    RETURN NULL;
+  END IF;
+
+  v_source_id := NEW.id;
+
+  CASE TG_ARGV[0]
+    WHEN 'PURCHASE' THEN PERFORM post_purchase_journal(v_source_id);
+    WHEN 'BILL' THEN PERFORM post_bill_journal(v_source_id);
+    WHEN 'INVOICE' THEN PERFORM post_invoice_journal(v_source_id);
+    WHEN 'PAYMENT' THEN PERFORM post_payment_journal(v_source_id);
+    WHEN 'RECEIPT' THEN PERFORM post_receipt_journal(v_source_id);
+    WHEN 'TRANSACTION' THEN PERFORM post_transaction_journal(v_source_id);
+    WHEN 'TRANSFER' THEN PERFORM post_transfer_journal(v_source_id);
+    WHEN 'BANK_ACCOUNT' THEN
+      UPDATE ledger_accounts SET name = NEW.name WHERE bank_account_id = v_source_id AND name <> NEW.name;
+      PERFORM post_bank_account_journal(v_source_id);
+    WHEN 'CREDITOR' THEN PERFORM post_creditor_journal(v_source_id);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON purchases;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON purchases
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('PURCHASE');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON bills;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON bills
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('BILL');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON invoices;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('INVOICE');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON payments;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('PAYMENT');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON receipts;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON receipts
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('RECEIPT');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON transactions;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('TRANSACTION');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON transfers;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON transfers
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('TRANSFER');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON bank_accounts;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR DELETE OR UPDATE OF name, opening_balance ON bank_accounts
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('BANK_ACCOUNT');
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON creditors;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR DELETE OR UPDATE OF name, opening_balance ON creditors
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('CREDITOR');
+
+CREATE OR REPLACE FUNCTION rebuild_journal(p_business_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  PERFORM ensure_ledger_accounts(p_business_id);
+
+  FOR v_id IN SELECT id FROM bank_accounts WHERE business_id = p_business_id LOOP
+    PERFORM post_bank_account_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM creditors WHERE business_id = p_business_id LOOP
+    PERFORM post_creditor_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM purchases WHERE business_id = p_business_id LOOP
+    PERFORM post_purchase_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM bills WHERE business_id = p_business_id LOOP
+    PERFORM post_bill_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM invoices WHERE business_id = p_business_id LOOP
+    PERFORM post_invoice_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM payments WHERE business_id = p_business_id LOOP
+    PERFORM post_payment_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM receipts WHERE business_id = p_business_id LOOP
+    PERFORM post_receipt_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM transfers WHERE business_id = p_business_id LOOP
+    PERFORM post_transfer_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM transactions WHERE business_id = p_business_id LOOP
+    PERFORM post_transaction_journal(v_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ledger_account_balances(p_business_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (account_id uuid, debit numeric, credit numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.account_id, SUM(l.debit), SUM(l.credit)
+  FROM journal_lines l
+  JOIN journal_entries e ON e.id = l.journal_entry_id
+  WHERE e.business_id = p_business_id
+    AND e.entry_date <= p_as_of
+  GROUP BY l.account_id;
+$$;
+
+-- Post everything recorded before the ledger existed
+SELECT rebuild_journal(id) FROM businesses;
@@ -0,0 +1,481 @@
+/*
+  # Create expenses
+
+  1. New Tables
+    - `expense_categories` - the categories a business files its running costs under
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `name` (text, unique per business)
+      - `created_at` (timestamptz)
+    - `expenses` - rent, utilities, fuel, wages and other costs paid from a bank account
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `expense_number` (text, unique per business)
+      - `expense_date` (date)
+      - `category_id` (uuid, references expense_categories; a category in use
+        cannot be deleted)
+      - `bank_account_id` (uuid, references bank_accounts)
+      - `amount` (numeric)
+      - `payee` (text, nullable)
+      - `reference` (text, nullable)
+      - `notes` (text, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+    - `expense_receipts` - photos of the receipt, kept in the `expense-receipts`
+      storage bucket under `<business id>/<expense id>/`
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `expense_id` (uuid, references expenses)
+      - `storage_path` (text, unique)
+      - `file_name` (text)
+      - `content_type` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Every expense is paid by a withdrawal from its bank account, linked
+      through `transactions.reference_id` and filed under the expense's
+      category, so the existing balance trigger moves the account
+    - Expenses are numbered like other documents (`EXP-0001` by default)
+    - Expenses post to the ledger: the category's expense account is debited
+      and the bank account credited
+    - Renaming a category carries over to its expenses' withdrawals and
+      ledger accounts
+
+  3. New Functions
+    - `ensure_expense_categories` - gives a business the default categories
+      the first time it has none
+    - `post_expense`, `update_expense` and `delete_expense` write the expense
+      and its withdrawal in one transaction
+
+  4. Security
+    - Enable RLS on `expense_categories`, `expenses` and `expense_receipts`
+    - Owners of a business can manage its categories, expenses and receipts
+    - The `expense-receipts` bucket is private; owners can read and write the
+      files under their business's folder
+*/
+
+CREATE TABLE IF NOT EXISTS expense_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (trim(name) <> ''),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS expenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  expense_number text NOT NULL,
+  expense_date date NOT NULL DEFAULT CURRENT_DATE,
+  category_id uuid NOT NULL REFERENCES expense_categories(id) ON DELETE RESTRICT,
+  bank_account_id uuid NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  payee text,
+  reference text,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (business_id, expense_number)
+);
+
+CREATE INDEX IF NOT EXISTS expenses_business_date_idx ON expenses(business_id, expense_date);
+CREATE INDEX IF NOT EXISTS expenses_category_id_idx ON expenses(category_id);
+
+CREATE TABLE IF NOT EXISTS expense_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  expense_id uuid NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  content_type text NOT NULL DEFAULT 'image/jpeg',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS expense_receipts_expense_id_idx ON expense_receipts(expense_id);
+
+ALTER TABLE expense_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expense_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage expense categories"
+  ON expense_categories
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage expenses"
+  ON expenses
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage expense receipts"
+  ON expense_receipts
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('expense-receipts', 'expense-receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can manage expense receipt files"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'expense-receipts'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM businesses WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    bucket_id = 'expense-receipts'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM businesses WHERE owner_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION ensure_expense_categories(p_business_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM expense_categories WHERE business_id = p_business_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO expense_categories (business_id, name)
+  SELECT p_business_id, c.name
+  FROM (VALUES
+    ('Rent'),
+    ('Utilities'),
+    ('Fuel'),
+    ('Salaries & Wages'),
+    ('Office Supplies'),
+    ('Repairs & Maintenance'),
+    ('Travel'),
+    ('Telephone & Internet'),
+    ('Bank Charges'),
+    ('Miscellaneous')
+  ) AS c(name)
+  ON CONFLICT (business_id, name) DO NOTHING;
+END;
+$$;
+
+-- Expenses are numbered like every other document
+ALTER TABLE document_settings DROP CONSTRAINT IF EXISTS document_settings_document_type_check;
+ALTER TABLE document_settings ADD CONSTRAINT document_settings_document_type_check
+  CHECK (document_type IN ('INVOICE', 'PURCHASE', 'PAYMENT', 'RECEIPT', 'BILL', 'TRANSFER', 'EXPENSE'));
+
+CREATE OR REPLACE FUNCTION ensure_document_settings(p_business_id uuid, p_document_type text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_type record;
+  v_highest numeric;
+BEGIN
+  FOR v_type IN
+    SELECT t.document_type, t.prefix
+    FROM (VALUES
+      ('INVOICE', 'INV'),
+      ('PURCHASE', 'PUR'),
+      ('PAYMENT', 'PAY'),
+      ('RECEIPT', 'RCP'),
+      ('BILL', 'BILL'),
+      ('TRANSFER', 'TRF'),
+      ('EXPENSE', 'EXP')
+    ) AS t(document_type, prefix)
+    WHERE (p_document_type IS NULL OR t.document_type = p_document_type)
+      AND NOT EXISTS (
+        SELECT 1 FROM document_settings
+        WHERE business_id = p_business_id AND document_type = t.document_type
+      )
+  LOOP
+    -- Compared as numbers, not text, so the sequence carries on past 9999
+    EXECUTE format(
+      'SELECT MAX(substring(%I FROM ''(\d+)$'')::numeric) FROM %I WHERE business_id = $1',
+      lower(v_type.document_type) || '_number',
+      lower(v_type.document_type) || 's'
+    )
+    INTO v_highest
+    USING p_business_id;
+
+    INSERT INTO document_settings (business_id, document_type, prefix, next_number)
+    VALUES (p_business_id, v_type.document_type, v_type.prefix, LEAST(COALESCE(v_highest, 0) + 1, 2147483647)::integer)
+    ON CONFLICT (business_id, document_type) DO NOTHING;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expense_description(p_category_id uuid, p_payee text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.name || COALESCE(' - ' || NULLIF(trim(p_payee), ''), '')
+  FROM expense_categories c
+  WHERE c.id = p_category_id;
+$$;
+
+CREATE OR REPLACE FUNCTION post_expense(
+  p_business_id uuid,
+  p_expense_number text,
+  p_expense_date date,
+  p_category_id uuid,
+  p_bank_account_id uuid,
+  p_amount numeric,
+  p_payee text,
+  p_reference text,
+  p_notes text
+)
+RETURNS expenses
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_expense expenses;
+BEGIN
+  INSERT INTO expenses (
+    business_id, expense_number, expense_date, category_id, bank_account_id,
+    amount, payee, reference, notes
+  )
+  VALUES (
+    p_business_id, p_expense_number, p_expense_date, p_category_id, p_bank_account_id,
+    p_amount, p_payee, p_reference, p_notes
+  )
+  RETURNING * INTO v_expense;
+
+  INSERT INTO transactions (
+    business_id, account_id, transaction_number, type, amount, date,
+    description, category, reference_id, reconciled, notes
+  )
+  SELECT
+    p_business_id, p_bank_account_id, p_expense_number, 'withdrawal', p_amount, p_expense_date,
+    expense_description(p_category_id, p_payee), c.name, v_expense.id, false, p_notes
+  FROM expense_categories c
+  WHERE c.id = p_category_id;
+
+  RETURN v_expense;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_expense(
+  p_expense_id uuid,
+  p_expense_number text,
+  p_expense_date date,
+  p_category_id uuid,
+  p_bank_account_id uuid,
+  p_amount numeric,
+  p_payee text,
+  p_reference text,
+  p_notes text
+)
+RETURNS expenses
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_expense expenses;
+BEGIN
+  UPDATE expenses
+  SET expense_number = p_expense_number,
+      expense_date = p_expense_date,
+      category_id = p_category_id,
+      bank_account_id = p_bank_account_id,
+      amount = p_amount,
+      payee = p_payee,
+      reference = p_reference,
+      notes = p_notes,
+      updated_at = now()
+  WHERE id = p_expense_id
+  RETURNING * INTO v_expense;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense % not found', p_expense_id;
+  END IF;
+
+  UPDATE transactions t
+  SET account_id = p_bank_account_id,
+      transaction_number = p_expense_number,
+      amount = p_amount,
+      date = p_expense_date,
+      description = expense_description(p_category_id, p_payee),
+      category = c.name,
+      notes = p_notes
+  FROM expense_categories c
+  WHERE c.id = p_category_id
+    AND t.reference_id::text = p_expense_id::text
+    AND t.type = 'withdrawal';
+
+  IF NOT FOUND THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    SELECT
+      v_expense.business_id, p_bank_account_id, p_expense_number, 'withdrawal', p_amount, p_expense_date,
+      expense_description(p_category_id, p_payee), c.name, p_expense_id, false, p_notes
+    FROM expense_categories c
+    WHERE c.id = p_category_id;
+  END IF;
+
+  RETURN v_expense;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_expense(p_expense_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Removing the withdrawal first lets the balance trigger refund the account
+  DELETE FROM transactions
+  WHERE reference_id::text = p_expense_id::text
+    AND type = 'withdrawal';
+
+  DELETE FROM expenses WHERE id = p_expense_id;
+END;
+$$;
+
+-- Ledger
+
+ALTER TABLE journal_entries DROP CONSTRAINT IF EXISTS journal_entries_source_type_check;
+ALTER TABLE journal_entries ADD CONSTRAINT journal_entries_source_type_check
+  CHECK (source_type IN (
+    'PURCHASE', 'BILL', 'PAYMENT', 'INVOICE', 'RECEIPT', 'TRANSACTION', 'TRANSFER', 'BANK_ACCOUNT', 'CREDITOR', 'EXPENSE'
+  ));
+
+CREATE OR REPLACE FUNCTION post_expense_journal(p_expense_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_expense expenses;
+  v_category text;
+BEGIN
+  SELECT * INTO v_expense FROM expenses WHERE id = p_expense_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('EXPENSE', p_expense_id);
+    RETURN;
+  END IF;
+
+  SELECT name INTO v_category FROM expense_categories WHERE id = v_expense.category_id;
+
+  PERFORM replace_journal_entry(
+    v_expense.business_id, 'EXPENSE', v_expense.id, v_expense.expense_date,
+    'Expense ' || v_expense.expense_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', category_ledger_account(v_expense.business_id, v_category, 'EXPENSE'),
+        'debit', v_expense.amount),
+      jsonb_build_object('account_id', bank_ledger_account(v_expense.bank_account_id), 'credit', v_expense.amount)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_journal_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM remove_journal_entry(TG_ARGV[0], OLD.id);
+    RETURN NULL;
+  END IF;
+
+  v_source_id := NEW.id;
+
+  CASE TG_ARGV[0]
+    WHEN 'PURCHASE' THEN PERFORM post_purchase_journal(v_source_id);
+    WHEN 'BILL' THEN PERFORM post_bill_journal(v_source_id);
+    WHEN 'INVOICE' THEN PERFORM post_invoice_journal(v_source_id);
+    WHEN 'PAYMENT' THEN PERFORM post_payment_journal(v_source_id);
+    WHEN 'RECEIPT' THEN PERFORM post_receipt_journal(v_source_id);
+    WHEN 'TRANSACTION' THEN PERFORM post_transaction_journal(v_source_id);
+    WHEN 'TRANSFER' THEN PERFORM post_transfer_journal(v_source_id);
+    WHEN 'EXPENSE' THEN PERFORM post_expense_journal(v_source_id);
+    WHEN 'BANK_ACCOUNT' THEN
+      UPDATE ledger_accounts SET name = NEW.name WHERE bank_account_id = v_source_id AND name <> NEW.name;
+      PERFORM post_bank_account_journal(v_source_id);
+    WHEN 'CREDITOR' THEN PERFORM post_creditor_journal(v_source_id);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON expenses;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('EXPENSE');
+
+-- A renamed category files its expenses' withdrawals and postings under the new name
+CREATE OR REPLACE FUNCTION sync_expense_category()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_expense expenses;
+BEGIN
+  FOR v_expense IN SELECT * FROM expenses WHERE category_id = NEW.id LOOP
+    UPDATE transactions
+    SET category = NEW.name,
+        description = expense_description(NEW.id, v_expense.payee)
+    WHERE reference_id::text = v_expense.id::text
+      AND type = 'withdrawal';
+
+    PERFORM post_expense_journal(v_expense.id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_expense_category ON expense_categories;
+CREATE TRIGGER sync_expense_category
+  AFTER UPDATE OF name ON expense_categories
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION sync_expense_category();
+
+CREATE OR REPLACE FUNCTION rebuild_journal(p_business_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  PERFORM ensure_ledger_accounts(p_business_id);
+
+  FOR v_id IN SELECT id FROM bank_accounts WHERE business_id = p_business_id LOOP
+    PERFORM post_bank_account_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM creditors WHERE business_id = p_business_id LOOP
+    PERFORM post_creditor_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM purchases WHERE business_id = p_business_id LOOP
+    PERFORM post_purchase_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM bills WHERE business_id = p_business_id LOOP
+    PERFORM post_bill_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM invoices WHERE business_id = p_business_id LOOP
+    PERFORM post_invoice_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM payments WHERE business_id = p_business_id LOOP
+    PERFORM post_payment_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM receipts WHERE business_id = p_business_id LOOP
+    PERFORM post_receipt_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM transfers WHERE business_id = p_business_id LOOP
+    PERFORM post_transfer_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM expenses WHERE business_id = p_business_id LOOP
+    PERFORM post_expense_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM transactions WHERE business_id = p_business_id LOOP
+    PERFORM post_transaction_journal(v_id);
+  END LOOP;
+END;
+$$;
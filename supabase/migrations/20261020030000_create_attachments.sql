@@ -0,0 +1,121 @@
+/*
+  # Create attachments
+
+  1. New Tables
+    - `attachments` - photos and scans kept against a record, such as the
+      supplier's invoice for a purchase or the bank's advice for a payment
+      - `id` (uuid, primary key)
+      - `business_id` (uuid, references businesses)
+      - `record_type` (text, PURCHASE, PAYMENT, BILL or EXPENSE)
+      - `record_id` (uuid, the id of the record in its own table)
+      - `bucket` (text, the storage bucket holding the file)
+      - `storage_path` (text, `<business id>/<record type>/<record id>/<file>`)
+      - `file_name` (text)
+      - `content_type` (text)
+      - `size` (integer, bytes, nullable)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Expense receipt photos become attachments of their expense; the files
+      stay where they are in the `expense-receipts` bucket and new ones go
+      to `attachments`
+    - `expense_receipts` is dropped
+    - Deleting a purchase, payment, bill or expense deletes its attachments,
+      whichever way the record goes (directly or through a cascade)
+
+  3. Notes
+    - `record_id` points at several tables, so there is no foreign key; the
+      delete triggers keep it tidy instead
+    - Storage files are removed by the app after the record is deleted, as
+      storage objects should not be deleted from SQL
+
+  4. Security
+    - Enable RLS on `attachments`
+    - Owners of a business can manage its attachments
+    - The `attachments` bucket is private; owners can read and write the
+      files under their business's folder
+*/
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  record_type text NOT NULL CHECK (record_type IN ('PURCHASE', 'PAYMENT', 'BILL', 'EXPENSE')),
+  record_id uuid NOT NULL,
+  bucket text NOT NULL DEFAULT 'attachments',
+  storage_path text NOT NULL,
+  file_name text NOT NULL,
+  content_type text NOT NULL DEFAULT 'image/jpeg',
+  size integer CHECK (size >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (bucket, storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS attachments_record_idx ON attachments(record_type, record_id);
+
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage attachments"
+  ON attachments
+  FOR ALL
+  TO authenticated
+  USING (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()))
+  WITH CHECK (business_id IN (SELECT id FROM businesses WHERE owner_id = auth.uid()));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can manage attachment files"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM businesses WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM businesses WHERE owner_id = auth.uid())
+  );
+
+-- Receipt photos taken before attachments existed
+INSERT INTO attachments (business_id, record_type, record_id, bucket, storage_path, file_name, content_type, created_at)
+SELECT business_id, 'EXPENSE', expense_id, 'expense-receipts', storage_path, file_name, content_type, created_at
+FROM expense_receipts
+ON CONFLICT (bucket, storage_path) DO NOTHING;
+
+DROP TABLE IF EXISTS expense_receipts;
+
+-- One trigger function for every record table; the argument is the record type
+CREATE OR REPLACE FUNCTION delete_record_attachments()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM attachments
+  WHERE record_type = TG_ARGV[0]
+    AND record_id = OLD.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_record_attachments ON purchases;
+CREATE TRIGGER delete_record_attachments
+  AFTER DELETE ON purchases
+  FOR EACH ROW EXECUTE FUNCTION delete_record_attachments('PURCHASE');
+
+DROP TRIGGER IF EXISTS delete_record_attachments ON payments;
+CREATE TRIGGER delete_record_attachments
+  AFTER DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION delete_record_attachments('PAYMENT');
+
+DROP TRIGGER IF EXISTS delete_record_attachments ON bills;
+CREATE TRIGGER delete_record_attachments
+  AFTER DELETE ON bills
+  FOR EACH ROW EXECUTE FUNCTION delete_record_attachments('BILL');
+
+DROP TRIGGER IF EXISTS delete_record_attachments ON expenses;
+CREATE TRIGGER delete_record_attachments
+  AFTER DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION delete_record_attachments('EXPENSE');
@@ -0,0 +1,282 @@
+/*
+  # Derive customer receivables from invoices and receipts
+
+  1. Changes
+    - `customers.opening_balance` holds what was owed before any invoice or
+      receipt was recorded in the app
+    - `customers.receivable_amount` is no longer adjusted by hand. It is
+      always the opening balance plus the unpaid part of every sent or
+      partly paid invoice, less any receipt money not applied to an issued
+      invoice, and may go negative when a customer is in credit
+    - Receipt money applied to an invoice that is later deleted, cancelled or
+      put back to draft becomes customer credit instead of disappearing, so
+      deleting that receipt afterwards takes back exactly that credit
+    - Customers with no activity yet keep their typed-in balance as their
+      opening balance; every balance is then rebuilt
+
+  2. New Functions
+    - `customer_ledger_total` - open invoice balances less unapplied receipts
+    - `refresh_customer_receivable` - rebuilds one customer's balance
+    - `recalculate_customer_balances` - rebuilds every customer balance of a
+      business and returns how many were corrected
+    - Triggers on `invoices`, `receipts` and `receipt_allocations` refresh the
+      old and new customer on every insert, update and delete
+
+  3. Changes to posting functions
+    - `post_receipt` and `delete_receipt` no longer adjust the balance
+      themselves
+    - `apply_invoice_payment` leaves draft and cancelled invoices in that
+      status
+    - `adjust_customer_receivable` is dropped
+*/
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS opening_balance numeric(12, 2) NOT NULL DEFAULT 0;
+
+-- Without any activity the stored balance can only have been typed in
+UPDATE customers c
+SET opening_balance = c.receivable_amount
+WHERE NOT EXISTS (SELECT 1 FROM invoices WHERE customer_id = c.id)
+  AND NOT EXISTS (SELECT 1 FROM receipts WHERE customer_id = c.id);
+
+-- Paid invoices owe nothing whether a receipt or the user marked them paid,
+-- so only the money a receipt put towards an issued invoice is netted off
+CREATE OR REPLACE FUNCTION customer_ledger_total(p_customer_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(total_amount - amount_paid) FROM invoices
+      WHERE customer_id = p_customer_id AND status IN ('SENT', 'PARTIAL')
+    ), 0)
+    - COALESCE((SELECT SUM(amount) FROM receipts WHERE customer_id = p_customer_id), 0)
+    + COALESCE((
+      SELECT SUM(a.amount)
+      FROM receipt_allocations a
+      JOIN receipts r ON r.id = a.receipt_id
+      JOIN invoices i ON i.id = a.invoice_id
+      WHERE r.customer_id = p_customer_id
+        AND i.status NOT IN ('DRAFT', 'CANCELLED')
+    ), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_customer_receivable(p_customer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_customer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE customers
+  SET receivable_amount = opening_balance + customer_ledger_total(id)
+  WHERE id = p_customer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION recalculate_customer_balances(p_business_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_corrected integer;
+BEGIN
+  UPDATE customers
+  SET receivable_amount = opening_balance + customer_ledger_total(id)
+  WHERE business_id = p_business_id
+    AND receivable_amount IS DISTINCT FROM opening_balance + customer_ledger_total(id);
+
+  GET DIAGNOSTICS v_corrected = ROW_COUNT;
+  RETURN v_corrected;
+END;
+$$;
+
+-- Keeps the stored balance in step with the opening balance typed on the customer
+CREATE OR REPLACE FUNCTION set_customer_receivable()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.receivable_amount := NEW.opening_balance + customer_ledger_total(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_customer_receivable ON customers;
+CREATE TRIGGER set_customer_receivable
+  BEFORE INSERT OR UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION set_customer_receivable();
+
+CREATE OR REPLACE FUNCTION refresh_customer_receivable_from_ledger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_customer_receivable(NEW.customer_id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_customer_receivable(OLD.customer_id);
+  ELSE
+    PERFORM refresh_customer_receivable(OLD.customer_id);
+    IF NEW.customer_id IS DISTINCT FROM OLD.customer_id THEN
+      PERFORM refresh_customer_receivable(NEW.customer_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_customer_receivable ON invoices;
+CREATE TRIGGER refresh_customer_receivable
+  AFTER INSERT OR UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION refresh_customer_receivable_from_ledger();
+
+DROP TRIGGER IF EXISTS refresh_customer_receivable ON receipts;
+CREATE TRIGGER refresh_customer_receivable
+  AFTER INSERT OR UPDATE OR DELETE ON receipts
+  FOR EACH ROW EXECUTE FUNCTION refresh_customer_receivable_from_ledger();
+
+-- Allocations belong to the receipt's customer; when the receipt itself is
+-- being deleted its own trigger refreshes the balance
+CREATE OR REPLACE FUNCTION refresh_customer_receivable_from_allocation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_customer_receivable(r.customer_id)
+  FROM receipts r
+  WHERE r.id = CASE WHEN TG_OP = 'DELETE' THEN OLD.receipt_id ELSE NEW.receipt_id END;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_customer_receivable ON receipt_allocations;
+CREATE TRIGGER refresh_customer_receivable
+  AFTER INSERT OR UPDATE OR DELETE ON receipt_allocations
+  FOR EACH ROW EXECUTE FUNCTION refresh_customer_receivable_from_allocation();
+
+-- A cancelled or draft invoice keeps its status when a receipt applied to it
+-- is deleted, so the money it held does not turn back into a debt
+CREATE OR REPLACE FUNCTION apply_invoice_payment(p_invoice_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE invoices
+  SET amount_paid = GREATEST(0, amount_paid + p_amount),
+      status = CASE
+        WHEN status IN ('DRAFT', 'CANCELLED') THEN status
+        WHEN GREATEST(0, amount_paid + p_amount) >= total_amount THEN 'PAID'
+        WHEN GREATEST(0, amount_paid + p_amount) > 0 THEN 'PARTIAL'
+        ELSE 'SENT'
+      END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Posting functions leave the balance to the triggers above
+CREATE OR REPLACE FUNCTION post_receipt(
+  p_business_id uuid,
+  p_receipt_number text,
+  p_receipt_date date,
+  p_amount numeric,
+  p_customer_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS receipts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+  v_allocation record;
+  v_allocated numeric := 0;
+BEGIN
+  INSERT INTO receipts (
+    business_id, receipt_number, receipt_date, amount, customer_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, p_receipt_number, p_receipt_date, p_amount, p_customer_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_receipt;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(invoice_id uuid, amount numeric)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM invoices
+      WHERE id = v_allocation.invoice_id
+        AND business_id = p_business_id
+        AND customer_id IS NOT DISTINCT FROM p_customer_id
+    ) THEN
+      RAISE EXCEPTION 'Invoice % does not belong to this customer', v_allocation.invoice_id;
+    END IF;
+
+    INSERT INTO receipt_allocations (receipt_id, invoice_id, amount)
+    VALUES (v_receipt.id, v_allocation.invoice_id, v_allocation.amount);
+
+    PERFORM apply_invoice_payment(v_allocation.invoice_id, v_allocation.amount);
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the receipt amount';
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, 'DEP-' || replace(p_receipt_number, 'RCP-', ''), 'deposit', p_amount, p_receipt_date,
+      COALESCE(p_transaction_description, 'Payment received'), 'Receipt', v_receipt.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_receipt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_receipt(p_receipt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+  v_allocation record;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt % not found', p_receipt_id;
+  END IF;
+
+  FOR v_allocation IN
+    SELECT invoice_id, amount FROM receipt_allocations WHERE receipt_id = p_receipt_id
+  LOOP
+    PERFORM apply_invoice_payment(v_allocation.invoice_id, -v_allocation.amount);
+  END LOOP;
+
+  DELETE FROM transactions
+  WHERE reference_id::text = p_receipt_id::text
+    AND category = 'Receipt';
+
+  DELETE FROM receipts WHERE id = p_receipt_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS adjust_customer_receivable(uuid, numeric);
+
+-- Repair balances that drifted while they were adjusted by hand
+UPDATE customers SET receivable_amount = opening_balance + customer_ledger_total(id);
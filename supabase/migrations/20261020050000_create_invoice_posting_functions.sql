@@ -0,0 +1,159 @@
+/*
+  # Invoice posting functions
+
+  1. New Functions
+    - `write_invoice_lines` - replaces an invoice's line items with the given
+      priced lines, keeping their order
+    - `post_invoice` - records an invoice together with its line items
+    - `update_invoice` - edits an invoice and replaces its line items
+
+  2. Notes
+    - The header and its lines are written in one transaction, so a failure
+      part way never leaves an invoice without line items. The customer
+      receivable follows through the triggers on `invoices`
+    - Lines arrive priced by the app (see `priceInvoiceLineItem`) and are
+      stored as they are, like the header totals
+    - An invoice that has received money keeps its customer, and its total
+      cannot drop below what has been received
+*/
+
+CREATE OR REPLACE FUNCTION write_invoice_lines(p_invoice_id uuid, p_line_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  DELETE FROM invoice_line_items WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_line_items (
+    invoice_id, item_id, description, hsn_code, quantity, unit_price, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, sort_order
+  )
+  SELECT
+    p_invoice_id, l.item_id, l.description, NULLIF(trim(l.hsn_code), ''), l.quantity, l.unit_price,
+    COALESCE(l.tax_percent, 0), l.taxable_amount, l.tax_amount,
+    l.cgst_amount, l.sgst_amount, l.igst_amount, l.amount,
+    (l.ordinality - 1)::integer
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_line_items) AS (
+      item_id uuid, description text, hsn_code text, quantity numeric, unit_price numeric, tax_percent numeric,
+      taxable_amount numeric, tax_amount numeric, cgst_amount numeric, sgst_amount numeric, igst_amount numeric,
+      amount numeric
+    )
+  ) WITH ORDINALITY AS l(
+    item_id, description, hsn_code, quantity, unit_price, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, ordinality
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_business_id uuid,
+  p_invoice_number text,
+  p_invoice_date date,
+  p_due_date date,
+  p_customer_id uuid,
+  p_customer_name text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_subtotal numeric,
+  p_tax_amount numeric,
+  p_cgst_amount numeric,
+  p_sgst_amount numeric,
+  p_igst_amount numeric,
+  p_total_amount numeric,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  INSERT INTO invoices (
+    business_id, invoice_number, invoice_date, due_date, customer_id, customer_name,
+    place_of_supply, reverse_charge, subtotal, tax_amount, cgst_amount, sgst_amount,
+    igst_amount, total_amount, status, notes
+  )
+  VALUES (
+    p_business_id, p_invoice_number, p_invoice_date, p_due_date, p_customer_id, p_customer_name,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), p_subtotal, p_tax_amount, p_cgst_amount, p_sgst_amount,
+    p_igst_amount, p_total_amount, p_status, p_notes
+  )
+  RETURNING * INTO v_invoice;
+
+  PERFORM write_invoice_lines(v_invoice.id, p_line_items);
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_invoice(
+  p_invoice_id uuid,
+  p_invoice_number text,
+  p_invoice_date date,
+  p_due_date date,
+  p_customer_id uuid,
+  p_customer_name text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_subtotal numeric,
+  p_tax_amount numeric,
+  p_cgst_amount numeric,
+  p_sgst_amount numeric,
+  p_igst_amount numeric,
+  p_total_amount numeric,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous invoices;
+  v_invoice invoices;
+BEGIN
+  SELECT * INTO v_previous FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+
+  IF v_previous.amount_paid > 0 THEN
+    IF p_total_amount < v_previous.amount_paid THEN
+      RAISE EXCEPTION 'Invoice total cannot be less than the amount already received';
+    END IF;
+    IF p_customer_id IS DISTINCT FROM v_previous.customer_id THEN
+      RAISE EXCEPTION 'Customer cannot change while receipts are applied to the invoice';
+    END IF;
+  END IF;
+
+  UPDATE invoices
+  SET invoice_number = p_invoice_number,
+      invoice_date = p_invoice_date,
+      due_date = p_due_date,
+      customer_id = p_customer_id,
+      customer_name = p_customer_name,
+      place_of_supply = p_place_of_supply,
+      reverse_charge = COALESCE(p_reverse_charge, false),
+      subtotal = p_subtotal,
+      tax_amount = p_tax_amount,
+      cgst_amount = p_cgst_amount,
+      sgst_amount = p_sgst_amount,
+      igst_amount = p_igst_amount,
+      total_amount = p_total_amount,
+      status = p_status,
+      notes = p_notes
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  PERFORM write_invoice_lines(p_invoice_id, p_line_items);
+
+  RETURN v_invoice;
+END;
+$$;
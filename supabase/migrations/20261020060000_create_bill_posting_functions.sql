@@ -0,0 +1,156 @@
+/*
+  # Bill posting functions
+
+  1. New Functions
+    - `write_bill_lines` - replaces a bill's line items with the given priced
+      lines, keeping their order
+    - `post_bill` - records a bill together with its line items
+    - `update_bill` - edits a bill and replaces its line items
+
+  2. Notes
+    - The header and its lines are written in one transaction, so a failure
+      part way never leaves a bill with its new total but no line items. The
+      creditor balance follows through the triggers on `bills`
+    - Lines arrive priced by the app (see `priceBillLineItem`) and are stored
+      as they are, like the header totals
+    - A bill that has been paid against keeps its creditor, and its total
+      cannot drop below what has been paid
+*/
+
+CREATE OR REPLACE FUNCTION write_bill_lines(p_bill_id uuid, p_line_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A bill needs at least one line';
+  END IF;
+
+  DELETE FROM bill_line_items WHERE bill_id = p_bill_id;
+
+  INSERT INTO bill_line_items (
+    bill_id, description, hsn_code, quantity, unit_price, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, sort_order
+  )
+  SELECT
+    p_bill_id, l.description, NULLIF(trim(l.hsn_code), ''), l.quantity, l.unit_price,
+    COALESCE(l.tax_percent, 0), l.taxable_amount, l.tax_amount,
+    l.cgst_amount, l.sgst_amount, l.igst_amount, l.amount,
+    (l.ordinality - 1)::integer
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_line_items) AS (
+      description text, hsn_code text, quantity numeric, unit_price numeric, tax_percent numeric,
+      taxable_amount numeric, tax_amount numeric, cgst_amount numeric, sgst_amount numeric, igst_amount numeric,
+      amount numeric
+    )
+  ) WITH ORDINALITY AS l(
+    description, hsn_code, quantity, unit_price, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, ordinality
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_bill(
+  p_business_id uuid,
+  p_bill_number text,
+  p_issue_date date,
+  p_due_date date,
+  p_creditor_id uuid,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_subtotal numeric,
+  p_tax_amount numeric,
+  p_cgst_amount numeric,
+  p_sgst_amount numeric,
+  p_igst_amount numeric,
+  p_total_amount numeric,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS bills
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill bills;
+BEGIN
+  INSERT INTO bills (
+    business_id, bill_number, issue_date, due_date, creditor_id,
+    place_of_supply, reverse_charge, subtotal, tax_amount, cgst_amount, sgst_amount,
+    igst_amount, total_amount, status, notes
+  )
+  VALUES (
+    p_business_id, p_bill_number, p_issue_date, p_due_date, p_creditor_id,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), p_subtotal, p_tax_amount, p_cgst_amount, p_sgst_amount,
+    p_igst_amount, p_total_amount, p_status, p_notes
+  )
+  RETURNING * INTO v_bill;
+
+  PERFORM write_bill_lines(v_bill.id, p_line_items);
+
+  RETURN v_bill;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_bill(
+  p_bill_id uuid,
+  p_bill_number text,
+  p_issue_date date,
+  p_due_date date,
+  p_creditor_id uuid,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_subtotal numeric,
+  p_tax_amount numeric,
+  p_cgst_amount numeric,
+  p_sgst_amount numeric,
+  p_igst_amount numeric,
+  p_total_amount numeric,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS bills
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous bills;
+  v_bill bills;
+BEGIN
+  SELECT * INTO v_previous FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF v_previous.amount_paid > 0 THEN
+    IF p_total_amount < v_previous.amount_paid THEN
+      RAISE EXCEPTION 'Bill total cannot be less than the amount already paid';
+    END IF;
+    IF p_creditor_id IS DISTINCT FROM v_previous.creditor_id THEN
+      RAISE EXCEPTION 'Creditor cannot change while payments are applied to the bill';
+    END IF;
+  END IF;
+
+  UPDATE bills
+  SET bill_number = p_bill_number,
+      issue_date = p_issue_date,
+      due_date = p_due_date,
+      creditor_id = p_creditor_id,
+      place_of_supply = p_place_of_supply,
+      reverse_charge = COALESCE(p_reverse_charge, false),
+      subtotal = p_subtotal,
+      tax_amount = p_tax_amount,
+      cgst_amount = p_cgst_amount,
+      sgst_amount = p_sgst_amount,
+      igst_amount = p_igst_amount,
+      total_amount = p_total_amount,
+      status = p_status,
+      notes = p_notes
+  WHERE id = p_bill_id
+  RETURNING * INTO v_bill;
+
+  PERFORM write_bill_lines(p_bill_id, p_line_items);
+
+  RETURN v_bill;
+END;
+$$;
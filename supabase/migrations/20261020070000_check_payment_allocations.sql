@@ -0,0 +1,273 @@
+/*
+  # Check payment allocations and keep document numbers on bank lines
+
+  1. Changes to posting functions
+    - `apply_bill_payment` no longer clamps at zero. A reversal that would
+      take `amount_paid` below zero, or a payment that would take it above
+      the bill total, raises instead of quietly leaving the bill out of step
+    - `post_payment` checks the allocations before applying any of them: each
+      must fit in what is left to pay on its bill, and together they cannot
+      exceed the payment amount
+    - `post_payment`, `update_payment` and `post_receipt` number the bank
+      withdrawal or deposit with the payment or receipt number as it is,
+      instead of rewriting a `PAY-`/`RCP-` prefix that configurable numbering
+      no longer guarantees. `reference_id` remains the link between them
+*/
+
+CREATE OR REPLACE FUNCTION apply_bill_payment(p_bill_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill bills;
+BEGIN
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF v_bill.amount_paid + p_amount < 0 THEN
+    RAISE EXCEPTION 'Bill % has only % paid against it', v_bill.bill_number, v_bill.amount_paid;
+  END IF;
+
+  IF v_bill.amount_paid + p_amount > v_bill.total_amount THEN
+    RAISE EXCEPTION 'Payment exceeds the balance of bill %', v_bill.bill_number;
+  END IF;
+
+  UPDATE bills
+  SET amount_paid = amount_paid + p_amount,
+      status = CASE
+        WHEN amount_paid + p_amount >= total_amount THEN 'PAID'
+        WHEN amount_paid + p_amount > 0 THEN 'PARTIAL'
+        ELSE 'PENDING'
+      END
+  WHERE id = p_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payment(
+  p_business_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+  v_bill bills;
+BEGIN
+  IF (
+    SELECT COALESCE(SUM(amount), 0)
+    FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(bill_id uuid, amount numeric)
+  ) > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the payment amount';
+  END IF;
+
+  INSERT INTO payments (
+    business_id, payment_number, payment_date, amount, creditor_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, p_payment_number, p_payment_date, p_amount, p_creditor_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(bill_id uuid, amount numeric)
+  LOOP
+    SELECT * INTO v_bill
+    FROM bills
+    WHERE id = v_allocation.bill_id
+      AND business_id = p_business_id
+      AND creditor_id IS NOT DISTINCT FROM p_creditor_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Bill % does not belong to this creditor', v_allocation.bill_id;
+    END IF;
+
+    IF v_allocation.amount > v_bill.total_amount - v_bill.amount_paid THEN
+      RAISE EXCEPTION 'Allocation exceeds the balance of bill %', v_bill.bill_number;
+    END IF;
+
+    INSERT INTO payment_allocations (payment_id, bill_id, amount)
+    VALUES (v_payment.id, v_allocation.bill_id, v_allocation.amount);
+
+    PERFORM apply_bill_payment(v_allocation.bill_id, v_allocation.amount);
+  END LOOP;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, p_payment_number, 'withdrawal', p_amount, p_payment_date,
+      COALESCE(p_transaction_description, 'Payment made'), 'Payment', v_payment.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_payment(
+  p_payment_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous payments;
+  v_payment payments;
+  v_allocated numeric;
+BEGIN
+  SELECT * INTO v_previous FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_allocated
+  FROM payment_allocations
+  WHERE payment_id = p_payment_id;
+
+  IF v_allocated > 0 THEN
+    IF p_amount < v_allocated THEN
+      RAISE EXCEPTION 'Payment amount cannot be less than the amount applied to bills';
+    END IF;
+    IF p_creditor_id IS DISTINCT FROM v_previous.creditor_id THEN
+      RAISE EXCEPTION 'Creditor cannot change while the payment is applied to bills';
+    END IF;
+  END IF;
+
+  UPDATE payments
+  SET payment_number = p_payment_number,
+      payment_date = p_payment_date,
+      amount = p_amount,
+      creditor_id = p_creditor_id,
+      bank_account_id = p_bank_account_id,
+      payment_method = p_payment_method,
+      reference = p_reference,
+      notes = p_notes
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    UPDATE transactions
+    SET account_id = p_bank_account_id,
+        transaction_number = p_payment_number,
+        amount = p_amount,
+        date = p_payment_date,
+        description = COALESCE(p_transaction_description, 'Payment made'),
+        notes = p_notes
+    WHERE reference_id::text = p_payment_id::text
+      AND type = 'withdrawal';
+
+    IF NOT FOUND THEN
+      INSERT INTO transactions (
+        business_id, account_id, transaction_number, type, amount, date,
+        description, category, reference_id, reconciled, notes
+      )
+      VALUES (
+        v_payment.business_id, p_bank_account_id, p_payment_number, 'withdrawal', p_amount, p_payment_date,
+        COALESCE(p_transaction_description, 'Payment made'), 'Payment', p_payment_id, false, p_notes
+      );
+    END IF;
+  ELSE
+    DELETE FROM transactions
+    WHERE reference_id::text = p_payment_id::text
+      AND type = 'withdrawal';
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_receipt(
+  p_business_id uuid,
+  p_receipt_number text,
+  p_receipt_date date,
+  p_amount numeric,
+  p_customer_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS receipts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+  v_allocation record;
+  v_allocated numeric := 0;
+BEGIN
+  INSERT INTO receipts (
+    business_id, receipt_number, receipt_date, amount, customer_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, p_receipt_number, p_receipt_date, p_amount, p_customer_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_receipt;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(invoice_id uuid, amount numeric)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM invoices
+      WHERE id = v_allocation.invoice_id
+        AND business_id = p_business_id
+        AND customer_id IS NOT DISTINCT FROM p_customer_id
+    ) THEN
+      RAISE EXCEPTION 'Invoice % does not belong to this customer', v_allocation.invoice_id;
+    END IF;
+
+    INSERT INTO receipt_allocations (receipt_id, invoice_id, amount)
+    VALUES (v_receipt.id, v_allocation.invoice_id, v_allocation.amount);
+
+    PERFORM apply_invoice_payment(v_allocation.invoice_id, v_allocation.amount);
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the receipt amount';
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, p_receipt_number, 'deposit', p_amount, p_receipt_date,
+      COALESCE(p_transaction_description, 'Payment received'), 'Receipt', v_receipt.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_receipt;
+END;
+$$;
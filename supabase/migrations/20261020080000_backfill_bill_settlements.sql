@@ -0,0 +1,70 @@
+/*
+  # Back bills settled by hand with payments
+
+  1. Changes
+    - Bills marked paid before payments were allocated in the app carry an
+      `amount_paid` with no allocation behind it. The ageing report reads
+      `amount_paid` and treats them as settled, while the creditor statement
+      and ledger only see the payments
+    - The payment form used to record a payment for the creditor before
+      marking the bill paid, so the money is usually already there. Each
+      such bill, oldest first, is allocated the creditor's unallocated
+      payments, oldest first
+    - Only what is still unbacked after that gets a payment of its own,
+      numbered `ADJ-<bill number>`, dated on the bill and allocated to it
+    - `amount_paid` and the bill status are left as they are; the triggers on
+      `payments` bring the creditor balance and the journal into step
+*/
+
+DO $$
+DECLARE
+  v_bill record;
+  v_payment record;
+  v_unbacked numeric;
+  v_applied numeric;
+  v_adjustment_id uuid;
+BEGIN
+  FOR v_bill IN
+    SELECT b.id, b.business_id, b.bill_number, b.issue_date, b.creditor_id,
+      b.amount_paid - COALESCE((SELECT SUM(a.amount) FROM payment_allocations a WHERE a.bill_id = b.id), 0) AS unbacked
+    FROM bills b
+    ORDER BY b.issue_date, b.created_at
+  LOOP
+    v_unbacked := v_bill.unbacked;
+    CONTINUE WHEN v_unbacked <= 0;
+
+    FOR v_payment IN
+      SELECT p.id,
+        p.amount - COALESCE((SELECT SUM(a.amount) FROM payment_allocations a WHERE a.payment_id = p.id), 0) AS unallocated
+      FROM payments p
+      WHERE p.creditor_id = v_bill.creditor_id
+      ORDER BY p.payment_date, p.created_at
+    LOOP
+      EXIT WHEN v_unbacked <= 0;
+      CONTINUE WHEN v_payment.unallocated <= 0;
+
+      v_applied := LEAST(v_unbacked, v_payment.unallocated);
+
+      INSERT INTO payment_allocations (payment_id, bill_id, amount)
+      VALUES (v_payment.id, v_bill.id, v_applied);
+
+      v_unbacked := v_unbacked - v_applied;
+    END LOOP;
+
+    IF v_unbacked > 0 THEN
+      INSERT INTO payments (
+        business_id, payment_number, payment_date, amount, creditor_id,
+        bank_account_id, payment_method, reference, notes
+      )
+      VALUES (
+        v_bill.business_id, 'ADJ-' || v_bill.bill_number, v_bill.issue_date, v_unbacked, v_bill.creditor_id,
+        NULL, 'Other', v_bill.bill_number, 'Bill marked paid before payments were recorded'
+      )
+      RETURNING id INTO v_adjustment_id;
+
+      INSERT INTO payment_allocations (payment_id, bill_id, amount)
+      VALUES (v_adjustment_id, v_bill.id, v_unbacked);
+    END IF;
+  END LOOP;
+END;
+$$;
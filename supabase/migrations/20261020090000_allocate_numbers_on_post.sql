@@ -0,0 +1,534 @@
+/*
+  # Allocate document numbers as documents are saved
+
+  1. New Functions
+    - `document_number_or_next` - the number typed on a document, or the next
+      one from its sequence when it was left blank
+
+  2. Changes to posting functions
+    - `post_invoice`, `post_bill`, `post_purchase`, `post_payment`,
+      `post_receipt`, `post_transfer` and `post_expense` take a NULL number to
+      mean "the next one" and allocate it in the same transaction as the
+      document. A save that fails rolls the sequence back with it, so the
+      series has no gaps
+    - `accept_transaction_match` numbers the payment it creates for a bill
+      the same way when no payment number is given
+    - Bank lines take the number stored on the document rather than the
+      parameter, which may have been NULL
+*/
+
+CREATE OR REPLACE FUNCTION document_number_or_next(
+  p_business_id uuid,
+  p_document_type text,
+  p_number text,
+  p_date date
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NULLIF(trim(p_number), '') IS NOT NULL THEN
+    RETURN p_number;
+  END IF;
+
+  RETURN allocate_document_number(p_business_id, p_document_type, COALESCE(p_date, CURRENT_DATE));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_business_id uuid,
+  p_invoice_number text,
+  p_invoice_date date,
+  p_due_date date,
+  p_customer_id uuid,
+  p_customer_name text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_subtotal numeric,
+  p_tax_amount numeric,
+  p_cgst_amount numeric,
+  p_sgst_amount numeric,
+  p_igst_amount numeric,
+  p_total_amount numeric,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  INSERT INTO invoices (
+    business_id, invoice_number, invoice_date, due_date, customer_id, customer_name,
+    place_of_supply, reverse_charge, subtotal, tax_amount, cgst_amount, sgst_amount,
+    igst_amount, total_amount, status, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'INVOICE', p_invoice_number, p_invoice_date),
+    p_invoice_date, p_due_date, p_customer_id, p_customer_name,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), p_subtotal, p_tax_amount, p_cgst_amount, p_sgst_amount,
+    p_igst_amount, p_total_amount, p_status, p_notes
+  )
+  RETURNING * INTO v_invoice;
+
+  PERFORM write_invoice_lines(v_invoice.id, p_line_items);
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_bill(
+  p_business_id uuid,
+  p_bill_number text,
+  p_issue_date date,
+  p_due_date date,
+  p_creditor_id uuid,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_subtotal numeric,
+  p_tax_amount numeric,
+  p_cgst_amount numeric,
+  p_sgst_amount numeric,
+  p_igst_amount numeric,
+  p_total_amount numeric,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS bills
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill bills;
+BEGIN
+  INSERT INTO bills (
+    business_id, bill_number, issue_date, due_date, creditor_id,
+    place_of_supply, reverse_charge, subtotal, tax_amount, cgst_amount, sgst_amount,
+    igst_amount, total_amount, status, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'BILL', p_bill_number, p_issue_date),
+    p_issue_date, p_due_date, p_creditor_id,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), p_subtotal, p_tax_amount, p_cgst_amount, p_sgst_amount,
+    p_igst_amount, p_total_amount, p_status, p_notes
+  )
+  RETURNING * INTO v_bill;
+
+  PERFORM write_bill_lines(v_bill.id, p_line_items);
+
+  RETURN v_bill;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_purchase(
+  p_business_id uuid,
+  p_purchase_number text,
+  p_purchase_date date,
+  p_creditor_id uuid,
+  p_description text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_line_items jsonb
+)
+RETURNS purchases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  INSERT INTO purchases (
+    business_id, purchase_number, purchase_date, creditor_id, description,
+    place_of_supply, reverse_charge, item_name, total_price
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'PURCHASE', p_purchase_number, p_purchase_date),
+    p_purchase_date, p_creditor_id, p_description,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), '', 0
+  )
+  RETURNING * INTO v_purchase;
+
+  RETURN write_purchase_lines(v_purchase.id, p_line_items);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payment(
+  p_business_id uuid,
+  p_payment_number text,
+  p_payment_date date,
+  p_amount numeric,
+  p_creditor_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+  v_bill bills;
+BEGIN
+  IF (
+    SELECT COALESCE(SUM(amount), 0)
+    FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(bill_id uuid, amount numeric)
+  ) > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the payment amount';
+  END IF;
+
+  INSERT INTO payments (
+    business_id, payment_number, payment_date, amount, creditor_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'PAYMENT', p_payment_number, p_payment_date),
+    p_payment_date, p_amount, p_creditor_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(bill_id uuid, amount numeric)
+  LOOP
+    SELECT * INTO v_bill
+    FROM bills
+    WHERE id = v_allocation.bill_id
+      AND business_id = p_business_id
+      AND creditor_id IS NOT DISTINCT FROM p_creditor_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Bill % does not belong to this creditor', v_allocation.bill_id;
+    END IF;
+
+    IF v_allocation.amount > v_bill.total_amount - v_bill.amount_paid THEN
+      RAISE EXCEPTION 'Allocation exceeds the balance of bill %', v_bill.bill_number;
+    END IF;
+
+    INSERT INTO payment_allocations (payment_id, bill_id, amount)
+    VALUES (v_payment.id, v_allocation.bill_id, v_allocation.amount);
+
+    PERFORM apply_bill_payment(v_allocation.bill_id, v_allocation.amount);
+  END LOOP;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, v_payment.payment_number, 'withdrawal', p_amount, p_payment_date,
+      COALESCE(p_transaction_description, 'Payment made'), 'Payment', v_payment.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_receipt(
+  p_business_id uuid,
+  p_receipt_number text,
+  p_receipt_date date,
+  p_amount numeric,
+  p_customer_id uuid,
+  p_bank_account_id uuid,
+  p_payment_method text,
+  p_reference text,
+  p_notes text,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_transaction_description text DEFAULT NULL
+)
+RETURNS receipts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt receipts;
+  v_allocation record;
+  v_allocated numeric := 0;
+BEGIN
+  INSERT INTO receipts (
+    business_id, receipt_number, receipt_date, amount, customer_id,
+    bank_account_id, payment_method, reference, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'RECEIPT', p_receipt_number, p_receipt_date),
+    p_receipt_date, p_amount, p_customer_id,
+    p_bank_account_id, p_payment_method, p_reference, p_notes
+  )
+  RETURNING * INTO v_receipt;
+
+  FOR v_allocation IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(invoice_id uuid, amount numeric)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM invoices
+      WHERE id = v_allocation.invoice_id
+        AND business_id = p_business_id
+        AND customer_id IS NOT DISTINCT FROM p_customer_id
+    ) THEN
+      RAISE EXCEPTION 'Invoice % does not belong to this customer', v_allocation.invoice_id;
+    END IF;
+
+    INSERT INTO receipt_allocations (receipt_id, invoice_id, amount)
+    VALUES (v_receipt.id, v_allocation.invoice_id, v_allocation.amount);
+
+    PERFORM apply_invoice_payment(v_allocation.invoice_id, v_allocation.amount);
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocated amount exceeds the receipt amount';
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL THEN
+    INSERT INTO transactions (
+      business_id, account_id, transaction_number, type, amount, date,
+      description, category, reference_id, reconciled, notes
+    )
+    VALUES (
+      p_business_id, p_bank_account_id, v_receipt.receipt_number, 'deposit', p_amount, p_receipt_date,
+      COALESCE(p_transaction_description, 'Payment received'), 'Receipt', v_receipt.id, false, p_notes
+    );
+  END IF;
+
+  RETURN v_receipt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_transfer(
+  p_business_id uuid,
+  p_transfer_number text,
+  p_transfer_date date,
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_notes text
+)
+RETURNS transfers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers;
+  v_description text := transfer_description(p_from_account_id, p_to_account_id);
+BEGIN
+  INSERT INTO transfers (
+    business_id, transfer_number, transfer_date, from_account_id, to_account_id,
+    amount, reference, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'TRANSFER', p_transfer_number, p_transfer_date),
+    p_transfer_date, p_from_account_id, p_to_account_id,
+    p_amount, p_reference, p_notes
+  )
+  RETURNING * INTO v_transfer;
+
+  INSERT INTO transactions (
+    business_id, account_id, transaction_number, type, amount, date,
+    description, category, transfer_id, reconciled, notes
+  )
+  VALUES
+    (p_business_id, p_from_account_id, v_transfer.transfer_number || '-OUT', 'withdrawal', p_amount, p_transfer_date,
+     v_description, 'Transfer', v_transfer.id, false, p_notes),
+    (p_business_id, p_to_account_id, v_transfer.transfer_number || '-IN', 'deposit', p_amount, p_transfer_date,
+     v_description, 'Transfer', v_transfer.id, false, p_notes);
+
+  RETURN v_transfer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_expense(
+  p_business_id uuid,
+  p_expense_number text,
+  p_expense_date date,
+  p_category_id uuid,
+  p_bank_account_id uuid,
+  p_amount numeric,
+  p_payee text,
+  p_reference text,
+  p_notes text
+)
+RETURNS expenses
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_expense expenses;
+BEGIN
+  INSERT INTO expenses (
+    business_id, expense_number, expense_date, category_id, bank_account_id,
+    amount, payee, reference, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'EXPENSE', p_expense_number, p_expense_date),
+    p_expense_date, p_category_id, p_bank_account_id,
+    p_amount, p_payee, p_reference, p_notes
+  )
+  RETURNING * INTO v_expense;
+
+  INSERT INTO transactions (
+    business_id, account_id, transaction_number, type, amount, date,
+    description, category, reference_id, reconciled, notes
+  )
+  SELECT
+    p_business_id, p_bank_account_id, v_expense.expense_number, 'withdrawal', p_amount, p_expense_date,
+    expense_description(p_category_id, p_payee), c.name, v_expense.id, false, p_notes
+  FROM expense_categories c
+  WHERE c.id = p_category_id;
+
+  RETURN v_expense;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_transaction_match(
+  p_transaction_id uuid,
+  p_document_type text,
+  p_document_id uuid,
+  p_payment_number text DEFAULT NULL,
+  p_rule_pattern text DEFAULT NULL
+)
+RETURNS transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transaction transactions;
+  v_payment payments;
+  v_receipt receipts;
+  v_bill bills;
+  v_applied numeric;
+  v_creditor_id uuid;
+  v_customer_id uuid;
+BEGIN
+  SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF v_transaction.reference_id IS NOT NULL OR v_transaction.transfer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transaction % is already linked', v_transaction.transaction_number;
+  END IF;
+
+  IF p_document_type = 'payment' THEN
+    IF v_transaction.type <> 'withdrawal' THEN
+      RAISE EXCEPTION 'Only withdrawals can settle a payment';
+    END IF;
+
+    SELECT * INTO v_payment FROM payments WHERE id = p_document_id FOR UPDATE;
+    IF NOT FOUND OR v_payment.amount <> v_transaction.amount THEN
+      RAISE EXCEPTION 'Payment % does not match this transaction', p_document_id;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM transactions
+      WHERE reference_id::text = p_document_id::text AND type = 'withdrawal' AND matched
+    ) THEN
+      RAISE EXCEPTION 'Payment % is already matched', v_payment.payment_number;
+    END IF;
+
+    DELETE FROM transactions
+    WHERE reference_id::text = p_document_id::text
+      AND type = 'withdrawal';
+
+    UPDATE payments SET bank_account_id = v_transaction.account_id WHERE id = p_document_id;
+    UPDATE transactions
+    SET reference_id = p_document_id, category = 'Payment', matched = true
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    v_creditor_id := v_payment.creditor_id;
+
+  ELSIF p_document_type = 'receipt' THEN
+    IF v_transaction.type <> 'deposit' THEN
+      RAISE EXCEPTION 'Only deposits can settle a receipt';
+    END IF;
+
+    SELECT * INTO v_receipt FROM receipts WHERE id = p_document_id FOR UPDATE;
+    IF NOT FOUND OR v_receipt.amount <> v_transaction.amount THEN
+      RAISE EXCEPTION 'Receipt % does not match this transaction', p_document_id;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM transactions
+      WHERE reference_id::text = p_document_id::text AND category = 'Receipt' AND matched
+    ) THEN
+      RAISE EXCEPTION 'Receipt % is already matched', v_receipt.receipt_number;
+    END IF;
+
+    DELETE FROM transactions
+    WHERE reference_id::text = p_document_id::text
+      AND category = 'Receipt';
+
+    UPDATE receipts SET bank_account_id = v_transaction.account_id WHERE id = p_document_id;
+    UPDATE transactions
+    SET reference_id = p_document_id, category = 'Receipt', matched = true
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    v_customer_id := v_receipt.customer_id;
+
+  ELSIF p_document_type = 'bill' THEN
+    IF v_transaction.type <> 'withdrawal' THEN
+      RAISE EXCEPTION 'Only withdrawals can pay a bill';
+    END IF;
+
+    SELECT * INTO v_bill FROM bills WHERE id = p_document_id FOR UPDATE;
+    IF NOT FOUND OR v_bill.total_amount - v_bill.amount_paid <= 0 THEN
+      RAISE EXCEPTION 'Bill % has nothing left to pay', p_document_id;
+    END IF;
+
+    -- Anything above the bill balance stays on the payment as an advance
+    v_applied := LEAST(v_transaction.amount, v_bill.total_amount - v_bill.amount_paid);
+
+    INSERT INTO payments (
+      business_id, payment_number, payment_date, amount, creditor_id,
+      bank_account_id, payment_method, reference, notes
+    )
+    VALUES (
+      v_transaction.business_id,
+      document_number_or_next(v_transaction.business_id, 'PAYMENT', p_payment_number, v_transaction.date),
+      v_transaction.date, v_transaction.amount, v_bill.creditor_id,
+      v_transaction.account_id, 'Bank Transfer', v_transaction.transaction_number, v_transaction.description
+    )
+    RETURNING * INTO v_payment;
+
+    INSERT INTO payment_allocations (payment_id, bill_id, amount)
+    VALUES (v_payment.id, v_bill.id, v_applied);
+
+    PERFORM apply_bill_payment(v_bill.id, v_applied);
+
+    UPDATE transactions
+    SET reference_id = v_payment.id, category = 'Payment', matched = true
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    v_creditor_id := v_bill.creditor_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown document type %', p_document_type;
+  END IF;
+
+  IF NULLIF(trim(p_rule_pattern), '') IS NOT NULL
+     AND (v_creditor_id IS NOT NULL OR v_customer_id IS NOT NULL) THEN
+    INSERT INTO match_rules (business_id, pattern, creditor_id, customer_id)
+    VALUES (v_transaction.business_id, trim(p_rule_pattern), v_creditor_id, v_customer_id)
+    ON CONFLICT (business_id, lower(pattern)) DO UPDATE
+    SET creditor_id = EXCLUDED.creditor_id,
+        customer_id = EXCLUDED.customer_id,
+        hits = CASE
+          WHEN match_rules.creditor_id IS NOT DISTINCT FROM EXCLUDED.creditor_id
+           AND match_rules.customer_id IS NOT DISTINCT FROM EXCLUDED.customer_id
+          THEN match_rules.hits + 1
+          ELSE 1
+        END,
+        updated_at = now();
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$;
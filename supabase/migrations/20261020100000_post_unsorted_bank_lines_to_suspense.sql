@@ -0,0 +1,82 @@
+/*
+  # Hold uncategorised bank lines in a suspense account
+
+  1. Changes
+    - New system account 2900 Suspense (LIABILITY, `SUSPENSE`)
+    - Bank transactions that stand on their own but have no category, or are
+      still marked Imported, Payment, Receipt or Transfer, are posted against
+      Suspense instead of Other Income / Other Expenses. These are the lines
+      the profit and loss report leaves out (`SETTLEMENT_CATEGORIES`), so the
+      ledger and the report now agree; the line moves to an income or expense
+      account once it is categorised
+    - Existing bank transactions are reposted
+*/
+
+CREATE OR REPLACE FUNCTION ensure_ledger_accounts(p_business_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO ledger_accounts (business_id, code, name, account_type, system_key)
+  VALUES
+    (p_business_id, '1000', 'Cash in Hand', 'ASSET', 'CASH'),
+    (p_business_id, '1200', 'Accounts Receivable', 'ASSET', 'ACCOUNTS_RECEIVABLE'),
+    (p_business_id, '1300', 'GST Input Credit', 'ASSET', 'GST_INPUT'),
+    (p_business_id, '2000', 'Accounts Payable', 'LIABILITY', 'ACCOUNTS_PAYABLE'),
+    (p_business_id, '2100', 'GST Payable', 'LIABILITY', 'GST_PAYABLE'),
+    (p_business_id, '2900', 'Suspense', 'LIABILITY', 'SUSPENSE'),
+    (p_business_id, '3000', 'Opening Balance Equity', 'EQUITY', 'OPENING_BALANCE'),
+    (p_business_id, '4000', 'Sales', 'INCOME', 'SALES'),
+    (p_business_id, '4900', 'Other Income', 'INCOME', 'OTHER_INCOME'),
+    (p_business_id, '5000', 'Purchases', 'EXPENSE', 'PURCHASES'),
+    (p_business_id, '6000', 'Bills & Services', 'EXPENSE', 'BILLS'),
+    (p_business_id, '6900', 'Other Expenses', 'EXPENSE', 'OTHER_EXPENSES')
+  ON CONFLICT DO NOTHING;
+$$;
+
+-- Income and expense accounts are created the first time a category is used;
+-- lines nobody has categorised wait in Suspense
+CREATE OR REPLACE FUNCTION category_ledger_account(p_business_id uuid, p_category text, p_account_type text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_account_id uuid;
+  v_category text := NULLIF(trim(p_category), '');
+BEGIN
+  IF v_category IS NULL OR v_category IN ('Imported', 'Payment', 'Receipt', 'Transfer') THEN
+    RETURN system_ledger_account(p_business_id, 'SUSPENSE');
+  END IF;
+
+  SELECT id INTO v_account_id
+  FROM ledger_accounts
+  WHERE business_id = p_business_id
+    AND account_type = p_account_type
+    AND lower(name) = lower(v_category)
+    AND bank_account_id IS NULL
+  ORDER BY system_key NULLS LAST
+  LIMIT 1;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO ledger_accounts (business_id, code, name, account_type)
+    VALUES (
+      p_business_id,
+      CASE WHEN p_account_type = 'INCOME'
+        THEN next_ledger_account_code(p_business_id, 4100, 4899)
+        ELSE next_ledger_account_code(p_business_id, 6100, 6899)
+      END,
+      v_category,
+      p_account_type
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+SELECT ensure_ledger_accounts(id) FROM businesses;
+
+SELECT post_transaction_journal(id)
+FROM transactions
+WHERE reference_id IS NULL
+  AND transfer_id IS NULL;
@@ -0,0 +1,43 @@
+/*
+  # Check receipt allocations against the invoice balance
+
+  1. Changes to posting functions
+    - `apply_invoice_payment` locks the invoice and raises when a receipt
+      would take `amount_paid` above the invoice total, or a reversal would
+      take it below zero, instead of clamping. Two devices allocating to the
+      same invoice at once can no longer overpay it and lose the excess from
+      the customer's credit
+    - Draft and cancelled invoices still keep their status
+*/
+
+CREATE OR REPLACE FUNCTION apply_invoice_payment(p_invoice_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+
+  IF v_invoice.amount_paid + p_amount < 0 THEN
+    RAISE EXCEPTION 'Invoice % has only % received against it', v_invoice.invoice_number, v_invoice.amount_paid;
+  END IF;
+
+  IF v_invoice.amount_paid + p_amount > v_invoice.total_amount THEN
+    RAISE EXCEPTION 'Receipt exceeds the balance of invoice %', v_invoice.invoice_number;
+  END IF;
+
+  UPDATE invoices
+  SET amount_paid = amount_paid + p_amount,
+      status = CASE
+        WHEN status IN ('DRAFT', 'CANCELLED') THEN status
+        WHEN amount_paid + p_amount >= total_amount THEN 'PAID'
+        WHEN amount_paid + p_amount > 0 THEN 'PARTIAL'
+        ELSE 'SENT'
+      END
+  WHERE id = p_invoice_id;
+END;
+$$;
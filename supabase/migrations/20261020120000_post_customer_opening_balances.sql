@@ -0,0 +1,137 @@
+/*
+  # Post customer opening balances to the ledger
+
+  1. Changes
+    - `journal_entries.source_type` accepts CUSTOMER
+    - A customer's opening balance is debited to Accounts Receivable against
+      Opening Balance Equity, dated when the customer was created, mirroring
+      the creditor entry. Accounts Receivable in the trial balance and
+      balance sheet again equals the sum of customer receivables
+
+  2. New Functions
+    - `post_customer_journal` - posts one customer's opening balance
+    - A trigger on `customers` keeps the entry in step on insert, delete and
+      changes to the name or opening balance
+    - `rebuild_journal` reposts customers too
+
+  3. Existing customers are posted
+*/
+
+ALTER TABLE journal_entries DROP CONSTRAINT IF EXISTS journal_entries_source_type_check;
+ALTER TABLE journal_entries ADD CONSTRAINT journal_entries_source_type_check
+  CHECK (source_type IN (
+    'PURCHASE', 'BILL', 'PAYMENT', 'INVOICE', 'RECEIPT', 'TRANSACTION', 'TRANSFER', 'BANK_ACCOUNT', 'CREDITOR',
+    'EXPENSE', 'CUSTOMER'
+  ));
+
+CREATE OR REPLACE FUNCTION post_customer_journal(p_customer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_customer customers;
+BEGIN
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    PERFORM remove_journal_entry('CUSTOMER', p_customer_id);
+    RETURN;
+  END IF;
+
+  PERFORM replace_journal_entry(
+    v_customer.business_id, 'CUSTOMER', v_customer.id, v_customer.created_at::date,
+    'Opening balance owed by ' || v_customer.name,
+    jsonb_build_array(
+      jsonb_build_object('account_id', system_ledger_account(v_customer.business_id, 'ACCOUNTS_RECEIVABLE'),
+        'debit', v_customer.opening_balance),
+      jsonb_build_object('account_id', system_ledger_account(v_customer.business_id, 'OPENING_BALANCE'),
+        'credit', v_customer.opening_balance)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_journal_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM remove_journal_entry(TG_ARGV[0], OLD.id);
+    RETURN NULL;
+  END IF;
+
+  v_source_id := NEW.id;
+
+  CASE TG_ARGV[0]
+    WHEN 'PURCHASE' THEN PERFORM post_purchase_journal(v_source_id);
+    WHEN 'BILL' THEN PERFORM post_bill_journal(v_source_id);
+    WHEN 'INVOICE' THEN PERFORM post_invoice_journal(v_source_id);
+    WHEN 'PAYMENT' THEN PERFORM post_payment_journal(v_source_id);
+    WHEN 'RECEIPT' THEN PERFORM post_receipt_journal(v_source_id);
+    WHEN 'TRANSACTION' THEN PERFORM post_transaction_journal(v_source_id);
+    WHEN 'TRANSFER' THEN PERFORM post_transfer_journal(v_source_id);
+    WHEN 'EXPENSE' THEN PERFORM post_expense_journal(v_source_id);
+    WHEN 'BANK_ACCOUNT' THEN
+      UPDATE ledger_accounts SET name = NEW.name WHERE bank_account_id = v_source_id AND name <> NEW.name;
+      PERFORM post_bank_account_journal(v_source_id);
+    WHEN 'CREDITOR' THEN PERFORM post_creditor_journal(v_source_id);
+    WHEN 'CUSTOMER' THEN PERFORM post_customer_journal(v_source_id);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_journal_entry ON customers;
+CREATE TRIGGER sync_journal_entry
+  AFTER INSERT OR DELETE OR UPDATE OF name, opening_balance ON customers
+  FOR EACH ROW EXECUTE FUNCTION sync_journal_entry('CUSTOMER');
+
+CREATE OR REPLACE FUNCTION rebuild_journal(p_business_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  PERFORM ensure_ledger_accounts(p_business_id);
+
+  FOR v_id IN SELECT id FROM bank_accounts WHERE business_id = p_business_id LOOP
+    PERFORM post_bank_account_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM creditors WHERE business_id = p_business_id LOOP
+    PERFORM post_creditor_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM customers WHERE business_id = p_business_id LOOP
+    PERFORM post_customer_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM purchases WHERE business_id = p_business_id LOOP
+    PERFORM post_purchase_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM bills WHERE business_id = p_business_id LOOP
+    PERFORM post_bill_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM invoices WHERE business_id = p_business_id LOOP
+    PERFORM post_invoice_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM payments WHERE business_id = p_business_id LOOP
+    PERFORM post_payment_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM receipts WHERE business_id = p_business_id LOOP
+    PERFORM post_receipt_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM transfers WHERE business_id = p_business_id LOOP
+    PERFORM post_transfer_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM expenses WHERE business_id = p_business_id LOOP
+    PERFORM post_expense_journal(v_id);
+  END LOOP;
+  FOR v_id IN SELECT id FROM transactions WHERE business_id = p_business_id LOOP
+    PERFORM post_transaction_journal(v_id);
+  END LOOP;
+END;
+$$;
+
+SELECT post_customer_journal(id) FROM customers;
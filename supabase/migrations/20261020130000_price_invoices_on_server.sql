@@ -0,0 +1,215 @@
+/*
+  # Price invoice lines in the database
+
+  1. New Functions
+    - `is_inter_state_supply` - whether a supply to the given state is
+      charged IGST, mirroring `isInterStateSupply` in the app
+    - `price_gst_line` - the taxable value, tax and CGST/SGST/IGST split of
+      one line, mirroring `calculateGstLine` in the app
+
+  2. Changes
+    - `write_invoice_lines` prices each line from its quantity, unit price
+      and GST rate with `price_gst_line`, and writes the header totals from the
+      lines, the same way `write_purchase_lines` does. Amounts sent by the app
+      are ignored, so a stale or tampered client cannot save an invoice whose
+      total does not match its lines
+    - `post_invoice` and `update_invoice` no longer take the header totals
+    - `update_invoice` checks the repriced total against what has already
+      been received
+*/
+
+DROP FUNCTION IF EXISTS post_invoice(
+  uuid, text, date, date, uuid, text, text, boolean,
+  numeric, numeric, numeric, numeric, numeric, numeric, text, text, jsonb
+);
+DROP FUNCTION IF EXISTS update_invoice(
+  uuid, text, date, date, uuid, text, text, boolean,
+  numeric, numeric, numeric, numeric, numeric, numeric, text, text, jsonb
+);
+DROP FUNCTION IF EXISTS write_invoice_lines(uuid, jsonb);
+
+-- Unknown states are priced as a local supply
+CREATE OR REPLACE FUNCTION is_inter_state_supply(p_business_id uuid, p_place_of_supply text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(business_state_code(p_business_id) <> p_place_of_supply, false);
+$$;
+
+CREATE OR REPLACE FUNCTION price_gst_line(
+  p_quantity numeric,
+  p_rate numeric,
+  p_discount_percent numeric,
+  p_tax_percent numeric,
+  p_inter_state boolean
+)
+RETURNS TABLE (
+  taxable_amount numeric,
+  tax_amount numeric,
+  cgst_amount numeric,
+  sgst_amount numeric,
+  igst_amount numeric,
+  amount numeric
+)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    priced.taxable,
+    priced.tax,
+    CASE WHEN p_inter_state THEN 0 ELSE round(priced.tax / 2, 2) END,
+    CASE WHEN p_inter_state THEN 0 ELSE priced.tax - round(priced.tax / 2, 2) END,
+    CASE WHEN p_inter_state THEN priced.tax ELSE 0 END,
+    priced.taxable + priced.tax
+  FROM (
+    SELECT base.taxable, round(base.taxable * COALESCE(p_tax_percent, 0) / 100, 2) AS tax
+    FROM (
+      SELECT round(p_quantity * p_rate * (1 - COALESCE(p_discount_percent, 0) / 100), 2) AS taxable
+    ) base
+  ) priced;
+$$;
+
+CREATE OR REPLACE FUNCTION write_invoice_lines(p_invoice_id uuid, p_line_items jsonb)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+  v_inter_state boolean;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  v_inter_state := is_inter_state_supply(v_invoice.business_id, v_invoice.place_of_supply);
+
+  DELETE FROM invoice_line_items WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_line_items (
+    invoice_id, item_id, description, hsn_code, quantity, unit_price, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, sort_order
+  )
+  SELECT
+    p_invoice_id, l.item_id, l.description, NULLIF(trim(l.hsn_code), ''), l.quantity, l.unit_price,
+    COALESCE(l.tax_percent, 0),
+    priced.taxable_amount, priced.tax_amount, priced.cgst_amount, priced.sgst_amount, priced.igst_amount,
+    priced.amount,
+    (l.ordinality - 1)::integer
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_line_items) AS (
+      item_id uuid, description text, hsn_code text, quantity numeric, unit_price numeric, tax_percent numeric
+    )
+  ) WITH ORDINALITY AS l(item_id, description, hsn_code, quantity, unit_price, tax_percent, ordinality)
+  CROSS JOIN LATERAL price_gst_line(l.quantity, l.unit_price, 0, l.tax_percent, v_inter_state) priced;
+
+  -- Under reverse charge the customer pays the tax to the government
+  UPDATE invoices i
+  SET subtotal = totals.subtotal,
+      tax_amount = totals.tax,
+      cgst_amount = totals.cgst,
+      sgst_amount = totals.sgst,
+      igst_amount = totals.igst,
+      total_amount = totals.subtotal + CASE WHEN i.reverse_charge THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT
+      COALESCE(SUM(taxable_amount), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM invoice_line_items
+    WHERE invoice_id = p_invoice_id
+  ) totals
+  WHERE i.id = p_invoice_id
+  RETURNING i.* INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_invoice(
+  p_business_id uuid,
+  p_invoice_number text,
+  p_invoice_date date,
+  p_due_date date,
+  p_customer_id uuid,
+  p_customer_name text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  INSERT INTO invoices (
+    business_id, invoice_number, invoice_date, due_date, customer_id, customer_name,
+    place_of_supply, reverse_charge, total_amount, status, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'INVOICE', p_invoice_number, p_invoice_date),
+    p_invoice_date, p_due_date, p_customer_id, p_customer_name,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), 0, p_status, p_notes
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN write_invoice_lines(v_invoice.id, p_line_items);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_invoice(
+  p_invoice_id uuid,
+  p_invoice_number text,
+  p_invoice_date date,
+  p_due_date date,
+  p_customer_id uuid,
+  p_customer_name text,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous invoices;
+  v_invoice invoices;
+BEGIN
+  SELECT * INTO v_previous FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+
+  IF v_previous.amount_paid > 0 AND p_customer_id IS DISTINCT FROM v_previous.customer_id THEN
+    RAISE EXCEPTION 'Customer cannot change while receipts are applied to the invoice';
+  END IF;
+
+  UPDATE invoices
+  SET invoice_number = p_invoice_number,
+      invoice_date = p_invoice_date,
+      due_date = p_due_date,
+      customer_id = p_customer_id,
+      customer_name = p_customer_name,
+      place_of_supply = p_place_of_supply,
+      reverse_charge = COALESCE(p_reverse_charge, false),
+      status = p_status,
+      notes = p_notes
+  WHERE id = p_invoice_id;
+
+  v_invoice := write_invoice_lines(p_invoice_id, p_line_items);
+
+  IF v_invoice.total_amount < v_invoice.amount_paid THEN
+    RAISE EXCEPTION 'Invoice total cannot be less than the amount already received';
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
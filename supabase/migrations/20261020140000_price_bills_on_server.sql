@@ -0,0 +1,164 @@
+/*
+  # Price bill lines in the database
+
+  1. Changes
+    - `write_bill_lines` prices each line from its quantity, unit price and
+      GST rate with `price_gst_line`, and writes the header totals from the
+      lines, as `write_invoice_lines` does. Amounts sent by the app are
+      ignored, so a stale or tampered client cannot save a bill whose total
+      does not match its lines
+    - `post_bill` and `update_bill` no longer take the header totals
+    - `update_bill` checks the repriced total against what has already been
+      paid
+*/
+
+DROP FUNCTION IF EXISTS post_bill(
+  uuid, text, date, date, uuid, text, boolean,
+  numeric, numeric, numeric, numeric, numeric, numeric, text, text, jsonb
+);
+DROP FUNCTION IF EXISTS update_bill(
+  uuid, text, date, date, uuid, text, boolean,
+  numeric, numeric, numeric, numeric, numeric, numeric, text, text, jsonb
+);
+DROP FUNCTION IF EXISTS write_bill_lines(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION write_bill_lines(p_bill_id uuid, p_line_items jsonb)
+RETURNS bills
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill bills;
+  v_inter_state boolean;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_line_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A bill needs at least one line';
+  END IF;
+
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id;
+  v_inter_state := is_inter_state_supply(v_bill.business_id, v_bill.place_of_supply);
+
+  DELETE FROM bill_line_items WHERE bill_id = p_bill_id;
+
+  INSERT INTO bill_line_items (
+    bill_id, description, hsn_code, quantity, unit_price, tax_percent,
+    taxable_amount, tax_amount, cgst_amount, sgst_amount, igst_amount, amount, sort_order
+  )
+  SELECT
+    p_bill_id, l.description, NULLIF(trim(l.hsn_code), ''), l.quantity, l.unit_price,
+    COALESCE(l.tax_percent, 0),
+    priced.taxable_amount, priced.tax_amount, priced.cgst_amount, priced.sgst_amount, priced.igst_amount,
+    priced.amount,
+    (l.ordinality - 1)::integer
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_line_items) AS (
+      description text, hsn_code text, quantity numeric, unit_price numeric, tax_percent numeric
+    )
+  ) WITH ORDINALITY AS l(description, hsn_code, quantity, unit_price, tax_percent, ordinality)
+  CROSS JOIN LATERAL price_gst_line(l.quantity, l.unit_price, 0, l.tax_percent, v_inter_state) priced;
+
+  -- Under reverse charge the tax is paid to the government, not the creditor
+  UPDATE bills b
+  SET subtotal = totals.subtotal,
+      tax_amount = totals.tax,
+      cgst_amount = totals.cgst,
+      sgst_amount = totals.sgst,
+      igst_amount = totals.igst,
+      total_amount = totals.subtotal + CASE WHEN b.reverse_charge THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT
+      COALESCE(SUM(taxable_amount), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM bill_line_items
+    WHERE bill_id = p_bill_id
+  ) totals
+  WHERE b.id = p_bill_id
+  RETURNING b.* INTO v_bill;
+
+  RETURN v_bill;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_bill(
+  p_business_id uuid,
+  p_bill_number text,
+  p_issue_date date,
+  p_due_date date,
+  p_creditor_id uuid,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS bills
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_bill bills;
+BEGIN
+  INSERT INTO bills (
+    business_id, bill_number, issue_date, due_date, creditor_id,
+    place_of_supply, reverse_charge, total_amount, status, notes
+  )
+  VALUES (
+    p_business_id, document_number_or_next(p_business_id, 'BILL', p_bill_number, p_issue_date),
+    p_issue_date, p_due_date, p_creditor_id,
+    p_place_of_supply, COALESCE(p_reverse_charge, false), 0, p_status, p_notes
+  )
+  RETURNING * INTO v_bill;
+
+  RETURN write_bill_lines(v_bill.id, p_line_items);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_bill(
+  p_bill_id uuid,
+  p_bill_number text,
+  p_issue_date date,
+  p_due_date date,
+  p_creditor_id uuid,
+  p_place_of_supply text,
+  p_reverse_charge boolean,
+  p_status text,
+  p_notes text,
+  p_line_items jsonb
+)
+RETURNS bills
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous bills;
+  v_bill bills;
+BEGIN
+  SELECT * INTO v_previous FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF v_previous.amount_paid > 0 AND p_creditor_id IS DISTINCT FROM v_previous.creditor_id THEN
+    RAISE EXCEPTION 'Creditor cannot change while payments are applied to the bill';
+  END IF;
+
+  UPDATE bills
+  SET bill_number = p_bill_number,
+      issue_date = p_issue_date,
+      due_date = p_due_date,
+      creditor_id = p_creditor_id,
+      place_of_supply = p_place_of_supply,
+      reverse_charge = COALESCE(p_reverse_charge, false),
+      status = p_status,
+      notes = p_notes
+  WHERE id = p_bill_id;
+
+  v_bill := write_bill_lines(p_bill_id, p_line_items);
+
+  IF v_bill.total_amount < v_bill.amount_paid THEN
+    RAISE EXCEPTION 'Bill total cannot be less than the amount already paid';
+  END IF;
+
+  RETURN v_bill;
+END;
+$$;
@@ -0,0 +1,37 @@
+/*
+  # Keep the bank's own id for imported statement lines
+
+  1. Changes
+    - `transactions.statement_id` holds the id the bank gave a statement line
+      (the OFX FITID), so a statement imported twice can be recognised even
+      when the bank rewrites the description
+    - A line id is unique within its bank account
+    - Lines imported before this change carried the id in their notes as
+      `Statement ref <id>`; it is moved to the new column. Where a statement
+      was already imported twice only the earliest copy takes the id
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS statement_id text;
+
+WITH imported AS (
+  SELECT
+    id,
+    substring(notes FROM '^Statement ref (.+)$') AS statement_id,
+    row_number() OVER (
+      PARTITION BY account_id, substring(notes FROM '^Statement ref (.+)$')
+      ORDER BY created_at, id
+    ) AS copy
+  FROM transactions
+  WHERE notes LIKE 'Statement ref %'
+)
+UPDATE transactions t
+SET statement_id = imported.statement_id,
+    notes = NULL
+FROM imported
+WHERE t.id = imported.id
+  AND imported.copy = 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_account_statement_id_key
+  ON transactions (account_id, statement_id)
+  WHERE statement_id IS NOT NULL;
@@ -0,0 +1,19 @@
+/*
+  # Reject match rules that match every description
+
+  1. Changes
+    - A rule whose pattern has no letters or digits normalizes to an empty
+      string in the matcher (see `suggestMatches`) and so matched every bank
+      line. Such rules are deleted, and a check on `match_rules` stops
+      `accept_transaction_match` from saving new ones
+*/
+
+DELETE FROM match_rules
+WHERE regexp_replace(lower(pattern), '[^a-z0-9]+', '', 'g') = '';
+
+ALTER TABLE match_rules
+  DROP CONSTRAINT IF EXISTS match_rules_pattern_check;
+
+ALTER TABLE match_rules
+  ADD CONSTRAINT match_rules_pattern_check
+  CHECK (regexp_replace(lower(pattern), '[^a-z0-9]+', '', 'g') <> '');
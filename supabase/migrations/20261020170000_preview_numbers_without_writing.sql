@@ -0,0 +1,194 @@
+/*
+  # Preview document numbers without writing
+
+  1. New Functions
+    - `default_document_settings` - the settings a business gets for a
+      document type it has not set up, without saving them
+    - `document_number_stem` - the part of a number before the running
+      number, e.g. `PUR/24-25/`
+    - `highest_document_number` - the highest running number already used
+      under a stem
+
+  2. Changes
+    - `preview_document_number` no longer creates the settings row, so
+      opening a form only reads. The row is still created the first time a
+      number is allocated (`ensure_document_settings`)
+    - `next_document_number` skips past numbers taken by hand with a single
+      max lookup instead of checking candidates one at a time. With a
+      financial-year reset, numbering a back-dated document used to probe
+      every number of that year from 1
+    - `document_number_exists` is dropped
+*/
+
+CREATE OR REPLACE FUNCTION default_document_settings(p_business_id uuid, p_document_type text)
+RETURNS document_settings
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_settings document_settings;
+  v_highest numeric;
+BEGIN
+  v_settings.business_id := p_business_id;
+  v_settings.document_type := p_document_type;
+  v_settings.prefix := CASE p_document_type
+    WHEN 'INVOICE' THEN 'INV'
+    WHEN 'PURCHASE' THEN 'PUR'
+    WHEN 'PAYMENT' THEN 'PAY'
+    WHEN 'RECEIPT' THEN 'RCP'
+    WHEN 'BILL' THEN 'BILL'
+    WHEN 'TRANSFER' THEN 'TRF'
+    WHEN 'EXPENSE' THEN 'EXP'
+  END;
+
+  IF v_settings.prefix IS NULL THEN
+    RAISE EXCEPTION 'Unknown document type %', p_document_type;
+  END IF;
+
+  -- Compared as numbers, not text, so the sequence carries on past 9999
+  EXECUTE format(
+    'SELECT MAX(substring(%I FROM ''(\d+)$'')::numeric) FROM %I WHERE business_id = $1',
+    lower(p_document_type) || '_number',
+    lower(p_document_type) || 's'
+  )
+  INTO v_highest
+  USING p_business_id;
+
+  v_settings.separator := '-';
+  v_settings.padding := 4;
+  v_settings.financial_year_reset := false;
+  v_settings.next_number := LEAST(COALESCE(v_highest, 0) + 1, 2147483647)::integer;
+  v_settings.accent_color := '#4f46e5';
+  v_settings.show_logo := true;
+  v_settings.show_signatures := true;
+  v_settings.created_at := now();
+  v_settings.updated_at := now();
+
+  RETURN v_settings;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ensure_document_settings(p_business_id uuid, p_document_type text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_document_type text;
+BEGIN
+  FOR v_document_type IN
+    SELECT t.document_type
+    FROM unnest(ARRAY['INVOICE', 'PURCHASE', 'PAYMENT', 'RECEIPT', 'BILL', 'TRANSFER', 'EXPENSE']) AS t(document_type)
+    WHERE (p_document_type IS NULL OR t.document_type = p_document_type)
+      AND NOT EXISTS (
+        SELECT 1 FROM document_settings
+        WHERE business_id = p_business_id AND document_type = t.document_type
+      )
+  LOOP
+    INSERT INTO document_settings
+    SELECT (default_document_settings(p_business_id, v_document_type)).*
+    ON CONFLICT (business_id, document_type) DO NOTHING;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION document_number_stem(p_settings document_settings, p_year text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(p_settings.prefix) || p_settings.separator
+    || CASE WHEN p_settings.financial_year_reset THEN p_year || p_settings.separator ELSE '' END;
+$$;
+
+CREATE OR REPLACE FUNCTION format_document_number(p_settings document_settings, p_year text, p_number integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT document_number_stem(p_settings, p_year)
+    || lpad(p_number::text, GREATEST(p_settings.padding, length(p_number::text)), '0');
+$$;
+
+-- Every document table is named after its type and keeps its number in
+-- <type>_number. Only numbers that are the stem followed by digits count
+CREATE OR REPLACE FUNCTION highest_document_number(p_business_id uuid, p_document_type text, p_stem text)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_highest numeric;
+BEGIN
+  EXECUTE format(
+    'SELECT MAX(substring(%1$I FROM length($2) + 1)::numeric) FROM %2$I
+     WHERE business_id = $1 AND left(%1$I, length($2)) = $2 AND substring(%1$I FROM length($2) + 1) ~ ''^\d+$''',
+    lower(p_document_type) || '_number',
+    lower(p_document_type) || 's'
+  )
+  INTO v_highest
+  USING p_business_id, p_stem;
+
+  RETURN LEAST(COALESCE(v_highest, 0), 2147483646)::integer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION next_document_number(
+  p_business_id uuid,
+  p_document_type text,
+  p_date date,
+  p_allocate boolean
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings document_settings;
+  v_year text;
+  v_number integer;
+BEGIN
+  IF p_allocate THEN
+    PERFORM ensure_document_settings(p_business_id, p_document_type);
+
+    SELECT * INTO v_settings
+    FROM document_settings
+    WHERE business_id = p_business_id AND document_type = p_document_type
+    FOR UPDATE;
+  ELSE
+    SELECT * INTO v_settings
+    FROM document_settings
+    WHERE business_id = p_business_id AND document_type = p_document_type;
+
+    IF NOT FOUND THEN
+      v_settings := default_document_settings(p_business_id, p_document_type);
+    END IF;
+  END IF;
+
+  v_year := financial_year_label(COALESCE(p_date, CURRENT_DATE));
+  v_number := v_settings.next_number;
+
+  -- A sequence that has not been used yet carries its number into the year
+  IF v_settings.financial_year_reset
+    AND v_settings.sequence_year IS NOT NULL
+    AND v_settings.sequence_year <> v_year THEN
+    v_number := 1;
+  END IF;
+
+  -- Numbers typed in by hand are skipped
+  v_number := GREATEST(
+    v_number,
+    highest_document_number(p_business_id, p_document_type, document_number_stem(v_settings, v_year)) + 1
+  );
+
+  IF p_allocate THEN
+    UPDATE document_settings
+    SET next_number = v_number + 1,
+        sequence_year = v_year,
+        updated_at = now()
+    WHERE business_id = p_business_id AND document_type = p_document_type;
+  END IF;
+
+  RETURN format_document_number(v_settings, v_year, v_number);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS document_number_exists(uuid, text, text);